@@ -9,6 +9,7 @@ import { compress } from 'hono/compress';
 import { env } from '@config/env';
 import { logger } from '@utils/logger';
 import { ResponseBuilder } from '@utils/api-response';
+import { renderMetrics } from '@utils/metrics';
 //import type { Context } from 'hono';
 
 // Create Hono app
@@ -113,6 +114,15 @@ app.get('/health', async (c) => {
   return c.json(health, dbHealthy ? 200 : 503);
 });
 
+// Prometheus metrics
+if (env.ENABLE_METRICS) {
+  app.get('/metrics', async (c) => {
+    const { body, contentType } = await renderMetrics();
+    c.header('Content-Type', contentType);
+    return c.body(body);
+  });
+}
+
 // Welcome route
 app.get('/', (c) => {
   return ResponseBuilder.success(c, {
@@ -127,4 +137,10 @@ app.get('/', (c) => {
 // API v1 routes
 app.route('/api/v1', await import('./routes/v1/index').then(m => m.default));
 
+// Provider callbacks (delivery receipts)
+app.route('/webhooks', await import('@webhooks/routes/webhooks.routes').then(m => m.default));
+
+// Tracked SMS links
+app.route('/l', await import('@modules/campaigns/routes/link.routes').then(m => m.default));
+
 export default app;
\ No newline at end of file
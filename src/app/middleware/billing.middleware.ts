@@ -4,6 +4,7 @@ import { ResponseBuilder } from '@utils/api-response';
 import { logger } from '@utils/logger';
 import prisma from '@database/prisma.client';
 import { env } from '@config/env';
+import { BillingService } from '@modules/billing/services/billing.service';
 
 interface CostEstimate {
   estimatedCost: number;
@@ -89,14 +90,15 @@ export const deductBalance = createMiddleware(async (c: Context, next: Next) =>
 
   await next();
 
-  // Only deduct if the request was successful
-  if (c.res.status >= 200 && c.res.status < 300) {
+  // Only deduct if the request was successful, and the handler does not
+  // charge the account itself
+  if (c.res.status >= 200 && c.res.status < 300 && !c.get('deferredCharge')) {
     try {
       // Get actual cost from context (set by service)
       const actualCost = c.get('actualCost') as number || estimatedCost;
       const serviceType = c.get('serviceType') as string;
 
-      await deductAccountBalance(account.id, actualCost, serviceType);
+      await BillingService.deductBalance(account.id, actualCost, serviceType);
 
       logger.info({
         accountId: account.id,
@@ -113,134 +115,6 @@ export const deductBalance = createMiddleware(async (c: Context, next: Next) =>
   }
 });
 
-// Helper function to deduct balance from account
-async function deductAccountBalance(
-  accountId: string,
-  amount: number,
-  serviceType: string
-): Promise<void> {
-  const account = await prisma.account.findUnique({
-    where: { id: accountId },
-    select: {
-      walletBalance: true,
-      creditBalance: true,
-      currency: true,
-    },
-  });
-
-  if (!account) {
-    throw new Error('Account not found');
-  }
-
-  let walletDebit = 0;
-  let creditDebit = 0;
-
-  // Use credits first, then wallet balance
-  if (account.creditBalance >= amount) {
-    creditDebit = amount;
-  } else {
-    creditDebit = account.creditBalance;
-    walletDebit = amount - creditDebit;
-  }
-
-  // Update account balance
-  await prisma.account.update({
-    where: { id: accountId },
-    data: {
-      walletBalance: { decrement: walletDebit },
-      creditBalance: { decrement: creditDebit },
-      lifetimeSpent: { increment: amount },
-    },
-  });
-
-  // Create transaction record
-  const transactionType = getTransactionType(serviceType);
-
-  await prisma.transaction.create({
-    data: {
-      accountId,
-      type: transactionType,
-      amount: -amount,
-      currency: account.currency,
-      walletBefore: account.walletBalance,
-      walletAfter: account.walletBalance - walletDebit,
-      creditBefore: account.creditBalance,
-      creditAfter: account.creditBalance - creditDebit,
-      description: `${serviceType} service charge`,
-      serviceType,
-      status: 'completed',
-    },
-  });
-
-  // Check and trigger low balance webhook if threshold reached
-  const newBalance = (account.walletBalance - walletDebit) + (account.creditBalance - creditDebit);
-  if (newBalance <= env.LOW_BALANCE_THRESHOLD) {
-    triggerLowBalanceWebhook(accountId, newBalance).catch(err => 
-      logger.error({ error: err, accountId }, 'Failed to trigger low balance webhook')
-    );
-  }
-
-  // Check and trigger depleted balance webhook if balance is zero
-  if (newBalance <= 0) {
-    triggerDepletedBalanceWebhook(accountId).catch(err =>
-      logger.error({ error: err, accountId }, 'Failed to trigger depleted balance webhook')
-    );
-  }
-}
-
-// Get transaction type based on service
-function getTransactionType(serviceType: string): string {
-  const typeMap: Record<string, string> = {
-    sms: 'DEBIT',
-    email: 'EMAIL_DEBIT',
-    voice: 'VOICE_DEBIT',
-    whatsapp: 'WHATSAPP_DEBIT',
-    push: 'PUSH_DEBIT',
-    lookup: 'LOOKUP_DEBIT',
-    chat: 'CHAT_DEBIT',
-  };
-
-  return typeMap[serviceType.toLowerCase()] || 'DEBIT';
-}
-
-// Trigger low balance webhook
-async function triggerLowBalanceWebhook(accountId: string, balance: number): Promise<void> {
-  const webhooks = await prisma.webhook.findMany({
-    where: {
-      accountId,
-      isActive: true,
-      events: { has: 'BALANCE_LOW' },
-    },
-  });
-
-  for (const webhook of webhooks) {
-    // Queue webhook delivery (implement queue system)
-    logger.info({
-      webhookId: webhook.id,
-      accountId,
-      balance,
-    }, 'Triggering low balance webhook');
-  }
-}
-
-// Trigger depleted balance webhook
-async function triggerDepletedBalanceWebhook(accountId: string): Promise<void> {
-  const webhooks = await prisma.webhook.findMany({
-    where: {
-      accountId,
-      isActive: true,
-      events: { has: 'BALANCE_DEPLETED' },
-    },
-  });
-
-  for (const webhook of webhooks) {
-    logger.info({
-      webhookId: webhook.id,
-      accountId,
-    }, 'Triggering depleted balance webhook');
-  }
-}
-
 // Check daily/monthly limits for all service types
 export const checkLimits = (serviceType: 'sms' | 'email' | 'voice' | 'whatsapp' | 'push' | 'lookup' | 'chat') => {
   return createMiddleware(async (c: Context, next: Next) => {
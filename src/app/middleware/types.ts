@@ -24,6 +24,7 @@ declare module 'hono' {
     estimatedCost: number;
     costCurrency: string;
     actualCost: number;
+    deferredCharge: boolean; // The handler charges the account itself, later
     serviceType: ServiceType;
     
     // Request tracking
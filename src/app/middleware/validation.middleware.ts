@@ -5,7 +5,7 @@ import { ResponseBuilder } from '@utils/api-response';
 import { logger } from '@utils/logger';
 
 // Custom validator that returns formatted errors
-export const validate = (target: 'json' | 'query' | 'param' | 'header', schema: z.ZodSchema) => {
+export const validate = (target: 'json' | 'form' | 'query' | 'param' | 'header', schema: z.ZodSchema) => {
   return zValidator(target, schema, (result, c) => {
     if (!result.success) {
       const errors = result.error.errors.map(err => ({
@@ -5,6 +5,15 @@ import { ResponseBuilder } from '@utils/api-response';
 import smsRouter from '@modules/sms/routes/sms.routes';
 import verifyRouter from '@modules/verify/routes/verify.routes';
 import emailRouter from '@modules/email/routes/email.routes';
+import adminRouter from '@modules/admin/routes/admin.routes';
+import lookupRouter from '@modules/lookup/routes/lookup.routes';
+import webhookRouter from '@modules/webhooks/routes/webhook.routes';
+import conversationRouter from '@modules/conversations/routes/conversation.routes';
+import suppressionRouter from '@modules/suppressions/routes/suppression.routes';
+import sendWindowRouter from '@modules/send-windows/routes/send-window.routes';
+import senderIdRouter from '@modules/sender-ids/routes/sender-id.routes';
+import contactRouter from '@modules/contacts/routes/contact.routes';
+import campaignRouter from '@modules/campaigns/routes/campaign.routes';
 
 const v1Router = new Hono();
 
@@ -20,6 +29,10 @@ v1Router.get('/', (c) => {
         list: 'GET /api/v1/sms',
         status: 'GET /api/v1/sms/:id/status',
         analytics: 'GET /api/v1/sms/analytics/overview',
+        schedules: 'GET /api/v1/sms/schedules',
+        inbound: 'GET /api/v1/sms/inbound',
+        keywords: 'GET /api/v1/sms/keywords',
+        templates: 'GET /api/v1/sms/templates',
       },
       verify: {
         request: 'POST /api/v1/verify/otp/request',
@@ -48,9 +61,93 @@ v1Router.get('/', (c) => {
       voice: '/api/v1/voice',
       whatsapp: '/api/v1/whatsapp',
       push: '/api/v1/push',
-      lookup: '/api/v1/lookup',
+      lookup: {
+        lookup: 'POST /api/v1/lookup',
+        bulk: 'POST /api/v1/lookup/bulk',
+      },
       chat: '/api/v1/chat',
+      conversations: {
+        list: 'GET /api/v1/conversations',
+        get: 'GET /api/v1/conversations/:id',
+        messages: 'GET /api/v1/conversations/:id/messages',
+        read: 'POST /api/v1/conversations/:id/read',
+        reply: 'POST /api/v1/conversations/:id/reply',
+        assign: 'PATCH /api/v1/conversations/:id/assign',
+      },
+      contacts: {
+        list: 'GET /api/v1/contacts',
+        create: 'POST /api/v1/contacts',
+        get: 'GET /api/v1/contacts/:id',
+        update: 'PATCH /api/v1/contacts/:id',
+        delete: 'DELETE /api/v1/contacts/:id',
+        import: 'POST /api/v1/contacts/import',
+        groups: 'GET /api/v1/contacts/groups',
+        members: 'POST /api/v1/contacts/groups/:id/members',
+        fields: 'GET /api/v1/contacts/fields',
+        segments: 'GET /api/v1/contacts/segments',
+        previewSegment: 'POST /api/v1/contacts/segments/preview',
+      },
+      campaigns: {
+        list: 'GET /api/v1/campaigns',
+        create: 'POST /api/v1/campaigns',
+        get: 'GET /api/v1/campaigns/:id',
+        update: 'PATCH /api/v1/campaigns/:id',
+        delete: 'DELETE /api/v1/campaigns/:id',
+        estimate: 'POST /api/v1/campaigns/:id/estimate',
+        launch: 'POST /api/v1/campaigns/:id/launch',
+        pause: 'POST /api/v1/campaigns/:id/pause',
+        resume: 'POST /api/v1/campaigns/:id/resume',
+        cancel: 'POST /api/v1/campaigns/:id/cancel',
+      },
+      suppressions: {
+        list: 'GET /api/v1/suppressions',
+        add: 'POST /api/v1/suppressions',
+        import: 'POST /api/v1/suppressions/import',
+        export: 'GET /api/v1/suppressions/export',
+        remove: 'DELETE /api/v1/suppressions/:id',
+      },
+      sendWindows: {
+        list: 'GET /api/v1/send-windows',
+        create: 'POST /api/v1/send-windows',
+        update: 'PATCH /api/v1/send-windows/:id',
+        delete: 'DELETE /api/v1/send-windows/:id',
+      },
+      senderIds: {
+        requirements: 'GET /api/v1/sender-ids/requirements',
+        list: 'GET /api/v1/sender-ids',
+        request: 'POST /api/v1/sender-ids',
+        get: 'GET /api/v1/sender-ids/:id',
+        update: 'PATCH /api/v1/sender-ids/:id',
+        setDefault: 'POST /api/v1/sender-ids/:id/default',
+        delete: 'DELETE /api/v1/sender-ids/:id',
+      },
+      webhooks: {
+        create: 'POST /api/v1/webhooks',
+        list: 'GET /api/v1/webhooks',
+        get: 'GET /api/v1/webhooks/:id',
+        update: 'PATCH /api/v1/webhooks/:id',
+        delete: 'DELETE /api/v1/webhooks/:id',
+        rotateSecret: 'POST /api/v1/webhooks/:id/rotate-secret',
+        test: 'POST /api/v1/webhooks/:id/test',
+        deliveries: 'GET /api/v1/webhooks/:id/deliveries',
+        redeliver: 'POST /api/v1/webhooks/:id/deliveries/:deliveryId/redeliver',
+      },
       billing: '/api/v1/billing',
+      admin: {
+        queues: 'GET /api/v1/admin/queues',
+        deadJobs: 'GET /api/v1/admin/queues/:queue/dead',
+        replay: 'POST /api/v1/admin/queues/:queue/dead/:jobId/replay',
+        providers: 'GET /api/v1/admin/providers',
+        providerCircuits: 'GET /api/v1/admin/providers/circuits',
+        providerCosts: 'GET /api/v1/admin/providers/costs',
+        mnpLookup: 'POST /api/v1/admin/mnp/lookup',
+        inboundRoutes: 'GET /api/v1/admin/inbound-routes',
+        suppressions: 'GET /api/v1/admin/suppressions',
+        sendWindows: 'GET /api/v1/admin/send-windows',
+        templates: 'GET /api/v1/admin/templates',
+        senderIds: 'GET /api/v1/admin/sender-ids',
+        margins: 'GET /api/v1/admin/reports/margins',
+      },
     },
     documentation: '/docs',
   }, 'AfriCom API v1');
@@ -78,6 +175,33 @@ v1Router.route('/verify', verifyRouter);
 // Email routes
 v1Router.route('/email', emailRouter);
 
+// Lookup routes
+v1Router.route('/lookup', lookupRouter);
+
+// Webhook routes
+v1Router.route('/webhooks', webhookRouter);
+
+// Conversation routes
+v1Router.route('/conversations', conversationRouter);
+
+// Contact routes
+v1Router.route('/contacts', contactRouter);
+
+// Campaign routes
+v1Router.route('/campaigns', campaignRouter);
+
+// Suppression list routes
+v1Router.route('/suppressions', suppressionRouter);
+
+// Send window (quiet hours) routes
+v1Router.route('/send-windows', sendWindowRouter);
+
+// Sender ID registration routes
+v1Router.route('/sender-ids', senderIdRouter);
+
+// Admin routes
+v1Router.route('/admin', adminRouter);
+
 
 
 // v1Router.route('/billing', billingRouter);
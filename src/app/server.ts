@@ -3,6 +3,16 @@ import app from './app';
 import { env } from '@config/env';
 import { logger } from '@utils/logger';
 import { connectDatabase, disconnectDatabase } from '@database/prisma.client';
+import { closeRedisClient } from '@services/cache/redis.client';
+import { QueueManager } from '@services/queue/queue.manager';
+import { JobProcessor } from '@services/queue/job.processor';
+import { SMSSchedulerService } from '@modules/sms/services/sms-scheduler.service';
+import { DeliveryReconcilerService } from '@modules/sms/services/delivery-reconciler.service';
+import { SMSQueueService } from '@modules/sms/services/sms-queue.service';
+import { BulkSMSService } from '@modules/sms/services/bulk-sms.service';
+import { WebhookDispatcher } from '@modules/webhooks/services/webhook-dispatcher.service';
+import { CampaignDispatchService } from '@modules/campaigns/services/campaign-dispatch.service';
+import { SMSProviderFactory } from '@core/providers/sms';
 
 // ============================================
 // STARTUP
@@ -41,6 +51,32 @@ async function startServer() {
 
     logger.info(`✅ Server is running on ${env.APP_URL}`);
 
+    // ============================================
+    // BACKGROUND WORKERS
+    // ============================================
+
+    // Queue handlers are registered everywhere so admin tools can see them;
+    // only instances with ENABLE_QUEUE process jobs
+    SMSQueueService.register();
+    BulkSMSService.register();
+    CampaignDispatchService.register();
+    WebhookDispatcher.register();
+
+    if (env.ENABLE_QUEUE) {
+      JobProcessor.start();
+    }
+
+    if (env.SMS_SCHEDULER_ENABLED) {
+      SMSSchedulerService.start();
+    }
+
+    if (env.SMS_RECONCILER_ENABLED) {
+      DeliveryReconcilerService.start();
+    }
+
+    // Pick up provider edits made through other instances
+    SMSProviderFactory.startAutoReload();
+
     // ============================================
     // GRACEFUL SHUTDOWN
     // ============================================
@@ -53,6 +89,14 @@ async function startServer() {
         logger.info('HTTP server closed');
       });
 
+      // Stop background workers before the database goes away
+      SMSProviderFactory.stopAutoReload();
+      await SMSSchedulerService.stop();
+      await DeliveryReconcilerService.stop();
+      await JobProcessor.stop();
+      await QueueManager.close();
+      await closeRedisClient();
+
       // Disconnect database
       await disconnectDatabase();
 
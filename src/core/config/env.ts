@@ -94,6 +94,10 @@ const envSchema = z.object({
   WEBHOOK_SECRET: z.string().optional(),
   WEBHOOK_TIMEOUT: z.string().transform(Number).default('10000'),
   WEBHOOK_MAX_RETRIES: z.string().transform(Number).default('3'),
+  WEBHOOK_BACKOFF_BASE: z.string().transform(Number).default('30000'),
+  WEBHOOK_BACKOFF_MAX: z.string().transform(Number).default('3600000'),
+  WEBHOOK_QUEUE_CONCURRENCY: z.string().transform(Number).default('20'),
+  WEBHOOK_ENDPOINT_CONCURRENCY: z.string().transform(Number).default('5'),
 
   // Logging
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
@@ -114,6 +118,59 @@ const envSchema = z.object({
   ENABLE_RATE_LIMITING: z.string().transform(v => v === 'true').default('true'),
   ENABLE_CACHING: z.string().transform(v => v === 'true').default('true'),
   ENABLE_QUEUE: z.string().transform(v => v === 'true').default('true'),
+  ENABLE_METRICS: z.string().transform(v => v === 'true').default('true'),
+
+  // Scheduler
+  SMS_SCHEDULER_ENABLED: z.string().transform(v => v === 'true').default('true'),
+  SMS_SCHEDULER_INTERVAL: z.string().transform(Number).default('15000'),
+  SMS_SCHEDULER_BATCH_SIZE: z.string().transform(Number).default('500'),
+  SMS_SCHEDULER_STALE_CLAIM_MS: z.string().transform(Number).default('300000'),
+
+  // Delivery status reconciler
+  SMS_RECONCILER_ENABLED: z.string().transform(v => v === 'true').default('true'),
+  SMS_RECONCILER_INTERVAL: z.string().transform(Number).default('60000'),
+  SMS_RECONCILER_BATCH_SIZE: z.string().transform(Number).default('200'),
+  SMS_DELIVERY_EXPIRY_HOURS: z.string().transform(Number).default('72'),
+
+  // Job Queue
+  QUEUE_DRIVER: z.enum(['redis', 'memory']).default('redis'),
+  QUEUE_POLL_INTERVAL: z.string().transform(Number).default('1000'),
+  QUEUE_VISIBILITY_TIMEOUT: z.string().transform(Number).default('60000'),
+  QUEUE_MAX_ATTEMPTS: z.string().transform(Number).default('5'),
+  QUEUE_BACKOFF_BASE: z.string().transform(Number).default('5000'),
+  QUEUE_BACKOFF_MAX: z.string().transform(Number).default('900000'),
+  SMS_QUEUE_CONCURRENCY: z.string().transform(Number).default('50'),
+  SMS_PROVIDER_CONCURRENCY: z.string().transform(Number).default('10'),
+
+  // Bulk SMS
+  SMS_BULK_MAX_RECIPIENTS: z.string().transform(Number).default('1000000'),
+  SMS_BULK_CHUNK_SIZE: z.string().transform(Number).default('1000'),
+  SMS_BULK_CONCURRENCY: z.string().transform(Number).default('4'),
+  SMS_BULK_UPLOAD_MAX_MB: z.string().transform(Number).default('20'),
+
+  // Campaigns (send speeds in messages per minute)
+  CAMPAIGN_RATE_SLOW: z.string().transform(Number).default('60'),
+  CAMPAIGN_RATE_NORMAL: z.string().transform(Number).default('600'),
+  CAMPAIGN_RATE_FAST: z.string().transform(Number).default('3000'),
+  CAMPAIGN_CONCURRENCY: z.string().transform(Number).default('4'),
+  CAMPAIGN_LINK_BASE_URL: z.string().url().optional(), // Tracked links, defaults to APP_URL/l
+
+  // SMS Provider Circuit Breaker
+  SMS_CIRCUIT_FAILURE_THRESHOLD: z.string().transform(Number).default('5'),
+  SMS_CIRCUIT_OPEN_MS: z.string().transform(Number).default('30000'),
+  SMS_CIRCUIT_MAX_OPEN_MS: z.string().transform(Number).default('600000'),
+
+  // SMS Routing
+  SMS_ROUTING_STRATEGY: z.enum(['priority', 'cost', 'speed', 'reliability']).default('priority'),
+  SMS_ROUTING_MIN_SUCCESS_RATE: z.string().transform(Number).default('90'),
+  SMS_PROVIDER_RELOAD_INTERVAL_MS: z.string().transform(Number).default('30000'),
+  SMS_DLR_VERIFY_SIGNATURE: z.string().transform(v => v === 'true').default('true'),
+
+  // Number Portability (MNP) Lookup
+  MNP_PROVIDER: z.enum(['none', 'local']).default('none'),
+  MNP_CACHE_TTL_HOURS: z.string().transform(Number).default('168'),
+  MNP_LOOKUP_ON_SEND: z.string().transform(v => v === 'true').default('false'),
+  MNP_LOOKUP_TIMEOUT_MS: z.string().transform(Number).default('2000'),
 
   // Billing
   DEFAULT_CREDIT_RATE: z.string().transform(Number).default('1.0'),
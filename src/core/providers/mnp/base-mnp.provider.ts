@@ -0,0 +1,92 @@
+import { logger } from '@utils/logger';
+
+// Provider configuration
+export interface MNPProviderConfig {
+  name: string;
+  credentials: Record<string, any>;
+  config?: Record<string, any>;
+  supportedCountries: string[]; // '*' = every country
+  timeout?: number;
+}
+
+export type MNPLineType = 'mobile' | 'landline' | 'voip' | 'unknown';
+
+// Result of looking up one number
+export interface MNPLookupResult {
+  phone: string; // E.164
+  found: boolean;
+  country?: string;
+  network?: string; // Current (serving) network
+  operator?: string;
+  originalNetwork?: string; // Network the number range was allocated to
+  ported: boolean;
+  mcc?: string;
+  mnc?: string;
+  lineType?: MNPLineType; // Only when the provider reports it
+  reachable?: boolean; // HLR providers only: handset attached to the network
+  providerId: string;
+  error?: string; // Lookup failed; the result says nothing about the number
+}
+
+// Lookups a provider without a batch API runs at once
+const LOOKUP_CONCURRENCY = 10;
+
+/**
+ * Base MNP Provider
+ * All number portability (MNP/HLR) lookup providers must extend this class
+ */
+export abstract class BaseMNPProvider {
+  protected config: MNPProviderConfig;
+
+  constructor(config: MNPProviderConfig) {
+    this.config = config;
+
+    logger.info({
+      provider: config.name,
+      countries: config.supportedCountries,
+    }, 'MNP provider initialized');
+  }
+
+  /**
+   * Look up the current network of one number
+   */
+  abstract lookup(phone: string): Promise<MNPLookupResult>;
+
+  /**
+   * Look up several numbers. Providers with a batch API should override this.
+   */
+  async lookupMany(phones: string[]): Promise<MNPLookupResult[]> {
+    const results: MNPLookupResult[] = [];
+
+    for (let i = 0; i < phones.length; i += LOOKUP_CONCURRENCY) {
+      const batch = phones.slice(i, i + LOOKUP_CONCURRENCY);
+      results.push(...await Promise.all(batch.map(phone => this.lookup(phone))));
+    }
+
+    return results;
+  }
+
+  /**
+   * Get provider ID
+   */
+  getProviderId(): string {
+    return this.config.name.toLowerCase().replace(/\s+/g, '_');
+  }
+
+  /**
+   * Get provider name
+   */
+  getProviderName(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Check if provider supports country
+   */
+  supportsCountry(countryCode: string): boolean {
+    return this.config.supportedCountries.includes('*') ||
+      this.config.supportedCountries.includes(countryCode);
+  }
+}
+
+export default BaseMNPProvider;
@@ -0,0 +1,13 @@
+// Export all MNP provider components
+
+// Base provider
+export { BaseMNPProvider } from './base-mnp.provider';
+export type { MNPProviderConfig, MNPLookupResult, MNPLineType } from './base-mnp.provider';
+
+// Provider implementations
+export { LocalMNPProvider } from './local.provider';
+
+// Provider factory and lookup service
+export { MNPProviderFactory } from './mnp.factory';
+export { MNPLookupService } from './mnp-lookup.service';
+export type { NumberLookupResult } from './mnp-lookup.service';
@@ -0,0 +1,71 @@
+import { BaseMNPProvider } from './base-mnp.provider';
+import type { MNPProviderConfig, MNPLookupResult } from './base-mnp.provider';
+import { detectNetwork } from '@utils/phone';
+
+/**
+ * Local MNP Provider
+ * Fake provider for development and tests. The original network comes from
+ * the number prefix; numbers registered with `port()` (or listed in
+ * `config.ported` as `{ "+233241234567": "telecel" }`) are reported as ported.
+ * Makes no network calls and costs nothing.
+ */
+export class LocalMNPProvider extends BaseMNPProvider {
+  private ported: Map<string, string> = new Map();
+
+  constructor(config: MNPProviderConfig) {
+    super(config);
+
+    for (const [phone, network] of Object.entries(config.config?.ported || {})) {
+      this.port(phone, String(network));
+    }
+  }
+
+  async lookup(phone: string): Promise<MNPLookupResult> {
+    const key = this.normalize(phone);
+    const original = detectNetwork(key);
+
+    if (!original.country || !this.supportsCountry(original.country)) {
+      return {
+        phone: key,
+        found: false,
+        country: original.country || undefined,
+        ported: false,
+        providerId: this.getProviderId(),
+      };
+    }
+
+    const portedTo = this.ported.get(key);
+
+    return {
+      phone: key,
+      found: true,
+      country: original.country,
+      network: portedTo || original.network || undefined,
+      operator: portedTo || original.operator || undefined,
+      originalNetwork: original.network || undefined,
+      ported: !!portedTo && portedTo !== original.network,
+      lineType: 'mobile',
+      providerId: this.getProviderId(),
+    };
+  }
+
+  /**
+   * Mark a number as ported to another network
+   */
+  port(phone: string, network: string): void {
+    this.ported.set(this.normalize(phone), network.toLowerCase());
+  }
+
+  /**
+   * Forget all ported numbers
+   */
+  reset(): void {
+    this.ported.clear();
+  }
+
+  private normalize(phone: string): string {
+    return `+${phone.replace(/\D/g, '')}`;
+  }
+}
+
+export default LocalMNPProvider;
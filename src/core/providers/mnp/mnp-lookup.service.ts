@@ -0,0 +1,240 @@
+import { MNPProviderFactory } from './mnp.factory';
+import type { MNPLookupResult, MNPLineType } from './base-mnp.provider';
+import { logger } from '@utils/logger';
+import { env } from '@config/env';
+import { prisma } from '@database/prisma.client';
+import { mnpLookups } from '@utils/metrics';
+
+// Lookup result as returned to callers
+export interface NumberLookupResult {
+  phone: string;
+  found: boolean;
+  country: string | null;
+  network: string | null;
+  operator: string | null;
+  originalNetwork: string | null;
+  ported: boolean;
+  mcc: string | null;
+  mnc: string | null;
+  lineType: MNPLineType | null;
+  reachable: boolean | null;
+  provider: string;
+  lookedUpAt: Date;
+  expiresAt: Date;
+  cached: boolean;
+  error?: string;
+}
+
+// Keeps `phone IN (...)` queries a reasonable size
+const CACHE_QUERY_SIZE = 1000;
+
+/**
+ * MNP Lookup Service
+ * Finds the current network of a number through the configured MNP/HLR
+ * provider. Results are cached per number in `NumberLookup` for
+ * `MNP_CACHE_TTL_HOURS`; failed lookups are not cached.
+ */
+export class MNPLookupService {
+  /**
+   * Look up one number (cache first unless `refresh` is set)
+   */
+  static async lookup(
+    phone: string,
+    options: { refresh?: boolean } = {}
+  ): Promise<NumberLookupResult> {
+    const [result] = await this.lookupMany([phone], options);
+    return result;
+  }
+
+  /**
+   * Look up several numbers; results are in input order
+   */
+  static async lookupMany(
+    phones: string[],
+    options: { refresh?: boolean } = {}
+  ): Promise<NumberLookupResult[]> {
+    const provider = MNPProviderFactory.getProvider();
+    if (!provider) {
+      throw new Error('MNP lookup is not configured');
+    }
+
+    const numbers = [...new Set(phones.map(phone => this.normalize(phone)))];
+    const results = options.refresh ? new Map<string, NumberLookupResult>() : await this.getCached(numbers);
+
+    if (results.size > 0) {
+      mnpLookups.inc({ provider: provider.getProviderId(), result: 'cache_hit' }, results.size);
+    }
+
+    const misses = numbers.filter(phone => !results.has(phone));
+
+    if (misses.length > 0) {
+      let fresh: MNPLookupResult[];
+
+      try {
+        fresh = await provider.lookupMany(misses);
+      } catch (error: any) {
+        logger.error({ error, provider: provider.getProviderName(), count: misses.length }, 'MNP lookup failed');
+        fresh = misses.map(phone => ({
+          phone,
+          found: false,
+          ported: false,
+          providerId: provider.getProviderId(),
+          error: error.message || 'Lookup failed',
+        }));
+      }
+
+      for (const result of fresh) {
+        mnpLookups.inc({
+          provider: result.providerId,
+          result: result.error ? 'error' : result.found ? 'found' : 'not_found',
+        });
+
+        results.set(result.phone, result.error ? this.failed(result) : await this.save(result));
+      }
+    }
+
+    return phones.map(phone => {
+      const key = this.normalize(phone);
+      return results.get(key) || this.failed({
+        phone: key,
+        found: false,
+        ported: false,
+        providerId: provider.getProviderId(),
+        error: 'No result from provider',
+      });
+    });
+  }
+
+  /**
+   * Unexpired cached results for these numbers, keyed by E.164 number.
+   * Never calls the provider, so it is safe on hot paths (bulk sends).
+   */
+  static async getCached(phones: string[]): Promise<Map<string, NumberLookupResult>> {
+    const cached = new Map<string, NumberLookupResult>();
+    const numbers = [...new Set(phones.map(phone => this.normalize(phone)))];
+
+    try {
+      for (let i = 0; i < numbers.length; i += CACHE_QUERY_SIZE) {
+        const rows = await prisma.numberLookup.findMany({
+          where: {
+            phone: { in: numbers.slice(i, i + CACHE_QUERY_SIZE) },
+            expiresAt: { gt: new Date() },
+          },
+        });
+
+        for (const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...row } of rows) {
+          cached.set(row.phone, { ...row, lineType: row.lineType as MNPLineType | null, cached: true });
+        }
+      }
+    } catch (error) {
+      logger.error({ error, count: numbers.length }, 'MNP cache read error');
+    }
+
+    return cached;
+  }
+
+  /**
+   * Current network of a number for routing: a cached result, or a live
+   * lookup when `MNP_LOOKUP_ON_SEND` is on. Returns null when the network
+   * is unknown, so callers fall back to prefix detection.
+   */
+  static async getNetwork(phone: string): Promise<NumberLookupResult | null> {
+    const key = this.normalize(phone);
+    const cached = (await this.getCached([key])).get(key);
+
+    if (cached) {
+      return cached.found && cached.network ? cached : null;
+    }
+
+    if (!env.MNP_LOOKUP_ON_SEND || !MNPProviderFactory.getProvider()) {
+      return null;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const result = await Promise.race([
+        this.lookup(key),
+        new Promise<null>(resolve => {
+          timer = setTimeout(() => resolve(null), env.MNP_LOOKUP_TIMEOUT_MS);
+        }),
+      ]);
+
+      if (!result) {
+        logger.warn({ timeoutMs: env.MNP_LOOKUP_TIMEOUT_MS }, 'MNP lookup timed out, using prefix detection');
+        return null;
+      }
+
+      return result.found && result.network ? result : null;
+    } catch (error) {
+      logger.error({ error }, 'MNP lookup error, using prefix detection');
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Cache a provider result
+  private static async save(result: MNPLookupResult): Promise<NumberLookupResult> {
+    const lookedUpAt = new Date();
+    const expiresAt = new Date(lookedUpAt.getTime() + env.MNP_CACHE_TTL_HOURS * 60 * 60 * 1000);
+
+    const data = {
+      country: result.country || null,
+      network: result.network || null,
+      operator: result.operator || null,
+      originalNetwork: result.originalNetwork || null,
+      ported: result.ported,
+      mcc: result.mcc || null,
+      mnc: result.mnc || null,
+      lineType: result.lineType || null,
+      reachable: result.reachable ?? null,
+      found: result.found,
+      provider: result.providerId,
+      lookedUpAt,
+      expiresAt,
+    };
+
+    try {
+      await prisma.numberLookup.upsert({
+        where: { phone: result.phone },
+        create: { phone: result.phone, ...data },
+        update: data,
+      });
+    } catch (error) {
+      logger.error({ error }, 'MNP cache write error');
+    }
+
+    return { phone: result.phone, ...data, cached: false };
+  }
+
+  // Uncached result for a failed lookup
+  private static failed(result: MNPLookupResult): NumberLookupResult {
+    const now = new Date();
+
+    return {
+      phone: result.phone,
+      found: false,
+      country: null,
+      network: null,
+      operator: null,
+      originalNetwork: null,
+      ported: false,
+      mcc: null,
+      mnc: null,
+      lineType: null,
+      reachable: null,
+      provider: result.providerId,
+      lookedUpAt: now,
+      expiresAt: now,
+      cached: false,
+      error: result.error,
+    };
+  }
+
+  private static normalize(phone: string): string {
+    return `+${phone.replace(/\D/g, '')}`;
+  }
+}
+
+export default MNPLookupService;
@@ -0,0 +1,68 @@
+import { BaseMNPProvider, MNPProviderConfig } from './base-mnp.provider';
+import { LocalMNPProvider } from './local.provider';
+import { logger } from '@utils/logger';
+import { env } from '@config/env';
+
+/**
+ * MNP Provider Factory
+ * Creates the lookup provider selected by `MNP_PROVIDER`
+ * (`none` disables lookups; routing then uses number prefixes only)
+ */
+export class MNPProviderFactory {
+  // undefined = not created yet, null = lookups disabled
+  private static provider: BaseMNPProvider | null | undefined;
+
+  /**
+   * Get the configured provider
+   */
+  static getProvider(): BaseMNPProvider | null {
+    if (this.provider === undefined) {
+      this.provider = this.createFromEnv();
+    }
+
+    return this.provider;
+  }
+
+  /**
+   * Replace the provider (tests, or switching providers at runtime)
+   */
+  static setProvider(provider: BaseMNPProvider | null): void {
+    this.provider = provider;
+  }
+
+  private static createFromEnv(): BaseMNPProvider | null {
+    if (env.MNP_PROVIDER === 'none') {
+      return null;
+    }
+
+    try {
+      return this.createProvider(env.MNP_PROVIDER, {
+        name: env.MNP_PROVIDER,
+        credentials: {},
+        supportedCountries: ['*'],
+        timeout: env.MNP_LOOKUP_TIMEOUT_MS,
+      });
+    } catch (error) {
+      logger.error({ error, provider: env.MNP_PROVIDER }, 'Failed to initialize MNP provider');
+      return null;
+    }
+  }
+
+  /**
+   * Create provider instance
+   */
+  private static createProvider(
+    type: string,
+    config: MNPProviderConfig
+  ): BaseMNPProvider {
+    switch (type.toLowerCase()) {
+      case 'local':
+        return new LocalMNPProvider(config);
+
+      default:
+        throw new Error(`Unknown MNP provider: ${type}`);
+    }
+  }
+}
+
+export default MNPProviderFactory;
@@ -5,6 +5,8 @@ import type {
   ProviderResponse,
   DeliveryStatus,
   ProviderBalance,
+  ProviderCallback,
+  InboundSMS,
 } from './base-sms.provider';
 import { logger } from '@utils/logger';
 
@@ -82,6 +84,58 @@ export class AfricasTalkingProvider extends BaseSMSProvider {
     };
   }
 
+  /**
+   * Parse a delivery report callback (form-encoded, one message per request)
+   * @see https://developers.africastalking.com/docs/sms/notifications
+   */
+  parseDeliveryReceipt(callback: ProviderCallback): DeliveryStatus[] {
+    const { id, status, failureReason, networkCode } = callback.params;
+
+    if (!id || !status) return [];
+
+    const statusMap: Record<string, DeliveryStatus['status']> = {
+      submitted: 'pending',
+      buffered: 'pending',
+      sent: 'sent',
+      success: 'delivered',
+      rejected: 'failed',
+      failed: 'failed',
+      absentsubscriber: 'failed',
+      expired: 'expired',
+    };
+
+    return [{
+      externalId: String(id),
+      status: statusMap[String(status).toLowerCase()] || 'unknown',
+      providerStatus: String(status),
+      errorCode: failureReason || undefined,
+      error: failureReason || undefined,
+      timestamp: new Date(),
+      metadata: networkCode ? { networkCode: String(networkCode) } : undefined,
+    }];
+  }
+
+  /**
+   * Parse an incoming message callback (form-encoded, one message per
+   * request). `linkId` is needed to reply on premium short codes.
+   * @see https://developers.africastalking.com/docs/sms/notifications
+   */
+  parseInboundMessage(callback: ProviderCallback): InboundSMS[] {
+    const { id, from, to, text, date, linkId, networkCode } = callback.params;
+
+    if (!from || !to || text == null) return [];
+
+    return [{
+      externalId: id ? String(id) : undefined,
+      from: String(from),
+      to: String(to),
+      content: String(text),
+      network: networkCode ? String(networkCode) : undefined,
+      receivedAt: date ? new Date(date) : new Date(),
+      metadata: linkId ? { linkId: String(linkId) } : undefined,
+    }];
+  }
+
   async checkBalance(): Promise<ProviderBalance> {
     logger.debug('Checking balance (placeholder)');
 
@@ -1,4 +1,5 @@
 import { logger } from '@utils/logger';
+import { safeEqual } from '@webhooks/utils/signature';
 
 // Provider configuration
 export interface SMSProviderConfig {
@@ -37,13 +38,35 @@ export interface ProviderResponse {
 
 // Delivery status
 export interface DeliveryStatus {
-  status: 'sent' | 'delivered' | 'failed' | 'pending' | 'unknown';
+  status: 'sent' | 'delivered' | 'failed' | 'expired' | 'pending' | 'unknown';
   timestamp?: Date;
   externalId: string;
+  providerStatus?: string; // Status as the provider reported it
+  errorCode?: string;
   error?: string;
   metadata?: Record<string, any>;
 }
 
+// HTTP callback from a provider (delivery receipt, inbound message)
+export interface ProviderCallback {
+  url: string; // Public URL the provider called, with query string
+  headers: Record<string, string>; // Lower-case names
+  query: Record<string, string>;
+  rawBody: string;
+  params: Record<string, any>; // Parsed JSON or form body
+}
+
+// SMS received by a provider (two-way messaging)
+export interface InboundSMS {
+  externalId?: string; // Provider message ID, used to drop repeated callbacks
+  from: string;
+  to: string; // Number or short code the message was sent to
+  content: string;
+  network?: string;
+  receivedAt?: Date;
+  metadata?: Record<string, any>;
+}
+
 // Provider balance
 export interface ProviderBalance {
   balance: number;
@@ -51,6 +74,9 @@ export interface ProviderBalance {
   error?: string;
 }
 
+// Status checks in flight per getDeliveryStatuses call
+const STATUS_CHECK_CONCURRENCY = 10;
+
 // Provider statistics
 export interface ProviderStats {
   totalSent: number;
@@ -58,7 +84,9 @@ export interface ProviderStats {
   totalFailed: number;
   successRate: number;
   avgLatency: number;
+  consecutiveFailures: number;
   lastUsed?: Date;
+  lastFailure?: Date;
 }
 
 /**
@@ -77,6 +105,7 @@ export abstract class BaseSMSProvider {
       totalFailed: 0,
       successRate: 0,
       avgLatency: 0,
+      consecutiveFailures: 0,
     };
 
     logger.info({
@@ -90,6 +119,55 @@ export abstract class BaseSMSProvider {
   abstract getDeliveryStatus(externalId: string): Promise<DeliveryStatus>;
   abstract checkBalance(): Promise<ProviderBalance>;
 
+  /**
+   * Get the delivery status of several messages, in input order. Providers
+   * with a batch status API should override this. A failed check comes back
+   * as `unknown` with the error instead of failing the whole batch.
+   */
+  async getDeliveryStatuses(externalIds: string[]): Promise<DeliveryStatus[]> {
+    const results: DeliveryStatus[] = [];
+
+    for (let i = 0; i < externalIds.length; i += STATUS_CHECK_CONCURRENCY) {
+      const batch = externalIds.slice(i, i + STATUS_CHECK_CONCURRENCY);
+      results.push(...await Promise.all(batch.map(externalId =>
+        this.getDeliveryStatus(externalId).catch((error: any): DeliveryStatus => ({
+          status: 'unknown',
+          externalId,
+          error: error.message,
+        }))
+      )));
+    }
+
+    return results;
+  }
+
+  /**
+   * Parse a delivery receipt (DLR) callback. Providers that batch receipts
+   * return one status per message; a body that is not a receipt gives [].
+   */
+  abstract parseDeliveryReceipt(callback: ProviderCallback): DeliveryStatus[];
+
+  /**
+   * Parse an inbound SMS callback. A body that is not an inbound message
+   * gives [].
+   */
+  abstract parseInboundMessage(callback: ProviderCallback): InboundSMS[];
+
+  /**
+   * Check that a callback really came from this provider.
+   * Default for providers that do not sign requests: the `callbackToken`
+   * credential must be sent back as `?token=` on the callback URL or as an
+   * `X-Callback-Token` header. Providers with request signing override this.
+   */
+  verifyCallback(callback: ProviderCallback): boolean {
+    const expected = this.config.credentials.callbackToken;
+    const token = callback.query.token || callback.headers['x-callback-token'];
+
+    if (!expected || !token) return false;
+
+    return safeEqual(String(expected), token);
+  }
+
   /**
    * Get provider ID
    */
@@ -134,8 +212,11 @@ export abstract class BaseSMSProvider {
     
     if (success) {
       this.stats.totalDelivered++;
+      this.stats.consecutiveFailures = 0;
     } else {
       this.stats.totalFailed++;
+      this.stats.consecutiveFailures++;
+      this.stats.lastFailure = new Date();
     }
 
     // Calculate success rate
@@ -162,6 +243,13 @@ export abstract class BaseSMSProvider {
     return this.stats;
   }
 
+  /**
+   * Clear the failure streak (circuit closed after a passing health check)
+   */
+  resetFailureStreak(): void {
+    this.stats.consecutiveFailures = 0;
+  }
+
   /**
    * Validate phone number format
    */
@@ -0,0 +1,272 @@
+import { BaseSMSProvider } from './base-sms.provider';
+import { SMSProviderFactory } from './provider.factory';
+import { logger } from '@utils/logger';
+import { env } from '@config/env';
+import { prisma } from '@database/prisma.client';
+import { smsProviderCircuitState, smsProviderCircuitTransitions } from '@utils/metrics';
+import { ProviderStatus } from '../../../../generated/prisma/client';
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+// Circuit status as reported to admins
+export interface CircuitStatus {
+  provider: string;
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failedProbes: number;
+  openedAt?: Date;
+  nextProbeAt?: Date;
+  lastProbe?: {
+    at: Date;
+    healthy: boolean;
+    message: string;
+  };
+}
+
+// Recorded state change
+export interface CircuitTransition {
+  provider: string;
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+  at: Date;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failedProbes: number;
+  openedAt?: Date;
+  nextProbeAt?: number;
+  lastProbe?: CircuitStatus['lastProbe'];
+}
+
+// Transitions kept in memory for the admin endpoint
+const MAX_TRANSITIONS = 100;
+
+const STATE_VALUES: Record<CircuitState, number> = {
+  CLOSED: 0,
+  HALF_OPEN: 1,
+  OPEN: 2,
+};
+
+/**
+ * Provider Circuit Breaker
+ * Stops routing to a provider after `SMS_CIRCUIT_FAILURE_THRESHOLD`
+ * consecutive failures (taken from the provider's own stats).
+ *
+ * - CLOSED: provider is used normally
+ * - OPEN: provider is skipped until the cooldown ends
+ * - HALF_OPEN: `healthCheck()` is probing; a pass closes the circuit,
+ *   a failure re-opens it with a doubled cooldown
+ *
+ * Opening and closing are persisted to `Provider.status` (FAILING/ACTIVE)
+ * so routing decisions in every instance see the outage.
+ */
+export class ProviderCircuitBreaker {
+  private static circuits: Map<string, Circuit> = new Map();
+  private static transitions: CircuitTransition[] = [];
+
+  /**
+   * Whether a provider may be sent to right now.
+   * An open circuit whose cooldown has ended starts a probe in the background.
+   */
+  static allowRequest(provider: BaseSMSProvider): boolean {
+    const circuit = this.getCircuit(provider);
+
+    if (circuit.state === 'CLOSED') {
+      return true;
+    }
+
+    if (circuit.state === 'OPEN' && Date.now() >= (circuit.nextProbeAt || 0)) {
+      this.probe(provider, circuit).catch(error => {
+        logger.error({ error, provider: provider.getProviderName() }, 'Circuit probe error');
+      });
+    }
+
+    return false;
+  }
+
+  /**
+   * Check a provider's stats after a send attempt and open its circuit
+   * once the failure streak reaches the threshold
+   */
+  static recordResult(provider: BaseSMSProvider): void {
+    const circuit = this.getCircuit(provider);
+    const { consecutiveFailures } = provider.getStats();
+
+    if (circuit.state === 'CLOSED' && consecutiveFailures >= env.SMS_CIRCUIT_FAILURE_THRESHOLD) {
+      this.open(provider, circuit, `${consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  /**
+   * Force a circuit closed (admin override)
+   */
+  static reset(provider: BaseSMSProvider): CircuitStatus {
+    const circuit = this.getCircuit(provider);
+
+    provider.resetFailureStreak();
+    circuit.failedProbes = 0;
+
+    if (circuit.state !== 'CLOSED') {
+      this.close(provider, circuit, 'Reset by admin');
+    }
+
+    return this.formatStatus(provider, circuit);
+  }
+
+  /**
+   * Current state of every configured provider
+   */
+  static getStatuses(): CircuitStatus[] {
+    return SMSProviderFactory.getAllProviders().map(provider =>
+      this.formatStatus(provider, this.getCircuit(provider))
+    );
+  }
+
+  /**
+   * Most recent transitions, newest first
+   */
+  static getTransitions(limit: number = MAX_TRANSITIONS): CircuitTransition[] {
+    return this.transitions.slice(-limit).reverse();
+  }
+
+  /**
+   * Probe an open provider with its health check
+   */
+  private static async probe(provider: BaseSMSProvider, circuit: Circuit): Promise<void> {
+    this.transition(provider, circuit, 'HALF_OPEN', 'Cooldown elapsed, probing health check');
+
+    let result: { healthy: boolean; message: string };
+    try {
+      result = await provider.healthCheck();
+    } catch (error: any) {
+      result = { healthy: false, message: error.message || 'Health check failed' };
+    }
+
+    circuit.lastProbe = {
+      at: new Date(),
+      healthy: result.healthy,
+      message: result.message,
+    };
+
+    if (result.healthy) {
+      provider.resetFailureStreak();
+      circuit.failedProbes = 0;
+      this.close(provider, circuit, 'Health check passed');
+      return;
+    }
+
+    circuit.failedProbes++;
+    this.open(provider, circuit, `Health check failed: ${result.message}`);
+  }
+
+  private static open(provider: BaseSMSProvider, circuit: Circuit, reason: string): void {
+    const cooldown = Math.min(
+      env.SMS_CIRCUIT_MAX_OPEN_MS,
+      env.SMS_CIRCUIT_OPEN_MS * 2 ** circuit.failedProbes
+    );
+
+    if (circuit.state === 'CLOSED') {
+      circuit.openedAt = new Date();
+    }
+    circuit.nextProbeAt = Date.now() + cooldown;
+
+    this.transition(provider, circuit, 'OPEN', reason);
+    this.persist(provider, ProviderStatus.FAILING);
+  }
+
+  private static close(provider: BaseSMSProvider, circuit: Circuit, reason: string): void {
+    circuit.openedAt = undefined;
+    circuit.nextProbeAt = undefined;
+
+    this.transition(provider, circuit, 'CLOSED', reason);
+    this.persist(provider, ProviderStatus.ACTIVE);
+  }
+
+  private static transition(
+    provider: BaseSMSProvider,
+    circuit: Circuit,
+    to: CircuitState,
+    reason: string
+  ): void {
+    const from = circuit.state;
+    circuit.state = to;
+
+    const providerId = provider.getProviderId();
+
+    this.transitions.push({ provider: providerId, from, to, reason, at: new Date() });
+    if (this.transitions.length > MAX_TRANSITIONS) {
+      this.transitions.shift();
+    }
+
+    smsProviderCircuitState.set({ provider: providerId }, STATE_VALUES[to]);
+    smsProviderCircuitTransitions.inc({ provider: providerId, state: to });
+
+    const log = {
+      provider: provider.getProviderName(),
+      from,
+      to,
+      reason,
+      consecutiveFailures: provider.getStats().consecutiveFailures,
+    };
+
+    if (to === 'OPEN') {
+      logger.warn(log, 'SMS provider circuit opened');
+    } else {
+      logger.info(log, 'SMS provider circuit state changed');
+    }
+  }
+
+  // Mirror the circuit into the providers table
+  private static persist(provider: BaseSMSProvider, status: ProviderStatus): void {
+    const failing = status === ProviderStatus.FAILING;
+
+    prisma.provider.updateMany({
+      where: {
+        name: { equals: provider.getProviderName(), mode: 'insensitive' },
+      },
+      data: failing
+        ? {
+          status,
+          errorCount: provider.getStats().consecutiveFailures,
+          lastErrorAt: new Date(),
+        }
+        : {
+          status,
+          errorCount: 0,
+          lastCheckedAt: new Date(),
+        },
+    }).catch(error => {
+      logger.error({ error, provider: provider.getProviderName(), status }, 'Failed to persist provider status');
+    });
+  }
+
+  private static getCircuit(provider: BaseSMSProvider): Circuit {
+    const id = provider.getProviderId();
+    let circuit = this.circuits.get(id);
+
+    if (!circuit) {
+      circuit = { state: 'CLOSED', failedProbes: 0 };
+      this.circuits.set(id, circuit);
+    }
+
+    return circuit;
+  }
+
+  private static formatStatus(provider: BaseSMSProvider, circuit: Circuit): CircuitStatus {
+    return {
+      provider: provider.getProviderId(),
+      name: provider.getProviderName(),
+      state: circuit.state,
+      consecutiveFailures: provider.getStats().consecutiveFailures,
+      failedProbes: circuit.failedProbes,
+      openedAt: circuit.openedAt,
+      nextProbeAt: circuit.nextProbeAt ? new Date(circuit.nextProbeAt) : undefined,
+      lastProbe: circuit.lastProbe,
+    };
+  }
+}
+
+export default ProviderCircuitBreaker;
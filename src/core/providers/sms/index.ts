@@ -9,6 +9,8 @@ export type {
   DeliveryStatus,
   ProviderBalance,
   ProviderStats,
+  ProviderCallback,
+  InboundSMS,
 } from './base-sms.provider';
 
 // Provider implementations
@@ -19,7 +21,17 @@ export { TwilioProvider } from './twilio.provider';
 
 // Provider factory and router
 export { SMSProviderFactory } from './provider.factory';
+export type { ProviderReloadResult } from './provider.factory';
 export { SMSProviderRouter } from './provider.router';
+export type { RoutingStrategy, RoutingOptions } from './provider.router';
+export { ProviderCostService } from './provider-cost.service';
+export type { ProviderCostRate } from './provider-cost.service';
+export { ProviderCircuitBreaker } from './circuit-breaker';
+export type {
+  CircuitState,
+  CircuitStatus,
+  CircuitTransition,
+} from './circuit-breaker';
 
 // Initialize providers on import
 import { SMSProviderFactory } from './provider.factory';
@@ -6,6 +6,8 @@ import type {
   ProviderResponse,
   DeliveryStatus,
   ProviderBalance,
+  ProviderCallback,
+  InboundSMS,
 } from './base-sms.provider';
 import { logger } from '@utils/logger';
 
@@ -139,6 +141,50 @@ export class KairosProvider extends BaseSMSProvider {
     }
   }
 
+  /**
+   * Parse a delivery report callback. Kairos posts JSON, either one report
+   * or a list (optionally wrapped in `data`).
+   */
+  parseDeliveryReceipt(callback: ProviderCallback): DeliveryStatus[] {
+    const body = callback.params.data ?? callback.params;
+    const reports: any[] = Array.isArray(body) ? body : [body];
+
+    return reports
+      .filter(report => (report?.id || report?.uuid || report?.messageId) && report?.status)
+      .map(report => ({
+        externalId: String(report.id || report.uuid || report.messageId),
+        status: this.mapDeliveryStatus(String(report.status)),
+        providerStatus: String(report.status),
+        errorCode: report.statusCode != null ? String(report.statusCode) : undefined,
+        error: report.statusMessage || report.reason || undefined,
+        timestamp: report.timestamp ? new Date(report.timestamp) : new Date(),
+      }));
+  }
+
+  /**
+   * Parse an inbound SMS callback. Same envelope as delivery reports: JSON,
+   * one message or a list (optionally wrapped in `data`).
+   */
+  parseInboundMessage(callback: ProviderCallback): InboundSMS[] {
+    const body = callback.params.data ?? callback.params;
+    const messages: any[] = Array.isArray(body) ? body : [body];
+
+    return messages
+      .filter(message => message?.from && message?.to && (message?.message ?? message?.text) != null)
+      .map(message => {
+        const id = message.id || message.uuid || message.messageId;
+
+        return {
+          externalId: id ? String(id) : undefined,
+          from: String(message.from),
+          to: String(message.to),
+          content: String(message.message ?? message.text),
+          network: message.network || undefined,
+          receivedAt: message.timestamp ? new Date(message.timestamp) : new Date(),
+        };
+      });
+  }
+
   /**
    * Check account balance
    */
@@ -301,6 +347,7 @@ export class KairosProvider extends BaseSMSProvider {
       undelivered: 'failed',
       rejected: 'failed',
       submitted: 'sent',
+      expired: 'expired',
     };
 
     return statusMap[kairosStatus?.toLowerCase()] || 'unknown';
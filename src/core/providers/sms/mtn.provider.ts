@@ -5,6 +5,8 @@ import type {
   ProviderResponse,
   DeliveryStatus,
   ProviderBalance,
+  ProviderCallback,
+  InboundSMS,
 } from './base-sms.provider';
 import { logger } from '@utils/logger';
 
@@ -76,6 +78,65 @@ export class MTNProvider extends BaseSMSProvider {
     };
   }
 
+  /**
+   * Parse a delivery receipt. MTN posts JSON with `requestId` and
+   * `deliveryStatus`; the older OneAPI shape (`deliveryInfoNotification`)
+   * is accepted too.
+   */
+  parseDeliveryReceipt(callback: ProviderCallback): DeliveryStatus[] {
+    const params = callback.params;
+    const notification = params.deliveryInfoNotification;
+
+    const externalId = params.requestId || params.clientCorrelator || notification?.callbackData;
+    const deliveryStatus = params.deliveryStatus || notification?.deliveryInfo?.deliveryStatus;
+
+    if (!externalId || !deliveryStatus) return [];
+
+    const statusMap: Record<string, DeliveryStatus['status']> = {
+      messagewaiting: 'pending',
+      deliveredtonetwork: 'sent',
+      deliveryuncertain: 'sent',
+      deliveredtoterminal: 'delivered',
+      deliveryimpossible: 'failed',
+      expired: 'expired',
+    };
+
+    return [{
+      externalId: String(externalId),
+      status: statusMap[String(deliveryStatus).toLowerCase()] || 'unknown',
+      providerStatus: String(deliveryStatus),
+      timestamp: new Date(),
+    }];
+  }
+
+  /**
+   * Parse an inbound SMS. MTN posts JSON with `senderAddress`,
+   * `receiverAddress` and `message`; OneAPI
+   * `inboundSMSMessageNotification` is accepted too. Addresses may carry
+   * a `tel:` prefix.
+   */
+  parseInboundMessage(callback: ProviderCallback): InboundSMS[] {
+    const params = callback.params;
+    const inbound = params.inboundSMSMessageNotification?.inboundSMSMessage ?? params;
+
+    const from = inbound.senderAddress;
+    const to = inbound.receiverAddress || inbound.destinationAddress;
+    const content = inbound.message;
+
+    if (!from || !to || content == null) return [];
+
+    const externalId = inbound.messageId || inbound.requestId;
+    const receivedAt = inbound.dateTime || inbound.created;
+
+    return [{
+      externalId: externalId ? String(externalId) : undefined,
+      from: String(from).replace(/^tel:/, ''),
+      to: String(to).replace(/^tel:/, ''),
+      content: String(content),
+      receivedAt: receivedAt ? new Date(receivedAt) : new Date(),
+    }];
+  }
+
   async checkBalance(): Promise<ProviderBalance> {
     logger.debug('Checking balance (placeholder)');
 
@@ -0,0 +1,112 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { MessageType } from '../../../../generated/prisma/client';
+
+// What a provider charges us per SMS unit
+export interface ProviderCostRate {
+  provider: string;
+  costPerUnit: number;
+  currency: string;
+}
+
+// Cost lookups are made for every routed message, so they are cached briefly
+const COST_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Provider Cost Service
+ * Reads the `ProviderCost` table: the buy price per unit of every provider
+ * for a (country, network), with effective dates. A network-specific cost
+ * wins over the provider's country-wide cost.
+ */
+export class ProviderCostService {
+  private static cache: Map<string, { expiresAt: number; costs: Map<string, ProviderCostRate> }> = new Map();
+
+  /**
+   * Current costs for a destination, keyed by provider ID
+   * (see `BaseSMSProvider.getProviderId`)
+   */
+  static async getCosts(
+    country: string,
+    network?: string,
+    messageType: MessageType = MessageType.SMS
+  ): Promise<Map<string, ProviderCostRate>> {
+    const key = `${country}:${network || ''}:${messageType}`;
+    const cached = this.cache.get(key);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.costs;
+    }
+
+    const costs = new Map<string, ProviderCostRate>();
+
+    try {
+      const now = new Date();
+      const rows = await prisma.providerCost.findMany({
+        where: {
+          country,
+          messageType,
+          isActive: true,
+          effectiveFrom: { lte: now },
+          AND: [
+            { OR: [{ effectiveTo: null }, { effectiveTo: { gte: now } }] },
+            { OR: [{ network: null }, ...(network ? [{ network }] : [])] },
+          ],
+        },
+        include: {
+          provider: { select: { name: true } },
+        },
+        orderBy: { effectiveFrom: 'desc' },
+      });
+
+      // Network-specific rows first, newest first within each
+      rows.sort((a, b) => Number(b.network !== null) - Number(a.network !== null));
+
+      for (const row of rows) {
+        const id = this.providerKey(row.provider.name);
+        if (costs.has(id)) continue;
+
+        costs.set(id, {
+          provider: row.provider.name,
+          costPerUnit: row.costPerUnit,
+          currency: row.currency,
+        });
+      }
+    } catch (error) {
+      logger.error({ error, country, network }, 'Provider cost lookup error');
+      return costs;
+    }
+
+    this.cache.set(key, { expiresAt: Date.now() + COST_CACHE_TTL_MS, costs });
+
+    return costs;
+  }
+
+  /**
+   * Cost of one provider for a destination
+   */
+  static async getCost(
+    provider: string,
+    country: string,
+    network?: string,
+    messageType: MessageType = MessageType.SMS
+  ): Promise<ProviderCostRate | null> {
+    const costs = await this.getCosts(country, network, messageType);
+    return costs.get(this.providerKey(provider)) || null;
+  }
+
+  /**
+   * Drop cached costs (after the cost table changes)
+   */
+  static clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Map a provider name (e.g. from the providers table) to its provider ID
+   */
+  static providerKey(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, '_');
+  }
+}
+
+export default ProviderCostService;
@@ -5,13 +5,51 @@ import { MTNProvider } from './mtn.provider';
 import { TwilioProvider } from './twilio.provider';
 import { logger } from '@utils/logger';
 import { env } from '@config/env';
+import { prisma } from '@database/prisma.client';
+import { ProviderStatus, ProviderType } from '../../../../generated/prisma/client';
+
+// Implementations a provider row can use as `config.driver`
+const DRIVERS = ['kairos', 'africastalking', 'mtn', 'twilio'] as const;
+
+// Provider rows that get an instance. FAILING providers stay loaded so the
+// circuit breaker can probe them back to health.
+const LOADED_STATUSES: ProviderStatus[] = [ProviderStatus.ACTIVE, ProviderStatus.FAILING];
+
+// Provider row as loaded from the providers table
+type ProviderRow = {
+  name: string;
+  credentials: unknown;
+  config: unknown;
+  supportedCountries: string[];
+  supportedNetworks: string[];
+  priority: number;
+};
+
+// Changes made by a reload, as provider IDs
+export interface ProviderReloadResult {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  failed: string[];
+}
 
 /**
  * SMS Provider Factory
- * Creates and manages SMS provider instances
+ * Creates and manages SMS provider instances.
+ *
+ * The `Provider` table drives which providers exist: each ACTIVE or FAILING
+ * row of type SMS is instantiated from its credentials, config, countries,
+ * networks and priority. `config.driver` picks the implementation (defaults
+ * to the provider name). Providers configured through env vars are seeded
+ * into the table on startup and are only used directly when the database
+ * can't be read.
  */
 export class SMSProviderFactory {
   private static providers: Map<string, BaseSMSProvider> = new Map();
+  // Row snapshot each instance was built from, keyed by provider ID
+  private static fingerprints: Map<string, string> = new Map();
+  private static reloadQueue: Promise<unknown> = Promise.resolve();
+  private static reloadTimer?: ReturnType<typeof setInterval>;
 
   /**
    * Initialize all configured providers
@@ -19,10 +57,173 @@ export class SMSProviderFactory {
   static async initializeProviders(): Promise<void> {
     logger.info('Initializing SMS providers...');
 
-    // Initialize Kairos (Ghana)
-    if (env.KAIROS_API_KEY && env.KAIROS_API_SECRET) {
+    try {
+      await this.seedFromEnv();
+      await this.reload();
+    } catch (error) {
+      logger.error({ error }, 'Failed to load SMS providers from database, using environment configuration');
+      this.loadFromEnv();
+    }
+
+    logger.info(`SMS providers initialized: ${this.providers.size} active`);
+  }
+
+  /**
+   * Sync provider instances with the providers table.
+   * Only providers whose row changed are rebuilt, so the others keep their
+   * stats. Reloads run one at a time.
+   */
+  static reload(): Promise<ProviderReloadResult> {
+    const run = this.reloadQueue.then(() => this.loadFromDatabase());
+    this.reloadQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Poll the providers table so edits made through another instance are
+   * picked up (`SMS_PROVIDER_RELOAD_INTERVAL_MS`, 0 disables)
+   */
+  static startAutoReload(): void {
+    if (this.reloadTimer || env.SMS_PROVIDER_RELOAD_INTERVAL_MS <= 0) return;
+
+    this.reloadTimer = setInterval(() => {
+      this.reload().catch(error => {
+        logger.error({ error }, 'SMS provider reload failed');
+      });
+    }, env.SMS_PROVIDER_RELOAD_INTERVAL_MS);
+
+    logger.info({ intervalMs: env.SMS_PROVIDER_RELOAD_INTERVAL_MS }, 'SMS provider auto-reload started');
+  }
+
+  /**
+   * Stop polling the providers table
+   */
+  static stopAutoReload(): void {
+    if (this.reloadTimer) {
+      clearInterval(this.reloadTimer);
+      this.reloadTimer = undefined;
+    }
+  }
+
+  /**
+   * Normalize a provider name to its provider ID
+   * (matches `BaseSMSProvider.getProviderId`)
+   */
+  static providerKey(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, '_');
+  }
+
+  /**
+   * Implementations that can be instantiated from a provider row
+   */
+  static getDrivers(): string[] {
+    return [...DRIVERS];
+  }
+
+  /**
+   * Build, rebuild or drop instances to match the providers table
+   */
+  private static async loadFromDatabase(): Promise<ProviderReloadResult> {
+    const rows = await prisma.provider.findMany({
+      where: {
+        type: ProviderType.SMS,
+        status: { in: LOADED_STATUSES },
+      },
+    });
+
+    const result: ProviderReloadResult = { added: [], updated: [], removed: [], failed: [] };
+    const loaded = new Set<string>();
+
+    for (const row of rows) {
+      const id = this.providerKey(row.name);
+      const fingerprint = this.fingerprint(row);
+      loaded.add(id);
+
+      if (this.fingerprints.get(id) === fingerprint && this.providers.has(id)) {
+        continue;
+      }
+
       try {
-        const kairos = this.createProvider('kairos', {
+        const provider = this.createProvider(this.driverFor(row), this.toConfig(row));
+        const existed = this.providers.has(id);
+
+        this.providers.set(id, provider);
+        this.fingerprints.set(id, fingerprint);
+        (existed ? result.updated : result.added).push(id);
+      } catch (error) {
+        // A bad row keeps whatever instance was running before
+        logger.error({ error, provider: row.name }, 'Failed to initialize SMS provider');
+        result.failed.push(id);
+      }
+    }
+
+    for (const id of this.providers.keys()) {
+      if (!loaded.has(id)) {
+        this.providers.delete(id);
+        this.fingerprints.delete(id);
+        result.removed.push(id);
+      }
+    }
+
+    if (result.added.length || result.updated.length || result.removed.length) {
+      logger.info({ ...result, active: this.providers.size }, 'SMS providers reloaded');
+    }
+
+    return result;
+  }
+
+  /**
+   * Create rows for env-configured providers that aren't in the table yet.
+   * Existing rows are never overwritten, so admin edits win.
+   */
+  private static async seedFromEnv(): Promise<void> {
+    const seeds = this.envProviders();
+    if (seeds.length === 0) return;
+
+    const { count } = await prisma.provider.createMany({
+      data: seeds.map(({ driver, config }) => ({
+        name: config.name,
+        type: ProviderType.SMS,
+        status: ProviderStatus.ACTIVE,
+        credentials: config.credentials,
+        config: { driver },
+        supportedCountries: config.supportedCountries,
+        supportedNetworks: config.supportedNetworks || [],
+        priority: config.priority,
+      })),
+      skipDuplicates: true,
+    });
+
+    if (count > 0) {
+      logger.info({ count }, 'Seeded SMS providers from environment');
+    }
+  }
+
+  /**
+   * Instantiate env-configured providers directly (database unavailable)
+   */
+  private static loadFromEnv(): void {
+    for (const { driver, config } of this.envProviders()) {
+      try {
+        this.providers.set(this.providerKey(config.name), this.createProvider(driver, config));
+        logger.info(`✓ ${config.name} provider initialized`);
+      } catch (error) {
+        logger.error({ error, provider: config.name }, 'Failed to initialize SMS provider');
+      }
+    }
+  }
+
+  /**
+   * Providers configured through env vars
+   */
+  private static envProviders(): Array<{ driver: string; config: SMSProviderConfig }> {
+    const seeds: Array<{ driver: string; config: SMSProviderConfig }> = [];
+
+    // Kairos (Ghana)
+    if (env.KAIROS_API_KEY && env.KAIROS_API_SECRET) {
+      seeds.push({
+        driver: 'kairos',
+        config: {
           name: 'Kairos',
           type: 'SMS',
           credentials: {
@@ -33,19 +234,15 @@ export class SMSProviderFactory {
           supportedCountries: ['GH'],
           supportedNetworks: ['mtn', 'telecel', 'at'],
           priority: 1,
-        });
-
-        this.providers.set('kairos', kairos);
-        logger.info('✓ Kairos provider initialized');
-      } catch (error) {
-        logger.error({ error }, 'Failed to initialize Kairos provider');
-      }
+        },
+      });
     }
 
-    // Initialize Africa's Talking (Pan-African)
+    // Africa's Talking (Pan-African)
     if (env.AFRICASTALKING_API_KEY && env.AFRICASTALKING_USERNAME) {
-      try {
-        const at = this.createProvider('africastalking', {
+      seeds.push({
+        driver: 'africastalking',
+        config: {
           name: 'AfricasTalking',
           type: 'SMS',
           credentials: {
@@ -57,19 +254,15 @@ export class SMSProviderFactory {
             'BF', 'ML', 'SN', 'CI', 'BJ', 'TG', 'NE'
           ],
           priority: 2,
-        });
-
-        this.providers.set('africastalking', at);
-        logger.info('✓ Africa\'s Talking provider initialized');
-      } catch (error) {
-        logger.error({ error }, 'Failed to initialize Africa\'s Talking provider');
-      }
+        },
+      });
     }
 
-    // Initialize MTN (Multi-country)
+    // MTN (Multi-country)
     if (env.MTN_API_KEY && env.MTN_API_SECRET) {
-      try {
-        const mtn = this.createProvider('mtn', {
+      seeds.push({
+        driver: 'mtn',
+        config: {
           name: 'MTN',
           type: 'SMS',
           credentials: {
@@ -82,19 +275,15 @@ export class SMSProviderFactory {
           ],
           supportedNetworks: ['mtn'],
           priority: 3,
-        });
-
-        this.providers.set('mtn', mtn);
-        logger.info('✓ MTN provider initialized');
-      } catch (error) {
-        logger.error({ error }, 'Failed to initialize MTN provider');
-      }
+        },
+      });
     }
 
-    // Initialize Twilio (Global fallback)
+    // Twilio (Global fallback)
     if (env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN) {
-      try {
-        const twilio = this.createProvider('twilio', {
+      seeds.push({
+        driver: 'twilio',
+        config: {
           name: 'Twilio',
           type: 'SMS',
           credentials: {
@@ -104,16 +293,55 @@ export class SMSProviderFactory {
           },
           supportedCountries: ['*'], // Global
           priority: 10, // Lowest priority (fallback)
-        });
-
-        this.providers.set('twilio', twilio);
-        logger.info('✓ Twilio provider initialized');
-      } catch (error) {
-        logger.error({ error }, 'Failed to initialize Twilio provider');
-      }
+        },
+      });
     }
 
-    logger.info(`SMS providers initialized: ${this.providers.size} active`);
+    return seeds;
+  }
+
+  /**
+   * Provider config from a providers table row
+   */
+  private static toConfig(row: ProviderRow): SMSProviderConfig {
+    const { driver: _driver, ...config } = this.asObject(row.config);
+
+    return {
+      name: row.name,
+      type: 'SMS',
+      credentials: this.asObject(row.credentials),
+      config,
+      supportedCountries: row.supportedCountries,
+      // An empty list means every network
+      supportedNetworks: row.supportedNetworks.length > 0 ? row.supportedNetworks : undefined,
+      priority: row.priority,
+      maxRetries: typeof config.maxRetries === 'number' ? config.maxRetries : undefined,
+      timeout: typeof config.timeout === 'number' ? config.timeout : undefined,
+    };
+  }
+
+  private static driverFor(row: ProviderRow): string {
+    const { driver } = this.asObject(row.config);
+    return typeof driver === 'string' && driver ? driver : this.providerKey(row.name);
+  }
+
+  // Fields that affect how an instance is built; status and stats columns
+  // are left out so circuit breaker updates don't rebuild providers
+  private static fingerprint(row: ProviderRow): string {
+    return JSON.stringify([
+      row.name,
+      row.credentials,
+      row.config,
+      row.supportedCountries,
+      row.supportedNetworks,
+      row.priority,
+    ]);
+  }
+
+  private static asObject(value: unknown): Record<string, any> {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? value as Record<string, any>
+      : {};
   }
 
   /**
@@ -123,7 +351,7 @@ export class SMSProviderFactory {
     type: string,
     config: SMSProviderConfig
   ): BaseSMSProvider {
-    switch (type.toLowerCase()) {
+    switch (this.providerKey(type)) {
       case 'kairos':
         return new KairosProvider(config);
       
@@ -137,7 +365,7 @@ export class SMSProviderFactory {
         return new TwilioProvider(config);
       
       default:
-        throw new Error(`Unknown provider type: ${type}`);
+        throw new Error(`Unknown provider driver: ${type}`);
     }
   }
 
@@ -145,7 +373,7 @@ export class SMSProviderFactory {
    * Get provider by name
    */
   static getProvider(name: string): BaseSMSProvider | undefined {
-    return this.providers.get(name.toLowerCase());
+    return this.providers.get(this.providerKey(name));
   }
 
   /**
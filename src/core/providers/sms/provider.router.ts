@@ -1,6 +1,22 @@
-import { BaseSMSProvider, SendSMSOptions, ProviderResponse } from './base-sms.provider';
+import { BaseSMSProvider, SendSMSOptions, ProviderResponse, DeliveryStatus } from './base-sms.provider';
 import { SMSProviderFactory } from './provider.factory';
+import { ProviderCircuitBreaker } from './circuit-breaker';
+import { ProviderCostService } from './provider-cost.service';
 import { logger } from '@utils/logger';
+import { env } from '@config/env';
+import { MessageType } from '../../../../generated/prisma/client';
+
+export type RoutingStrategy = 'priority' | 'cost' | 'speed' | 'reliability';
+
+// Sends needed before a provider's success rate counts against the floor
+const MIN_SUCCESS_SAMPLE = 20;
+
+// Per-message routing hints
+export interface RoutingOptions {
+  // Provider chosen when the message was accepted; tried first if still available
+  preferred?: string;
+  messageType?: MessageType;
+}
 
 /**
  * SMS Provider Router
@@ -13,7 +29,8 @@ export class SMSProviderRouter {
   static async sendSMS(
     options: SendSMSOptions,
     country: string,
-    network?: string
+    network?: string,
+    routing: RoutingOptions = {}
   ): Promise<ProviderResponse> {
     try {
       // Get available providers
@@ -33,16 +50,42 @@ export class SMSProviderRouter {
         };
       }
 
+      // Skip providers whose circuit is open, then order by routing strategy
+      const ranked = await this.rankProviders(
+        providers.filter(p => ProviderCircuitBreaker.allowRequest(p)),
+        country,
+        network,
+        env.SMS_ROUTING_STRATEGY,
+        routing.messageType
+      );
+      const available = this.preferProvider(ranked, routing.preferred);
+
+      if (available.length === 0) {
+        logger.error({
+          country,
+          network,
+          providers: providers.map(p => p.getProviderName()),
+        }, 'All SMS provider circuits are open');
+
+        return {
+          success: false,
+          status: 'failed',
+          message: `All SMS providers for ${country}${network ? `/${network}` : ''} are failing`,
+          errorCode: 'CIRCUIT_OPEN',
+          providerId: 'none',
+        };
+      }
+
       logger.info({
         country,
         network,
-        availableProviders: providers.map(p => p.getProviderName()),
+        availableProviders: available.map(p => p.getProviderName()),
       }, 'Routing SMS to provider');
 
       // Try each provider in order of priority
       let lastError: any;
       
-      for (const provider of providers) {
+      for (const provider of available) {
         try {
           logger.debug({
             provider: provider.getProviderName(),
@@ -50,6 +93,7 @@ export class SMSProviderRouter {
           }, 'Attempting to send via provider');
 
           const response = await provider.sendSMS(options);
+          ProviderCircuitBreaker.recordResult(provider);
 
           if (response.success) {
             logger.info({
@@ -76,6 +120,9 @@ export class SMSProviderRouter {
             provider: provider.getProviderName(),
           }, 'Provider error, trying next');
 
+          provider.updateStats(false);
+          ProviderCircuitBreaker.recordResult(provider);
+
           lastError = error;
           continue;
         }
@@ -85,7 +132,7 @@ export class SMSProviderRouter {
       logger.error({
         country,
         network,
-        triedProviders: providers.length,
+        triedProviders: available.length,
       }, 'All providers failed');
 
       return {
@@ -112,41 +159,82 @@ export class SMSProviderRouter {
   /**
    * Get best provider for destination
    */
-  static getBestProvider(
+  static async getBestProvider(
     country: string,
     network?: string,
-    criteria?: 'cost' | 'speed' | 'reliability'
-  ): BaseSMSProvider | null {
-    const providers = network
+    criteria: RoutingStrategy = env.SMS_ROUTING_STRATEGY,
+    messageType: MessageType = MessageType.SMS
+  ): Promise<BaseSMSProvider | null> {
+    const providers = (network
       ? SMSProviderFactory.getProvidersForNetwork(country, network)
-      : SMSProviderFactory.getProvidersForCountry(country);
+      : SMSProviderFactory.getProvidersForCountry(country)
+    ).filter(p => ProviderCircuitBreaker.allowRequest(p));
 
     if (providers.length === 0) {
       return null;
     }
 
-    // Apply selection criteria
-    switch (criteria) {
+    const ranked = await this.rankProviders(providers, country, network, criteria, messageType);
+    return ranked[0];
+  }
+
+  /**
+   * Order providers by routing strategy (input is in priority order)
+   */
+  static async rankProviders(
+    providers: BaseSMSProvider[],
+    country: string,
+    network?: string,
+    strategy: RoutingStrategy = env.SMS_ROUTING_STRATEGY,
+    messageType: MessageType = MessageType.SMS
+  ): Promise<BaseSMSProvider[]> {
+    switch (strategy) {
       case 'speed':
         // Sort by latency (ascending)
-        return providers.sort((a, b) => {
+        return [...providers].sort((a, b) => {
           const latencyA = a.getStats().avgLatency || 1000;
           const latencyB = b.getStats().avgLatency || 1000;
           return latencyA - latencyB;
-        })[0];
+        });
 
       case 'reliability':
         // Sort by success rate (descending)
-        return providers.sort((a, b) => {
+        return [...providers].sort((a, b) => {
           const rateA = a.getStats().successRate || 0;
           const rateB = b.getStats().successRate || 0;
           return rateB - rateA;
-        })[0];
+        });
+
+      case 'cost': {
+        // Cheapest provider that meets the success-rate floor; providers
+        // below the floor are only kept as a last-resort fallback
+        const costs = await ProviderCostService.getCosts(country, network, messageType);
+        const unitCost = (p: BaseSMSProvider) =>
+          costs.get(p.getProviderId())?.costPerUnit ?? Infinity;
 
-      case 'cost':
+        const eligible = providers.filter(p => this.meetsSuccessFloor(p));
+        const belowFloor = providers.filter(p => !eligible.includes(p));
+
+        if (belowFloor.length > 0) {
+          logger.debug({
+            country,
+            network,
+            providers: belowFloor.map(p => p.getProviderName()),
+            floor: env.SMS_ROUTING_MIN_SUCCESS_RATE,
+          }, 'Providers below success-rate floor');
+        }
+
+        // Stable sort keeps priority order between providers with equal cost
+        return [
+          ...[...eligible].sort((a, b) => unitCost(a) - unitCost(b)),
+          ...[...belowFloor].sort((a, b) => unitCost(a) - unitCost(b)),
+        ];
+      }
+
+      case 'priority':
       default:
-        // Use priority (lowest number = highest priority)
-        return providers[0];
+        // Already ordered by priority (lowest number = highest priority)
+        return providers;
     }
   }
 
@@ -196,6 +284,65 @@ export class SMSProviderRouter {
     }
   }
 
+  /**
+   * Check the delivery status of a batch of messages sent through one
+   * provider. Unlike checkDeliveryStatus there is no fallback to other
+   * providers: an unloaded provider gives `unknown` for every message.
+   */
+  static async checkDeliveryStatuses(
+    providerName: string,
+    externalIds: string[]
+  ): Promise<DeliveryStatus[]> {
+    const provider = SMSProviderFactory.getProvider(providerName);
+
+    if (!provider) {
+      return externalIds.map(externalId => ({
+        status: 'unknown',
+        externalId,
+        error: `Provider ${providerName} is not loaded`,
+      }));
+    }
+
+    try {
+      return await provider.getDeliveryStatuses(externalIds);
+    } catch (error: any) {
+      logger.error({ error, provider: providerName, count: externalIds.length }, 'Batch delivery status check error');
+
+      return externalIds.map(externalId => ({
+        status: 'unknown',
+        externalId,
+        error: error.message,
+      }));
+    }
+  }
+
+  /**
+   * Move the preferred provider to the front, keeping the rest as fallbacks
+   */
+  private static preferProvider(
+    providers: BaseSMSProvider[],
+    preferred?: string
+  ): BaseSMSProvider[] {
+    if (!preferred) return providers;
+
+    const id = SMSProviderFactory.providerKey(preferred);
+    const match = providers.find(p => p.getProviderId() === id);
+
+    return match ? [match, ...providers.filter(p => p !== match)] : providers;
+  }
+
+  /**
+   * Whether a provider's success rate is good enough for least-cost routing
+   */
+  private static meetsSuccessFloor(provider: BaseSMSProvider): boolean {
+    const stats = provider.getStats();
+
+    // Not enough traffic to judge yet
+    if (stats.totalSent < MIN_SUCCESS_SAMPLE) return true;
+
+    return stats.successRate >= env.SMS_ROUTING_MIN_SUCCESS_RATE;
+  }
+
   /**
    * Mask phone number for logging
    */
@@ -5,7 +5,10 @@ import type {
   ProviderResponse,
   DeliveryStatus,
   ProviderBalance,
+  ProviderCallback,
+  InboundSMS,
 } from './base-sms.provider';
+import { verifyTwilioSignature } from '@webhooks/utils/signature';
 import { logger } from '@utils/logger';
 
 /**
@@ -84,6 +87,72 @@ export class TwilioProvider extends BaseSMSProvider {
     };
   }
 
+  /**
+   * Parse a status callback (form-encoded, one message per request)
+   */
+  parseDeliveryReceipt(callback: ProviderCallback): DeliveryStatus[] {
+    const { MessageSid, MessageStatus, ErrorCode, ErrorMessage } = callback.params;
+
+    if (!MessageSid || !MessageStatus) return [];
+
+    const statusMap: Record<string, DeliveryStatus['status']> = {
+      accepted: 'pending',
+      scheduled: 'pending',
+      queued: 'pending',
+      sending: 'sent',
+      sent: 'sent',
+      delivered: 'delivered',
+      read: 'delivered',
+      undelivered: 'failed',
+      failed: 'failed',
+      canceled: 'failed',
+    };
+
+    return [{
+      externalId: String(MessageSid),
+      status: statusMap[String(MessageStatus).toLowerCase()] || 'unknown',
+      providerStatus: String(MessageStatus),
+      errorCode: ErrorCode ? String(ErrorCode) : undefined,
+      error: ErrorMessage || undefined,
+      timestamp: new Date(),
+    }];
+  }
+
+  /**
+   * Parse an incoming message webhook (form-encoded, one message per request)
+   * @see https://www.twilio.com/docs/messaging/guides/webhook-request
+   */
+  parseInboundMessage(callback: ProviderCallback): InboundSMS[] {
+    const { MessageSid, SmsSid, From, To, Body, NumMedia } = callback.params;
+
+    if (!From || !To || Body == null) return [];
+
+    return [{
+      externalId: MessageSid || SmsSid ? String(MessageSid || SmsSid) : undefined,
+      from: String(From),
+      to: String(To),
+      content: String(Body),
+      receivedAt: new Date(),
+      metadata: Number(NumMedia) > 0 ? { numMedia: Number(NumMedia) } : undefined,
+    }];
+  }
+
+  /**
+   * Twilio signs every callback with the account auth token
+   * (`X-Twilio-Signature`)
+   */
+  verifyCallback(callback: ProviderCallback): boolean {
+    const authToken = this.config.credentials.authToken;
+    if (!authToken) return false;
+
+    return verifyTwilioSignature(
+      String(authToken),
+      callback.url,
+      callback.params,
+      callback.headers['x-twilio-signature']
+    );
+  }
+
   async checkBalance(): Promise<ProviderBalance> {
     logger.debug('Checking balance (placeholder)');
 
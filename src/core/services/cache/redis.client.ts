@@ -0,0 +1,39 @@
+import Redis from 'ioredis';
+import { env } from '@config/env';
+import { logger } from '@utils/logger';
+
+let client: Redis | null = null;
+
+// Shared Redis connection, created on first use
+export function getRedisClient(): Redis {
+  if (client) return client;
+
+  client = new Redis({
+    host: env.REDIS_HOST,
+    port: env.REDIS_PORT,
+    password: env.REDIS_PASSWORD || undefined,
+    db: env.REDIS_DB,
+    tls: env.REDIS_TLS ? {} : undefined,
+    maxRetriesPerRequest: null,
+  });
+
+  client.on('error', (error) => {
+    logger.error({ error }, 'Redis connection error');
+  });
+
+  client.on('ready', () => {
+    logger.info({ host: env.REDIS_HOST, port: env.REDIS_PORT }, 'Redis connected');
+  });
+
+  return client;
+}
+
+// Close the shared connection (graceful shutdown)
+export async function closeRedisClient(): Promise<void> {
+  if (!client) return;
+
+  await client.quit().catch(() => client?.disconnect());
+  client = null;
+}
+
+export default getRedisClient;
@@ -0,0 +1,261 @@
+import { env } from '@config/env';
+import { logger } from '@utils/logger';
+import {
+  queueJobsCompleted,
+  queueJobsRetried,
+  queueJobsDeadLettered,
+} from '@utils/metrics';
+import { QueueManager, type Job } from './queue.manager';
+
+export type JobHandler<T = any> = (job: Job<T>) => Promise<void>;
+
+export interface WorkerOptions<T = any> {
+  concurrency?: number; // Jobs in flight per process
+  groupConcurrency?: number; // Jobs in flight per group (e.g. provider) per process
+  backoffMs?: number; // First retry delay, doubled on every attempt
+  maxBackoffMs?: number;
+  onDead?: (job: Job<T>, error: Error) => Promise<void>;
+  onReplay?: (job: Job<T>) => Promise<void>;
+}
+
+interface Worker {
+  queue: string;
+  handler: JobHandler;
+  options: Required<Omit<WorkerOptions, 'onDead' | 'onReplay'>> & Pick<WorkerOptions, 'onDead'>;
+  inFlight: Set<Promise<void>>;
+  groups: Map<string, number>;
+  polling: boolean;
+  timer: ReturnType<typeof setInterval> | null;
+}
+
+// Delay before a job whose group is saturated is offered again
+const GROUP_DEFER_MS = 250;
+
+/**
+ * Job Processor
+ * Polls registered queues and runs their handlers.
+ *
+ * A handler that throws is retried with exponential backoff (plus jitter)
+ * until the job's `maxAttempts` is used up, then the job moves to the
+ * dead-letter queue where it can be inspected and replayed by an admin.
+ *
+ * A claim lasts QUEUE_VISIBILITY_TIMEOUT. While the handler runs, the claim
+ * is extended every third of that, so a slow job is not handed to another
+ * worker; only a job whose worker died becomes claimable again.
+ */
+export class JobProcessor {
+  private static workers = new Map<string, Worker>();
+  private static running = false;
+
+  // Register a handler for a queue
+  static register<T>(queue: string, handler: JobHandler<T>, options: WorkerOptions<T> = {}): void {
+    if (this.workers.has(queue)) {
+      throw new Error(`A handler is already registered for queue "${queue}"`);
+    }
+
+    QueueManager.declare(queue, options.onReplay as ((job: Job) => Promise<void>) | undefined);
+
+    this.workers.set(queue, {
+      queue,
+      handler: handler as JobHandler,
+      options: {
+        concurrency: options.concurrency ?? 10,
+        groupConcurrency: options.groupConcurrency ?? Infinity,
+        backoffMs: options.backoffMs ?? env.QUEUE_BACKOFF_BASE,
+        maxBackoffMs: options.maxBackoffMs ?? env.QUEUE_BACKOFF_MAX,
+        onDead: options.onDead as Worker['options']['onDead'],
+      },
+      inFlight: new Set(),
+      groups: new Map(),
+      polling: false,
+      timer: null,
+    });
+  }
+
+  // Start polling every registered queue
+  static start(pollIntervalMs: number = env.QUEUE_POLL_INTERVAL): void {
+    if (this.running) return;
+    this.running = true;
+
+    for (const worker of this.workers.values()) {
+      worker.timer = setInterval(() => this.poll(worker), pollIntervalMs);
+      this.poll(worker);
+    }
+
+    logger.info({ queues: [...this.workers.keys()], pollIntervalMs }, 'Job processor started');
+  }
+
+  // Stop polling and wait for in-flight jobs
+  static async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    for (const worker of this.workers.values()) {
+      if (worker.timer) {
+        clearInterval(worker.timer);
+        worker.timer = null;
+      }
+    }
+
+    await Promise.all(
+      [...this.workers.values()].flatMap(worker => [...worker.inFlight])
+    );
+
+    logger.info('Job processor stopped');
+  }
+
+  // Retry delay for the given attempt number (1-based)
+  static backoff(attempt: number, baseMs: number, maxMs: number): number {
+    const delay = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  // Claim as many jobs as there are free slots and start them
+  private static async poll(worker: Worker): Promise<void> {
+    if (!this.running || worker.polling) return;
+    worker.polling = true;
+
+    try {
+      const free = worker.options.concurrency - worker.inFlight.size;
+      if (free <= 0) return;
+
+      const jobs = await QueueManager.getDriver().claim(
+        worker.queue,
+        free,
+        env.QUEUE_VISIBILITY_TIMEOUT
+      );
+
+      for (const job of jobs) {
+        if (job.group && (worker.groups.get(job.group) || 0) >= worker.options.groupConcurrency) {
+          // Group is busy, hand the job back without using an attempt
+          await QueueManager.getDriver().retry({ ...job, runAt: Date.now() + GROUP_DEFER_MS });
+          continue;
+        }
+
+        this.run(worker, job);
+      }
+    } catch (error) {
+      logger.error({ error, queue: worker.queue }, 'Queue poll failed');
+    } finally {
+      worker.polling = false;
+    }
+  }
+
+  // Run one job and settle it (complete, retry or dead-letter)
+  private static run(worker: Worker, job: Job): void {
+    if (job.group) {
+      worker.groups.set(job.group, (worker.groups.get(job.group) || 0) + 1);
+    }
+
+    const task = this.execute(worker, job).finally(() => {
+      worker.inFlight.delete(task);
+
+      if (job.group) {
+        worker.groups.set(job.group, (worker.groups.get(job.group) || 1) - 1);
+      }
+
+      // A slot just opened, look for more work straight away
+      setImmediate(() => this.poll(worker));
+    });
+
+    worker.inFlight.add(task);
+  }
+
+  // Keep extending the job's claim until the returned function is called
+  private static heartbeat(worker: Worker, job: Job): () => void {
+    const visibilityMs = env.QUEUE_VISIBILITY_TIMEOUT;
+
+    const timer = setInterval(() => {
+      QueueManager.getDriver().extend(job, visibilityMs).then(extended => {
+        if (!extended) {
+          logger.warn({ queue: worker.queue, jobId: job.id }, 'Job claim lost while running');
+        }
+      }).catch(error => {
+        logger.error({ error, queue: worker.queue, jobId: job.id }, 'Failed to extend job claim');
+      });
+    }, Math.max(1000, Math.floor(visibilityMs / 3)));
+
+    return () => clearInterval(timer);
+  }
+
+  private static async execute(worker: Worker, job: Job): Promise<void> {
+    const driver = QueueManager.getDriver();
+    const attempt = job.attempts + 1;
+    const stopHeartbeat = this.heartbeat(worker, job);
+
+    try {
+      try {
+        await worker.handler({ ...job, attempts: attempt });
+      } catch (err) {
+        await this.fail(worker, job, attempt, err instanceof Error ? err : new Error(String(err)));
+        return;
+      }
+
+      // The handler's work is done; failing to acknowledge it must not retry
+      // the job. Its claim lapses and the job runs again after
+      // QUEUE_VISIBILITY_TIMEOUT, which handlers already expect after a crash.
+      await driver.complete(job).catch(error => {
+        logger.error({ error, queue: worker.queue, jobId: job.id }, 'Failed to complete job');
+      });
+      queueJobsCompleted.inc({ queue: worker.queue });
+    } finally {
+      stopHeartbeat();
+    }
+  }
+
+  // Retry a failed job with backoff, or dead-letter it once out of attempts
+  private static async fail(worker: Worker, job: Job, attempt: number, error: Error): Promise<void> {
+    const driver = QueueManager.getDriver();
+
+    if (attempt >= job.maxAttempts) {
+      const dead: Job = {
+        ...job,
+        attempts: attempt,
+        lastError: error.message,
+        failedAt: Date.now(),
+      };
+
+      await driver.deadLetter(dead).catch(deadError => {
+        logger.error({ error: deadError, queue: worker.queue, jobId: job.id }, 'Failed to dead-letter job');
+      });
+      queueJobsDeadLettered.inc({ queue: worker.queue });
+
+      logger.error({
+        queue: worker.queue,
+        jobId: job.id,
+        attempts: attempt,
+        error: error.message,
+      }, 'Job moved to dead-letter queue');
+
+      if (worker.options.onDead) {
+        await worker.options.onDead(dead, error).catch(hookError => {
+          logger.error({ error: hookError, queue: worker.queue, jobId: job.id }, 'Dead-letter hook failed');
+        });
+      }
+
+      return;
+    }
+
+    const delay = this.backoff(attempt, worker.options.backoffMs, worker.options.maxBackoffMs);
+
+    await driver.retry({
+      ...job,
+      attempts: attempt,
+      lastError: error.message,
+      runAt: Date.now() + delay,
+    }).catch(retryError => {
+      logger.error({ error: retryError, queue: worker.queue, jobId: job.id }, 'Failed to schedule retry');
+    });
+    queueJobsRetried.inc({ queue: worker.queue });
+
+    logger.warn({
+      queue: worker.queue,
+      jobId: job.id,
+      attempt,
+      retryInMs: delay,
+      error: error.message,
+    }, 'Job failed, retrying');
+  }
+}
+
+export default JobProcessor;
@@ -0,0 +1,458 @@
+import { nanoid } from 'nanoid';
+import type Redis from 'ioredis';
+import { env } from '@config/env';
+import { logger } from '@utils/logger';
+import { getRedisClient } from '@services/cache/redis.client';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface Job<T = any> {
+  id: string;
+  queue: string;
+  data: T;
+  group?: string; // Concurrency group, e.g. the SMS provider
+  attempts: number; // Attempts made so far
+  maxAttempts: number;
+  createdAt: number;
+  runAt: number;
+  lastError?: string;
+  failedAt?: number;
+}
+
+export interface EnqueueOptions {
+  jobId?: string; // Jobs with the same id are only queued once
+  group?: string;
+  delayMs?: number;
+  maxAttempts?: number;
+}
+
+export interface QueueStats {
+  queue: string;
+  waiting: number;
+  delayed: number;
+  active: number;
+  dead: number;
+}
+
+// Storage backend for queues. Claims must be atomic across processes.
+export interface QueueDriver {
+  enqueue(job: Job): Promise<boolean>;
+  claim(queue: string, limit: number, visibilityMs: number): Promise<Job[]>;
+  extend(job: Job, visibilityMs: number): Promise<boolean>; // Push back the claim of a running job
+  complete(job: Job): Promise<void>;
+  retry(job: Job): Promise<void>;
+  deadLetter(job: Job): Promise<void>;
+  listDead(queue: string, offset: number, limit: number): Promise<{ jobs: Job[]; total: number }>;
+  getDead(queue: string, jobId: string): Promise<Job | null>;
+  removeDead(queue: string, jobId: string): Promise<boolean>;
+  stats(queue: string): Promise<QueueStats>;
+  close(): Promise<void>;
+}
+
+// ============================================
+// REDIS DRIVER
+// ============================================
+
+// Keys per queue:
+//   jobs     HASH  id -> job JSON (waiting + active)
+//   waiting  ZSET  id scored by runAt
+//   active   ZSET  id scored by visibility deadline
+//   dead     HASH  id -> job JSON
+//   dead:ids ZSET  id scored by failedAt
+
+const ENQUEUE_SCRIPT = `
+if redis.call('HSETNX', KEYS[1], ARGV[1], ARGV[2]) == 1 then
+  redis.call('ZADD', KEYS[2], ARGV[3], ARGV[1])
+  return 1
+end
+return 0
+`;
+
+// Expired active jobs (worker died mid-job) go back to waiting first
+const CLAIM_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[3], '-inf', ARGV[1])
+for _, id in ipairs(expired) do
+  redis.call('ZREM', KEYS[3], id)
+  redis.call('ZADD', KEYS[2], ARGV[1], id)
+end
+local ids = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+local jobs = {}
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[2], id)
+  local body = redis.call('HGET', KEYS[1], id)
+  if body then
+    redis.call('ZADD', KEYS[3], ARGV[3], id)
+    table.insert(jobs, body)
+  end
+end
+return jobs
+`;
+
+export class RedisQueueDriver implements QueueDriver {
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix: string = 'queue'
+  ) {}
+
+  private key(queue: string, name: string): string {
+    return `${this.prefix}:${queue}:${name}`;
+  }
+
+  async enqueue(job: Job): Promise<boolean> {
+    const created = await this.redis.eval(
+      ENQUEUE_SCRIPT,
+      2,
+      this.key(job.queue, 'jobs'),
+      this.key(job.queue, 'waiting'),
+      job.id,
+      JSON.stringify(job),
+      job.runAt
+    );
+
+    return created === 1;
+  }
+
+  async claim(queue: string, limit: number, visibilityMs: number): Promise<Job[]> {
+    const now = Date.now();
+
+    const bodies = await this.redis.eval(
+      CLAIM_SCRIPT,
+      3,
+      this.key(queue, 'jobs'),
+      this.key(queue, 'waiting'),
+      this.key(queue, 'active'),
+      now,
+      limit,
+      now + visibilityMs
+    ) as string[];
+
+    return bodies.map(body => JSON.parse(body) as Job);
+  }
+
+  async extend(job: Job, visibilityMs: number): Promise<boolean> {
+    // XX: only a job that is still active; CH: report the changed deadline
+    const changed = await this.redis.zadd(
+      this.key(job.queue, 'active'),
+      'XX',
+      'CH',
+      Date.now() + visibilityMs,
+      job.id
+    );
+
+    return Number(changed) > 0;
+  }
+
+  async complete(job: Job): Promise<void> {
+    await this.redis.multi()
+      .zrem(this.key(job.queue, 'active'), job.id)
+      .hdel(this.key(job.queue, 'jobs'), job.id)
+      .exec();
+  }
+
+  async retry(job: Job): Promise<void> {
+    await this.redis.multi()
+      .hset(this.key(job.queue, 'jobs'), job.id, JSON.stringify(job))
+      .zrem(this.key(job.queue, 'active'), job.id)
+      .zadd(this.key(job.queue, 'waiting'), job.runAt, job.id)
+      .exec();
+  }
+
+  async deadLetter(job: Job): Promise<void> {
+    await this.redis.multi()
+      .zrem(this.key(job.queue, 'active'), job.id)
+      .hdel(this.key(job.queue, 'jobs'), job.id)
+      .hset(this.key(job.queue, 'dead'), job.id, JSON.stringify(job))
+      .zadd(this.key(job.queue, 'dead:ids'), job.failedAt || Date.now(), job.id)
+      .exec();
+  }
+
+  async listDead(queue: string, offset: number, limit: number): Promise<{ jobs: Job[]; total: number }> {
+    const [ids, total] = await Promise.all([
+      this.redis.zrevrange(this.key(queue, 'dead:ids'), offset, offset + limit - 1),
+      this.redis.zcard(this.key(queue, 'dead:ids')),
+    ]);
+
+    if (ids.length === 0) {
+      return { jobs: [], total };
+    }
+
+    const bodies = await this.redis.hmget(this.key(queue, 'dead'), ...ids);
+
+    return {
+      jobs: bodies.filter((body): body is string => !!body).map(body => JSON.parse(body) as Job),
+      total,
+    };
+  }
+
+  async getDead(queue: string, jobId: string): Promise<Job | null> {
+    const body = await this.redis.hget(this.key(queue, 'dead'), jobId);
+    return body ? JSON.parse(body) as Job : null;
+  }
+
+  async removeDead(queue: string, jobId: string): Promise<boolean> {
+    const results = await this.redis.multi()
+      .hdel(this.key(queue, 'dead'), jobId)
+      .zrem(this.key(queue, 'dead:ids'), jobId)
+      .exec();
+
+    return Number(results?.[0]?.[1] ?? 0) > 0;
+  }
+
+  async stats(queue: string): Promise<QueueStats> {
+    const now = Date.now();
+
+    const [waiting, delayed, active, dead] = await Promise.all([
+      this.redis.zcount(this.key(queue, 'waiting'), '-inf', now),
+      this.redis.zcount(this.key(queue, 'waiting'), `(${now}`, '+inf'),
+      this.redis.zcard(this.key(queue, 'active')),
+      this.redis.zcard(this.key(queue, 'dead:ids')),
+    ]);
+
+    return { queue, waiting, delayed, active, dead };
+  }
+
+  async close(): Promise<void> {
+    // The shared connection is closed by closeRedisClient()
+  }
+}
+
+// ============================================
+// MEMORY DRIVER
+// ============================================
+
+// Single-process driver for tests and local development
+export class MemoryQueueDriver implements QueueDriver {
+  private jobs = new Map<string, Map<string, Job>>();
+  private active = new Map<string, Map<string, number>>();
+  private dead = new Map<string, Map<string, Job>>();
+
+  private bucket<V>(store: Map<string, Map<string, V>>, queue: string): Map<string, V> {
+    let bucket = store.get(queue);
+    if (!bucket) {
+      bucket = new Map();
+      store.set(queue, bucket);
+    }
+    return bucket;
+  }
+
+  async enqueue(job: Job): Promise<boolean> {
+    const jobs = this.bucket(this.jobs, job.queue);
+    if (jobs.has(job.id)) return false;
+
+    jobs.set(job.id, { ...job });
+    return true;
+  }
+
+  async claim(queue: string, limit: number, visibilityMs: number): Promise<Job[]> {
+    const now = Date.now();
+    const jobs = this.bucket(this.jobs, queue);
+    const active = this.bucket(this.active, queue);
+
+    // Expired claims become claimable again
+    for (const [id, deadline] of active) {
+      if (deadline <= now) active.delete(id);
+    }
+
+    const due = [...jobs.values()]
+      .filter(job => !active.has(job.id) && job.runAt <= now)
+      .sort((a, b) => a.runAt - b.runAt)
+      .slice(0, limit);
+
+    for (const job of due) {
+      active.set(job.id, now + visibilityMs);
+    }
+
+    return due.map(job => ({ ...job }));
+  }
+
+  async extend(job: Job, visibilityMs: number): Promise<boolean> {
+    const active = this.bucket(this.active, job.queue);
+    if (!active.has(job.id)) return false;
+
+    active.set(job.id, Date.now() + visibilityMs);
+    return true;
+  }
+
+  async complete(job: Job): Promise<void> {
+    this.bucket(this.active, job.queue).delete(job.id);
+    this.bucket(this.jobs, job.queue).delete(job.id);
+  }
+
+  async retry(job: Job): Promise<void> {
+    this.bucket(this.active, job.queue).delete(job.id);
+    this.bucket(this.jobs, job.queue).set(job.id, { ...job });
+  }
+
+  async deadLetter(job: Job): Promise<void> {
+    await this.complete(job);
+    this.bucket(this.dead, job.queue).set(job.id, { ...job, failedAt: job.failedAt || Date.now() });
+  }
+
+  async listDead(queue: string, offset: number, limit: number): Promise<{ jobs: Job[]; total: number }> {
+    const dead = [...this.bucket(this.dead, queue).values()]
+      .sort((a, b) => (b.failedAt || 0) - (a.failedAt || 0));
+
+    return {
+      jobs: dead.slice(offset, offset + limit),
+      total: dead.length,
+    };
+  }
+
+  async getDead(queue: string, jobId: string): Promise<Job | null> {
+    return this.bucket(this.dead, queue).get(jobId) || null;
+  }
+
+  async removeDead(queue: string, jobId: string): Promise<boolean> {
+    return this.bucket(this.dead, queue).delete(jobId);
+  }
+
+  async stats(queue: string): Promise<QueueStats> {
+    const now = Date.now();
+    const active = this.bucket(this.active, queue);
+    const waiting = [...this.bucket(this.jobs, queue).values()].filter(job => !active.has(job.id));
+
+    return {
+      queue,
+      waiting: waiting.filter(job => job.runAt <= now).length,
+      delayed: waiting.filter(job => job.runAt > now).length,
+      active: active.size,
+      dead: this.bucket(this.dead, queue).size,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.jobs.clear();
+    this.active.clear();
+    this.dead.clear();
+  }
+}
+
+// ============================================
+// QUEUE MANAGER
+// ============================================
+
+type ReplayHook = (job: Job) => Promise<void>;
+
+export class QueueManager {
+  private static driver: QueueDriver | null = null;
+  private static queues = new Set<string>();
+  private static replayHooks = new Map<string, ReplayHook>();
+
+  // Driver from QUEUE_DRIVER, created on first use
+  static getDriver(): QueueDriver {
+    if (!this.driver) {
+      this.driver = env.QUEUE_DRIVER === 'memory'
+        ? new MemoryQueueDriver()
+        : new RedisQueueDriver(getRedisClient());
+
+      logger.info({ driver: env.QUEUE_DRIVER }, 'Queue driver initialized');
+    }
+
+    return this.driver;
+  }
+
+  // Swap the driver (tests)
+  static useDriver(driver: QueueDriver): void {
+    this.driver = driver;
+  }
+
+  // Register a queue name so it shows up in admin stats
+  static declare(queue: string, onReplay?: ReplayHook): void {
+    this.queues.add(queue);
+
+    if (onReplay) {
+      this.replayHooks.set(queue, onReplay);
+    }
+  }
+
+  static getQueues(): string[] {
+    return [...this.queues];
+  }
+
+  // Add a job, returns null when a job with the same id is already queued
+  static async add<T>(queue: string, data: T, options: EnqueueOptions = {}): Promise<Job<T> | null> {
+    const now = Date.now();
+
+    const job: Job<T> = {
+      id: options.jobId || nanoid(16),
+      queue,
+      data,
+      group: options.group,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? env.QUEUE_MAX_ATTEMPTS,
+      createdAt: now,
+      runAt: now + (options.delayMs ?? 0),
+    };
+
+    const created = await this.getDriver().enqueue(job);
+    return created ? job : null;
+  }
+
+  static async stats(queue: string): Promise<QueueStats> {
+    return this.getDriver().stats(queue);
+  }
+
+  static async listDead(queue: string, offset: number, limit: number) {
+    return this.getDriver().listDead(queue, offset, limit);
+  }
+
+  static async getDead(queue: string, jobId: string): Promise<Job | null> {
+    return this.getDriver().getDead(queue, jobId);
+  }
+
+  static async removeDead(queue: string, jobId: string): Promise<boolean> {
+    return this.getDriver().removeDead(queue, jobId);
+  }
+
+  // Move a dead job back to the queue with a fresh attempt budget
+  static async replayDead(queue: string, jobId: string): Promise<Job | null> {
+    const driver = this.getDriver();
+    const job = await driver.getDead(queue, jobId);
+
+    if (!job) return null;
+
+    const replayed: Job = {
+      ...job,
+      attempts: 0,
+      runAt: Date.now(),
+      failedAt: undefined,
+    };
+
+    const hook = this.replayHooks.get(queue);
+    if (hook) {
+      await hook(replayed);
+    }
+
+    await driver.enqueue(replayed);
+    await driver.removeDead(queue, jobId);
+
+    logger.info({ queue, jobId }, 'Dead job replayed');
+
+    return replayed;
+  }
+
+  // Replay up to `limit` dead jobs, most recently failed first
+  static async replayAllDead(queue: string, limit: number): Promise<number> {
+    const { jobs } = await this.getDriver().listDead(queue, 0, limit);
+    let replayed = 0;
+
+    for (const job of jobs) {
+      if (await this.replayDead(queue, job.id)) {
+        replayed++;
+      }
+    }
+
+    return replayed;
+  }
+
+  static async close(): Promise<void> {
+    if (this.driver) {
+      await this.driver.close();
+      this.driver = null;
+    }
+  }
+}
+
+export default QueueManager;
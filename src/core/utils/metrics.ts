@@ -0,0 +1,153 @@
+import client from 'prom-client';
+
+// Shared Prometheus registry for the whole process
+export const metricsRegistry = new client.Registry();
+
+metricsRegistry.setDefaultLabels({
+  app: process.env.APP_NAME || 'AfriCom API',
+});
+
+client.collectDefaultMetrics({ register: metricsRegistry });
+
+// ============================================
+// SMS SCHEDULER
+// ============================================
+
+export const smsSchedulerLag = new client.Gauge({
+  name: 'sms_scheduler_lag_seconds',
+  help: 'Age in seconds of the oldest scheduled SMS that is due but not yet dispatched',
+  registers: [metricsRegistry],
+});
+
+export const smsSchedulerDue = new client.Gauge({
+  name: 'sms_scheduler_due_messages',
+  help: 'Number of scheduled SMS that are due but not yet dispatched',
+  registers: [metricsRegistry],
+});
+
+export const smsSchedulerDispatched = new client.Counter({
+  name: 'sms_scheduler_dispatched_total',
+  help: 'Scheduled SMS claimed and handed to the provider pipeline',
+  registers: [metricsRegistry],
+});
+
+export const smsSchedulerRecovered = new client.Counter({
+  name: 'sms_scheduler_recovered_total',
+  help: 'QUEUED SMS re-queued after a stale claim (worker crash or restart)',
+  registers: [metricsRegistry],
+});
+
+export const smsSchedulerLastRun = new client.Gauge({
+  name: 'sms_scheduler_last_run_timestamp_seconds',
+  help: 'Unix time of the last completed scheduler tick',
+  registers: [metricsRegistry],
+});
+
+export const messageScheduleOccurrences = new client.Counter({
+  name: 'message_schedule_occurrences_total',
+  help: 'Recurring / timezone-aware schedule occurrences run by the scheduler',
+  registers: [metricsRegistry],
+});
+
+// ============================================
+// JOB QUEUE
+// ============================================
+
+export const queueJobsCompleted = new client.Counter({
+  name: 'queue_jobs_completed_total',
+  help: 'Jobs that completed successfully',
+  labelNames: ['queue'],
+  registers: [metricsRegistry],
+});
+
+export const queueJobsRetried = new client.Counter({
+  name: 'queue_jobs_retried_total',
+  help: 'Failed job attempts scheduled for retry',
+  labelNames: ['queue'],
+  registers: [metricsRegistry],
+});
+
+export const queueJobsDeadLettered = new client.Counter({
+  name: 'queue_jobs_dead_lettered_total',
+  help: 'Jobs moved to the dead-letter queue after exhausting their attempts',
+  labelNames: ['queue'],
+  registers: [metricsRegistry],
+});
+
+// ============================================
+// SMS PROVIDERS
+// ============================================
+
+export const smsProviderCircuitState = new client.Gauge({
+  name: 'sms_provider_circuit_state',
+  help: 'Provider circuit breaker state (0 = closed, 1 = half-open, 2 = open)',
+  labelNames: ['provider'],
+  registers: [metricsRegistry],
+});
+
+export const smsProviderCircuitTransitions = new client.Counter({
+  name: 'sms_provider_circuit_transitions_total',
+  help: 'Provider circuit breaker state changes',
+  labelNames: ['provider', 'state'],
+  registers: [metricsRegistry],
+});
+
+export const smsDeliveryReceipts = new client.Counter({
+  name: 'sms_delivery_receipts_total',
+  help: 'Provider delivery receipts by outcome (updated, ignored, unmatched, rejected)',
+  labelNames: ['provider', 'result'],
+  registers: [metricsRegistry],
+});
+
+export const smsStatusChecks = new client.Counter({
+  name: 'sms_status_checks_total',
+  help: 'Delivery status polls by the reconciler, by outcome (updated, pending, expired, error)',
+  labelNames: ['provider', 'result'],
+  registers: [metricsRegistry],
+});
+
+export const smsInboundMessages = new client.Counter({
+  name: 'sms_inbound_messages_total',
+  help: 'Inbound SMS by outcome (routed, unrouted, duplicate, rejected)',
+  labelNames: ['provider', 'result'],
+  registers: [metricsRegistry],
+});
+
+export const smsKeywordMatches = new client.Counter({
+  name: 'sms_keyword_matches_total',
+  help: 'Inbound SMS handled by keyword (opt_out, opt_in, help, responder)',
+  labelNames: ['type'],
+  registers: [metricsRegistry],
+});
+
+// ============================================
+// MNP LOOKUPS
+// ============================================
+
+export const mnpLookups = new client.Counter({
+  name: 'mnp_lookups_total',
+  help: 'Number portability lookups by outcome (cache_hit, found, not_found, error)',
+  labelNames: ['provider', 'result'],
+  registers: [metricsRegistry],
+});
+
+// ============================================
+// CUSTOMER WEBHOOKS
+// ============================================
+
+export const webhookDeliveries = new client.Counter({
+  name: 'webhook_deliveries_total',
+  help: 'Customer webhook delivery attempts by outcome (delivered, retrying, failed)',
+  labelNames: ['event', 'result'],
+  registers: [metricsRegistry],
+});
+
+// Render metrics in Prometheus text format
+export async function renderMetrics(): Promise<{ body: string; contentType: string }> {
+  return {
+    body: await metricsRegistry.metrics(),
+    contentType: metricsRegistry.contentType,
+  };
+}
+
+export default metricsRegistry;
@@ -0,0 +1,70 @@
+// Network detection from phone number
+export const detectNetwork = (phone: string): {
+  country: string | null;
+  network: string | null;
+  operator: string | null;
+} => {
+  // Remove non-digit characters
+  const cleaned = phone.replace(/\D/g, '');
+
+  // Ghana networks
+  if (cleaned.startsWith('233')) {
+    const prefix = cleaned.substring(3, 5);
+    if (['20', '50', '23', '28'].includes(prefix)) {
+      return { country: 'GH', network: 'telecel', operator: 'Telecel Ghana' };
+    }
+    if (['24', '54', '55', '53', '23','59'].includes(prefix)) {
+      return { country: 'GH', network: 'mtn', operator: 'MTN Ghana' };
+    }
+    if (['26', '56', '27', '57'].includes(prefix)) {
+      return { country: 'GH', network: 'airteltigo', operator: 'AirtelTigo' };
+    }
+  }
+
+  // Nigeria networks
+  if (cleaned.startsWith('234')) {
+    const prefix = cleaned.substring(3, 6);
+    if (['803', '806', '810', '813', '816', '903', '906'].includes(prefix)) {
+      return { country: 'NG', network: 'mtn', operator: 'MTN Nigeria' };
+    }
+    if (['805', '807', '811', '815', '905'].includes(prefix)) {
+      return { country: 'NG', network: 'glo', operator: 'Globacom' };
+    }
+    if (['802', '808', '812', '902', '907', '901'].includes(prefix)) {
+      return { country: 'NG', network: 'airtel', operator: 'Airtel Nigeria' };
+    }
+    if (['809', '817', '818', '909'].includes(prefix)) {
+      return { country: 'NG', network: '9mobile', operator: '9mobile' };
+    }
+  }
+
+  // Kenya networks
+  if (cleaned.startsWith('254')) {
+    const prefix = cleaned.substring(3, 6);
+    if (['701', '702', '703', '704', '705', '706', '707', '708', '709'].includes(prefix)) {
+      return { country: 'KE', network: 'safaricom', operator: 'Safaricom' };
+    }
+    if (['710', '711', '712', '713', '714', '715'].includes(prefix)) {
+      return { country: 'KE', network: 'airtel', operator: 'Airtel Kenya' };
+    }
+    if (['770', '771', '772', '773', '774', '775'].includes(prefix)) {
+      return { country: 'KE', network: 'telkom', operator: 'Telkom Kenya' };
+    }
+  }
+
+  // South Africa networks
+  if (cleaned.startsWith('27')) {
+    const prefix = cleaned.substring(2, 4);
+    if (['82', '83', '84'].includes(prefix)) {
+      return { country: 'ZA', network: 'vodacom', operator: 'Vodacom' };
+    }
+    if (['71', '72', '73', '74', '76', '78'].includes(prefix)) {
+      return { country: 'ZA', network: 'mtn', operator: 'MTN South Africa' };
+    }
+    if (['81', '84'].includes(prefix)) {
+      return { country: 'ZA', network: 'cellc', operator: 'Cell C' };
+    }
+  }
+
+  return { country: null, network: null, operator: null };
+};
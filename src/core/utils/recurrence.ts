@@ -0,0 +1,180 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+// RRULE-style recurrence (subset of RFC 5545: FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT)
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  byWeekday?: Weekday[];
+  byMonthDay?: number; // 1..31, or -1..-31 counted from the end of the month
+  until?: Date | string;
+  count?: number;
+}
+
+// Index matches dayjs().day(): 0 = Sunday
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Upper bound on days scanned when looking for the next occurrence
+const MAX_SCAN_DAYS = 366 * 5;
+
+// ============================================
+// TIMEZONES
+// ============================================
+
+// Check that a string is an IANA timezone known to the runtime
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// True when an ISO date-time string carries its own offset (Z or ±HH:MM)
+export function hasExplicitOffset(value: string): boolean {
+  return /(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim());
+}
+
+// Resolve a date-time to a UTC instant. Strings without an offset are read
+// as wall-clock time in `tz`; anything else is already absolute.
+export function resolveInstant(value: Date | string, tz: string): Date {
+  if (value instanceof Date) return value;
+  if (hasExplicitOffset(value)) return new Date(value);
+
+  return dayjs.tz(value, tz).toDate();
+}
+
+// Wall-clock time of an instant in a timezone, e.g. "09:00:00"
+export function localTimeOf(instant: Date, tz: string): string {
+  return dayjs(instant).tz(tz).format('HH:mm:ss');
+}
+
+// ============================================
+// OCCURRENCES
+// ============================================
+
+// Next occurrence strictly after `after`, or null once the rule is exhausted.
+// `start` is the first occurrence (DTSTART); its wall-clock time in `tz` is
+// kept for every later occurrence, so DST shifts don't move the send time.
+export function nextOccurrence(options: {
+  start: Date;
+  timezone: string;
+  rule: RecurrenceRule;
+  after: Date;
+  occurrences?: number;
+}): Date | null {
+  const { start, rule, after } = options;
+  const tz = options.timezone;
+  const interval = Math.max(1, rule.interval ?? 1);
+  const until = rule.until ? new Date(rule.until) : null;
+
+  if (rule.count !== undefined && (options.occurrences ?? 0) >= rule.count) {
+    return null;
+  }
+
+  const startLocal = dayjs(start).tz(tz);
+  const time = startLocal.format('HH:mm:ss');
+
+  // Date-only arithmetic is done in UTC so DST never skews day counts
+  const anchor = dayjs.utc(startLocal.format('YYYY-MM-DD'));
+  const afterDay = dayjs.utc(dayjs(after).tz(tz).format('YYYY-MM-DD'));
+  let day = afterDay.isAfter(anchor) ? afterDay : anchor;
+
+  for (let i = 0; i < MAX_SCAN_DAYS; i++, day = day.add(1, 'day')) {
+    if (!matchesRule(day, anchor, rule, interval)) continue;
+
+    const candidate = dayjs.tz(`${day.format('YYYY-MM-DD')} ${time}`, tz).toDate();
+
+    if (candidate <= after || candidate < start) continue;
+    if (until && candidate > until) return null;
+
+    return candidate;
+  }
+
+  return null;
+}
+
+// First occurrence at or after `start`
+export function firstOccurrence(options: {
+  start: Date;
+  timezone: string;
+  rule: RecurrenceRule;
+}): Date | null {
+  return nextOccurrence({
+    ...options,
+    after: new Date(options.start.getTime() - 1),
+    occurrences: 0,
+  });
+}
+
+// Occurrences at or before `through`, up to the rule's count. Occurrences
+// that were skipped (late runs, pauses) are used up like sent ones.
+export function countOccurrences(options: {
+  start: Date;
+  timezone: string;
+  rule: RecurrenceRule;
+  through: Date;
+}): number {
+  let count = 0;
+  let next = firstOccurrence(options);
+
+  while (next && next <= options.through) {
+    count++;
+    next = nextOccurrence({ ...options, after: next, occurrences: count });
+  }
+
+  return count;
+}
+
+// Check whether a local calendar day belongs to the rule
+function matchesRule(
+  day: dayjs.Dayjs,
+  anchor: dayjs.Dayjs,
+  rule: RecurrenceRule,
+  interval: number
+): boolean {
+  switch (rule.frequency) {
+    case 'daily':
+      return day.diff(anchor, 'day') % interval === 0;
+
+    case 'weekly': {
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [WEEKDAYS[anchor.day()]];
+      if (!weekdays.includes(WEEKDAYS[day.day()])) return false;
+
+      // Weeks start on Monday (RRULE default WKST=MO)
+      const weeks = weekStart(day).diff(weekStart(anchor), 'week');
+      return weeks % interval === 0;
+    }
+
+    case 'monthly': {
+      const monthDay = rule.byMonthDay ?? anchor.date();
+      const target = monthDay > 0 ? monthDay : day.daysInMonth() + monthDay + 1;
+
+      // Months without the requested day are skipped, as in RRULE
+      if (day.date() !== target) return false;
+
+      const months = (day.year() - anchor.year()) * 12 + (day.month() - anchor.month());
+      return months % interval === 0;
+    }
+
+    default:
+      return false;
+  }
+}
+
+function weekStart(day: dayjs.Dayjs): dayjs.Dayjs {
+  return day.subtract((day.day() + 6) % 7, 'day');
+}
@@ -0,0 +1,81 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// ============================================
+// TYPES
+// ============================================
+
+// Daily window in local wall-clock time, "HH:mm". An end before the start
+// runs past midnight (e.g. 20:00-02:00).
+export interface TimeWindow {
+  startTime: string;
+  endTime: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Days scanned for an opening; windows repeat daily, so two is enough
+const MAX_SCAN_DAYS = 2;
+
+// ============================================
+// CLOCK TIMES
+// ============================================
+
+// "08:30" -> 510
+export function clockMinutes(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Check a "HH:mm" 24-hour clock time
+export function isValidClockTime(value: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+// ============================================
+// WINDOWS
+// ============================================
+
+// Whether an instant falls inside the window, in the given timezone
+export function isWithinWindow(instant: Date, tz: string, window: TimeWindow): boolean {
+  const local = dayjs(instant).tz(tz);
+  const minute = local.hour() * 60 + local.minute();
+  const start = clockMinutes(window.startTime);
+  const end = clockMinutes(window.endTime);
+
+  if (start === end) return true;
+
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+}
+
+// Earliest instant at or after `instant` that is inside every window.
+// Windows that never overlap fall back to the first window's next opening.
+export function nextWindowOpening(instant: Date, tz: string, windows: TimeWindow[]): Date {
+  const inside = (candidate: Date) => windows.every(window => isWithinWindow(candidate, tz, window));
+
+  if (windows.length === 0 || inside(instant)) return instant;
+
+  const today = dayjs(instant).tz(tz).format('YYYY-MM-DD');
+  const openings: Date[] = [];
+
+  for (const window of windows) {
+    for (let day = 0; day <= MAX_SCAN_DAYS; day++) {
+      const date = dayjs.utc(today).add(day, 'day').format('YYYY-MM-DD');
+      const opening = dayjs.tz(`${date} ${window.startTime}`, tz).toDate();
+
+      if (opening > instant) openings.push(opening);
+    }
+  }
+
+  openings.sort((a, b) => a.getTime() - b.getTime());
+
+  return openings.find(inside)
+    ?? openings.find(opening => isWithinWindow(opening, tz, windows[0]))
+    ?? new Date(instant.getTime() + MINUTES_PER_DAY * 60_000);
+}
@@ -0,0 +1,142 @@
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import ExcelJS from 'exceljs';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+// Header row and data rows keyed by header; blank rows are dropped
+export interface ParsedSpreadsheet {
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+// Header row plus 1-based numbering, so row numbers match the spreadsheet
+export const FIRST_DATA_ROW = 2;
+
+// ============================================
+// PARSING
+// ============================================
+
+// Parse an uploaded CSV or Excel file (first sheet unless `sheet` is given)
+export async function parseSpreadsheet(file: File, sheet?: string): Promise<ParsedSpreadsheet> {
+  return detectSpreadsheetFormat(file) === 'csv'
+    ? parseCSV(file)
+    : parseExcel(file, sheet);
+}
+
+// Work out the file format from its extension, falling back to the MIME type
+export function detectSpreadsheetFormat(file: File): SpreadsheetFormat {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.csv') || file.type === 'text/csv') {
+    return 'csv';
+  }
+
+  if (
+    name.endsWith('.xlsx') ||
+    file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ) {
+    return 'xlsx';
+  }
+
+  if (name.endsWith('.xls')) {
+    throw new Error('Legacy .xls files are not supported, save the file as .xlsx or .csv');
+  }
+
+  throw new Error('Unsupported file type, upload a .csv or .xlsx file');
+}
+
+async function parseCSV(file: File): Promise<ParsedSpreadsheet> {
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const rows: Array<Record<string, string>> = [];
+  let columns: string[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    Readable.from(buffer)
+      .pipe(csv({
+        mapHeaders: ({ header }) => header.replace(/^\uFEFF/, '').trim(),
+        mapValues: ({ value }) => String(value).trim(),
+      }))
+      .on('headers', (headers: string[]) => {
+        columns = headers;
+      })
+      .on('data', (row: Record<string, string>) => {
+        // Skip blank lines
+        if (Object.values(row).some(value => value !== '')) {
+          rows.push(row);
+        }
+      })
+      .on('end', () => resolve())
+      .on('error', reject);
+  });
+
+  return { columns, rows };
+}
+
+async function parseExcel(file: File, sheetName?: string): Promise<ParsedSpreadsheet> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!sheet) {
+    throw new Error(sheetName ? `Sheet "${sheetName}" not found` : 'The workbook has no sheets');
+  }
+
+  // Column number -> header
+  const headers = new Map<number, string>();
+  sheet.getRow(1).eachCell((cell, col) => {
+    const header = cellToString(cell.value);
+    if (header) headers.set(col, header);
+  });
+
+  const rows: Array<Record<string, string>> = [];
+
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const record: Record<string, string> = {};
+    for (const [col, header] of headers) {
+      record[header] = cellToString(row.getCell(col).value);
+    }
+
+    if (Object.values(record).some(value => value !== '')) {
+      rows.push(record);
+    }
+  });
+
+  return { columns: [...headers.values()], rows };
+}
+
+// Flatten an Excel cell value (numbers, dates, rich text, formulas) to text
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') {
+    // Phone numbers stored as numbers must not turn into 2.33244E+11
+    return Number.isInteger(value) ? BigInt(value).toString() : String(value);
+  }
+  if (typeof value !== 'object') return String(value).trim();
+
+  if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+  if ('text' in value) return String(value.text).trim();
+  if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+  if ('error' in value) return '';
+
+  return String(value).trim();
+}
+
+// ============================================
+// CSV OUTPUT
+// ============================================
+
+// Quote a CSV field when it contains a comma, quote or line break
+export function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
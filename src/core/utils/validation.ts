@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { isValidTimezone, hasExplicitOffset } from './recurrence';
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+// IANA timezone, or "recipient" to use the recipient's local timezone
+export const scheduleTimezoneSchema = z.string().refine(
+  tz => tz === 'recipient' || isValidTimezone(tz),
+  'Invalid timezone. Use an IANA name (e.g., Africa/Lagos) or "recipient"'
+);
+
+// ISO date-time; the offset may be omitted when a timezone is supplied
+export const scheduledForSchema = z.string().datetime({ local: true, offset: true });
+
+// RRULE-style recurrence
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  interval: z.number().int().min(1).max(366).optional(),
+  byWeekday: z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'])).min(1).max(7).optional(),
+  byMonthDay: z.number().int().min(-31).max(31).refine(v => v !== 0, 'byMonthDay cannot be 0').optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  count: z.number().int().min(1).max(1000).optional(),
+}).refine(
+  rule => !(rule.until && rule.count),
+  { message: 'Use either until or count, not both' }
+).refine(
+  rule => !rule.byWeekday || rule.frequency === 'weekly',
+  { message: 'byWeekday is only allowed for weekly recurrence', path: ['byWeekday'] }
+).refine(
+  rule => rule.byMonthDay === undefined || rule.frequency === 'monthly',
+  { message: 'byMonthDay is only allowed for monthly recurrence', path: ['byMonthDay'] }
+);
+
+// Shared checks for requests carrying scheduledFor / timezone / recurrence
+export function refineSchedule<T extends {
+  scheduledFor?: string | Date;
+  timezone?: string;
+  recurrence?: unknown;
+}>(data: T, ctx: z.RefinementCtx): void {
+  if (data.recurrence && !data.scheduledFor) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'scheduledFor is required with recurrence (it sets the first send and the time of day)',
+      path: ['scheduledFor'],
+    });
+  }
+
+  if (data.timezone && !data.scheduledFor) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'scheduledFor is required with timezone',
+      path: ['scheduledFor'],
+    });
+  }
+
+  if (
+    typeof data.scheduledFor === 'string' &&
+    !data.timezone &&
+    !hasExplicitOffset(data.scheduledFor)
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'scheduledFor needs an offset (e.g., Z or +01:00) unless timezone is provided',
+      path: ['scheduledFor'],
+    });
+  }
+}
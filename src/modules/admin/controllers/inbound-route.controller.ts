@@ -0,0 +1,168 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import type {
+  QueryInboundRoutesInput,
+  CreateInboundRouteInput,
+  UpdateInboundRouteInput,
+  InboundRouteParamsInput,
+} from '../schemas/inbound-route.schema';
+import type { Prisma } from '../../../../generated/prisma/client';
+
+export class InboundRouteController {
+  // List inbound routes
+  static async listRoutes(c: Context) {
+    try {
+      const query = c.req.valid('query' as never) as QueryInboundRoutesInput;
+
+      const where = {
+        ...(query.accountId && { accountId: query.accountId }),
+        ...(query.number && { number: query.number }),
+      };
+
+      const [routes, total] = await Promise.all([
+        prisma.inboundRoute.findMany({
+          where,
+          orderBy: [{ number: 'asc' }, { keyword: 'asc' }],
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+        }),
+        prisma.inboundRoute.count({ where }),
+      ]);
+
+      return ResponseBuilder.paginated(c, routes, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List inbound routes controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Assign a number, or a keyword on a shared number, to an account
+  static async createRoute(c: Context) {
+    try {
+      const body = c.req.valid('json' as never) as CreateInboundRouteInput;
+
+      const account = await prisma.account.findUnique({
+        where: { id: body.accountId },
+        select: { id: true },
+      });
+
+      if (!account) {
+        return ResponseBuilder.notFound(c, 'Account');
+      }
+
+      const route = await prisma.$transaction(async (tx) => {
+        if (await InboundRouteController.isTaken(tx, body.number, body.keyword)) {
+          return null;
+        }
+
+        return tx.inboundRoute.create({
+          data: {
+            accountId: body.accountId,
+            number: body.number,
+            keyword: body.keyword,
+            provider: body.provider,
+          },
+        });
+      });
+
+      if (!route) {
+        return InboundRouteController.duplicate(c);
+      }
+
+      return ResponseBuilder.created(c, route, 'Inbound route created');
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        return InboundRouteController.duplicate(c);
+      }
+
+      logger.error({ error }, 'Create inbound route controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Change a route's keyword or provider, or switch it off
+  static async updateRoute(c: Context) {
+    try {
+      const { id } = c.req.valid('param' as never) as InboundRouteParamsInput;
+      const body = c.req.valid('json' as never) as UpdateInboundRouteInput;
+
+      const existing = await prisma.inboundRoute.findUnique({ where: { id } });
+
+      if (!existing) {
+        return ResponseBuilder.notFound(c, 'Inbound route');
+      }
+
+      const route = await prisma.$transaction(async (tx) => {
+        if (body.keyword !== undefined && body.keyword !== existing.keyword
+          && await InboundRouteController.isTaken(tx, existing.number, body.keyword)) {
+          return null;
+        }
+
+        return tx.inboundRoute.update({
+          where: { id },
+          data: body,
+        });
+      });
+
+      if (!route) {
+        return InboundRouteController.duplicate(c);
+      }
+
+      return ResponseBuilder.success(c, route, 'Inbound route updated');
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        return InboundRouteController.duplicate(c);
+      }
+
+      logger.error({ error }, 'Update inbound route controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Remove a route; messages already received keep their account
+  static async deleteRoute(c: Context) {
+    try {
+      const { id } = c.req.valid('param' as never) as InboundRouteParamsInput;
+
+      const { count } = await prisma.inboundRoute.deleteMany({ where: { id } });
+
+      if (count === 0) {
+        return ResponseBuilder.notFound(c, 'Inbound route');
+      }
+
+      return ResponseBuilder.success(c, null, 'Inbound route deleted');
+    } catch (error: any) {
+      logger.error({ error }, 'Delete inbound route controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // The unique index does not cover a null keyword (one catch-all per
+  // number), so check it here. Routes on the number are locked until the
+  // caller's transaction ends, so two requests cannot both pass the check.
+  private static async isTaken(
+    tx: Prisma.TransactionClient,
+    number: string,
+    keyword: string | null
+  ): Promise<boolean> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`inbound_route:${number}`}))`;
+
+    const route = await tx.inboundRoute.findFirst({
+      where: { number, keyword },
+      select: { id: true },
+    });
+
+    return route !== null;
+  }
+
+  private static duplicate(c: Context) {
+    return ResponseBuilder.error(
+      c,
+      'DUPLICATE_ROUTE',
+      'This number and keyword are already routed',
+      409
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { MNPLookupService, MNPProviderFactory } from '@core/providers/mnp';
+import type { MNPLookupInput } from '../schemas/mnp.schema';
+
+export class MNPController {
+  // Look up the current network of up to 1,000 numbers (also warms the
+  // cache that bulk sends route on)
+  static async lookup(c: Context) {
+    try {
+      const body = c.req.valid('json' as never) as MNPLookupInput;
+
+      if (!MNPProviderFactory.getProvider()) {
+        return ResponseBuilder.serviceUnavailable(c, 'MNP lookup');
+      }
+
+      const results = await MNPLookupService.lookupMany(body.phones, { refresh: body.refresh });
+
+      return ResponseBuilder.success(c, {
+        results,
+        summary: {
+          total: results.length,
+          found: results.filter(result => result.found).length,
+          ported: results.filter(result => result.ported).length,
+          cached: results.filter(result => result.cached).length,
+          failed: results.filter(result => result.error).length,
+        },
+      });
+    } catch (error: any) {
+      logger.error({ error }, 'MNP lookup controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+}
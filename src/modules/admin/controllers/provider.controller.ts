@@ -0,0 +1,285 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import {
+  SMSProviderFactory,
+  ProviderCircuitBreaker,
+  ProviderCostService,
+} from '@core/providers/sms';
+import type {
+  CreateProviderInput,
+  UpdateProviderInput,
+  CreateProviderCostInput,
+} from '../schemas/provider.schema';
+import { ProviderType } from '../../../../generated/prisma/client';
+
+export class ProviderController {
+  // List SMS providers with whether each one is loaded for routing
+  static async listProviders(c: Context) {
+    try {
+      const providers = await prisma.provider.findMany({
+        where: { type: ProviderType.SMS },
+        orderBy: [{ priority: 'asc' }, { name: 'asc' }],
+      });
+
+      return ResponseBuilder.success(c, providers.map(provider => ProviderController.formatProvider(provider)));
+    } catch (error: any) {
+      logger.error({ error }, 'List providers controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Add an SMS provider and load it
+  static async createProvider(c: Context) {
+    try {
+      const body = c.req.valid('json' as never) as CreateProviderInput;
+
+      const provider = await prisma.provider.create({
+        data: {
+          name: body.name,
+          type: ProviderType.SMS,
+          status: body.status,
+          credentials: body.credentials,
+          config: { ...body.config, driver: body.driver },
+          supportedCountries: body.supportedCountries,
+          supportedNetworks: body.supportedNetworks,
+          priority: body.priority,
+          rateLimit: body.rateLimit,
+          monthlyLimit: body.monthlyLimit,
+        },
+      });
+
+      const reload = await SMSProviderFactory.reload();
+
+      return ResponseBuilder.created(
+        c,
+        { ...ProviderController.formatProvider(provider), reload },
+        'Provider created'
+      );
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        return ResponseBuilder.error(c, 'DUPLICATE_PROVIDER', 'A provider with this name already exists', 409);
+      }
+
+      logger.error({ error }, 'Create provider controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Edit an SMS provider; routing picks up the change immediately
+  static async updateProvider(c: Context) {
+    try {
+      const { provider: name } = c.req.param();
+      const body = c.req.valid('json' as never) as UpdateProviderInput;
+
+      const existing = await prisma.provider.findFirst({
+        where: {
+          type: ProviderType.SMS,
+          name: { equals: name, mode: 'insensitive' },
+        },
+      });
+
+      if (!existing) {
+        return ResponseBuilder.notFound(c, 'Provider');
+      }
+
+      // The driver lives in config, so keep it when only one of them changes
+      const currentConfig = (existing.config || {}) as Record<string, any>;
+      const config = body.config || body.driver
+        ? { ...(body.config || currentConfig), driver: body.driver || currentConfig.driver }
+        : undefined;
+
+      const provider = await prisma.provider.update({
+        where: { id: existing.id },
+        data: {
+          status: body.status,
+          credentials: body.credentials,
+          config,
+          supportedCountries: body.supportedCountries,
+          supportedNetworks: body.supportedNetworks,
+          priority: body.priority,
+          rateLimit: body.rateLimit,
+          monthlyLimit: body.monthlyLimit,
+        },
+      });
+
+      const reload = await SMSProviderFactory.reload();
+
+      return ResponseBuilder.success(
+        c,
+        { ...ProviderController.formatProvider(provider), reload },
+        'Provider updated'
+      );
+    } catch (error: any) {
+      logger.error({ error }, 'Update provider controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Re-read the providers table now instead of waiting for the next poll
+  static async reloadProviders(c: Context) {
+    try {
+      const reload = await SMSProviderFactory.reload();
+
+      return ResponseBuilder.success(c, reload, 'Providers reloaded');
+    } catch (error: any) {
+      logger.error({ error }, 'Reload providers controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // List provider circuits and recent transitions
+  static async listCircuits(c: Context) {
+    try {
+      const limit = parseInt(c.req.query('limit') || '50');
+
+      return ResponseBuilder.success(c, {
+        circuits: ProviderCircuitBreaker.getStatuses(),
+        transitions: ProviderCircuitBreaker.getTransitions(limit),
+      });
+    } catch (error: any) {
+      logger.error({ error }, 'List provider circuits controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Force a provider circuit closed
+  static async resetCircuit(c: Context) {
+    try {
+      const { provider: name } = c.req.param();
+
+      const provider = SMSProviderFactory.getProvider(name);
+
+      if (!provider) {
+        return ResponseBuilder.notFound(c, 'Provider');
+      }
+
+      const status = ProviderCircuitBreaker.reset(provider);
+
+      return ResponseBuilder.success(c, status, 'Provider circuit closed');
+    } catch (error: any) {
+      logger.error({ error }, 'Reset provider circuit controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // List provider costs
+  static async listCosts(c: Context) {
+    try {
+      const query = c.req.query();
+
+      const page = parseInt(query.page || '1');
+      const limit = parseInt(query.limit || '50');
+
+      const where = {
+        ...(query.includeInactive === 'true' ? {} : { isActive: true }),
+        ...(query.country && { country: query.country.toUpperCase() }),
+        ...(query.provider && {
+          provider: { name: { equals: query.provider, mode: 'insensitive' as const } },
+        }),
+      };
+
+      const [costs, total] = await Promise.all([
+        prisma.providerCost.findMany({
+          where,
+          include: { provider: { select: { name: true } } },
+          orderBy: [{ country: 'asc' }, { effectiveFrom: 'desc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.providerCost.count({ where }),
+      ]);
+
+      return ResponseBuilder.paginated(
+        c,
+        costs.map(({ provider, ...cost }) => ({ ...cost, provider: provider.name })),
+        page,
+        limit,
+        total
+      );
+    } catch (error: any) {
+      logger.error({ error }, 'List provider costs controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Add a provider cost (a later effectiveFrom supersedes earlier costs)
+  static async createCost(c: Context) {
+    try {
+      const body = c.req.valid('json' as never) as CreateProviderCostInput;
+
+      const provider = await prisma.provider.findFirst({
+        where: { name: { equals: body.provider, mode: 'insensitive' } },
+        select: { id: true, name: true },
+      });
+
+      if (!provider) {
+        return ResponseBuilder.notFound(c, 'Provider');
+      }
+
+      const cost = await prisma.providerCost.create({
+        data: {
+          providerId: provider.id,
+          country: body.country,
+          network: body.network,
+          messageType: body.messageType,
+          costPerUnit: body.costPerUnit,
+          currency: body.currency,
+          effectiveFrom: body.effectiveFrom,
+          effectiveTo: body.effectiveTo,
+        },
+      });
+
+      ProviderCostService.clearCache();
+
+      return ResponseBuilder.created(c, { ...cost, provider: provider.name }, 'Provider cost created');
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        return ResponseBuilder.error(
+          c,
+          'DUPLICATE_PROVIDER_COST',
+          'A cost with the same provider, destination and effective date already exists',
+          409
+        );
+      }
+
+      logger.error({ error }, 'Create provider cost controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Deactivate a provider cost
+  static async deactivateCost(c: Context) {
+    try {
+      const { id } = c.req.param();
+
+      const result = await prisma.providerCost.updateMany({
+        where: { id, isActive: true },
+        data: { isActive: false },
+      });
+
+      if (result.count === 0) {
+        return ResponseBuilder.notFound(c, 'Provider cost');
+      }
+
+      ProviderCostService.clearCache();
+
+      return ResponseBuilder.success(c, { id, isActive: false }, 'Provider cost deactivated');
+    } catch (error: any) {
+      logger.error({ error }, 'Deactivate provider cost controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Provider row for admin responses, with credential values hidden
+  private static formatProvider<T extends { name: string; credentials: unknown }>(provider: T) {
+    const credentials = (provider.credentials || {}) as Record<string, unknown>;
+
+    return {
+      ...provider,
+      credentials: Object.fromEntries(Object.keys(credentials).map(key => [key, '********'])),
+      loaded: !!SMSProviderFactory.getProvider(provider.name),
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { QueueManager } from '@services/queue/queue.manager';
+
+export class QueueController {
+  // List queues with job counts
+  static async listQueues(c: Context) {
+    try {
+      const stats = await Promise.all(
+        QueueManager.getQueues().map(queue => QueueManager.stats(queue))
+      );
+
+      return ResponseBuilder.success(c, { queues: stats });
+    } catch (error: any) {
+      logger.error({ error }, 'List queues controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // List dead-lettered jobs for a queue
+  static async listDeadJobs(c: Context) {
+    try {
+      const { queue } = c.req.param();
+      const query = c.req.query();
+
+      const page = parseInt(query.page || '1');
+      const limit = parseInt(query.limit || '20');
+
+      const { jobs, total } = await QueueManager.listDead(queue, (page - 1) * limit, limit);
+
+      return ResponseBuilder.paginated(c, jobs, page, limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List dead jobs controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get a dead-lettered job
+  static async getDeadJob(c: Context) {
+    try {
+      const { queue, jobId } = c.req.param();
+
+      const job = await QueueManager.getDead(queue, jobId);
+
+      if (!job) {
+        return ResponseBuilder.notFound(c, 'Dead job');
+      }
+
+      return ResponseBuilder.success(c, job);
+    } catch (error: any) {
+      logger.error({ error }, 'Get dead job controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Replay a dead-lettered job
+  static async replayDeadJob(c: Context) {
+    try {
+      const { queue, jobId } = c.req.param();
+
+      const job = await QueueManager.replayDead(queue, jobId);
+
+      if (!job) {
+        return ResponseBuilder.notFound(c, 'Dead job');
+      }
+
+      return ResponseBuilder.success(c, job, 'Job replayed');
+    } catch (error: any) {
+      logger.error({ error }, 'Replay dead job controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Replay dead-lettered jobs in bulk
+  static async replayDeadJobs(c: Context) {
+    try {
+      const { queue } = c.req.param();
+      const body = await c.req.json().catch(() => ({}));
+
+      const replayed = await QueueManager.replayAllDead(queue, body.limit || 100);
+
+      return ResponseBuilder.success(c, { queue, replayed }, `${replayed} job(s) replayed`);
+    } catch (error: any) {
+      logger.error({ error }, 'Replay dead jobs controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Discard a dead-lettered job
+  static async deleteDeadJob(c: Context) {
+    try {
+      const { queue, jobId } = c.req.param();
+
+      const removed = await QueueManager.removeDead(queue, jobId);
+
+      if (!removed) {
+        return ResponseBuilder.notFound(c, 'Dead job');
+      }
+
+      return ResponseBuilder.success(c, { queue, jobId }, 'Job discarded');
+    } catch (error: any) {
+      logger.error({ error }, 'Delete dead job controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { MarginReportService } from '../services/margin-report.service';
+import type { MarginReportInput } from '../schemas/provider.schema';
+
+export class ReportController {
+  // SMS margin (sell price vs provider cost) by provider, country and network
+  static async getMargins(c: Context) {
+    try {
+      const filters = c.req.valid('query' as never) as MarginReportInput;
+
+      const report = await MarginReportService.getReport(filters);
+
+      return ResponseBuilder.success(c, report);
+    } catch (error: any) {
+      logger.error({ error }, 'Margin report controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { SendWindowService } from '@modules/send-windows/services/send-window.service';
+import type {
+  QuerySendWindowsInput,
+  CreateSendWindowInput,
+  UpdateSendWindowInput,
+  SendWindowParamsInput,
+} from '@modules/send-windows/schemas/send-window.schema';
+
+// Platform send windows (regulator quiet hours), applied to every account.
+// Windows have no account, so the service gets `null`.
+export class PlatformSendWindowController {
+  // List platform send windows
+  static async listWindows(c: Context) {
+    try {
+      const query = c.req.valid('query' as never) as QuerySendWindowsInput;
+
+      const { windows, total } = await SendWindowService.list(null, query);
+
+      return ResponseBuilder.paginated(c, windows, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List platform send windows controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Add a platform send window for a country or for all countries
+  static async createWindow(c: Context) {
+    try {
+      const body = c.req.valid('json' as never) as CreateSendWindowInput;
+
+      const window = await SendWindowService.create(null, body);
+
+      return ResponseBuilder.created(c, window, 'Send window created');
+    } catch (error: any) {
+      return PlatformSendWindowController.handleError(c, error, 'Create platform send window controller error');
+    }
+  }
+
+  // Update a platform send window
+  static async updateWindow(c: Context) {
+    try {
+      const { id } = c.req.valid('param' as never) as SendWindowParamsInput;
+      const body = c.req.valid('json' as never) as UpdateSendWindowInput;
+
+      const window = await SendWindowService.update(null, id, body);
+
+      return ResponseBuilder.success(c, window, 'Send window updated');
+    } catch (error: any) {
+      return PlatformSendWindowController.handleError(c, error, 'Update platform send window controller error');
+    }
+  }
+
+  // Remove a platform send window
+  static async deleteWindow(c: Context) {
+    try {
+      const { id } = c.req.valid('param' as never) as SendWindowParamsInput;
+
+      await SendWindowService.remove(null, id);
+
+      return ResponseBuilder.success(c, null, 'Send window deleted');
+    } catch (error: any) {
+      return PlatformSendWindowController.handleError(c, error, 'Delete platform send window controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Send window not found') {
+      return ResponseBuilder.notFound(c, 'Send window');
+    }
+
+    if (error.message?.startsWith('Unknown country ')) {
+      return ResponseBuilder.error(c, 'UNKNOWN_COUNTRY', error.message, 400);
+    }
+
+    if (error.message === 'Start and end time must differ') {
+      return ResponseBuilder.error(c, 'INVALID_SEND_WINDOW', error.message, 400);
+    }
+
+    if (error.message?.startsWith('A send window for ')) {
+      return ResponseBuilder.error(c, 'DUPLICATE_SEND_WINDOW', error.message, 409);
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
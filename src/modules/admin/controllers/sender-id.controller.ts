@@ -0,0 +1,86 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { SenderIdService } from '@modules/sender-ids/services/sender-id.service';
+import type {
+  QuerySenderIdReviewsInput,
+  RejectSenderIdInput,
+  SenderIdParamsInput,
+} from '@modules/sender-ids/schemas/sender-id.schema';
+
+// Review queue for sender ID requests. Decisions notify the account's
+// webhooks (SENDER_ID_APPROVED / SENDER_ID_REJECTED).
+export class SenderIdReviewController {
+  // List requests waiting for review (or by status)
+  static async listReviews(c: Context) {
+    try {
+      const query = c.req.valid('query' as never) as QuerySenderIdReviewsInput;
+
+      const { senderIds, total } = await SenderIdService.listReviews(query);
+
+      return ResponseBuilder.paginated(c, senderIds, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List sender ID reviews controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Mark a pending request as under review
+  static async startReview(c: Context) {
+    try {
+      const { id } = c.req.valid('param' as never) as SenderIdParamsInput;
+
+      const senderId = await SenderIdService.startReview(id, SenderIdReviewController.reviewerId(c));
+
+      return ResponseBuilder.success(c, senderId, 'Sender ID under review');
+    } catch (error: any) {
+      return SenderIdReviewController.handleError(c, error, 'Start sender ID review controller error');
+    }
+  }
+
+  // Approve a request
+  static async approveSenderId(c: Context) {
+    try {
+      const { id } = c.req.valid('param' as never) as SenderIdParamsInput;
+
+      const senderId = await SenderIdService.approve(id, SenderIdReviewController.reviewerId(c));
+
+      return ResponseBuilder.success(c, senderId, 'Sender ID approved');
+    } catch (error: any) {
+      return SenderIdReviewController.handleError(c, error, 'Approve sender ID controller error');
+    }
+  }
+
+  // Reject a request
+  static async rejectSenderId(c: Context) {
+    try {
+      const { id } = c.req.valid('param' as never) as SenderIdParamsInput;
+      const { reason } = c.req.valid('json' as never) as RejectSenderIdInput;
+
+      const senderId = await SenderIdService.reject(id, SenderIdReviewController.reviewerId(c), reason);
+
+      return ResponseBuilder.success(c, senderId, 'Sender ID rejected');
+    } catch (error: any) {
+      return SenderIdReviewController.handleError(c, error, 'Reject sender ID controller error');
+    }
+  }
+
+  // The admin user, or the API key the review came through
+  private static reviewerId(c: Context): string {
+    return c.get('user')?.id || c.get('apiKey')?.id;
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Sender ID not found') {
+      return ResponseBuilder.notFound(c, 'Sender ID');
+    }
+
+    if (error.message?.startsWith('A sender ID that is ')) {
+      return ResponseBuilder.error(c, 'INVALID_SENDER_ID_STATE', error.message, 409);
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
@@ -0,0 +1,103 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { SuppressionService } from '@modules/suppressions/services/suppression.service';
+import type {
+  QuerySuppressionsInput,
+  AddPlatformSuppressionsInput,
+  ImportPlatformSuppressionsInput,
+  SuppressionParamsInput,
+} from '@modules/suppressions/schemas/suppression.schema';
+
+// Platform-wide suppression list (regulator DND registries), applied to
+// every account. Entries have no account, so the service gets `null`.
+export class PlatformSuppressionController {
+  // List platform-wide suppressed numbers
+  static async listSuppressions(c: Context) {
+    try {
+      const query = c.req.valid('query' as never) as QuerySuppressionsInput;
+
+      const { suppressions, total } = await SuppressionService.list(null, query);
+
+      return ResponseBuilder.paginated(c, suppressions, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List platform suppressions controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Add numbers to the platform-wide list
+  static async addSuppressions(c: Context) {
+    try {
+      const body = c.req.valid('json' as never) as AddPlatformSuppressionsInput;
+
+      const result = await SuppressionService.add(null, body.phones, {
+        reason: body.reason,
+        source: body.source,
+        note: body.note,
+      });
+
+      return ResponseBuilder.created(c, result, 'Numbers suppressed');
+    } catch (error: any) {
+      logger.error({ error }, 'Add platform suppressions controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Import a registry file (CSV or Excel) into the platform-wide list
+  static async importSuppressions(c: Context) {
+    try {
+      const body = c.req.valid('form' as never) as ImportPlatformSuppressionsInput;
+
+      const result = await SuppressionService.importFile(null, body.file, {
+        phoneColumn: body.phoneColumn,
+        reason: body.reason,
+        source: body.source,
+        note: body.note,
+      });
+
+      return ResponseBuilder.created(c, result, 'Suppression list imported');
+    } catch (error: any) {
+      if (error.message?.startsWith('Column ') || error.message?.startsWith('Maximum ')
+        || error.message?.startsWith('Unsupported ') || error.message?.startsWith('Legacy ')
+        || error.message === 'The file has no data rows') {
+        return ResponseBuilder.error(c, 'SUPPRESSION_IMPORT_ERROR', error.message, 400);
+      }
+
+      logger.error({ error }, 'Import platform suppressions controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Download the platform-wide list as CSV
+  static async exportSuppressions(c: Context) {
+    try {
+      const csv = await SuppressionService.exportCSV(null);
+
+      c.header('Content-Type', 'text/csv');
+      c.header('Content-Disposition', 'attachment; filename="platform-suppressions.csv"');
+      return c.body(csv);
+    } catch (error: any) {
+      logger.error({ error }, 'Export platform suppressions controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Remove a number from the platform-wide list
+  static async deleteSuppression(c: Context) {
+    try {
+      const { id } = c.req.valid('param' as never) as SuppressionParamsInput;
+
+      await SuppressionService.remove(null, id);
+
+      return ResponseBuilder.success(c, null, 'Suppression removed');
+    } catch (error: any) {
+      if (error.message === 'Suppression not found') {
+        return ResponseBuilder.notFound(c, 'Suppression');
+      }
+
+      logger.error({ error }, 'Delete platform suppression controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+}
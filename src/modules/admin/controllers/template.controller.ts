@@ -0,0 +1,72 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { TemplateService } from '@modules/sms/services/template.service';
+import type {
+  QueryTemplateReviewsInput,
+  RejectTemplateInput,
+  TemplateParamsInput,
+} from '@modules/sms/schemas/template.schema';
+
+// Review queue for SMS templates submitted by accounts
+export class TemplateReviewController {
+  // List templates awaiting review (or by another approval status)
+  static async listReviews(c: Context) {
+    try {
+      const query = c.req.valid('query' as never) as QueryTemplateReviewsInput;
+
+      const { templates, total } = await TemplateService.listReviews(query);
+
+      return ResponseBuilder.paginated(c, templates, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List template reviews controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Approve a pending template
+  static async approveTemplate(c: Context) {
+    try {
+      const { id } = c.req.valid('param' as never) as TemplateParamsInput;
+
+      const template = await TemplateService.approve(id, TemplateReviewController.reviewerId(c));
+
+      return ResponseBuilder.success(c, template, 'Template approved');
+    } catch (error: any) {
+      return TemplateReviewController.handleError(c, error, 'Approve template controller error');
+    }
+  }
+
+  // Reject a pending template
+  static async rejectTemplate(c: Context) {
+    try {
+      const { id } = c.req.valid('param' as never) as TemplateParamsInput;
+      const { reason } = c.req.valid('json' as never) as RejectTemplateInput;
+
+      const template = await TemplateService.reject(id, TemplateReviewController.reviewerId(c), reason);
+
+      return ResponseBuilder.success(c, template, 'Template rejected');
+    } catch (error: any) {
+      return TemplateReviewController.handleError(c, error, 'Reject template controller error');
+    }
+  }
+
+  // The admin user, or the API key the review came through
+  private static reviewerId(c: Context): string {
+    return c.get('user')?.id || c.get('apiKey')?.id;
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Template not found') {
+      return ResponseBuilder.notFound(c, 'Template');
+    }
+
+    if (error.message === 'Only pending templates can be reviewed') {
+      return ResponseBuilder.error(c, 'INVALID_TEMPLATE_STATE', error.message, 409);
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
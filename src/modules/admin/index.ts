@@ -0,0 +1,46 @@
+// Export all admin module components
+
+// Controllers
+export { QueueController } from './controllers/queue.controller';
+export { ProviderController } from './controllers/provider.controller';
+export { ReportController } from './controllers/report.controller';
+export { MNPController } from './controllers/mnp.controller';
+export { InboundRouteController } from './controllers/inbound-route.controller';
+export { PlatformSuppressionController } from './controllers/suppression.controller';
+export { PlatformSendWindowController } from './controllers/send-window.controller';
+export { TemplateReviewController } from './controllers/template.controller';
+export { SenderIdReviewController } from './controllers/sender-id.controller';
+
+// Services
+export { MarginReportService } from './services/margin-report.service';
+
+// Routes
+export { default as adminRouter } from './routes/admin.routes';
+
+// Schemas
+export {
+  queueParamsSchema,
+  deadJobParamsSchema,
+  queryDeadJobsSchema,
+  replayDeadJobsSchema,
+} from './schemas/queue.schema';
+
+export {
+  providerParamsSchema,
+  queryCircuitsSchema,
+  createProviderSchema,
+  updateProviderSchema,
+  queryProviderCostsSchema,
+  createProviderCostSchema,
+  providerCostParamsSchema,
+  marginReportSchema,
+} from './schemas/provider.schema';
+
+export { mnpLookupSchema } from './schemas/mnp.schema';
+
+export {
+  queryInboundRoutesSchema,
+  createInboundRouteSchema,
+  updateInboundRouteSchema,
+  inboundRouteParamsSchema,
+} from './schemas/inbound-route.schema';
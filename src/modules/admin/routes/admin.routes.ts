@@ -0,0 +1,426 @@
+import { Hono } from 'hono';
+import { QueueController } from '../controllers/queue.controller';
+import { ProviderController } from '../controllers/provider.controller';
+import { ReportController } from '../controllers/report.controller';
+import { MNPController } from '../controllers/mnp.controller';
+import { InboundRouteController } from '../controllers/inbound-route.controller';
+import { PlatformSuppressionController } from '../controllers/suppression.controller';
+import { PlatformSendWindowController } from '../controllers/send-window.controller';
+import { TemplateReviewController } from '../controllers/template.controller';
+import { SenderIdReviewController } from '../controllers/sender-id.controller';
+import {
+  apiKeyAuth,
+  requirePermissions,
+  validate,
+  auditLogger,
+} from '@app/middleware';
+import {
+  queueParamsSchema,
+  deadJobParamsSchema,
+  queryDeadJobsSchema,
+  replayDeadJobsSchema,
+} from '../schemas/queue.schema';
+import {
+  providerParamsSchema,
+  queryCircuitsSchema,
+  createProviderSchema,
+  updateProviderSchema,
+  queryProviderCostsSchema,
+  createProviderCostSchema,
+  providerCostParamsSchema,
+  marginReportSchema,
+} from '../schemas/provider.schema';
+import { mnpLookupSchema } from '../schemas/mnp.schema';
+import {
+  queryInboundRoutesSchema,
+  createInboundRouteSchema,
+  updateInboundRouteSchema,
+  inboundRouteParamsSchema,
+} from '../schemas/inbound-route.schema';
+import {
+  querySuppressionsSchema,
+  addPlatformSuppressionsSchema,
+  importPlatformSuppressionsSchema,
+  suppressionParamsSchema,
+} from '@modules/suppressions/schemas/suppression.schema';
+import {
+  querySendWindowsSchema,
+  createSendWindowSchema,
+  updateSendWindowSchema,
+  sendWindowParamsSchema,
+} from '@modules/send-windows/schemas/send-window.schema';
+import {
+  queryTemplateReviewsSchema,
+  rejectTemplateSchema,
+  templateParamsSchema,
+} from '@modules/sms/schemas/template.schema';
+import {
+  querySenderIdReviewsSchema,
+  rejectSenderIdSchema,
+  senderIdParamsSchema,
+} from '@modules/sender-ids/schemas/sender-id.schema';
+
+const adminRouter = new Hono();
+
+// Apply authentication to all routes
+adminRouter.use('*', apiKeyAuth);
+
+// ============================================
+// QUEUE ROUTES
+// ============================================
+
+// List queues
+adminRouter.get(
+  '/queues',
+  requirePermissions('admin:queues'),
+  QueueController.listQueues
+);
+
+// List dead jobs
+adminRouter.get(
+  '/queues/:queue/dead',
+  requirePermissions('admin:queues'),
+  validate('param', queueParamsSchema),
+  validate('query', queryDeadJobsSchema),
+  QueueController.listDeadJobs
+);
+
+// Replay dead jobs in bulk
+adminRouter.post(
+  '/queues/:queue/dead/replay',
+  requirePermissions('admin:queues'),
+  validate('param', queueParamsSchema),
+  validate('json', replayDeadJobsSchema),
+  auditLogger('replay_all', 'queue_job'),
+  QueueController.replayDeadJobs
+);
+
+// Get dead job
+adminRouter.get(
+  '/queues/:queue/dead/:jobId',
+  requirePermissions('admin:queues'),
+  validate('param', deadJobParamsSchema),
+  QueueController.getDeadJob
+);
+
+// Replay dead job
+adminRouter.post(
+  '/queues/:queue/dead/:jobId/replay',
+  requirePermissions('admin:queues'),
+  validate('param', deadJobParamsSchema),
+  auditLogger('replay', 'queue_job'),
+  QueueController.replayDeadJob
+);
+
+// Discard dead job
+adminRouter.delete(
+  '/queues/:queue/dead/:jobId',
+  requirePermissions('admin:queues'),
+  validate('param', deadJobParamsSchema),
+  auditLogger('discard', 'queue_job'),
+  QueueController.deleteDeadJob
+);
+
+// ============================================
+// PROVIDER ROUTES
+// ============================================
+
+// List SMS providers
+adminRouter.get(
+  '/providers',
+  requirePermissions('admin:providers'),
+  ProviderController.listProviders
+);
+
+// Add SMS provider
+adminRouter.post(
+  '/providers',
+  requirePermissions('admin:providers'),
+  validate('json', createProviderSchema),
+  auditLogger('create', 'provider'),
+  ProviderController.createProvider
+);
+
+// Reload providers from the database
+adminRouter.post(
+  '/providers/reload',
+  requirePermissions('admin:providers'),
+  auditLogger('reload', 'provider'),
+  ProviderController.reloadProviders
+);
+
+// List provider circuit breakers
+adminRouter.get(
+  '/providers/circuits',
+  requirePermissions('admin:providers'),
+  validate('query', queryCircuitsSchema),
+  ProviderController.listCircuits
+);
+
+// Close a provider circuit
+adminRouter.post(
+  '/providers/:provider/circuit/reset',
+  requirePermissions('admin:providers'),
+  validate('param', providerParamsSchema),
+  auditLogger('reset_circuit', 'provider'),
+  ProviderController.resetCircuit
+);
+
+// Update SMS provider
+adminRouter.patch(
+  '/providers/:provider',
+  requirePermissions('admin:providers'),
+  validate('param', providerParamsSchema),
+  validate('json', updateProviderSchema),
+  auditLogger('update', 'provider'),
+  ProviderController.updateProvider
+);
+
+// List provider costs
+adminRouter.get(
+  '/providers/costs',
+  requirePermissions('admin:providers'),
+  validate('query', queryProviderCostsSchema),
+  ProviderController.listCosts
+);
+
+// Add provider cost
+adminRouter.post(
+  '/providers/costs',
+  requirePermissions('admin:providers'),
+  validate('json', createProviderCostSchema),
+  auditLogger('create', 'provider_cost'),
+  ProviderController.createCost
+);
+
+// Deactivate provider cost
+adminRouter.delete(
+  '/providers/costs/:id',
+  requirePermissions('admin:providers'),
+  validate('param', providerCostParamsSchema),
+  auditLogger('deactivate', 'provider_cost'),
+  ProviderController.deactivateCost
+);
+
+// ============================================
+// MNP ROUTES
+// ============================================
+
+// Bulk number portability lookup
+adminRouter.post(
+  '/mnp/lookup',
+  requirePermissions('admin:mnp'),
+  validate('json', mnpLookupSchema),
+  MNPController.lookup
+);
+
+// ============================================
+// INBOUND ROUTE ROUTES
+// ============================================
+
+// List inbound routes
+adminRouter.get(
+  '/inbound-routes',
+  requirePermissions('admin:numbers'),
+  validate('query', queryInboundRoutesSchema),
+  InboundRouteController.listRoutes
+);
+
+// Assign a number or keyword to an account
+adminRouter.post(
+  '/inbound-routes',
+  requirePermissions('admin:numbers'),
+  validate('json', createInboundRouteSchema),
+  auditLogger('create', 'inbound_route'),
+  InboundRouteController.createRoute
+);
+
+// Update inbound route
+adminRouter.patch(
+  '/inbound-routes/:id',
+  requirePermissions('admin:numbers'),
+  validate('param', inboundRouteParamsSchema),
+  validate('json', updateInboundRouteSchema),
+  auditLogger('update', 'inbound_route'),
+  InboundRouteController.updateRoute
+);
+
+// Delete inbound route
+adminRouter.delete(
+  '/inbound-routes/:id',
+  requirePermissions('admin:numbers'),
+  validate('param', inboundRouteParamsSchema),
+  auditLogger('delete', 'inbound_route'),
+  InboundRouteController.deleteRoute
+);
+
+// ============================================
+// PLATFORM SUPPRESSION ROUTES
+// ============================================
+
+// List platform-wide suppressed numbers
+adminRouter.get(
+  '/suppressions',
+  requirePermissions('admin:suppressions'),
+  validate('query', querySuppressionsSchema),
+  PlatformSuppressionController.listSuppressions
+);
+
+// Export the platform-wide list as CSV
+adminRouter.get(
+  '/suppressions/export',
+  requirePermissions('admin:suppressions'),
+  PlatformSuppressionController.exportSuppressions
+);
+
+// Add numbers to the platform-wide list
+adminRouter.post(
+  '/suppressions',
+  requirePermissions('admin:suppressions'),
+  validate('json', addPlatformSuppressionsSchema),
+  auditLogger('create', 'platform_suppression'),
+  PlatformSuppressionController.addSuppressions
+);
+
+// Import a DND registry file
+adminRouter.post(
+  '/suppressions/import',
+  requirePermissions('admin:suppressions'),
+  validate('form', importPlatformSuppressionsSchema),
+  auditLogger('import', 'platform_suppression'),
+  PlatformSuppressionController.importSuppressions
+);
+
+// Remove a number from the platform-wide list
+adminRouter.delete(
+  '/suppressions/:id',
+  requirePermissions('admin:suppressions'),
+  validate('param', suppressionParamsSchema),
+  auditLogger('delete', 'platform_suppression'),
+  PlatformSuppressionController.deleteSuppression
+);
+
+// ============================================
+// SEND WINDOW ROUTES
+// ============================================
+
+// List platform send windows
+adminRouter.get(
+  '/send-windows',
+  requirePermissions('admin:send-windows'),
+  validate('query', querySendWindowsSchema),
+  PlatformSendWindowController.listWindows
+);
+
+// Add a platform send window
+adminRouter.post(
+  '/send-windows',
+  requirePermissions('admin:send-windows'),
+  validate('json', createSendWindowSchema),
+  auditLogger('create', 'platform_send_window'),
+  PlatformSendWindowController.createWindow
+);
+
+// Update a platform send window
+adminRouter.patch(
+  '/send-windows/:id',
+  requirePermissions('admin:send-windows'),
+  validate('param', sendWindowParamsSchema),
+  validate('json', updateSendWindowSchema),
+  auditLogger('update', 'platform_send_window'),
+  PlatformSendWindowController.updateWindow
+);
+
+// Remove a platform send window
+adminRouter.delete(
+  '/send-windows/:id',
+  requirePermissions('admin:send-windows'),
+  validate('param', sendWindowParamsSchema),
+  auditLogger('delete', 'platform_send_window'),
+  PlatformSendWindowController.deleteWindow
+);
+
+// ============================================
+// TEMPLATE REVIEW ROUTES
+// ============================================
+
+// List templates by approval status (pending by default)
+adminRouter.get(
+  '/templates',
+  requirePermissions('admin:templates'),
+  validate('query', queryTemplateReviewsSchema),
+  TemplateReviewController.listReviews
+);
+
+// Approve a submitted template
+adminRouter.post(
+  '/templates/:id/approve',
+  requirePermissions('admin:templates'),
+  validate('param', templateParamsSchema),
+  auditLogger('approve', 'template'),
+  TemplateReviewController.approveTemplate
+);
+
+// Reject a submitted template
+adminRouter.post(
+  '/templates/:id/reject',
+  requirePermissions('admin:templates'),
+  validate('param', templateParamsSchema),
+  validate('json', rejectTemplateSchema),
+  auditLogger('reject', 'template'),
+  TemplateReviewController.rejectTemplate
+);
+
+// ============================================
+// SENDER ID REVIEW ROUTES
+// ============================================
+
+// List sender ID requests waiting for review (or by status)
+adminRouter.get(
+  '/sender-ids',
+  requirePermissions('admin:sender-ids'),
+  validate('query', querySenderIdReviewsSchema),
+  SenderIdReviewController.listReviews
+);
+
+// Mark a request as under review
+adminRouter.post(
+  '/sender-ids/:id/review',
+  requirePermissions('admin:sender-ids'),
+  validate('param', senderIdParamsSchema),
+  auditLogger('review', 'sender_id'),
+  SenderIdReviewController.startReview
+);
+
+// Approve a sender ID request
+adminRouter.post(
+  '/sender-ids/:id/approve',
+  requirePermissions('admin:sender-ids'),
+  validate('param', senderIdParamsSchema),
+  auditLogger('approve', 'sender_id'),
+  SenderIdReviewController.approveSenderId
+);
+
+// Reject a sender ID request
+adminRouter.post(
+  '/sender-ids/:id/reject',
+  requirePermissions('admin:sender-ids'),
+  validate('param', senderIdParamsSchema),
+  validate('json', rejectSenderIdSchema),
+  auditLogger('reject', 'sender_id'),
+  SenderIdReviewController.rejectSenderId
+);
+
+// ============================================
+// REPORT ROUTES
+// ============================================
+
+// SMS margin report
+adminRouter.get(
+  '/reports/margins',
+  requirePermissions('admin:reports'),
+  validate('query', marginReportSchema),
+  ReportController.getMargins
+);
+
+export default adminRouter;
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+// Numbers are E.164 (+233...) or short codes (3-8 digits)
+const numberSchema = z
+  .string()
+  .transform(v => v.trim().replace(/^tel:/i, '').replace(/[\s\-().]/g, ''))
+  .pipe(z.string().regex(/^(\+[1-9]\d{7,14}|\d{3,8})$/, 'Number must be E.164 or a short code'));
+
+// One word, stored upper-case
+const keywordSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9]{1,20}$/, 'Keyword must be a single word of letters and digits')
+  .transform(v => v.toUpperCase());
+
+// List inbound routes schema
+export const queryInboundRoutesSchema = z.object({
+  accountId: z.string().optional(),
+  number: z.string().optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 50),
+});
+
+// Create inbound route schema
+export const createInboundRouteSchema = z.object({
+  accountId: z.string().min(1, 'Account ID is required'),
+  number: numberSchema,
+  keyword: keywordSchema.nullable().optional().default(null),
+  provider: z.string().min(1).nullable().optional().default(null),
+});
+
+// Update inbound route schema
+export const updateInboundRouteSchema = z.object({
+  keyword: keywordSchema.nullable(),
+  provider: z.string().min(1).nullable(),
+  isActive: z.boolean(),
+})
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+// Inbound route param schema
+export const inboundRouteParamsSchema = z.object({
+  id: z.string().min(1, 'Route ID is required'),
+});
+
+export type QueryInboundRoutesInput = z.infer<typeof queryInboundRoutesSchema>;
+export type CreateInboundRouteInput = z.infer<typeof createInboundRouteSchema>;
+export type UpdateInboundRouteInput = z.infer<typeof updateInboundRouteSchema>;
+export type InboundRouteParamsInput = z.infer<typeof inboundRouteParamsSchema>;
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// Numbers per bulk lookup request
+export const MAX_MNP_LOOKUP_NUMBERS = 1000;
+
+// Bulk MNP lookup schema
+export const mnpLookupSchema = z.object({
+  phones: z
+    .array(z.string().regex(/^\+[1-9]\d{7,14}$/, 'Phone numbers must be in E.164 format'))
+    .min(1, 'At least one phone number is required')
+    .max(MAX_MNP_LOOKUP_NUMBERS, `Maximum ${MAX_MNP_LOOKUP_NUMBERS} numbers per request`),
+  refresh: z.boolean().optional().default(false),
+});
+
+export type MNPLookupInput = z.infer<typeof mnpLookupSchema>;
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+// Provider param schema
+export const providerParamsSchema = z.object({
+  provider: z.string().min(1, 'Provider is required'),
+});
+
+// List circuit transitions schema
+export const queryCircuitsSchema = z.object({
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 50),
+});
+
+export type ProviderParamsInput = z.infer<typeof providerParamsSchema>;
+export type QueryCircuitsInput = z.infer<typeof queryCircuitsSchema>;
+
+// Provider fields shared by create and update
+const providerFields = {
+  driver: z.enum(['kairos', 'africastalking', 'mtn', 'twilio']),
+  credentials: z.record(z.any()),
+  config: z.record(z.any()),
+  supportedCountries: z
+    .array(z.string().toUpperCase().regex(/^([A-Z]{2}|\*)$/, 'Country must be an ISO 3166-1 alpha-2 code or *'))
+    .min(1, 'At least one country is required'),
+  supportedNetworks: z.array(z.string().min(1).toLowerCase()),
+  priority: z.number().int().min(0),
+  status: z.enum(['ACTIVE', 'INACTIVE', 'MAINTENANCE']),
+  rateLimit: z.number().int().positive().nullable(),
+  monthlyLimit: z.number().int().positive().nullable(),
+};
+
+// Create provider schema
+export const createProviderSchema = z.object({
+  name: z.string().min(1, 'Provider name is required').max(50),
+  driver: providerFields.driver,
+  credentials: providerFields.credentials,
+  config: providerFields.config.optional().default({}),
+  supportedCountries: providerFields.supportedCountries,
+  supportedNetworks: providerFields.supportedNetworks.optional().default([]),
+  priority: providerFields.priority.optional().default(1),
+  status: providerFields.status.optional().default('ACTIVE'),
+  rateLimit: providerFields.rateLimit.optional(),
+  monthlyLimit: providerFields.monthlyLimit.optional(),
+});
+
+// Update provider schema (credentials and config are replaced, not merged)
+export const updateProviderSchema = z.object(providerFields)
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type CreateProviderInput = z.infer<typeof createProviderSchema>;
+export type UpdateProviderInput = z.infer<typeof updateProviderSchema>;
+
+// List provider costs schema
+export const queryProviderCostsSchema = z.object({
+  provider: z.string().optional(),
+  country: z.string().length(2).toUpperCase().optional(),
+  includeInactive: z.string().optional().transform(v => v === 'true'),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 50),
+});
+
+// Create provider cost schema
+export const createProviderCostSchema = z.object({
+  provider: z.string().min(1, 'Provider name is required'),
+  country: z.string().length(2, 'Country must be an ISO 3166-1 alpha-2 code').toUpperCase(),
+  network: z.string().min(1).optional(),
+  messageType: z.enum(['SMS', 'OTP', 'BULK', 'CAMPAIGN']).optional().default('SMS'),
+  costPerUnit: z.number().nonnegative(),
+  currency: z.string().length(3).toUpperCase().optional().default('GHS'),
+  effectiveFrom: z.string().datetime().optional().transform(val => val ? new Date(val) : new Date()),
+  effectiveTo: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+});
+
+// Provider cost param schema
+export const providerCostParamsSchema = z.object({
+  id: z.string().min(1, 'Cost ID is required'),
+});
+
+// Margin report schema
+export const marginReportSchema = z.object({
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  country: z.string().length(2).toUpperCase().optional(),
+  provider: z.string().optional(),
+});
+
+export type QueryProviderCostsInput = z.infer<typeof queryProviderCostsSchema>;
+export type CreateProviderCostInput = z.infer<typeof createProviderCostSchema>;
+export type MarginReportInput = z.infer<typeof marginReportSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+// Queue name param schema
+export const queueParamsSchema = z.object({
+  queue: z.string().min(1, 'Queue name is required'),
+});
+
+// Dead job param schema
+export const deadJobParamsSchema = z.object({
+  queue: z.string().min(1, 'Queue name is required'),
+  jobId: z.string().min(1, 'Job ID is required'),
+});
+
+// List dead jobs schema
+export const queryDeadJobsSchema = z.object({
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
+});
+
+// Replay dead jobs schema
+export const replayDeadJobsSchema = z.object({
+  limit: z.number().int().min(1).max(1000).optional(),
+});
+
+export type QueueParamsInput = z.infer<typeof queueParamsSchema>;
+export type DeadJobParamsInput = z.infer<typeof deadJobParamsSchema>;
+export type QueryDeadJobsInput = z.infer<typeof queryDeadJobsSchema>;
+export type ReplayDeadJobsInput = z.infer<typeof replayDeadJobsSchema>;
@@ -0,0 +1,133 @@
+import { prisma } from '@database/prisma.client';
+import { Prisma } from '../../../../generated/prisma/client';
+
+interface MarginRow {
+  provider: string;
+  country: string | null;
+  network: string | null;
+  messages: number;
+  units: number;
+  revenue: number | null;
+  costedRevenue: number | null;
+  cost: number | null;
+  costedMessages: number;
+}
+
+export interface MarginLine {
+  provider: string;
+  country: string | null;
+  network: string | null;
+  messages: number;
+  units: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercent: number | null;
+  revenuePerMessage: number;
+  costPerMessage: number | null;
+  uncostedMessages: number;
+}
+
+export interface MarginReport {
+  period: { startDate: Date; endDate: Date };
+  totals: Omit<MarginLine, 'provider' | 'country' | 'network'>;
+  lines: MarginLine[];
+}
+
+// Default report window
+const DEFAULT_PERIOD_DAYS = 30;
+
+/**
+ * Margin Report
+ * Compares what we charged for sent SMS (`Message.totalCost`, from
+ * `PricingRate`) with what the provider charged us (`Message.providerCost`,
+ * from `ProviderCost`) per provider, country and network.
+ *
+ * Messages sent through a provider with no cost on record are counted in
+ * `uncostedMessages` and left out of the margin.
+ */
+export class MarginReportService {
+  static async getReport(filters: {
+    startDate?: string;
+    endDate?: string;
+    country?: string;
+    provider?: string;
+  }): Promise<MarginReport> {
+    const endDate = filters.endDate ? new Date(filters.endDate) : new Date();
+    const startDate = filters.startDate
+      ? new Date(filters.startDate)
+      : new Date(endDate.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+    const rows: MarginRow[] = await prisma.$queryRaw`
+      SELECT
+        provider,
+        "recipientCountry" AS country,
+        "recipientNetwork" AS network,
+        COUNT(*)::int AS messages,
+        SUM(units)::int AS units,
+        SUM("totalCost") AS revenue,
+        SUM(CASE WHEN "providerCost" IS NOT NULL THEN "totalCost" END) AS "costedRevenue",
+        SUM("providerCost") AS cost,
+        COUNT("providerCost")::int AS "costedMessages"
+      FROM messages
+      WHERE "sentAt" >= ${startDate}
+        AND "sentAt" < ${endDate}
+        AND provider IS NOT NULL
+        ${filters.country ? Prisma.sql`AND "recipientCountry" = ${filters.country}` : Prisma.empty}
+        ${filters.provider ? Prisma.sql`AND provider = ${filters.provider}` : Prisma.empty}
+      GROUP BY provider, "recipientCountry", "recipientNetwork"
+      ORDER BY revenue DESC
+    `;
+
+    const lines = rows.map(row => ({
+      provider: row.provider,
+      country: row.country,
+      network: row.network,
+      ...this.summarize(row),
+    }));
+
+    const totals = this.summarize(rows.reduce<Omit<MarginRow, 'provider' | 'country' | 'network'>>(
+      (sum, row) => ({
+        messages: sum.messages + row.messages,
+        units: sum.units + row.units,
+        revenue: (sum.revenue || 0) + (row.revenue || 0),
+        costedRevenue: (sum.costedRevenue || 0) + (row.costedRevenue || 0),
+        cost: (sum.cost || 0) + (row.cost || 0),
+        costedMessages: sum.costedMessages + row.costedMessages,
+      }),
+      { messages: 0, units: 0, revenue: 0, costedRevenue: 0, cost: 0, costedMessages: 0 }
+    ));
+
+    return {
+      period: { startDate, endDate },
+      totals,
+      lines,
+    };
+  }
+
+  // Margin figures for one group of messages
+  private static summarize(row: Omit<MarginRow, 'provider' | 'country' | 'network'>) {
+    const revenue = row.revenue || 0;
+    const costedRevenue = row.costedRevenue || 0;
+    const cost = row.cost || 0;
+    const margin = costedRevenue - cost;
+
+    return {
+      messages: row.messages,
+      units: row.units,
+      revenue: this.round(revenue),
+      cost: this.round(cost),
+      margin: this.round(margin),
+      marginPercent: costedRevenue > 0 ? this.round((margin / costedRevenue) * 100) : null,
+      revenuePerMessage: row.messages > 0 ? this.round(revenue / row.messages) : 0,
+      costPerMessage: row.costedMessages > 0 ? this.round(cost / row.costedMessages) : null,
+      uncostedMessages: row.messages - row.costedMessages,
+    };
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
+
+export default MarginReportService;
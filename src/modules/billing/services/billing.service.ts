@@ -0,0 +1,163 @@
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+import { WebhookDispatcher } from '@modules/webhooks/services/webhook-dispatcher.service';
+import { TransactionType, type Prisma } from '../../../../generated/prisma/client';
+
+export interface ChargeOptions {
+  requireFunds?: boolean; // Refuse the charge instead of going below zero
+}
+
+// Account balance around a charge, for the low/depleted balance webhooks
+export interface BalanceChange {
+  previousBalance: number;
+  newBalance: number;
+  currency: string;
+}
+
+export class BillingService {
+  // Total spendable balance (credits + wallet)
+  static async getAvailableBalance(accountId: string): Promise<number> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: {
+        walletBalance: true,
+        creditBalance: true,
+      },
+    });
+
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    return account.walletBalance + account.creditBalance;
+  }
+
+  // Check whether the account can cover a charge
+  static async hasSufficientBalance(accountId: string, amount: number): Promise<boolean> {
+    return (await this.getAvailableBalance(accountId)) >= amount;
+  }
+
+  // Deduct a service charge from the account and record the transaction.
+  // With `requireFunds` the charge is refused ('Insufficient balance')
+  // rather than taking the balance below zero
+  static async deductBalance(
+    accountId: string,
+    amount: number,
+    serviceType: string,
+    description?: string,
+    options: ChargeOptions = {}
+  ): Promise<void> {
+    const change = await prisma.$transaction(tx =>
+      this.charge(tx, accountId, amount, serviceType, description, options)
+    );
+
+    await this.notifyBalanceChange(accountId, change);
+  }
+
+  // Same as deductBalance, inside the caller's transaction, so the charge
+  // commits or rolls back with the work it pays for. Call
+  // notifyBalanceChange with the result once the transaction has committed
+  static async charge(
+    tx: Prisma.TransactionClient,
+    accountId: string,
+    amount: number,
+    serviceType: string,
+    description?: string,
+    options: ChargeOptions = {}
+  ): Promise<BalanceChange> {
+    // Lock the account row so concurrent charges see each other's debits
+    const [account] = await tx.$queryRaw<Array<{ walletBalance: number; creditBalance: number; currency: string }>>`
+      SELECT "walletBalance", "creditBalance", currency
+      FROM accounts
+      WHERE id = ${accountId}
+      FOR UPDATE
+    `;
+
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    if (options.requireFunds && account.walletBalance + account.creditBalance < amount) {
+      throw new Error('Insufficient balance');
+    }
+
+    let walletDebit = 0;
+    let creditDebit = 0;
+
+    // Use credits first, then wallet balance
+    if (account.creditBalance >= amount) {
+      creditDebit = amount;
+    } else {
+      creditDebit = account.creditBalance;
+      walletDebit = amount - creditDebit;
+    }
+
+    // Update account balance
+    await tx.account.update({
+      where: { id: accountId },
+      data: {
+        walletBalance: { decrement: walletDebit },
+        creditBalance: { decrement: creditDebit },
+        lifetimeSpent: { increment: amount },
+      },
+    });
+
+    // Create transaction record
+    await tx.transaction.create({
+      data: {
+        accountId,
+        type: this.getTransactionType(serviceType),
+        amount: -amount,
+        currency: account.currency,
+        walletBefore: account.walletBalance,
+        walletAfter: account.walletBalance - walletDebit,
+        creditBefore: account.creditBalance,
+        creditAfter: account.creditBalance - creditDebit,
+        description: description || `${serviceType} service charge`,
+        serviceType,
+        status: 'completed',
+      },
+    });
+
+    return {
+      previousBalance: account.walletBalance + account.creditBalance,
+      newBalance: (account.walletBalance - walletDebit) + (account.creditBalance - creditDebit),
+      currency: account.currency,
+    };
+  }
+
+  // Notify once when the balance crosses the low/depleted thresholds
+  static async notifyBalanceChange(accountId: string, change: BalanceChange): Promise<void> {
+    const { previousBalance, newBalance, currency } = change;
+
+    if (newBalance <= 0 && previousBalance > 0) {
+      await WebhookDispatcher.emit(accountId, 'BALANCE_DEPLETED', {
+        balance: newBalance,
+        currency,
+      });
+    } else if (newBalance <= env.LOW_BALANCE_THRESHOLD && previousBalance > env.LOW_BALANCE_THRESHOLD) {
+      await WebhookDispatcher.emit(accountId, 'BALANCE_LOW', {
+        balance: newBalance,
+        threshold: env.LOW_BALANCE_THRESHOLD,
+        currency,
+      });
+    }
+  }
+
+  // Get transaction type based on service
+  private static getTransactionType(serviceType: string): TransactionType {
+    // Services without a transaction type of their own are plain debits;
+    // `Transaction.serviceType` still tells them apart
+    const typeMap: Record<string, TransactionType> = {
+      sms: TransactionType.DEBIT,
+      email: TransactionType.EMAIL_DEBIT,
+      voice: TransactionType.DEBIT,
+      whatsapp: TransactionType.DEBIT,
+      push: TransactionType.DEBIT,
+      lookup: TransactionType.DEBIT,
+      chat: TransactionType.DEBIT,
+    };
+
+    return typeMap[serviceType.toLowerCase()] || TransactionType.DEBIT;
+  }
+}
@@ -0,0 +1,219 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { CampaignService } from '../services/campaign.service';
+import type {
+  QueryCampaignsInput,
+  CreateCampaignInput,
+  UpdateCampaignInput,
+  LaunchCampaignInput,
+  CampaignParamsInput,
+} from '../schemas/campaign.schema';
+
+export class CampaignController {
+  // List campaigns
+  static async listCampaigns(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QueryCampaignsInput;
+
+      const { campaigns, total } = await CampaignService.listCampaigns(accountId, query);
+
+      return ResponseBuilder.paginated(c, campaigns, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List campaigns controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get campaign by ID, with live counters
+  static async getCampaign(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as CampaignParamsInput;
+
+      const campaign = await CampaignService.getCampaign(accountId, id);
+
+      return ResponseBuilder.success(c, campaign);
+    } catch (error: any) {
+      return CampaignController.handleError(c, error, 'Get campaign controller error');
+    }
+  }
+
+  // Create a draft campaign
+  static async createCampaign(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as CreateCampaignInput;
+
+      const campaign = await CampaignService.createCampaign(accountId, body);
+
+      return ResponseBuilder.created(c, campaign, 'Campaign created');
+    } catch (error: any) {
+      return CampaignController.handleError(c, error, 'Create campaign controller error');
+    }
+  }
+
+  // Update a draft campaign
+  static async updateCampaign(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as CampaignParamsInput;
+      const body = c.req.valid('json' as never) as UpdateCampaignInput;
+
+      const campaign = await CampaignService.updateCampaign(accountId, id, body);
+
+      return ResponseBuilder.success(c, campaign, 'Campaign updated');
+    } catch (error: any) {
+      return CampaignController.handleError(c, error, 'Update campaign controller error');
+    }
+  }
+
+  // Delete a campaign that is not running
+  static async deleteCampaign(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as CampaignParamsInput;
+
+      await CampaignService.deleteCampaign(accountId, id);
+
+      return ResponseBuilder.success(c, null, 'Campaign deleted');
+    } catch (error: any) {
+      return CampaignController.handleError(c, error, 'Delete campaign controller error');
+    }
+  }
+
+  // Count and price the audience
+  static async estimateCampaign(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as CampaignParamsInput;
+
+      const estimate = await CampaignService.estimate(accountId, id);
+
+      return ResponseBuilder.success(c, estimate);
+    } catch (error: any) {
+      return CampaignController.handleError(c, error, 'Estimate campaign controller error');
+    }
+  }
+
+  // Launch now or at scheduledFor
+  static async launchCampaign(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as CampaignParamsInput;
+      const body = c.req.valid('json' as never) as LaunchCampaignInput;
+
+      const campaign = await CampaignService.launch(accountId, id, body);
+
+      return ResponseBuilder.success(
+        c,
+        campaign,
+        campaign.scheduledFor ? 'Campaign scheduled' : 'Campaign launched',
+        202
+      );
+    } catch (error: any) {
+      return CampaignController.handleError(c, error, 'Launch campaign controller error');
+    }
+  }
+
+  // Pause a running campaign
+  static async pauseCampaign(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as CampaignParamsInput;
+
+      const campaign = await CampaignService.pause(accountId, id);
+
+      return ResponseBuilder.success(c, campaign, 'Campaign paused');
+    } catch (error: any) {
+      return CampaignController.handleError(c, error, 'Pause campaign controller error');
+    }
+  }
+
+  // Resume a paused campaign
+  static async resumeCampaign(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as CampaignParamsInput;
+
+      const campaign = await CampaignService.resume(accountId, id);
+
+      return ResponseBuilder.success(c, campaign, 'Campaign resumed');
+    } catch (error: any) {
+      return CampaignController.handleError(c, error, 'Resume campaign controller error');
+    }
+  }
+
+  // Cancel a scheduled, running or paused campaign
+  static async cancelCampaign(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as CampaignParamsInput;
+
+      const campaign = await CampaignService.cancel(accountId, id);
+
+      return ResponseBuilder.success(c, campaign, 'Campaign cancelled');
+    } catch (error: any) {
+      return CampaignController.handleError(c, error, 'Cancel campaign controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Campaign not found') {
+      return ResponseBuilder.notFound(c, 'Campaign');
+    }
+
+    if (error.message === 'Template not found') {
+      return ResponseBuilder.error(c, 'TEMPLATE_NOT_FOUND', error.message, 400);
+    }
+
+    if (error.message === 'Template is not approved') {
+      return ResponseBuilder.error(c, 'TEMPLATE_NOT_APPROVED', error.message, 400);
+    }
+
+    if (error.message === 'Contact group not found') {
+      return ResponseBuilder.error(c, 'GROUP_NOT_FOUND', error.message, 400);
+    }
+
+    if (error.message === 'Segment not found') {
+      return ResponseBuilder.error(c, 'SEGMENT_NOT_FOUND', error.message, 400);
+    }
+
+    // Bad filter expression, unknown custom field or group in a filter
+    if (error.message?.startsWith('Invalid segment filter')
+      || error.message?.startsWith('Custom field ')
+      || error.message?.startsWith('Unknown custom field ')) {
+      return ResponseBuilder.error(c, 'INVALID_SEGMENT_FILTER', error.message, 400);
+    }
+
+    if (error.message?.startsWith('Campaign has no audience')
+      || error.message === 'Cannot launch a campaign with no recipients') {
+      return ResponseBuilder.error(c, 'EMPTY_AUDIENCE', error.message, 400);
+    }
+
+    if (error.message?.startsWith('A/B test ')) {
+      return ResponseBuilder.error(c, 'INVALID_AB_TEST', error.message, 400);
+    }
+
+    if (error.message?.startsWith('Sender ID ') || error.message?.startsWith('No approved sender ID')) {
+      return ResponseBuilder.error(c, 'INVALID_SENDER_ID', error.message, 400);
+    }
+
+    if (error.message?.startsWith('Scheduled time ')) {
+      return ResponseBuilder.error(c, 'INVALID_SCHEDULE', error.message, 400);
+    }
+
+    if (error.message?.startsWith('Insufficient balance')) {
+      return ResponseBuilder.error(c, 'INSUFFICIENT_BALANCE', error.message, 402);
+    }
+
+    if (error.message?.startsWith('Cannot ')) {
+      return ResponseBuilder.error(c, 'INVALID_CAMPAIGN_STATE', error.message, 409);
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
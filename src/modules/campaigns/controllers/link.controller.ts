@@ -0,0 +1,24 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { LinkTrackingService } from '../services/link-tracking.service';
+
+export class LinkController {
+  // Record the click and redirect to the original URL
+  static async redirect(c: Context) {
+    try {
+      const { code } = c.req.param();
+
+      const url = await LinkTrackingService.recordClick(code);
+
+      if (!url) {
+        return ResponseBuilder.notFound(c, 'Link');
+      }
+
+      return c.redirect(url, 302);
+    } catch (error: any) {
+      logger.error({ error }, 'Tracked link redirect error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+// Export all Campaigns module components
+
+// Services
+export { CampaignService } from './services/campaign.service';
+export { CampaignDispatchService, CAMPAIGN_DISPATCH_QUEUE } from './services/campaign-dispatch.service';
+export { CampaignAudienceService } from './services/campaign-audience.service';
+export { CampaignStatsService } from './services/campaign-stats.service';
+export { CampaignTestService } from './services/campaign-test.service';
+export { LinkTrackingService } from './services/link-tracking.service';
+
+// Controllers
+export { CampaignController } from './controllers/campaign.controller';
+export { LinkController } from './controllers/link.controller';
+
+// Routes
+export { default as campaignRouter } from './routes/campaign.routes';
+export { default as linkRouter } from './routes/link.routes';
+
+// Types
+export type {
+  CampaignSendSpeed,
+  CampaignSummary,
+  CampaignEstimate,
+  CampaignTestMetric,
+  CampaignABTest,
+  CampaignVariantResult,
+} from './types/campaign.types';
+
+// Schemas
+export {
+  SEND_SPEEDS,
+  TEST_METRICS,
+  queryCampaignsSchema,
+  createCampaignSchema,
+  updateCampaignSchema,
+  launchCampaignSchema,
+  campaignParamsSchema,
+} from './schemas/campaign.schema';
@@ -0,0 +1,112 @@
+import { Hono } from 'hono';
+import { CampaignController } from '../controllers/campaign.controller';
+import {
+  apiKeyAuth,
+  apiKeyRateLimit,
+  requirePermissions,
+  validate,
+  auditLogger,
+} from '@app/middleware';
+import {
+  queryCampaignsSchema,
+  createCampaignSchema,
+  updateCampaignSchema,
+  launchCampaignSchema,
+  campaignParamsSchema,
+} from '../schemas/campaign.schema';
+
+const campaignRouter = new Hono();
+
+// Apply authentication to all routes
+campaignRouter.use('*', apiKeyAuth);
+
+// Apply API rate limiting
+campaignRouter.use('*', apiKeyRateLimit);
+
+// List campaigns
+campaignRouter.get(
+  '/',
+  validate('query', queryCampaignsSchema),
+  CampaignController.listCampaigns
+);
+
+// Create draft campaign
+campaignRouter.post(
+  '/',
+  requirePermissions('campaigns:manage'),
+  validate('json', createCampaignSchema),
+  auditLogger('create', 'campaign'),
+  CampaignController.createCampaign
+);
+
+// Get campaign by ID
+campaignRouter.get(
+  '/:id',
+  validate('param', campaignParamsSchema),
+  CampaignController.getCampaign
+);
+
+// Update draft campaign
+campaignRouter.patch(
+  '/:id',
+  requirePermissions('campaigns:manage'),
+  validate('param', campaignParamsSchema),
+  validate('json', updateCampaignSchema),
+  auditLogger('update', 'campaign'),
+  CampaignController.updateCampaign
+);
+
+// Delete campaign
+campaignRouter.delete(
+  '/:id',
+  requirePermissions('campaigns:manage'),
+  validate('param', campaignParamsSchema),
+  auditLogger('delete', 'campaign'),
+  CampaignController.deleteCampaign
+);
+
+// Estimate audience size and cost
+campaignRouter.post(
+  '/:id/estimate',
+  validate('param', campaignParamsSchema),
+  CampaignController.estimateCampaign
+);
+
+// Launch now or schedule
+campaignRouter.post(
+  '/:id/launch',
+  requirePermissions('campaigns:manage'),
+  validate('param', campaignParamsSchema),
+  validate('json', launchCampaignSchema),
+  auditLogger('launch', 'campaign'),
+  CampaignController.launchCampaign
+);
+
+// Pause sending
+campaignRouter.post(
+  '/:id/pause',
+  requirePermissions('campaigns:manage'),
+  validate('param', campaignParamsSchema),
+  auditLogger('pause', 'campaign'),
+  CampaignController.pauseCampaign
+);
+
+// Resume sending
+campaignRouter.post(
+  '/:id/resume',
+  requirePermissions('campaigns:manage'),
+  validate('param', campaignParamsSchema),
+  auditLogger('resume', 'campaign'),
+  CampaignController.resumeCampaign
+);
+
+// Cancel campaign
+campaignRouter.post(
+  '/:id/cancel',
+  requirePermissions('campaigns:manage'),
+  validate('param', campaignParamsSchema),
+  auditLogger('cancel', 'campaign'),
+  CampaignController.cancelCampaign
+);
+
+export default campaignRouter;
@@ -0,0 +1,10 @@
+import { Hono } from 'hono';
+import { LinkController } from '../controllers/link.controller';
+
+// Public: opened by SMS recipients, no authentication
+const linkRouter = new Hono();
+
+// Follow a tracked link
+linkRouter.get('/:code', LinkController.redirect);
+
+export default linkRouter;
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { segmentFilterSchema } from '@modules/contacts/schemas/contact.schema';
+
+const CAMPAIGN_STATUSES = ['DRAFT', 'SCHEDULED', 'PROCESSING', 'PAUSED', 'COMPLETED', 'CANCELLED', 'FAILED'] as const;
+
+export const SEND_SPEEDS = ['slow', 'normal', 'fast'] as const;
+
+export const TEST_METRICS = ['delivery', 'reply', 'click'] as const;
+
+// A/B test: each variant goes to `samplePercent` of the audience, the
+// winner after `windowHours` to the rest
+const abTestSchema = z.object({
+  variants: z.array(z.object({
+    content: z.string().min(1, 'Variant content is required').max(1600),
+  }))
+    .min(2, 'An A/B test needs at least two variants')
+    .max(4, 'An A/B test can have at most four variants'),
+  samplePercent: z.number().int().min(1).max(50),
+  metric: z.enum(TEST_METRICS).default('delivery'),
+  windowHours: z.number().int().min(1).max(168).default(4),
+})
+  .refine(data => data.samplePercent * data.variants.length < 100, {
+    message: 'The samples must leave part of the audience for the winner',
+    path: ['samplePercent'],
+  });
+
+// An A/B test brings its own content
+const contentOrTest = (data: { content?: unknown; templateId?: unknown; abTest?: unknown }) =>
+  !(data.abTest && (data.content || data.templateId));
+
+// Campaign fields shared by create and update
+const campaignFields = {
+  name: z.string().trim().min(1, 'Campaign name is required').max(100),
+  description: z.string().max(500).nullable(),
+  content: z.string().min(1, 'Message content is required').max(1600),
+  templateId: z.string().min(1).nullable(),
+  groupId: z.string().min(1).nullable(),
+  segmentId: z.string().min(1).nullable(),
+  filters: segmentFilterSchema.nullable(),
+  senderId: z.string().min(1).max(11).nullable(), // Approved sender ID name
+  sendSpeed: z.enum(SEND_SPEEDS),
+  allowDuplicates: z.boolean(),
+  abTest: abTestSchema.nullable(),
+};
+
+// Query campaigns schema
+export const queryCampaignsSchema = z.object({
+  status: z.enum(CAMPAIGN_STATUSES).optional(),
+  search: z.string().optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
+});
+
+// Create campaign schema
+export const createCampaignSchema = z.object({
+  ...z.object(campaignFields).partial().shape,
+  name: campaignFields.name,
+  sendSpeed: campaignFields.sendSpeed.default('normal'),
+  allowDuplicates: campaignFields.allowDuplicates.default(false),
+})
+  .refine(data => data.content || data.templateId || data.abTest, {
+    message: 'Either content, templateId or abTest is required',
+    path: ['content'],
+  })
+  .refine(contentOrTest, {
+    message: 'Set content or templateId, or abTest variants, not both',
+    path: ['abTest'],
+  })
+  .refine(data => data.groupId || data.segmentId || data.filters, {
+    message: 'An audience is required: groupId, segmentId or filters',
+    path: ['groupId'],
+  });
+
+// Update campaign schema (drafts only)
+export const updateCampaignSchema = z.object(campaignFields)
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+  .refine(contentOrTest, {
+    message: 'Set content or templateId, or abTest variants, not both',
+    path: ['abTest'],
+  });
+
+// Launch campaign schema: now, or at `scheduledFor`
+export const launchCampaignSchema = z.object({
+  scheduledFor: z.string().datetime({ offset: true }).optional().transform(val => val ? new Date(val) : undefined),
+});
+
+// Campaign by ID schema
+export const campaignParamsSchema = z.object({
+  id: z.string().min(1, 'Campaign ID is required'),
+});
+
+export type QueryCampaignsInput = z.infer<typeof queryCampaignsSchema>;
+export type CreateCampaignInput = z.infer<typeof createCampaignSchema>;
+export type UpdateCampaignInput = z.infer<typeof updateCampaignSchema>;
+export type CampaignABTestInput = z.infer<typeof abTestSchema>;
+export type LaunchCampaignInput = z.infer<typeof launchCampaignSchema>;
+export type CampaignParamsInput = z.infer<typeof campaignParamsSchema>;
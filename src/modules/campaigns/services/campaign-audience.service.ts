@@ -0,0 +1,164 @@
+import { prisma } from '@database/prisma.client';
+import { detectNetwork } from '@utils/phone';
+import { SMSValidationService } from '@modules/sms/services/sms-validation.service';
+import { SMSRouterService } from '@modules/sms/services/sms-router.service';
+import { SegmentService } from '@modules/contacts/services/segment.service';
+import { SegmentFilterService } from '@modules/contacts/services/segment-filter.service';
+import { SuppressionService } from '@modules/suppressions/services/suppression.service';
+import { MNPLookupService } from '@core/providers/mnp';
+import { LinkTrackingService, type TrackedLink } from './link-tracking.service';
+import type { SegmentNode } from '@modules/contacts/types/contact.types';
+import type { Campaign, Contact, Prisma } from '../../../../generated/prisma/client';
+
+// Contacts read per page when walking an audience
+export const AUDIENCE_PAGE_SIZE = 1000;
+
+type AudienceCampaign = Pick<Campaign, 'id' | 'accountId' | 'content' | 'groupId' | 'segmentId' | 'filters' | 'allowDuplicates'>;
+
+// A contact the campaign can be sent to, with its route
+export interface AudienceRecipient {
+  contact: Contact;
+  to: string;
+  country: string;
+  network?: string;
+}
+
+/**
+ * Campaign Audience
+ * Works out who a campaign goes to: subscribed, active contacts in its
+ * group and/or segment that also match its filters. Audiences are read in
+ * pages ordered by contact ID, so a page can be resumed from the last ID.
+ *
+ * Suppressed numbers are dropped. Unless the campaign allows duplicates,
+ * so are numbers that already got the same content from another campaign.
+ */
+export class CampaignAudienceService {
+  // `where` for the campaign's contacts
+  static async whereFor(campaign: AudienceCampaign): Promise<Prisma.ContactWhereInput> {
+    const conditions: Prisma.ContactWhereInput[] = [];
+
+    if (campaign.groupId) {
+      conditions.push({ groupMemberships: { some: { groupId: campaign.groupId } } });
+    }
+
+    if (campaign.segmentId) {
+      conditions.push(await SegmentService.whereForSegment(campaign.accountId, campaign.segmentId));
+    }
+
+    if (campaign.filters) {
+      conditions.push(await SegmentFilterService.buildWhere(
+        campaign.accountId,
+        campaign.filters as unknown as SegmentNode
+      ));
+    }
+
+    if (conditions.length === 0) {
+      throw new Error('Campaign has no audience: set a group, segment or filters');
+    }
+
+    return {
+      accountId: campaign.accountId,
+      isActive: true,
+      isSubscribed: true,
+      AND: conditions,
+    };
+  }
+
+  // Next page of contacts after `cursor` (a contact ID)
+  static async nextPage(where: Prisma.ContactWhereInput, cursor: string | null): Promise<Contact[]> {
+    return prisma.contact.findMany({
+      where: cursor ? { AND: [where, { id: { gt: cursor } }] } : where,
+      orderBy: { id: 'asc' },
+      take: AUDIENCE_PAGE_SIZE,
+    });
+  }
+
+  // Custom field keys defined by the account, blank when a contact has no value
+  static async fieldKeys(accountId: string): Promise<string[]> {
+    const fields = await prisma.contactField.findMany({
+      where: { accountId },
+      select: { key: true },
+    });
+
+    return fields.map(field => field.key);
+  }
+
+  // Drop the page's suppressed and duplicate numbers and route the rest
+  static async eligible(campaign: AudienceCampaign, contacts: Contact[]): Promise<AudienceRecipient[]> {
+    const phones = contacts.map(contact => contact.phone);
+    const suppressed = await SuppressionService.check(campaign.accountId, phones);
+    const duplicates = campaign.allowDuplicates
+      ? new Set<string>()
+      : await this.alreadySent(campaign, phones);
+
+    // Ported numbers already looked up are priced on their current network
+    const lookups = await MNPLookupService.getCached(phones);
+
+    return contacts
+      .filter(contact => !suppressed.has(contact.phone) && !duplicates.has(contact.phone))
+      .map(contact => ({
+        contact,
+        to: contact.phone,
+        country: SMSRouterService.getCountryFromPhone(contact.phone),
+        network: lookups.get(contact.phone)?.network
+          || contact.network
+          || detectNetwork(contact.phone).network
+          || undefined,
+      }));
+  }
+
+  // Personalize a message and count its units, with tracked links if asked
+  static render(
+    template: string,
+    contact: Contact,
+    fieldKeys: string[],
+    trackLinks: boolean = false
+  ): { content: string; units: number; links: TrackedLink[] } {
+    const personalized = this.personalize(template, contact, fieldKeys);
+    const { content, links } = trackLinks
+      ? LinkTrackingService.shorten(personalized)
+      : { content: personalized, links: [] };
+
+    const { units } = SMSValidationService.calculateMessageUnits(content);
+
+    return { content, units, links };
+  }
+
+  // Fill {{firstName}}-style placeholders from the contact and its custom fields
+  static personalize(content: string, contact: Contact, fieldKeys: string[]): string {
+    const customFields = (contact.customFields as Record<string, unknown> | null) || {};
+    const variables: Record<string, string> = {};
+
+    for (const key of fieldKeys) {
+      const value = customFields[key];
+      variables[key] = value === null || value === undefined ? '' : String(value);
+    }
+
+    Object.assign(variables, {
+      firstName: contact.firstName || '',
+      lastName: contact.lastName || '',
+      phone: contact.phone,
+      email: contact.email || '',
+      city: contact.city || '',
+      country: contact.country || '',
+    });
+
+    return SMSValidationService.replaceVariables(content, variables);
+  }
+
+  // Numbers that already got this content from another of the account's campaigns
+  private static async alreadySent(campaign: AudienceCampaign, phones: string[]): Promise<Set<string>> {
+    const messages = await prisma.message.findMany({
+      where: {
+        accountId: campaign.accountId,
+        recipient: { in: phones },
+        campaignId: { not: campaign.id },
+        campaign: { content: campaign.content },
+      },
+      select: { recipient: true },
+      distinct: ['recipient'],
+    });
+
+    return new Set<string>(messages.map(message => message.recipient));
+  }
+}
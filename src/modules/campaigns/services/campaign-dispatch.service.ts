@@ -0,0 +1,700 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+import { QueueManager, type Job } from '@services/queue/queue.manager';
+import { JobProcessor } from '@services/queue/job.processor';
+import { BillingService, type BalanceChange } from '@modules/billing/services/billing.service';
+import { SMSRouterService } from '@modules/sms/services/sms-router.service';
+import { SMSQueueService } from '@modules/sms/services/sms-queue.service';
+import { SendWindowService } from '@modules/send-windows/services/send-window.service';
+import { SuppressionService } from '@modules/suppressions/services/suppression.service';
+import { CampaignAudienceService, AUDIENCE_PAGE_SIZE } from './campaign-audience.service';
+import { CampaignStatsService } from './campaign-stats.service';
+import { CampaignTestService } from './campaign-test.service';
+import type { TrackedLink } from './link-tracking.service';
+import type { CampaignSendSpeed } from '../types/campaign.types';
+import {
+  CampaignStatus,
+  MessageStatus,
+  MessageType,
+  type Campaign,
+  type Prisma,
+} from '../../../../generated/prisma/client';
+
+export const CAMPAIGN_DISPATCH_QUEUE = 'campaigns.dispatch';
+
+// A send slice runs this often; its size follows the campaign's send speed
+const SLICE_INTERVAL_MS = 10_000;
+
+interface CampaignDispatchJob {
+  campaignId: string;
+  run: number;
+  step: 'build' | 'send' | 'decide';
+  slice?: number;
+}
+
+// Row returned when claiming a slice of pending messages
+interface ClaimedMessage {
+  id: string;
+  provider: string | null;
+  totalCost: number;
+  recipient: string;
+  recipientCountry: string | null;
+  variantId: string | null;
+}
+
+// A claimed and charged slice
+interface ClaimedSlice {
+  count: number; // Messages claimed
+  ready: ClaimedMessage[]; // Charged, to hand to the delivery queue
+  suppressed: ClaimedMessage[]; // Failed as suppressed
+  held: number; // Back to PENDING until their send window opens
+  cost: number;
+  balance: BalanceChange | null;
+}
+
+/**
+ * Campaign Dispatch
+ * Runs launched campaigns in two steps on the `campaigns.dispatch` queue:
+ *
+ * 1. Build: the audience is copied into PENDING messages, one page of
+ *    contacts per job. The page is recorded in `audienceCursor` in the same
+ *    transaction that inserts its messages, so a retried page never inserts
+ *    twice.
+ * 2. Send: every SLICE_INTERVAL_MS a slice of PENDING messages, sized by
+ *    `sendSpeed`, is claimed and charged in one transaction, then handed to
+ *    the delivery queue. Numbers suppressed since the build fail with the
+ *    reason. Messages outside the recipient's send window go back to
+ *    PENDING with `scheduledFor` set to the next opening, and are claimed
+ *    again then. A slice the balance cannot cover stays PENDING and the
+ *    campaign pauses.
+ *
+ * A/B tests run both steps twice. The first pass only covers the variant
+ * samples; when it is sent, a `decide` job waits out the test window, picks
+ * the winner and resets the audience cursor. The second pass sends the
+ * winner to everyone else.
+ *
+ * Every job carries the campaign's `dispatchRun`. Pausing, cancelling and
+ * resuming bump or check it, so jobs from an earlier run stop on their own.
+ */
+export class CampaignDispatchService {
+  // Register the dispatch worker (jobs only run once JobProcessor starts)
+  static register(): void {
+    JobProcessor.register<CampaignDispatchJob>(
+      CAMPAIGN_DISPATCH_QUEUE,
+      job => {
+        switch (job.data.step) {
+          case 'build':
+            return this.buildPage(job);
+          case 'decide':
+            return this.decideTest(job);
+          default:
+            return this.sendSlice(job);
+        }
+      },
+      {
+        concurrency: env.CAMPAIGN_CONCURRENCY,
+        onDead: (job, error) => this.pauseOnError(job, error),
+      }
+    );
+  }
+
+  // Start (or continue) a run: build what is left of the audience, then send
+  static async start(
+    campaign: Pick<Campaign, 'id' | 'dispatchRun' | 'audienceBuiltAt' | 'winnerVariantId'>,
+    delayMs: number = 0
+  ): Promise<void> {
+    await QueueManager.add<CampaignDispatchJob>(
+      CAMPAIGN_DISPATCH_QUEUE,
+      {
+        campaignId: campaign.id,
+        run: campaign.dispatchRun,
+        step: campaign.audienceBuiltAt ? 'send' : 'build',
+        slice: 0,
+      },
+      { jobId: `${this.jobPrefix(campaign)}:start`, delayMs }
+    );
+  }
+
+  // Messages sent per slice at the given speed
+  static sliceSize(sendSpeed: string): number {
+    const perMinute: Record<CampaignSendSpeed, number> = {
+      slow: env.CAMPAIGN_RATE_SLOW,
+      normal: env.CAMPAIGN_RATE_NORMAL,
+      fast: env.CAMPAIGN_RATE_FAST,
+    };
+
+    const rate = perMinute[sendSpeed as CampaignSendSpeed] ?? env.CAMPAIGN_RATE_NORMAL;
+    return Math.max(1, Math.round(rate * SLICE_INTERVAL_MS / 60_000));
+  }
+
+  // Copy one page of the audience into PENDING messages
+  private static async buildPage(job: Job<CampaignDispatchJob>): Promise<void> {
+    const { campaignId, run } = job.data;
+
+    const campaign = await this.activeCampaign(campaignId, run);
+    if (!campaign) return;
+
+    if (campaign.audienceBuiltAt) {
+      await this.enqueueSend(campaign, 0);
+      return;
+    }
+
+    // Set at launch; only missing if the sender ID was deleted since
+    if (!campaign.sender) {
+      throw new Error('Campaign sender ID no longer exists');
+    }
+
+    const where = await CampaignAudienceService.whereFor(campaign);
+    const contacts = await CampaignAudienceService.nextPage(where, campaign.audienceCursor);
+    const isLastPage = contacts.length < AUDIENCE_PAGE_SIZE;
+    const cursor = contacts.length > 0 ? contacts[contacts.length - 1].id : campaign.audienceCursor;
+
+    const fieldKeys = await CampaignAudienceService.fieldKeys(campaign.accountId);
+    const recipients = await CampaignAudienceService.eligible(campaign, contacts);
+    const isTest = CampaignTestService.isTest(campaign, campaign.variants);
+    const trackLinks = CampaignTestService.tracksLinks(campaign);
+
+    // One provider selection and one price lookup per (country, network)
+    const routes = new Map<string, { provider: string | null; ratePerUnit: number; currency: string }>();
+
+    for (const recipient of recipients) {
+      const key = `${recipient.country}:${recipient.network || ''}`;
+      if (routes.has(key)) continue;
+
+      const provider = await SMSRouterService.selectProvider({
+        country: recipient.country,
+        network: recipient.network,
+        messageType: MessageType.CAMPAIGN,
+      });
+
+      const pricing = await SMSRouterService.getPricing(
+        recipient.country,
+        recipient.network,
+        MessageType.CAMPAIGN,
+        1
+      );
+
+      routes.set(key, {
+        provider: provider?.id || null,
+        ratePerUnit: pricing.ratePerUnit,
+        currency: pricing.currency,
+      });
+    }
+
+    const rows: Prisma.MessageCreateManyInput[] = [];
+    const links = new Map<string, TrackedLink[]>();
+    const variantTotals = new Map<string, number>();
+    let unroutable = 0;
+    let otherPhase = 0;
+
+    for (const recipient of recipients) {
+      const route = routes.get(`${recipient.country}:${recipient.network || ''}`)!;
+
+      if (!route.provider) {
+        unroutable++;
+        continue;
+      }
+
+      // A/B tests: the contact's variant, if it is sent in this pass
+      const variant = isTest
+        ? CampaignTestService.variantFor(campaign, campaign.variants, recipient.contact.id)
+        : null;
+
+      if (isTest && !variant) {
+        otherPhase++;
+        continue;
+      }
+
+      const message = CampaignAudienceService.render(
+        variant?.content ?? campaign.content,
+        recipient.contact,
+        fieldKeys,
+        trackLinks
+      );
+
+      if (message.links.length > 0) {
+        links.set(recipient.to, message.links);
+      }
+
+      if (variant) {
+        variantTotals.set(variant.id, (variantTotals.get(variant.id) || 0) + 1);
+      }
+
+      rows.push({
+        accountId: campaign.accountId,
+        recipient: recipient.to,
+        recipientCountry: recipient.country,
+        recipientNetwork: recipient.network,
+        content: message.content,
+        messageType: MessageType.CAMPAIGN,
+        senderId: campaign.senderId,
+        senderName: campaign.sender.name,
+        status: MessageStatus.PENDING,
+        provider: route.provider,
+        units: message.units,
+        unitCost: route.ratePerUnit,
+        totalCost: route.ratePerUnit * message.units,
+        currency: route.currency,
+        campaignId,
+        templateId: campaign.templateId,
+        variantId: variant?.id,
+      });
+    }
+
+    // Advance the cursor and insert the page atomically
+    const inserted = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.$executeRaw`
+        UPDATE campaigns
+        SET "audienceCursor" = ${cursor},
+            "audienceBuiltAt" = ${isLastPage ? new Date() : null},
+            "totalRecipients" = "totalRecipients" + ${rows.length},
+            "pendingCount" = "pendingCount" + ${rows.length},
+            "updatedAt" = NOW()
+        WHERE id = ${campaignId}
+          AND "dispatchRun" = ${run}
+          AND status = 'PROCESSING'
+          AND "audienceCursor" IS NOT DISTINCT FROM ${campaign.audienceCursor}
+      `;
+
+      if (claimed === 0) return false;
+
+      if (rows.length === 0) return true;
+
+      if (links.size === 0) {
+        await tx.message.createMany({ data: rows });
+      } else {
+        // Tracked links need the IDs of their messages
+        const messages = await tx.message.createManyAndReturn({
+          data: rows,
+          select: { id: true, recipient: true },
+        });
+
+        await tx.messageLink.createMany({
+          data: messages.flatMap(message =>
+            (links.get(message.recipient) || []).map(link => ({ ...link, messageId: message.id }))
+          ),
+        });
+      }
+
+      for (const [variantId, count] of variantTotals) {
+        await tx.campaignVariant.update({
+          where: { id: variantId },
+          data: { totalRecipients: { increment: count } },
+        });
+      }
+
+      return true;
+    }, { timeout: 30000 });
+
+    if (!inserted) {
+      logger.debug({ campaignId, run }, 'Campaign audience page already built');
+      return;
+    }
+
+    logger.info({
+      campaignId,
+      contacts: contacts.length,
+      queued: rows.length,
+      skipped: contacts.length - recipients.length,
+      unroutable,
+      ...(isTest && { otherPhase, phase: campaign.winnerVariantId ? 'rollout' : 'test' }),
+    }, 'Campaign audience page built');
+
+    if (isLastPage) {
+      await this.enqueueSend(campaign, 0);
+    } else {
+      await QueueManager.add<CampaignDispatchJob>(
+        CAMPAIGN_DISPATCH_QUEUE,
+        { campaignId, run, step: 'build' },
+        { jobId: `${this.jobPrefix(campaign)}:build:${cursor}` }
+      );
+    }
+  }
+
+  // Claim, charge and queue the next slice of PENDING messages
+  private static async sendSlice(job: Job<CampaignDispatchJob>): Promise<void> {
+    const { campaignId, run } = job.data;
+    const slice = job.data.slice ?? 0;
+
+    const campaign = await this.activeCampaign(campaignId, run);
+    if (!campaign) return;
+
+    const size = this.sliceSize(campaign.sendSpeed);
+
+    // Messages of an earlier slice whose delivery jobs were lost
+    const unsent = await this.requeueStranded(campaignId);
+
+    let claimed: ClaimedSlice;
+
+    try {
+      claimed = await this.claimSlice(campaign, size);
+    } catch (error: any) {
+      // The slice was rolled back to PENDING, uncharged. Pause until the
+      // account tops up (or the failure is looked into)
+      const pausedReason = error.message === 'Insufficient balance'
+        ? 'Insufficient balance'
+        : `Dispatch failed: ${error.message}`;
+
+      await prisma.campaign.updateMany({
+        where: { id: campaignId, dispatchRun: run, status: CampaignStatus.PROCESSING },
+        data: { status: CampaignStatus.PAUSED, pausedReason },
+      });
+
+      logger.warn({ error, campaignId, slice, pausedReason }, 'Campaign paused: slice could not be charged');
+      return;
+    }
+
+    const { count, ready, suppressed, held, cost, balance } = claimed;
+
+    for (const message of suppressed) {
+      await CampaignStatsService.recordStatusChange(
+        { id: message.id, campaignId, variantId: message.variantId, sentAt: null },
+        MessageStatus.QUEUED,
+        MessageStatus.FAILED
+      );
+    }
+
+    if (suppressed.length > 0) {
+      logger.info({ campaignId, suppressed: suppressed.length }, 'Suppressed campaign messages failed');
+    }
+
+    if (balance) {
+      await BillingService.notifyBalanceChange(campaign.accountId, balance);
+    }
+
+    if (ready.length > 0) {
+      await SMSQueueService.enqueue(ready);
+
+      logger.info({ campaignId, slice, sent: ready.length, held, cost }, 'Campaign slice queued');
+    }
+
+    // A short slice with messages still waiting for their send window:
+    // come back when the first one opens
+    if (count < size) {
+      const waiting = await prisma.message.aggregate({
+        where: { campaignId, status: MessageStatus.PENDING },
+        _min: { scheduledFor: true },
+        _count: true,
+      });
+
+      if (waiting._count > 0) {
+        const opensIn = (waiting._min.scheduledFor?.getTime() ?? 0) - Date.now();
+        await this.enqueueSend(campaign, slice + 1, Math.max(SLICE_INTERVAL_MS, opensIn));
+        return;
+      }
+    }
+
+    // Messages handed over but not sent yet: keep watching them rather
+    // than finish with some of them stranded
+    if (count < size && unsent > 0) {
+      await this.enqueueSend(campaign, slice + 1, SLICE_INTERVAL_MS);
+      return;
+    }
+
+    // Otherwise a short slice means nothing is left to send. An undecided
+    // A/B test waits for its window before the winner goes out.
+    if (count < size && CampaignTestService.isTest(campaign, campaign.variants) && !campaign.winnerVariantId) {
+      await this.scheduleDecision(campaign);
+      return;
+    }
+
+    if (count < size) {
+      const { count } = await prisma.campaign.updateMany({
+        where: { id: campaignId, dispatchRun: run, status: CampaignStatus.PROCESSING },
+        data: { status: CampaignStatus.COMPLETED, completedAt: new Date() },
+      });
+
+      if (count > 0) {
+        logger.info({ campaignId, totalRecipients: campaign.totalRecipients }, 'Campaign completed');
+      }
+      return;
+    }
+
+    await this.enqueueSend(campaign, slice + 1, SLICE_INTERVAL_MS);
+  }
+
+  // Claim the next slice of due PENDING messages, then fail the suppressed
+  // ones, hold those outside their send window and charge the rest, all in
+  // one transaction: a slice is never QUEUED without being paid for. Throws
+  // 'Insufficient balance', and rolls back, when the account cannot cover it
+  private static async claimSlice(campaign: Campaign, size: number): Promise<ClaimedSlice> {
+    const result = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.$queryRaw<ClaimedMessage[]>`
+        UPDATE messages
+        SET status = 'QUEUED', "queuedAt" = NOW(), "updatedAt" = NOW()
+        WHERE id IN (
+          SELECT id FROM messages
+          WHERE "campaignId" = ${campaign.id}
+            AND status = 'PENDING'
+            AND ("scheduledFor" IS NULL OR "scheduledFor" <= NOW())
+          ORDER BY "createdAt" ASC, id ASC
+          LIMIT ${size}
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, provider, "totalCost", recipient, "recipientCountry", "variantId"
+      `;
+
+      const { sendable, suppressed } = await this.failSuppressed(tx, campaign.accountId, claimed);
+      const ready = await this.holdOutsideWindow(tx, campaign.accountId, sendable);
+      const cost = ready.reduce((sum, message) => sum + message.totalCost, 0);
+
+      const balance = cost > 0
+        ? await BillingService.charge(
+            tx,
+            campaign.accountId,
+            cost,
+            'sms',
+            `Campaign "${campaign.name}" (${ready.length} messages)`,
+            { requireFunds: true }
+          )
+        : null;
+
+      if (cost > 0) {
+        await tx.campaign.update({
+          where: { id: campaign.id },
+          data: { actualCost: { increment: cost } },
+        });
+      }
+
+      return {
+        count: claimed.length,
+        ready,
+        suppressed,
+        held: sendable.length - ready.length,
+        cost,
+        balance,
+      };
+    }, { timeout: 30000 });
+
+    return result;
+  }
+
+  // Fail messages to numbers suppressed since the audience was built (an
+  // opt-out in the meantime); returns the rest
+  private static async failSuppressed(
+    tx: Prisma.TransactionClient,
+    accountId: string,
+    claimed: ClaimedMessage[]
+  ): Promise<{ sendable: ClaimedMessage[]; suppressed: ClaimedMessage[] }> {
+    const reasons = await SuppressionService.check(accountId, claimed.map(message => message.recipient));
+    if (reasons.size === 0) return { sendable: claimed, suppressed: [] };
+
+    const sendable: ClaimedMessage[] = [];
+    const suppressed: ClaimedMessage[] = [];
+
+    for (const message of claimed) {
+      const reason = reasons.get(message.recipient);
+
+      if (!reason) {
+        sendable.push(message);
+        continue;
+      }
+
+      await tx.message.updateMany({
+        where: { id: message.id, status: MessageStatus.QUEUED },
+        data: {
+          status: MessageStatus.FAILED,
+          errorMessage: SuppressionService.describe(reason),
+          failedAt: new Date(),
+        },
+      });
+
+      suppressed.push(message);
+    }
+
+    return { sendable, suppressed };
+  }
+
+  // Put messages outside their recipient's send window back until it
+  // opens; returns the rest
+  private static async holdOutsideWindow(
+    tx: Prisma.TransactionClient,
+    accountId: string,
+    claimed: ClaimedMessage[]
+  ): Promise<ClaimedMessage[]> {
+    if (claimed.length === 0) return [];
+
+    const deferrals = await SendWindowService.deferrals(
+      accountId,
+      MessageType.CAMPAIGN,
+      claimed.map(message => ({
+        phone: message.recipient,
+        country: message.recipientCountry || SMSRouterService.getCountryFromPhone(message.recipient),
+      }))
+    );
+
+    const ready: ClaimedMessage[] = [];
+    const held = new Map<number, string[]>();
+
+    claimed.forEach((message, index) => {
+      const opening = deferrals[index];
+
+      if (!opening) {
+        ready.push(message);
+        return;
+      }
+
+      const ids = held.get(opening.getTime()) || [];
+      ids.push(message.id);
+      held.set(opening.getTime(), ids);
+    });
+
+    for (const [opening, ids] of held) {
+      await tx.message.updateMany({
+        where: { id: { in: ids }, status: MessageStatus.QUEUED },
+        data: { status: MessageStatus.PENDING, queuedAt: null, scheduledFor: new Date(opening) },
+      });
+    }
+
+    return ready;
+  }
+
+  // Re-queue QUEUED messages of the campaign that were claimed and charged
+  // but never reached a provider, e.g. the queue was down when their slice
+  // was handed over. Only claims older than SMS_SCHEDULER_STALE_CLAIM_MS are
+  // re-queued; the message id is the job id, so one still waiting in the
+  // queue is not queued twice. Returns how many messages are still on their
+  // way to a provider.
+  private static async requeueStranded(campaignId: string): Promise<number> {
+    const unsent = await prisma.message.findMany({
+      where: { campaignId, status: MessageStatus.QUEUED, providerId: null, sentAt: null },
+      select: { id: true, provider: true, queuedAt: true },
+      take: 1000,
+    });
+
+    const staleBefore = Date.now() - env.SMS_SCHEDULER_STALE_CLAIM_MS;
+    const stranded = unsent.filter(message => !message.queuedAt || message.queuedAt.getTime() < staleBefore);
+
+    if (stranded.length > 0) {
+      logger.warn({ campaignId, count: stranded.length }, 'Re-queueing stranded campaign messages');
+      await SMSQueueService.enqueue(stranded);
+    }
+
+    return unsent.length;
+  }
+
+  // The campaign, if it is still running this run. A scheduled campaign
+  // whose start job is due moves to PROCESSING here.
+  private static async activeCampaign(campaignId: string, run: number) {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      include: {
+        sender: { select: { name: true } },
+        variants: { orderBy: { label: 'asc' } },
+      },
+    });
+
+    if (!campaign || campaign.dispatchRun !== run) {
+      logger.debug({ campaignId, run }, 'Skipping stale campaign job');
+      return null;
+    }
+
+    if (campaign.status === CampaignStatus.SCHEDULED) {
+      const startedAt = new Date();
+      const { count } = await prisma.campaign.updateMany({
+        where: { id: campaignId, dispatchRun: run, status: CampaignStatus.SCHEDULED },
+        data: { status: CampaignStatus.PROCESSING, startedAt },
+      });
+
+      if (count === 0) return null;
+
+      logger.info({ campaignId }, 'Scheduled campaign started');
+      return { ...campaign, status: CampaignStatus.PROCESSING, startedAt };
+    }
+
+    return campaign.status === CampaignStatus.PROCESSING ? campaign : null;
+  }
+
+  // Start the test window, or pick up the one already running after a resume
+  private static async scheduleDecision(
+    campaign: Pick<Campaign, 'id' | 'dispatchRun' | 'winnerVariantId' | 'testWindowHours' | 'testDecideAt'>
+  ): Promise<void> {
+    let decideAt = campaign.testDecideAt;
+
+    if (!decideAt) {
+      decideAt = new Date(Date.now() + (campaign.testWindowHours || 4) * 3600_000);
+
+      const { count } = await prisma.campaign.updateMany({
+        where: { id: campaign.id, dispatchRun: campaign.dispatchRun, status: CampaignStatus.PROCESSING, testDecideAt: null },
+        data: { testDecideAt: decideAt },
+      });
+
+      if (count === 0) return;
+
+      logger.info({ campaignId: campaign.id, decideAt }, 'Campaign A/B test samples sent');
+    }
+
+    await QueueManager.add<CampaignDispatchJob>(
+      CAMPAIGN_DISPATCH_QUEUE,
+      { campaignId: campaign.id, run: campaign.dispatchRun, step: 'decide' },
+      {
+        jobId: `${this.jobPrefix(campaign)}:decide`,
+        delayMs: Math.max(0, decideAt.getTime() - Date.now()),
+      }
+    );
+  }
+
+  // Pick the A/B test winner and build the rest of the audience with it
+  private static async decideTest(job: Job<CampaignDispatchJob>): Promise<void> {
+    const { campaignId, run } = job.data;
+
+    const campaign = await this.activeCampaign(campaignId, run);
+    if (!campaign || campaign.winnerVariantId) return;
+
+    const winner = await CampaignTestService.pickWinner(campaign);
+    if (!winner) {
+      throw new Error('A/B test has no variants');
+    }
+
+    const { count } = await prisma.campaign.updateMany({
+      where: { id: campaignId, dispatchRun: run, status: CampaignStatus.PROCESSING, winnerVariantId: null },
+      data: {
+        winnerVariantId: winner.id,
+        content: winner.content,
+        audienceCursor: null,
+        audienceBuiltAt: null,
+      },
+    });
+
+    if (count === 0) return;
+
+    await this.start({ ...campaign, winnerVariantId: winner.id, audienceBuiltAt: null });
+  }
+
+  private static async enqueueSend(
+    campaign: Pick<Campaign, 'id' | 'dispatchRun' | 'winnerVariantId'>,
+    slice: number,
+    delayMs: number = 0
+  ): Promise<void> {
+    await QueueManager.add<CampaignDispatchJob>(
+      CAMPAIGN_DISPATCH_QUEUE,
+      { campaignId: campaign.id, run: campaign.dispatchRun, step: 'send', slice },
+      { jobId: `${this.jobPrefix(campaign)}:send:${slice}`, delayMs }
+    );
+  }
+
+  // Job IDs are per run, and per pass for A/B tests
+  private static jobPrefix(campaign: Pick<Campaign, 'id' | 'dispatchRun' | 'winnerVariantId'>): string {
+    return `${campaign.id}:${campaign.dispatchRun}${campaign.winnerVariantId ? ':rollout' : ''}`;
+  }
+
+  // Attempts exhausted: pause so the campaign can be resumed once fixed
+  private static async pauseOnError(job: Job<CampaignDispatchJob>, error: Error): Promise<void> {
+    const { campaignId, run } = job.data;
+
+    await prisma.campaign.updateMany({
+      where: {
+        id: campaignId,
+        dispatchRun: run,
+        status: { in: [CampaignStatus.SCHEDULED, CampaignStatus.PROCESSING] },
+      },
+      data: {
+        status: CampaignStatus.PAUSED,
+        pausedReason: `Dispatch failed: ${error.message}`,
+      },
+    });
+
+    logger.error({ campaignId, run, step: job.data.step, error: error.message }, 'Campaign dispatch failed');
+  }
+}
@@ -0,0 +1,85 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { MessageStatus } from '../../../../generated/prisma/client';
+
+type CounterKey = 'pendingCount' | 'sentCount' | 'deliveredCount' | 'failedCount';
+
+// A/B test variants only track what happened after sending
+const VARIANT_COUNTERS = ['sentCount', 'deliveredCount', 'failedCount'] as const;
+
+/**
+ * Campaign Stats
+ * Keeps a campaign's live counters in step with its messages. Callers
+ * report each status change once, after the guarded update that made it:
+ * the delivery queue for sends and send failures, the delivery receipt
+ * handler for final statuses.
+ *
+ * `pendingCount` is messages not yet handed to a provider (PENDING or
+ * QUEUED). `sentCount` is messages a provider accepted, whatever their
+ * final status. `deliveredCount` and `failedCount` follow the final status;
+ * a failure before sending counts as failed but not sent. Messages from an
+ * A/B test also update their variant's counters.
+ */
+export class CampaignStatsService {
+  // Apply one message's status change to its campaign's counters
+  static async recordStatusChange(
+    message: { id: string; campaignId: string | null; variantId?: string | null; sentAt: Date | null },
+    from: MessageStatus,
+    to: MessageStatus
+  ): Promise<void> {
+    if (!message.campaignId || from === to) return;
+
+    const before = this.countersFor(from, !!message.sentAt);
+    const after = this.countersFor(to, !!message.sentAt);
+
+    const data: Partial<Record<CounterKey, { increment: number }>> = {};
+    for (const key of ['pendingCount', 'sentCount', 'deliveredCount', 'failedCount'] as const) {
+      const delta = (after[key] || 0) - (before[key] || 0);
+      if (delta !== 0) data[key] = { increment: delta };
+    }
+
+    if (Object.keys(data).length === 0) return;
+
+    try {
+      await prisma.campaign.updateMany({
+        where: { id: message.campaignId },
+        data,
+      });
+    } catch (error) {
+      logger.error({ error, messageId: message.id, campaignId: message.campaignId }, 'Failed to update campaign counters');
+    }
+
+    if (!message.variantId) return;
+
+    const variantData: Partial<Record<CounterKey, { increment: number }>> = {};
+    for (const key of VARIANT_COUNTERS) {
+      if (data[key]) variantData[key] = data[key];
+    }
+
+    if (Object.keys(variantData).length === 0) return;
+
+    try {
+      await prisma.campaignVariant.updateMany({
+        where: { id: message.variantId },
+        data: variantData,
+      });
+    } catch (error) {
+      logger.error({ error, messageId: message.id, variantId: message.variantId }, 'Failed to update variant counters');
+    }
+  }
+
+  // Counters a message in this status contributes to
+  private static countersFor(status: MessageStatus, sent: boolean): Partial<Record<CounterKey, number>> {
+    switch (status) {
+      case MessageStatus.PENDING:
+      case MessageStatus.QUEUED:
+        return { pendingCount: 1 };
+      case MessageStatus.SENT:
+        return { sentCount: 1 };
+      case MessageStatus.DELIVERED:
+        return { sentCount: 1, deliveredCount: 1 };
+      default:
+        return { failedCount: 1, ...(sent && { sentCount: 1 }) };
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { Prisma, type Campaign, type CampaignVariant } from '../../../../generated/prisma/client';
+import type { CampaignTestMetric } from '../types/campaign.types';
+
+type TestCampaign = Pick<Campaign, 'id' | 'testSamplePercent' | 'winnerVariantId'>;
+
+// Replies and link clicks of a variant's messages
+export interface VariantEngagement {
+  replies: number;
+  clicks: number;
+}
+
+interface EngagementRow {
+  variantId: string;
+  count: number;
+}
+
+/**
+ * Campaign A/B Tests
+ * Every contact falls in a fixed bucket from 0 to 99, hashed from the
+ * campaign and contact IDs. With a sample of N%, buckets [0, N) get
+ * variant A, [N, 2N) variant B and so on. Those contacts are sent first.
+ * Once the test window is over the best variant by the test metric wins,
+ * and the buckets past the samples get the winner.
+ *
+ * Contacts keep their bucket, so a contact is never sent both a test
+ * variant and the winner.
+ */
+export class CampaignTestService {
+  // Whether the campaign runs an A/B test
+  static isTest(campaign: Pick<Campaign, 'testSamplePercent'>, variants: unknown[]): boolean {
+    return !!campaign.testSamplePercent && variants.length > 0;
+  }
+
+  // Click tests replace links with tracked links
+  static tracksLinks(campaign: Pick<Campaign, 'testSamplePercent' | 'testMetric'>): boolean {
+    return !!campaign.testSamplePercent && campaign.testMetric === 'click';
+  }
+
+  // The contact's variant in the campaign's current phase, or null if the
+  // contact belongs to the other phase
+  static variantFor(
+    campaign: TestCampaign,
+    variants: CampaignVariant[],
+    contactId: string
+  ): CampaignVariant | null {
+    const samplePercent = campaign.testSamplePercent!;
+    const bucket = this.bucket(campaign.id, contactId);
+    const sampled = bucket < samplePercent * variants.length;
+
+    if (!campaign.winnerVariantId) {
+      return sampled ? variants[Math.floor(bucket / samplePercent)] : null;
+    }
+
+    return sampled ? null : variants.find(variant => variant.id === campaign.winnerVariantId) ?? null;
+  }
+
+  // Replies and clicks per variant, for the given campaigns
+  static async engagement(campaignIds: string[]): Promise<Map<string, VariantEngagement>> {
+    const engagement = new Map<string, VariantEngagement>();
+    if (campaignIds.length === 0) return engagement;
+
+    // A reply is any inbound SMS from the recipient after the message was sent
+    const replies = await prisma.$queryRaw<EngagementRow[]>`
+      SELECT m."variantId", COUNT(*)::int AS count
+      FROM messages m
+      WHERE m."campaignId" IN (${Prisma.join(campaignIds)})
+        AND m."variantId" IS NOT NULL
+        AND m."sentAt" IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM inbound_messages i
+          WHERE i."accountId" = m."accountId"
+            AND i."from" = m.recipient
+            AND i."createdAt" > m."sentAt"
+        )
+      GROUP BY m."variantId"
+    `;
+
+    const clicks = await prisma.message.groupBy({
+      by: ['variantId'],
+      where: {
+        campaignId: { in: campaignIds },
+        variantId: { not: null },
+        clickedAt: { not: null },
+      },
+      _count: { _all: true },
+    });
+
+    for (const row of replies) {
+      engagement.set(row.variantId, { replies: row.count, clicks: 0 });
+    }
+
+    for (const row of clicks) {
+      const variantId = row.variantId!;
+      const entry = engagement.get(variantId) ?? { replies: 0, clicks: 0 };
+      entry.clicks = row._count._all;
+      engagement.set(variantId, entry);
+    }
+
+    return engagement;
+  }
+
+  // Score each variant by the test metric and return the winner. Ties go to
+  // the most delivered, then the first label.
+  static async pickWinner(campaign: Pick<Campaign, 'id' | 'testMetric'>): Promise<CampaignVariant | null> {
+    const variants = await prisma.campaignVariant.findMany({
+      where: { campaignId: campaign.id },
+      orderBy: { label: 'asc' },
+    });
+
+    if (variants.length === 0) return null;
+
+    const engagement = await this.engagement([campaign.id]);
+    const metric = (campaign.testMetric || 'delivery') as CampaignTestMetric;
+
+    const scored = variants.map(variant => ({
+      variant,
+      score: this.rate(this.metricCount(variant, engagement.get(variant.id), metric), variant.totalRecipients),
+    }));
+
+    for (const { variant, score } of scored) {
+      await prisma.campaignVariant.update({
+        where: { id: variant.id },
+        data: { score },
+      });
+    }
+
+    scored.sort((a, b) =>
+      b.score - a.score
+      || b.variant.deliveredCount - a.variant.deliveredCount
+      || a.variant.label.localeCompare(b.variant.label)
+    );
+
+    const winner = scored[0];
+
+    logger.info({
+      campaignId: campaign.id,
+      metric,
+      winner: winner.variant.label,
+      scores: Object.fromEntries(scored.map(({ variant, score }) => [variant.label, score])),
+    }, 'Campaign A/B test decided');
+
+    return { ...winner.variant, score: winner.score };
+  }
+
+  // Percentage with two decimals
+  static rate(count: number, total: number): number {
+    return total > 0 ? Math.round(count / total * 10000) / 100 : 0;
+  }
+
+  private static metricCount(
+    variant: CampaignVariant,
+    engagement: VariantEngagement | undefined,
+    metric: CampaignTestMetric
+  ): number {
+    switch (metric) {
+      case 'reply':
+        return engagement?.replies ?? 0;
+      case 'click':
+        return engagement?.clicks ?? 0;
+      default:
+        return variant.deliveredCount;
+    }
+  }
+
+  // 0-99, stable for a campaign and contact
+  private static bucket(campaignId: string, contactId: string): number {
+    const hash = createHash('sha1').update(`${campaignId}:${contactId}`).digest();
+    return hash.readUInt32BE(0) % 100;
+  }
+}
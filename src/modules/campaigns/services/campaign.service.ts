@@ -0,0 +1,622 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { BillingService } from '@modules/billing/services/billing.service';
+import { SMSService } from '@modules/sms/services/sms.service';
+import { SMSRouterService } from '@modules/sms/services/sms-router.service';
+import { SMSValidationService } from '@modules/sms/services/sms-validation.service';
+import { TemplateService } from '@modules/sms/services/template.service';
+import { ContactGroupService } from '@modules/contacts/services/contact-group.service';
+import { SegmentFilterService } from '@modules/contacts/services/segment-filter.service';
+import type { SegmentNode } from '@modules/contacts/types/contact.types';
+import { CampaignAudienceService } from './campaign-audience.service';
+import { CampaignDispatchService } from './campaign-dispatch.service';
+import { CampaignTestService, type VariantEngagement } from './campaign-test.service';
+import {
+  CampaignStatus,
+  MessageStatus,
+  MessageType,
+  Prisma,
+  type Campaign,
+  type CampaignVariant,
+} from '../../../../generated/prisma/client';
+import type {
+  QueryCampaignsInput,
+  CreateCampaignInput,
+  UpdateCampaignInput,
+  LaunchCampaignInput,
+  CampaignABTestInput,
+} from '../schemas/campaign.schema';
+import type {
+  CampaignEstimate,
+  CampaignSendSpeed,
+  CampaignSummary,
+  CampaignTestMetric,
+  CampaignVariantResult,
+} from '../types/campaign.types';
+
+type CampaignWithRelations = Campaign & { sender: { name: string } | null; variants: CampaignVariant[] };
+
+// Campaigns with a run in progress or due
+const ACTIVE_STATUSES: CampaignStatus[] = [CampaignStatus.SCHEDULED, CampaignStatus.PROCESSING, CampaignStatus.PAUSED];
+
+const INCLUDE_RELATIONS = {
+  sender: { select: { name: true } },
+  variants: { orderBy: { label: 'asc' } },
+} as const;
+
+// A/B test variants, in order
+const VARIANT_LABELS = ['A', 'B', 'C', 'D'];
+
+const DEFAULT_TEST_WINDOW_HOURS = 4;
+
+/**
+ * Campaign Service
+ * Campaigns are written as drafts, priced with `estimate` and then
+ * launched now or at `scheduledFor`. CampaignDispatchService does the
+ * sending; this service moves campaigns between states:
+ *
+ *   DRAFT -> SCHEDULED -> PROCESSING <-> PAUSED -> COMPLETED
+ *
+ * and SCHEDULED, PROCESSING or PAUSED -> CANCELLED. Launching, resuming
+ * and cancelling bump `dispatchRun`, which retires queued jobs of the
+ * previous run.
+ *
+ * A campaign with an `abTest` has two to four content variants instead of
+ * one `content`; CampaignTestService splits the audience between them.
+ */
+export class CampaignService {
+  // List campaigns
+  static async listCampaigns(
+    accountId: string,
+    filters: QueryCampaignsInput
+  ): Promise<{ campaigns: CampaignSummary[]; total: number }> {
+    const where: any = { accountId };
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.search) {
+      where.name = { contains: filters.search, mode: 'insensitive' };
+    }
+
+    const [campaigns, total] = await Promise.all([
+      prisma.campaign.findMany({
+        where,
+        include: INCLUDE_RELATIONS,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.campaign.count({ where }),
+    ]);
+
+    // Replies and clicks of every listed A/B test, in one go
+    const engagement = await CampaignTestService.engagement(
+      campaigns.filter(campaign => campaign.variants.length > 0).map(campaign => campaign.id)
+    );
+
+    return {
+      campaigns: campaigns.map(campaign => this.formatCampaign(campaign, engagement)),
+      total,
+    };
+  }
+
+  // Get a campaign with its live counters and A/B test results
+  static async getCampaign(accountId: string, id: string): Promise<CampaignSummary> {
+    return this.present(await this.findCampaign(accountId, id));
+  }
+
+  // Create a draft
+  static async createCampaign(accountId: string, input: CreateCampaignInput): Promise<CampaignSummary> {
+    const data = await this.resolveFields(accountId, input);
+    const test = input.abTest ? this.testFields(input.abTest) : null;
+
+    const campaign = await prisma.campaign.create({
+      data: {
+        accountId,
+        name: input.name,
+        description: input.description,
+        sendSpeed: input.sendSpeed,
+        allowDuplicates: input.allowDuplicates,
+        ...data,
+        ...test?.fields,
+        content: (test?.fields.content ?? data.content)!,
+        ...(test && { variants: { create: test.variants } }),
+      },
+      include: INCLUDE_RELATIONS,
+    });
+
+    logger.info({ accountId, campaignId: campaign.id, variants: campaign.variants.length }, 'Campaign created');
+
+    return this.formatCampaign(campaign);
+  }
+
+  // Update a draft
+  static async updateCampaign(accountId: string, id: string, input: UpdateCampaignInput): Promise<CampaignSummary> {
+    const existing = await this.findCampaign(accountId, id);
+    this.assertStatus(existing, [CampaignStatus.DRAFT], 'update');
+
+    // The content of an A/B test lives in its variants
+    if (existing.variants.length > 0 && input.abTest === undefined && (input.content || input.templateId)) {
+      throw new Error('A/B test campaigns take their content from abTest.variants');
+    }
+
+    const { name, description, sendSpeed, allowDuplicates } = input;
+    const data = await this.resolveFields(accountId, input);
+
+    // A new abTest replaces the variants; null turns the test off
+    const test = input.abTest !== undefined ? this.testFields(input.abTest) : null;
+
+    // A campaign must keep an audience
+    const audience = {
+      groupId: data.groupId !== undefined ? data.groupId : existing.groupId,
+      segmentId: data.segmentId !== undefined ? data.segmentId : existing.segmentId,
+      filters: input.filters !== undefined ? input.filters : existing.filters,
+    };
+
+    if (!audience.groupId && !audience.segmentId && !audience.filters) {
+      throw new Error('Campaign has no audience: set a group, segment or filters');
+    }
+
+    const campaign = await prisma.campaign.update({
+      where: { id },
+      data: {
+        name,
+        description,
+        sendSpeed,
+        allowDuplicates,
+        ...data,
+        ...test?.fields,
+        ...(test && { variants: { deleteMany: {}, create: test.variants } }),
+      },
+      include: INCLUDE_RELATIONS,
+    });
+
+    logger.info({ accountId, campaignId: id, fields: Object.keys(input) }, 'Campaign updated');
+
+    return this.formatCampaign(campaign);
+  }
+
+  // Delete a campaign that is not running. Its messages are kept.
+  static async deleteCampaign(accountId: string, id: string): Promise<void> {
+    const campaign = await this.findCampaign(accountId, id);
+
+    if (ACTIVE_STATUSES.includes(campaign.status)) {
+      throw new Error('Cannot delete a scheduled or running campaign; cancel it first');
+    }
+
+    await prisma.campaign.delete({ where: { id } });
+
+    logger.info({ accountId, campaignId: id }, 'Campaign deleted');
+  }
+
+  // Count and price the audience as it stands now
+  static async estimate(accountId: string, id: string): Promise<CampaignEstimate> {
+    const campaign = await this.findCampaign(accountId, id);
+
+    const where = await CampaignAudienceService.whereFor(campaign);
+    const fieldKeys = await CampaignAudienceService.fieldKeys(accountId);
+    const trackLinks = CampaignTestService.tracksLinks(campaign);
+    const groups = new Map<string, { country: string; network?: string; units: number }>();
+
+    let recipients = 0;
+    let units = 0;
+    let cursor: string | null = null;
+
+    // Walk the audience a page at a time, pricing each (country, network) once
+    while (true) {
+      const contacts = await CampaignAudienceService.nextPage(where, cursor);
+      if (contacts.length === 0) break;
+
+      for (const recipient of await CampaignAudienceService.eligible(campaign, contacts)) {
+        const messageUnits = Math.max(...this.contentsFor(campaign, recipient.contact.id).map(content =>
+          CampaignAudienceService.render(content, recipient.contact, fieldKeys, trackLinks).units
+        ));
+
+        const key = `${recipient.country}:${recipient.network || ''}`;
+        const group = groups.get(key);
+
+        if (group) {
+          group.units += messageUnits;
+        } else {
+          groups.set(key, { country: recipient.country, network: recipient.network, units: messageUnits });
+        }
+
+        recipients++;
+        units += messageUnits;
+      }
+
+      cursor = contacts[contacts.length - 1].id;
+    }
+
+    let estimatedCost = 0;
+    let currency = 'GHS';
+
+    for (const group of groups.values()) {
+      const pricing = await SMSRouterService.getPricing(group.country, group.network, MessageType.CAMPAIGN, group.units);
+      estimatedCost += pricing.totalCost;
+      currency = pricing.currency;
+    }
+
+    // Drafts keep their last estimate
+    if (campaign.status === CampaignStatus.DRAFT) {
+      await prisma.campaign.update({
+        where: { id },
+        data: { estimatedCost },
+      });
+    }
+
+    const balance = await BillingService.getAvailableBalance(accountId);
+
+    return {
+      recipients,
+      units,
+      estimatedCost,
+      currency,
+      balance,
+      sufficientBalance: balance >= estimatedCost,
+    };
+  }
+
+  // Launch a draft now, or schedule it
+  static async launch(accountId: string, id: string, input: LaunchCampaignInput): Promise<CampaignSummary> {
+    const campaign = await this.findCampaign(accountId, id);
+    this.assertStatus(campaign, [CampaignStatus.DRAFT], 'launch');
+
+    if (input.scheduledFor) {
+      const schedule = SMSValidationService.validateScheduleTime(input.scheduledFor);
+      if (!schedule.valid) {
+        throw new Error(schedule.error);
+      }
+    }
+
+    const estimate = await this.estimate(accountId, id);
+
+    if (estimate.recipients === 0) {
+      throw new Error('Cannot launch a campaign with no recipients');
+    }
+
+    if (!estimate.sufficientBalance) {
+      throw new Error(
+        `Insufficient balance: the campaign needs about ${estimate.estimatedCost.toFixed(2)} ${estimate.currency}`
+      );
+    }
+
+    // Fall back to the account's default sender
+    const sender = campaign.senderId
+      ? { id: campaign.senderId }
+      : await SMSService.resolveSenderId(accountId);
+
+    const scheduled = !!input.scheduledFor;
+    const now = new Date();
+
+    const { count } = await prisma.campaign.updateMany({
+      where: { id, status: CampaignStatus.DRAFT },
+      data: {
+        status: scheduled ? CampaignStatus.SCHEDULED : CampaignStatus.PROCESSING,
+        senderId: sender.id,
+        scheduledFor: input.scheduledFor ?? null,
+        startedAt: scheduled ? null : now,
+        dispatchRun: { increment: 1 },
+        audienceCursor: null,
+        audienceBuiltAt: null,
+        pausedReason: null,
+      },
+    });
+
+    if (count === 0) {
+      throw new Error('Cannot launch a campaign that is no longer a draft');
+    }
+
+    const launched = await this.findCampaign(accountId, id);
+
+    await CampaignDispatchService.start(
+      launched,
+      scheduled ? input.scheduledFor!.getTime() - now.getTime() : 0
+    );
+
+    if (campaign.templateId) {
+      await TemplateService.recordUse(campaign.templateId);
+    }
+
+    logger.info({
+      accountId,
+      campaignId: id,
+      scheduledFor: input.scheduledFor,
+      recipients: estimate.recipients,
+      estimatedCost: estimate.estimatedCost,
+    }, scheduled ? 'Campaign scheduled' : 'Campaign launched');
+
+    return this.present(launched);
+  }
+
+  // Stop sending after the slice in flight
+  static async pause(accountId: string, id: string): Promise<CampaignSummary> {
+    const campaign = await this.findCampaign(accountId, id);
+    this.assertStatus(campaign, [CampaignStatus.PROCESSING], 'pause');
+
+    await this.transition(id, CampaignStatus.PROCESSING, {
+      status: CampaignStatus.PAUSED,
+      pausedReason: null,
+    }, 'pause');
+
+    logger.info({ accountId, campaignId: id }, 'Campaign paused');
+
+    return this.getCampaign(accountId, id);
+  }
+
+  // Pick up where a paused campaign stopped
+  static async resume(accountId: string, id: string): Promise<CampaignSummary> {
+    const campaign = await this.findCampaign(accountId, id);
+    this.assertStatus(campaign, [CampaignStatus.PAUSED], 'resume');
+
+    await this.transition(id, CampaignStatus.PAUSED, {
+      status: CampaignStatus.PROCESSING,
+      startedAt: campaign.startedAt ?? new Date(),
+      pausedReason: null,
+      dispatchRun: { increment: 1 },
+    }, 'resume');
+
+    const resumed = await this.findCampaign(accountId, id);
+    await CampaignDispatchService.start(resumed);
+
+    logger.info({ accountId, campaignId: id }, 'Campaign resumed');
+
+    return this.present(resumed);
+  }
+
+  // Stop for good; messages not yet handed to a provider are dropped
+  static async cancel(accountId: string, id: string): Promise<CampaignSummary> {
+    const campaign = await this.findCampaign(accountId, id);
+    this.assertStatus(campaign, ACTIVE_STATUSES, 'cancel');
+
+    await this.transition(id, campaign.status, {
+      status: CampaignStatus.CANCELLED,
+      completedAt: new Date(),
+      pausedReason: null,
+      dispatchRun: { increment: 1 },
+    }, 'cancel');
+
+    const { count: dropped } = await prisma.message.deleteMany({
+      where: { campaignId: id, status: MessageStatus.PENDING },
+    });
+
+    if (dropped > 0) {
+      await prisma.campaign.update({
+        where: { id },
+        data: { pendingCount: { decrement: dropped } },
+      });
+    }
+
+    logger.info({ accountId, campaignId: id, dropped }, 'Campaign cancelled');
+
+    return this.getCampaign(accountId, id);
+  }
+
+  // Check and resolve template, sender and audience references
+  private static async resolveFields(
+    accountId: string,
+    input: Partial<CreateCampaignInput>
+  ): Promise<Partial<Prisma.CampaignUncheckedCreateInput>> {
+    const data: Partial<Prisma.CampaignUncheckedCreateInput> = {};
+
+    if (input.templateId !== undefined) {
+      data.templateId = input.templateId;
+
+      if (input.templateId) {
+        const template = await TemplateService.findUsable(accountId, input.templateId);
+
+        // The template's text unless the request overrides it
+        data.content = template.content;
+      }
+    }
+
+    if (input.content) {
+      data.content = input.content;
+    }
+
+    if (input.senderId !== undefined) {
+      data.senderId = null;
+
+      if (input.senderId) {
+        const sender = await prisma.senderId.findFirst({
+          where: { accountId, name: input.senderId, status: 'APPROVED', isActive: true },
+        });
+
+        if (!sender) {
+          throw new Error(`Sender ID "${input.senderId}" is not approved for this account`);
+        }
+
+        data.senderId = sender.id;
+      }
+    }
+
+    if (input.groupId !== undefined) {
+      if (input.groupId) {
+        await ContactGroupService.assertGroups(accountId, [input.groupId]);
+      }
+      data.groupId = input.groupId;
+    }
+
+    if (input.segmentId !== undefined) {
+      if (input.segmentId) {
+        const segment = await prisma.segment.findFirst({
+          where: { id: input.segmentId, accountId },
+          select: { id: true },
+        });
+
+        if (!segment) {
+          throw new Error('Segment not found');
+        }
+      }
+      data.segmentId = input.segmentId;
+    }
+
+    if (input.filters !== undefined) {
+      if (input.filters) {
+        // Compiled only to check it; the audience is worked out at send time
+        await SegmentFilterService.buildWhere(accountId, input.filters);
+      }
+      data.filters = input.filters === null
+        ? Prisma.DbNull
+        : input.filters as unknown as Prisma.InputJsonValue;
+    }
+
+    return data;
+  }
+
+  // Campaign columns and variants for an abTest, or clears them for null
+  private static testFields(abTest: CampaignABTestInput | null) {
+    if (!abTest) {
+      return {
+        fields: { testSamplePercent: null, testMetric: null, testWindowHours: null } as Partial<Prisma.CampaignUncheckedCreateInput>,
+        variants: [],
+      };
+    }
+
+    return {
+      // Variant A stands in as the campaign's content until a winner is picked
+      fields: {
+        content: abTest.variants[0].content,
+        testSamplePercent: abTest.samplePercent,
+        testMetric: abTest.metric,
+        testWindowHours: abTest.windowHours,
+      } as Partial<Prisma.CampaignUncheckedCreateInput>,
+      variants: abTest.variants.map((variant, index) => ({
+        label: VARIANT_LABELS[index],
+        content: variant.content,
+      })),
+    };
+  }
+
+  // Contents the contact may get. Until an A/B test is decided, contacts
+  // outside the samples could get any variant.
+  private static contentsFor(campaign: CampaignWithRelations, contactId: string): string[] {
+    if (!CampaignTestService.isTest(campaign, campaign.variants)) {
+      return [campaign.content];
+    }
+
+    const sample = CampaignTestService.variantFor({ ...campaign, winnerVariantId: null }, campaign.variants, contactId);
+    if (sample) return [sample.content];
+
+    const winner = campaign.variants.find(variant => variant.id === campaign.winnerVariantId);
+    return winner ? [winner.content] : campaign.variants.map(variant => variant.content);
+  }
+
+  // Guarded status change, so racing requests apply once
+  private static async transition(
+    id: string,
+    from: CampaignStatus,
+    data: Prisma.CampaignUpdateManyMutationInput,
+    action: string
+  ): Promise<void> {
+    const { count } = await prisma.campaign.updateMany({
+      where: { id, status: from },
+      data,
+    });
+
+    if (count === 0) {
+      throw new Error(`Cannot ${action} the campaign: its status changed`);
+    }
+  }
+
+  private static assertStatus(campaign: Campaign, allowed: CampaignStatus[], action: string): void {
+    if (!allowed.includes(campaign.status)) {
+      throw new Error(`Cannot ${action} a ${campaign.status.toLowerCase()} campaign`);
+    }
+  }
+
+  private static async findCampaign(accountId: string, id: string): Promise<CampaignWithRelations> {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id, accountId },
+      include: INCLUDE_RELATIONS,
+    });
+
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+
+    return campaign;
+  }
+
+  // Format with the replies and clicks of its A/B test
+  private static async present(campaign: CampaignWithRelations): Promise<CampaignSummary> {
+    const engagement = campaign.variants.length > 0
+      ? await CampaignTestService.engagement([campaign.id])
+      : new Map<string, VariantEngagement>();
+
+    return this.formatCampaign(campaign, engagement);
+  }
+
+  private static formatCampaign(
+    campaign: CampaignWithRelations,
+    engagement: Map<string, VariantEngagement> = new Map<string, VariantEngagement>()
+  ): CampaignSummary {
+    return {
+      id: campaign.id,
+      name: campaign.name,
+      description: campaign.description,
+      content: campaign.content,
+      templateId: campaign.templateId,
+      groupId: campaign.groupId,
+      segmentId: campaign.segmentId,
+      filters: campaign.filters as unknown as SegmentNode | null,
+      senderId: campaign.sender?.name ?? null,
+      status: campaign.status,
+      pausedReason: campaign.pausedReason,
+      sendSpeed: campaign.sendSpeed as CampaignSendSpeed,
+      allowDuplicates: campaign.allowDuplicates,
+      scheduledFor: campaign.scheduledFor,
+      startedAt: campaign.startedAt,
+      completedAt: campaign.completedAt,
+      totalRecipients: campaign.totalRecipients,
+      pendingCount: campaign.pendingCount,
+      sentCount: campaign.sentCount,
+      deliveredCount: campaign.deliveredCount,
+      failedCount: campaign.failedCount,
+      estimatedCost: campaign.estimatedCost,
+      actualCost: campaign.actualCost,
+      abTest: campaign.testSamplePercent
+        ? {
+          samplePercent: campaign.testSamplePercent,
+          metric: (campaign.testMetric || 'delivery') as CampaignTestMetric,
+          windowHours: campaign.testWindowHours ?? DEFAULT_TEST_WINDOW_HOURS,
+          decideAt: campaign.testDecideAt,
+          winnerVariantId: campaign.winnerVariantId,
+          variants: campaign.variants.map(variant =>
+            this.formatVariant(variant, engagement.get(variant.id), campaign.winnerVariantId)
+          ),
+        }
+        : null,
+      createdAt: campaign.createdAt,
+      updatedAt: campaign.updatedAt,
+    };
+  }
+
+  private static formatVariant(
+    variant: CampaignVariant,
+    engagement: VariantEngagement | undefined,
+    winnerVariantId: string | null
+  ): CampaignVariantResult {
+    const replyCount = engagement?.replies ?? 0;
+    const clickCount = engagement?.clicks ?? 0;
+
+    return {
+      id: variant.id,
+      label: variant.label,
+      content: variant.content,
+      totalRecipients: variant.totalRecipients,
+      sentCount: variant.sentCount,
+      deliveredCount: variant.deliveredCount,
+      failedCount: variant.failedCount,
+      replyCount,
+      clickCount,
+      deliveryRate: CampaignTestService.rate(variant.deliveredCount, variant.totalRecipients),
+      replyRate: CampaignTestService.rate(replyCount, variant.totalRecipients),
+      clickRate: CampaignTestService.rate(clickCount, variant.totalRecipients),
+      score: variant.score,
+      isWinner: variant.id === winnerVariantId,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { nanoid } from 'nanoid';
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+
+// Links rewritten in message content
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+
+const CODE_LENGTH = 8;
+
+export interface TrackedLink {
+  code: string;
+  url: string;
+}
+
+/**
+ * Link Tracking
+ * Rewrites the links in an outbound SMS to short tracked links. A click is
+ * recorded on the `MessageLink` and, the first time, as `Message.clickedAt`
+ * before the recipient is redirected to the original URL.
+ */
+export class LinkTrackingService {
+  // Replace every link in the content with a tracked short link
+  static shorten(content: string): { content: string; links: TrackedLink[] } {
+    const links: TrackedLink[] = [];
+    const baseUrl = env.CAMPAIGN_LINK_BASE_URL || `${env.APP_URL}/l`;
+
+    const shortened = content.replace(URL_PATTERN, url => {
+      const code = nanoid(CODE_LENGTH);
+      links.push({ code, url });
+      return `${baseUrl}/${code}`;
+    });
+
+    return { content: shortened, links };
+  }
+
+  // Record a click, returns the URL to redirect to
+  static async recordClick(code: string): Promise<string | null> {
+    const link = await prisma.messageLink.findUnique({
+      where: { code },
+      select: { id: true, url: true, messageId: true },
+    });
+
+    if (!link) return null;
+
+    const now = new Date();
+
+    // The redirect matters more than the count
+    try {
+      await prisma.messageLink.update({
+        where: { id: link.id },
+        data: { clicks: { increment: 1 } },
+      });
+
+      await prisma.messageLink.updateMany({
+        where: { id: link.id, firstClickedAt: null },
+        data: { firstClickedAt: now },
+      });
+
+      await prisma.message.updateMany({
+        where: { id: link.messageId, clickedAt: null },
+        data: { clickedAt: now },
+      });
+    } catch (error) {
+      logger.error({ error, code }, 'Failed to record link click');
+    }
+
+    return link.url;
+  }
+}
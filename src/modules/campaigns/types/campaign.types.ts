@@ -0,0 +1,73 @@
+import type { CampaignStatus } from '../../../../generated/prisma/client';
+import type { SegmentNode } from '@modules/contacts/types/contact.types';
+
+export type CampaignSendSpeed = 'slow' | 'normal' | 'fast';
+
+export type CampaignTestMetric = 'delivery' | 'reply' | 'click';
+
+// One A/B test variant and how it did. Rates are percentages of its recipients.
+export interface CampaignVariantResult {
+  id: string;
+  label: string;
+  content: string;
+  totalRecipients: number;
+  sentCount: number;
+  deliveredCount: number;
+  failedCount: number;
+  replyCount: number;
+  clickCount: number;
+  deliveryRate: number;
+  replyRate: number;
+  clickRate: number;
+  score: number | null; // Test metric when the winner was picked
+  isWinner: boolean;
+}
+
+export interface CampaignABTest {
+  samplePercent: number;
+  metric: CampaignTestMetric;
+  windowHours: number;
+  decideAt: Date | null;
+  winnerVariantId: string | null;
+  variants: CampaignVariantResult[];
+}
+
+// Campaign as returned by the API
+export interface CampaignSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  content: string;
+  templateId: string | null;
+  groupId: string | null;
+  segmentId: string | null;
+  filters: SegmentNode | null;
+  senderId: string | null;
+  status: CampaignStatus;
+  pausedReason: string | null;
+  sendSpeed: CampaignSendSpeed;
+  allowDuplicates: boolean;
+  scheduledFor: Date | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  totalRecipients: number;
+  pendingCount: number;
+  sentCount: number;
+  deliveredCount: number;
+  failedCount: number;
+  estimatedCost: number;
+  actualCost: number;
+  abTest: CampaignABTest | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Audience size and price of a campaign before launch
+export interface CampaignEstimate {
+  recipients: number;
+  units: number;
+  estimatedCost: number;
+  currency: string;
+  balance: number;
+  sufficientBalance: boolean;
+}
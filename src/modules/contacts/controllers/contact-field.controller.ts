@@ -0,0 +1,96 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { ContactFieldService } from '../services/contact-field.service';
+import type {
+  CreateFieldInput,
+  UpdateFieldInput,
+  FieldParamsInput,
+} from '../schemas/contact.schema';
+
+export class ContactFieldController {
+  // List custom field definitions
+  static async listFields(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+
+      const fields = await ContactFieldService.listFields(accountId);
+
+      return ResponseBuilder.success(c, fields);
+    } catch (error: any) {
+      logger.error({ error }, 'List contact fields controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Define a custom field
+  static async createField(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as CreateFieldInput;
+
+      const field = await ContactFieldService.createField(accountId, body);
+
+      return ResponseBuilder.created(c, field, 'Contact field created');
+    } catch (error: any) {
+      return ContactFieldController.handleError(c, error, 'Create contact field controller error');
+    }
+  }
+
+  // Update a custom field
+  static async updateField(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as FieldParamsInput;
+      const body = c.req.valid('json' as never) as UpdateFieldInput;
+
+      const field = await ContactFieldService.updateField(accountId, id, body);
+
+      return ResponseBuilder.success(c, field, 'Contact field updated');
+    } catch (error: any) {
+      return ContactFieldController.handleError(c, error, 'Update contact field controller error');
+    }
+  }
+
+  // Delete a custom field and its values
+  static async deleteField(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as FieldParamsInput;
+
+      await ContactFieldService.deleteField(accountId, id);
+
+      return ResponseBuilder.success(c, null, 'Contact field deleted');
+    } catch (error: any) {
+      return ContactFieldController.handleError(c, error, 'Delete contact field controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Contact field not found') {
+      return ResponseBuilder.notFound(c, 'Contact field');
+    }
+
+    if (error.message?.startsWith('Custom field limit of ')) {
+      return ResponseBuilder.error(c, 'FIELD_LIMIT_REACHED', error.message, 403);
+    }
+
+    if (error.message === 'Only SELECT fields have options'
+      || error.message === 'SELECT fields need at least one option') {
+      return ResponseBuilder.error(c, 'INVALID_FIELD_OPTIONS', error.message, 400);
+    }
+
+    if (error.code === 'P2002') {
+      return ResponseBuilder.error(
+        c,
+        'DUPLICATE_FIELD',
+        'A custom field with this key already exists',
+        409
+      );
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
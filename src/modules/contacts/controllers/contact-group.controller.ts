@@ -0,0 +1,134 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { ContactGroupService } from '../services/contact-group.service';
+import type {
+  QueryGroupsInput,
+  CreateGroupInput,
+  UpdateGroupInput,
+  GroupMembersInput,
+  GroupParamsInput,
+} from '../schemas/contact.schema';
+
+export class ContactGroupController {
+  // List groups
+  static async listGroups(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QueryGroupsInput;
+
+      const { groups, total } = await ContactGroupService.listGroups(accountId, query);
+
+      return ResponseBuilder.paginated(c, groups, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List contact groups controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get group by ID
+  static async getGroup(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as GroupParamsInput;
+
+      const group = await ContactGroupService.getGroup(accountId, id);
+
+      return ResponseBuilder.success(c, group);
+    } catch (error: any) {
+      return ContactGroupController.handleError(c, error, 'Get contact group controller error');
+    }
+  }
+
+  // Create group
+  static async createGroup(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as CreateGroupInput;
+
+      const group = await ContactGroupService.createGroup(accountId, body);
+
+      return ResponseBuilder.created(c, group, 'Contact group created');
+    } catch (error: any) {
+      return ContactGroupController.handleError(c, error, 'Create contact group controller error');
+    }
+  }
+
+  // Update group
+  static async updateGroup(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as GroupParamsInput;
+      const body = c.req.valid('json' as never) as UpdateGroupInput;
+
+      const group = await ContactGroupService.updateGroup(accountId, id, body);
+
+      return ResponseBuilder.success(c, group, 'Contact group updated');
+    } catch (error: any) {
+      return ContactGroupController.handleError(c, error, 'Update contact group controller error');
+    }
+  }
+
+  // Delete group
+  static async deleteGroup(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as GroupParamsInput;
+
+      await ContactGroupService.deleteGroup(accountId, id);
+
+      return ResponseBuilder.success(c, null, 'Contact group deleted');
+    } catch (error: any) {
+      return ContactGroupController.handleError(c, error, 'Delete contact group controller error');
+    }
+  }
+
+  // Add contacts to a group
+  static async addMembers(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as GroupParamsInput;
+      const { contactIds } = c.req.valid('json' as never) as GroupMembersInput;
+
+      const result = await ContactGroupService.addMembers(accountId, id, contactIds);
+
+      return ResponseBuilder.success(c, result, `${result.added} contacts added to group`);
+    } catch (error: any) {
+      return ContactGroupController.handleError(c, error, 'Add group members controller error');
+    }
+  }
+
+  // Remove contacts from a group
+  static async removeMembers(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as GroupParamsInput;
+      const { contactIds } = c.req.valid('json' as never) as GroupMembersInput;
+
+      const result = await ContactGroupService.removeMembers(accountId, id, contactIds);
+
+      return ResponseBuilder.success(c, result, `${result.removed} contacts removed from group`);
+    } catch (error: any) {
+      return ContactGroupController.handleError(c, error, 'Remove group members controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Contact group not found') {
+      return ResponseBuilder.notFound(c, 'Contact group');
+    }
+
+    if (error.code === 'P2002') {
+      return ResponseBuilder.error(
+        c,
+        'DUPLICATE_GROUP',
+        'A contact group with this name already exists',
+        409
+      );
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
@@ -0,0 +1,155 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { ContactService } from '../services/contact.service';
+import { ContactImportService } from '../services/contact-import.service';
+import type {
+  QueryContactsInput,
+  CreateContactInput,
+  UpdateContactInput,
+  ImportContactsInput,
+  ContactParamsInput,
+} from '../schemas/contact.schema';
+
+// Service errors from reading an import file, returned as 400
+const IMPORT_ERROR_PREFIXES = ['Column ', 'Maximum ', 'Unsupported ', 'Legacy ', 'Sheet ', 'Unknown contact field '];
+
+export class ContactController {
+  // List contacts
+  static async listContacts(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QueryContactsInput;
+
+      const { contacts, total } = await ContactService.listContacts(accountId, query);
+
+      return ResponseBuilder.paginated(c, contacts, query.page, query.limit, total);
+    } catch (error: any) {
+      return ContactController.handleError(c, error, 'List contacts controller error');
+    }
+  }
+
+  // Get contact by ID
+  static async getContact(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as ContactParamsInput;
+
+      const contact = await ContactService.getContact(accountId, id);
+
+      return ResponseBuilder.success(c, contact);
+    } catch (error: any) {
+      return ContactController.handleError(c, error, 'Get contact controller error');
+    }
+  }
+
+  // Create contact
+  static async createContact(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as CreateContactInput;
+
+      const contact = await ContactService.createContact(accountId, body);
+
+      return ResponseBuilder.created(c, contact, 'Contact created');
+    } catch (error: any) {
+      return ContactController.handleError(c, error, 'Create contact controller error');
+    }
+  }
+
+  // Update contact
+  static async updateContact(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as ContactParamsInput;
+      const body = c.req.valid('json' as never) as UpdateContactInput;
+
+      const contact = await ContactService.updateContact(accountId, id, body);
+
+      return ResponseBuilder.success(c, contact, 'Contact updated');
+    } catch (error: any) {
+      return ContactController.handleError(c, error, 'Update contact controller error');
+    }
+  }
+
+  // Delete contact
+  static async deleteContact(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as ContactParamsInput;
+
+      await ContactService.deleteContact(accountId, id);
+
+      return ResponseBuilder.success(c, null, 'Contact deleted');
+    } catch (error: any) {
+      return ContactController.handleError(c, error, 'Delete contact controller error');
+    }
+  }
+
+  // Import contacts from a CSV or Excel file
+  static async importContacts(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('form' as never) as ImportContactsInput;
+
+      const result = await ContactImportService.importFile(accountId, body);
+
+      return ResponseBuilder.created(
+        c,
+        result,
+        `Contacts imported. ${result.created} created, ${result.updated} updated`
+      );
+    } catch (error: any) {
+      if (IMPORT_ERROR_PREFIXES.some(prefix => error.message?.startsWith(prefix))
+        || error.message === 'The file has no data rows'
+        || error.message === 'The workbook has no sheets') {
+        return ResponseBuilder.error(c, 'CONTACT_IMPORT_ERROR', error.message, 400);
+      }
+
+      return ContactController.handleError(c, error, 'Import contacts controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Contact not found') {
+      return ResponseBuilder.notFound(c, 'Contact');
+    }
+
+    if (error.message === 'Segment not found') {
+      return ResponseBuilder.notFound(c, 'Segment');
+    }
+
+    if (error.message?.startsWith('Invalid segment filter')) {
+      return ResponseBuilder.error(c, 'INVALID_SEGMENT_FILTER', error.message, 400);
+    }
+
+    if (error.message === 'Contact group not found') {
+      return ResponseBuilder.error(c, 'GROUP_NOT_FOUND', error.message, 400);
+    }
+
+    if (error.message?.startsWith('Contact limit of ')) {
+      return ResponseBuilder.error(c, 'CONTACT_LIMIT_REACHED', error.message, 403);
+    }
+
+    if (error.message?.startsWith('Invalid phone number')) {
+      return ResponseBuilder.error(c, 'INVALID_PHONE', error.message, 400);
+    }
+
+    if (error.message?.startsWith('Custom field ') || error.message?.startsWith('Unknown custom field ')) {
+      return ResponseBuilder.error(c, 'INVALID_CUSTOM_FIELD', error.message, 400);
+    }
+
+    if (error.code === 'P2002') {
+      return ResponseBuilder.error(
+        c,
+        'DUPLICATE_CONTACT',
+        'A contact with this phone number already exists',
+        409
+      );
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
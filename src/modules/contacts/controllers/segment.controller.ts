@@ -0,0 +1,130 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { SegmentService } from '../services/segment.service';
+import type {
+  QuerySegmentsInput,
+  CreateSegmentInput,
+  UpdateSegmentInput,
+  PreviewSegmentInput,
+  SegmentParamsInput,
+} from '../schemas/contact.schema';
+
+export class SegmentController {
+  // List segments
+  static async listSegments(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QuerySegmentsInput;
+
+      const { segments, total } = await SegmentService.listSegments(accountId, query);
+
+      return ResponseBuilder.paginated(c, segments, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List segments controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get segment by ID, with a fresh count
+  static async getSegment(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as SegmentParamsInput;
+
+      const segment = await SegmentService.getSegment(accountId, id);
+
+      return ResponseBuilder.success(c, segment);
+    } catch (error: any) {
+      return SegmentController.handleError(c, error, 'Get segment controller error');
+    }
+  }
+
+  // Save a segment
+  static async createSegment(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as CreateSegmentInput;
+
+      const segment = await SegmentService.createSegment(accountId, body);
+
+      return ResponseBuilder.created(c, segment, 'Segment created');
+    } catch (error: any) {
+      return SegmentController.handleError(c, error, 'Create segment controller error');
+    }
+  }
+
+  // Update a segment
+  static async updateSegment(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as SegmentParamsInput;
+      const body = c.req.valid('json' as never) as UpdateSegmentInput;
+
+      const segment = await SegmentService.updateSegment(accountId, id, body);
+
+      return ResponseBuilder.success(c, segment, 'Segment updated');
+    } catch (error: any) {
+      return SegmentController.handleError(c, error, 'Update segment controller error');
+    }
+  }
+
+  // Delete a segment
+  static async deleteSegment(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as SegmentParamsInput;
+
+      await SegmentService.deleteSegment(accountId, id);
+
+      return ResponseBuilder.success(c, null, 'Segment deleted');
+    } catch (error: any) {
+      return SegmentController.handleError(c, error, 'Delete segment controller error');
+    }
+  }
+
+  // Count and sample an unsaved filter
+  static async previewSegment(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { filter } = c.req.valid('json' as never) as PreviewSegmentInput;
+
+      const preview = await SegmentService.preview(accountId, filter);
+
+      return ResponseBuilder.success(c, preview);
+    } catch (error: any) {
+      return SegmentController.handleError(c, error, 'Preview segment controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Segment not found') {
+      return ResponseBuilder.notFound(c, 'Segment');
+    }
+
+    // Bad field, operator or value, unknown custom field or group
+    if (error.message?.startsWith('Invalid segment filter')
+      || error.message?.startsWith('Custom field ')
+      || error.message?.startsWith('Unknown custom field ')
+      || error.message === 'Contact group not found') {
+      return ResponseBuilder.error(c, 'INVALID_SEGMENT_FILTER', error.message, 400);
+    }
+
+    if (error.message?.startsWith('Cannot ')) {
+      return ResponseBuilder.error(c, 'SEGMENT_IN_USE', error.message, 409);
+    }
+
+    if (error.code === 'P2002') {
+      return ResponseBuilder.error(
+        c,
+        'DUPLICATE_SEGMENT',
+        'A segment with this name already exists',
+        409
+      );
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
@@ -0,0 +1,58 @@
+// Export all Contacts module components
+
+// Services
+export { ContactService } from './services/contact.service';
+export { ContactGroupService } from './services/contact-group.service';
+export { ContactFieldService } from './services/contact-field.service';
+export { ContactImportService } from './services/contact-import.service';
+export { SegmentService } from './services/segment.service';
+export { SegmentFilterService } from './services/segment-filter.service';
+
+// Controllers
+export { ContactController } from './controllers/contact.controller';
+export { ContactGroupController } from './controllers/contact-group.controller';
+export { ContactFieldController } from './controllers/contact-field.controller';
+export { SegmentController } from './controllers/segment.controller';
+
+// Routes
+export { default as contactRouter } from './routes/contact.routes';
+
+// Types
+export type {
+  ContactSummary,
+  ContactGroupSummary,
+  ContactFieldSummary,
+  ContactImportResult,
+  GroupMembershipResult,
+  SegmentOperator,
+  SegmentValue,
+  SegmentCondition,
+  SegmentGroup,
+  SegmentNode,
+  SegmentSummary,
+  SegmentPreview,
+} from './types/contact.types';
+
+// Schemas
+export {
+  queryContactsSchema,
+  createContactSchema,
+  updateContactSchema,
+  importContactsSchema,
+  contactParamsSchema,
+  queryGroupsSchema,
+  createGroupSchema,
+  updateGroupSchema,
+  groupMembersSchema,
+  groupParamsSchema,
+  createFieldSchema,
+  updateFieldSchema,
+  fieldParamsSchema,
+  SEGMENT_OPERATORS,
+  segmentFilterSchema,
+  querySegmentsSchema,
+  createSegmentSchema,
+  updateSegmentSchema,
+  previewSegmentSchema,
+  segmentParamsSchema,
+} from './schemas/contact.schema';
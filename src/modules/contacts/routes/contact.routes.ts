@@ -0,0 +1,254 @@
+import { Hono } from 'hono';
+import { ContactController } from '../controllers/contact.controller';
+import { ContactGroupController } from '../controllers/contact-group.controller';
+import { ContactFieldController } from '../controllers/contact-field.controller';
+import { SegmentController } from '../controllers/segment.controller';
+import {
+  apiKeyAuth,
+  apiKeyRateLimit,
+  requirePermissions,
+  validate,
+  auditLogger,
+} from '@app/middleware';
+import {
+  queryContactsSchema,
+  createContactSchema,
+  updateContactSchema,
+  importContactsSchema,
+  contactParamsSchema,
+  queryGroupsSchema,
+  createGroupSchema,
+  updateGroupSchema,
+  groupMembersSchema,
+  groupParamsSchema,
+  createFieldSchema,
+  updateFieldSchema,
+  fieldParamsSchema,
+  querySegmentsSchema,
+  createSegmentSchema,
+  updateSegmentSchema,
+  previewSegmentSchema,
+  segmentParamsSchema,
+} from '../schemas/contact.schema';
+
+const contactRouter = new Hono();
+
+// Apply authentication to all routes
+contactRouter.use('*', apiKeyAuth);
+
+// Apply API rate limiting
+contactRouter.use('*', apiKeyRateLimit);
+
+// ============================================
+// CUSTOM FIELD ROUTES
+// ============================================
+
+// List custom fields
+contactRouter.get(
+  '/fields',
+  ContactFieldController.listFields
+);
+
+// Define custom field
+contactRouter.post(
+  '/fields',
+  requirePermissions('contacts:manage'),
+  validate('json', createFieldSchema),
+  auditLogger('create', 'contact_field'),
+  ContactFieldController.createField
+);
+
+// Update custom field
+contactRouter.patch(
+  '/fields/:id',
+  requirePermissions('contacts:manage'),
+  validate('param', fieldParamsSchema),
+  validate('json', updateFieldSchema),
+  auditLogger('update', 'contact_field'),
+  ContactFieldController.updateField
+);
+
+// Delete custom field
+contactRouter.delete(
+  '/fields/:id',
+  requirePermissions('contacts:manage'),
+  validate('param', fieldParamsSchema),
+  auditLogger('delete', 'contact_field'),
+  ContactFieldController.deleteField
+);
+
+// ============================================
+// GROUP ROUTES
+// ============================================
+
+// List groups
+contactRouter.get(
+  '/groups',
+  validate('query', queryGroupsSchema),
+  ContactGroupController.listGroups
+);
+
+// Create group
+contactRouter.post(
+  '/groups',
+  requirePermissions('contacts:manage'),
+  validate('json', createGroupSchema),
+  auditLogger('create', 'contact_group'),
+  ContactGroupController.createGroup
+);
+
+// Get group by ID
+contactRouter.get(
+  '/groups/:id',
+  validate('param', groupParamsSchema),
+  ContactGroupController.getGroup
+);
+
+// Update group
+contactRouter.patch(
+  '/groups/:id',
+  requirePermissions('contacts:manage'),
+  validate('param', groupParamsSchema),
+  validate('json', updateGroupSchema),
+  auditLogger('update', 'contact_group'),
+  ContactGroupController.updateGroup
+);
+
+// Delete group
+contactRouter.delete(
+  '/groups/:id',
+  requirePermissions('contacts:manage'),
+  validate('param', groupParamsSchema),
+  auditLogger('delete', 'contact_group'),
+  ContactGroupController.deleteGroup
+);
+
+// Add contacts to group
+contactRouter.post(
+  '/groups/:id/members',
+  requirePermissions('contacts:manage'),
+  validate('param', groupParamsSchema),
+  validate('json', groupMembersSchema),
+  auditLogger('add_members', 'contact_group'),
+  ContactGroupController.addMembers
+);
+
+// Remove contacts from group
+contactRouter.delete(
+  '/groups/:id/members',
+  requirePermissions('contacts:manage'),
+  validate('param', groupParamsSchema),
+  validate('json', groupMembersSchema),
+  auditLogger('remove_members', 'contact_group'),
+  ContactGroupController.removeMembers
+);
+
+// ============================================
+// SEGMENT ROUTES
+// ============================================
+
+// List segments
+contactRouter.get(
+  '/segments',
+  validate('query', querySegmentsSchema),
+  SegmentController.listSegments
+);
+
+// Create segment
+contactRouter.post(
+  '/segments',
+  requirePermissions('contacts:manage'),
+  validate('json', createSegmentSchema),
+  auditLogger('create', 'segment'),
+  SegmentController.createSegment
+);
+
+// Preview a filter (count and sample)
+contactRouter.post(
+  '/segments/preview',
+  validate('json', previewSegmentSchema),
+  SegmentController.previewSegment
+);
+
+// Get segment by ID
+contactRouter.get(
+  '/segments/:id',
+  validate('param', segmentParamsSchema),
+  SegmentController.getSegment
+);
+
+// Update segment
+contactRouter.patch(
+  '/segments/:id',
+  requirePermissions('contacts:manage'),
+  validate('param', segmentParamsSchema),
+  validate('json', updateSegmentSchema),
+  auditLogger('update', 'segment'),
+  SegmentController.updateSegment
+);
+
+// Delete segment
+contactRouter.delete(
+  '/segments/:id',
+  requirePermissions('contacts:manage'),
+  validate('param', segmentParamsSchema),
+  auditLogger('delete', 'segment'),
+  SegmentController.deleteSegment
+);
+
+// ============================================
+// CONTACT ROUTES
+// ============================================
+
+// List contacts
+contactRouter.get(
+  '/',
+  validate('query', queryContactsSchema),
+  ContactController.listContacts
+);
+
+// Create contact
+contactRouter.post(
+  '/',
+  requirePermissions('contacts:manage'),
+  validate('json', createContactSchema),
+  auditLogger('create', 'contact'),
+  ContactController.createContact
+);
+
+// Import contacts from a CSV or Excel file
+contactRouter.post(
+  '/import',
+  requirePermissions('contacts:manage'),
+  validate('form', importContactsSchema),
+  auditLogger('import', 'contact'),
+  ContactController.importContacts
+);
+
+// Get contact by ID
+contactRouter.get(
+  '/:id',
+  validate('param', contactParamsSchema),
+  ContactController.getContact
+);
+
+// Update contact
+contactRouter.patch(
+  '/:id',
+  requirePermissions('contacts:manage'),
+  validate('param', contactParamsSchema),
+  validate('json', updateContactSchema),
+  auditLogger('update', 'contact'),
+  ContactController.updateContact
+);
+
+// Delete contact
+contactRouter.delete(
+  '/:id',
+  requirePermissions('contacts:manage'),
+  validate('param', contactParamsSchema),
+  auditLogger('delete', 'contact'),
+  ContactController.deleteContact
+);
+
+export default contactRouter;
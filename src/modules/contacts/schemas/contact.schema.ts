@@ -0,0 +1,229 @@
+import { z } from 'zod';
+import type { SegmentNode } from '../types/contact.types';
+
+const FIELD_TYPES = ['TEXT', 'NUMBER', 'DATE', 'BOOLEAN', 'SELECT'] as const;
+
+export const SEGMENT_OPERATORS = [
+  'eq', 'neq', 'in', 'notIn', 'contains', 'startsWith',
+  'gt', 'gte', 'lt', 'lte', 'isSet', 'notSet',
+  'has', 'hasAny', 'hasAll', 'notHas',
+  'before', 'after', 'withinDays',
+  'ever', 'never', 'notWithinDays',
+] as const;
+
+const tagsSchema = z
+  .array(z.string().trim().min(1).max(50))
+  .max(50, 'Maximum 50 tags per contact')
+  .transform(tags => [...new Set(tags)]);
+
+// Contact fields shared by create and update
+const contactFields = {
+  email: z.string().email('Invalid email address').nullable(),
+  firstName: z.string().max(100).nullable(),
+  lastName: z.string().max(100).nullable(),
+  country: z.string().length(2, 'Country must be an ISO 3166-1 alpha-2 code').toUpperCase().nullable(),
+  city: z.string().max(100).nullable(),
+  timezone: z.string().max(50).nullable(),
+  language: z.string().min(2).max(10).nullable(),
+  customFields: z.record(z.string(), z.any()),
+  tags: tagsSchema,
+  isActive: z.boolean(),
+};
+
+// Query contacts schema
+export const queryContactsSchema = z.object({
+  search: z.string().optional(), // Phone, name or email
+  tag: z.string().optional(),
+  groupId: z.string().optional(),
+  segmentId: z.string().optional(),
+  isSubscribed: z.enum(['true', 'false']).optional().transform(v => v === undefined ? undefined : v === 'true'),
+  source: z.string().optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 50),
+});
+
+// Create contact schema
+export const createContactSchema = z.object({
+  phone: z.string().min(1, 'Phone number is required'),
+  ...z.object(contactFields).partial().shape,
+  groupIds: z.array(z.string().min(1)).max(50).optional(),
+});
+
+// Update contact schema (the phone identifies the contact and cannot change)
+export const updateContactSchema = z.object(contactFields)
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+// Import contacts schema (multipart form)
+export const importContactsSchema = z.object({
+  file: z.instanceof(File, { message: 'A CSV or Excel file is required' }),
+  sheet: z.string().optional(), // Excel only, defaults to the first sheet
+  phoneColumn: z.string().min(1).default('phone'),
+  // JSON object of file column -> contact field, e.g.
+  // {"First Name":"firstName","Member No":"customFields.memberNo"}
+  mapping: z.string().optional().transform((val, ctx) => {
+    if (!val) return undefined;
+
+    try {
+      return z.record(z.string().min(1), z.string().min(1)).parse(JSON.parse(val));
+    } catch {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Mapping must be a JSON object mapping column names to contact fields',
+      });
+      return z.NEVER;
+    }
+  }),
+  groupId: z.string().optional(), // Add every imported contact to this group
+  tags: z
+    .string()
+    .optional()
+    .transform(v => v ? [...new Set(v.split(',').map(tag => tag.trim()).filter(Boolean))] : []),
+  onDuplicate: z.enum(['merge', 'skip']).default('merge'),
+});
+
+// Contact by ID schema
+export const contactParamsSchema = z.object({
+  id: z.string().min(1, 'Contact ID is required'),
+});
+
+// Query groups schema
+export const queryGroupsSchema = z.object({
+  search: z.string().optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 50),
+});
+
+// Group fields shared by create and update
+const groupFields = {
+  name: z.string().trim().min(1, 'Group name is required').max(100),
+  description: z.string().max(500).nullable(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex code like #3B82F6').nullable(),
+};
+
+// Create group schema
+export const createGroupSchema = z.object({
+  name: groupFields.name,
+  description: groupFields.description.optional(),
+  color: groupFields.color.optional(),
+});
+
+// Update group schema
+export const updateGroupSchema = z.object(groupFields)
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+// Add or remove group members schema
+export const groupMembersSchema = z.object({
+  contactIds: z.array(z.string().min(1)).min(1, 'At least one contact ID is required').max(10000),
+});
+
+// Group by ID schema
+export const groupParamsSchema = z.object({
+  id: z.string().min(1, 'Group ID is required'),
+});
+
+// Create custom field schema
+export const createFieldSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-zA-Z][a-zA-Z0-9_]{0,49}$/, 'Key must start with a letter and use letters, digits or _ (max 50)'),
+  label: z.string().trim().min(1, 'Label is required').max(100),
+  type: z.enum(FIELD_TYPES).default('TEXT'),
+  options: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+  required: z.boolean().default(false),
+}).refine(data => data.type !== 'SELECT' || (data.options && data.options.length > 0), {
+  message: 'SELECT fields need at least one option',
+  path: ['options'],
+});
+
+// Update custom field schema (the key and type are fixed once created)
+export const updateFieldSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  options: z.array(z.string().trim().min(1).max(100)).max(100),
+  required: z.boolean(),
+})
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+// Custom field by ID schema
+export const fieldParamsSchema = z.object({
+  id: z.string().min(1, 'Field ID is required'),
+});
+
+// Segment filter expression: a condition, or an all/any/not group of them.
+// Fields and operators are checked when the filter is compiled.
+const segmentConditionSchema = z.object({
+  field: z.string().min(1, 'Condition field is required'),
+  op: z.enum(SEGMENT_OPERATORS),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string()).max(1000)]).optional(),
+}).strict();
+
+export const segmentFilterSchema: z.ZodType<SegmentNode> = z.lazy(() =>
+  z.union([
+    segmentConditionSchema,
+    z.object({ all: z.array(segmentFilterSchema).min(1).max(50) }).strict(),
+    z.object({ any: z.array(segmentFilterSchema).min(1).max(50) }).strict(),
+    z.object({ not: segmentFilterSchema }).strict(),
+  ])
+);
+
+// Query segments schema
+export const querySegmentsSchema = z.object({
+  search: z.string().optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 50),
+});
+
+// Create segment schema
+export const createSegmentSchema = z.object({
+  name: z.string().trim().min(1, 'Segment name is required').max(100),
+  description: z.string().max(500).optional(),
+  filter: segmentFilterSchema,
+});
+
+// Update segment schema
+export const updateSegmentSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable(),
+  filter: segmentFilterSchema,
+})
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+// Preview an unsaved filter schema
+export const previewSegmentSchema = z.object({
+  filter: segmentFilterSchema,
+});
+
+// Segment by ID schema
+export const segmentParamsSchema = z.object({
+  id: z.string().min(1, 'Segment ID is required'),
+});
+
+export type QueryContactsInput = z.infer<typeof queryContactsSchema>;
+export type CreateContactInput = z.infer<typeof createContactSchema>;
+export type UpdateContactInput = z.infer<typeof updateContactSchema>;
+export type ImportContactsInput = z.infer<typeof importContactsSchema>;
+export type ContactParamsInput = z.infer<typeof contactParamsSchema>;
+export type QueryGroupsInput = z.infer<typeof queryGroupsSchema>;
+export type CreateGroupInput = z.infer<typeof createGroupSchema>;
+export type UpdateGroupInput = z.infer<typeof updateGroupSchema>;
+export type GroupMembersInput = z.infer<typeof groupMembersSchema>;
+export type GroupParamsInput = z.infer<typeof groupParamsSchema>;
+export type CreateFieldInput = z.infer<typeof createFieldSchema>;
+export type UpdateFieldInput = z.infer<typeof updateFieldSchema>;
+export type FieldParamsInput = z.infer<typeof fieldParamsSchema>;
+export type QuerySegmentsInput = z.infer<typeof querySegmentsSchema>;
+export type CreateSegmentInput = z.infer<typeof createSegmentSchema>;
+export type UpdateSegmentInput = z.infer<typeof updateSegmentSchema>;
+export type PreviewSegmentInput = z.infer<typeof previewSegmentSchema>;
+export type SegmentParamsInput = z.infer<typeof segmentParamsSchema>;
@@ -0,0 +1,215 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import type { ContactField } from '../../../../generated/prisma/client';
+import type { CreateFieldInput, UpdateFieldInput } from '../schemas/contact.schema';
+import type { ContactFieldSummary } from '../types/contact.types';
+
+// Most custom fields an account can define
+const MAX_FIELDS = 50;
+
+// Longest TEXT value
+const MAX_TEXT_LENGTH = 1000;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Contact Field Service
+ * Per-account schema for `Contact.customFields`. Values are checked and
+ * coerced against the definitions whenever a contact is written, so a
+ * NUMBER field always holds a number whether it came from JSON or a CSV.
+ */
+export class ContactFieldService {
+  // List the account's field definitions
+  static async listFields(accountId: string): Promise<ContactFieldSummary[]> {
+    const fields = await this.loadFields(accountId);
+    return fields.map(field => this.formatField(field));
+  }
+
+  // Define a custom field
+  static async createField(accountId: string, input: CreateFieldInput): Promise<ContactFieldSummary> {
+    const count = await prisma.contactField.count({ where: { accountId } });
+
+    if (count >= MAX_FIELDS) {
+      throw new Error(`Custom field limit of ${MAX_FIELDS} reached`);
+    }
+
+    const field = await prisma.contactField.create({
+      data: {
+        accountId,
+        key: input.key,
+        label: input.label,
+        type: input.type,
+        options: input.type === 'SELECT' ? [...new Set(input.options)] : [],
+        required: input.required,
+      },
+    });
+
+    logger.info({ accountId, fieldId: field.id, key: field.key, type: field.type }, 'Contact field created');
+
+    return this.formatField(field);
+  }
+
+  // Update a field's label, options or required flag
+  static async updateField(accountId: string, id: string, input: UpdateFieldInput): Promise<ContactFieldSummary> {
+    const current = await this.findField(accountId, id);
+
+    if (input.options && current.type !== 'SELECT') {
+      throw new Error('Only SELECT fields have options');
+    }
+
+    if (input.options?.length === 0) {
+      throw new Error('SELECT fields need at least one option');
+    }
+
+    const field = await prisma.contactField.update({
+      where: { id },
+      data: {
+        ...input,
+        ...(input.options && { options: [...new Set(input.options)] }),
+      },
+    });
+
+    logger.info({ accountId, fieldId: id, fields: Object.keys(input) }, 'Contact field updated');
+
+    return this.formatField(field);
+  }
+
+  // Delete a field and drop its value from every contact
+  static async deleteField(accountId: string, id: string): Promise<void> {
+    const field = await this.findField(accountId, id);
+
+    await prisma.contactField.delete({ where: { id } });
+
+    await prisma.$executeRaw`
+      UPDATE contacts
+      SET "customFields" = "customFields" - ${field.key},
+          "updatedAt" = NOW()
+      WHERE "accountId" = ${accountId}
+        AND "customFields" ? ${field.key}
+    `;
+
+    logger.info({ accountId, fieldId: id, key: field.key }, 'Contact field deleted');
+  }
+
+  static async loadFields(accountId: string): Promise<ContactField[]> {
+    return prisma.contactField.findMany({
+      where: { accountId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // Apply `changes` to a contact's current values. Null or empty values
+  // clear the field. `requireAll` is set for new contacts, so fields made
+  // required later do not block updates to older contacts.
+  static applyValues(
+    fields: ContactField[],
+    current: Record<string, any>,
+    changes: Record<string, any>,
+    requireAll: boolean
+  ): Record<string, any> {
+    const byKey = new Map<string, ContactField>(fields.map(field => [field.key, field]));
+    const values = { ...current };
+
+    for (const [key, value] of Object.entries(changes)) {
+      const field = byKey.get(key);
+
+      if (!field) {
+        throw new Error(`Unknown custom field "${key}"`);
+      }
+
+      if (value === null || value === undefined || value === '') {
+        delete values[key];
+        continue;
+      }
+
+      values[key] = this.coerce(field, value);
+    }
+
+    if (requireAll) {
+      const missing = fields.find(field => field.required && values[field.key] === undefined);
+
+      if (missing) {
+        throw new Error(`Custom field "${missing.key}" is required`);
+      }
+    }
+
+    return values;
+  }
+
+  // Check a value against its field type and convert it
+  static coerce(field: ContactField, value: unknown): string | number | boolean {
+    const text = String(value).trim();
+
+    switch (field.type) {
+      case 'NUMBER': {
+        const number = typeof value === 'number' ? value : Number(text.replace(/,/g, ''));
+        if (!Number.isFinite(number) || text === '') {
+          throw new Error(`Custom field "${field.key}" must be a number`);
+        }
+        return number;
+      }
+
+      case 'BOOLEAN': {
+        if (typeof value === 'boolean') return value;
+        if (TRUE_VALUES.includes(text.toLowerCase())) return true;
+        if (FALSE_VALUES.includes(text.toLowerCase())) return false;
+        throw new Error(`Custom field "${field.key}" must be true or false`);
+      }
+
+      case 'DATE': {
+        const date = new Date(text);
+        if (Number.isNaN(date.getTime())) {
+          throw new Error(`Custom field "${field.key}" must be a date`);
+        }
+        // Dates without a time are stored as YYYY-MM-DD
+        return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : date.toISOString();
+      }
+
+      case 'SELECT': {
+        // Match case-insensitively but store the option as defined
+        const option = field.options.find(option => option.toLowerCase() === text.toLowerCase());
+        if (!option) {
+          throw new Error(`Custom field "${field.key}" must be one of: ${field.options.join(', ')}`);
+        }
+        return option;
+      }
+
+      default:
+        if (typeof value === 'object') {
+          throw new Error(`Custom field "${field.key}" must be text`);
+        }
+        if (text.length > MAX_TEXT_LENGTH) {
+          throw new Error(`Custom field "${field.key}" must be at most ${MAX_TEXT_LENGTH} characters`);
+        }
+        return text;
+    }
+  }
+
+  private static async findField(accountId: string, id: string): Promise<ContactField> {
+    const field = await prisma.contactField.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!field) {
+      throw new Error('Contact field not found');
+    }
+
+    return field;
+  }
+
+  private static formatField(field: ContactField): ContactFieldSummary {
+    return {
+      id: field.id,
+      key: field.key,
+      label: field.label,
+      type: field.type,
+      options: field.options,
+      required: field.required,
+      createdAt: field.createdAt,
+      updatedAt: field.updatedAt,
+    };
+  }
+}
+
+export default ContactFieldService;
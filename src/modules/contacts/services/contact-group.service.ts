@@ -0,0 +1,179 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import type { ContactGroup } from '../../../../generated/prisma/client';
+import type {
+  QueryGroupsInput,
+  CreateGroupInput,
+  UpdateGroupInput,
+} from '../schemas/contact.schema';
+import type { ContactGroupSummary, GroupMembershipResult } from '../types/contact.types';
+
+/**
+ * Contact Group Service
+ * Named lists of contacts, used as campaign audiences and by keyword
+ * responders. `ContactGroup.contactCount` is recounted from the
+ * memberships whenever they change.
+ */
+export class ContactGroupService {
+  // List groups
+  static async listGroups(
+    accountId: string,
+    filters: QueryGroupsInput
+  ): Promise<{ groups: ContactGroupSummary[]; total: number }> {
+    const where: any = { accountId };
+
+    if (filters.search) {
+      where.name = { contains: filters.search, mode: 'insensitive' };
+    }
+
+    const [groups, total] = await Promise.all([
+      prisma.contactGroup.findMany({
+        where,
+        orderBy: { name: 'asc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.contactGroup.count({ where }),
+    ]);
+
+    return {
+      groups: groups.map(group => this.formatGroup(group)),
+      total,
+    };
+  }
+
+  // Get group by ID
+  static async getGroup(accountId: string, id: string): Promise<ContactGroupSummary> {
+    return this.formatGroup(await this.findGroup(accountId, id));
+  }
+
+  // Create a group
+  static async createGroup(accountId: string, input: CreateGroupInput): Promise<ContactGroupSummary> {
+    const group = await prisma.contactGroup.create({
+      data: {
+        accountId,
+        name: input.name,
+        description: input.description,
+        ...(input.color && { color: input.color }),
+      },
+    });
+
+    logger.info({ accountId, groupId: group.id }, 'Contact group created');
+
+    return this.formatGroup(group);
+  }
+
+  // Update a group
+  static async updateGroup(accountId: string, id: string, input: UpdateGroupInput): Promise<ContactGroupSummary> {
+    await this.findGroup(accountId, id);
+
+    const group = await prisma.contactGroup.update({
+      where: { id },
+      data: input,
+    });
+
+    logger.info({ accountId, groupId: id, fields: Object.keys(input) }, 'Contact group updated');
+
+    return this.formatGroup(group);
+  }
+
+  // Delete a group; its contacts are kept
+  static async deleteGroup(accountId: string, id: string): Promise<void> {
+    await this.findGroup(accountId, id);
+
+    await prisma.contactGroup.delete({ where: { id } });
+
+    logger.info({ accountId, groupId: id }, 'Contact group deleted');
+  }
+
+  // Add the account's contacts to a group
+  static async addMembers(accountId: string, id: string, contactIds: string[]): Promise<GroupMembershipResult> {
+    await this.findGroup(accountId, id);
+
+    const unique = [...new Set(contactIds)];
+    const contacts = await prisma.contact.findMany({
+      where: { accountId, id: { in: unique } },
+      select: { id: true },
+    });
+
+    const { count } = await prisma.contactGroupMembership.createMany({
+      data: contacts.map(contact => ({ contactId: contact.id, groupId: id })),
+      skipDuplicates: true,
+    });
+
+    await this.syncMemberCounts([id]);
+
+    logger.info({ accountId, groupId: id, added: count }, 'Contacts added to group');
+
+    return {
+      added: count,
+      existing: contacts.length - count,
+      notFound: unique.length - contacts.length,
+    };
+  }
+
+  // Remove contacts from a group
+  static async removeMembers(accountId: string, id: string, contactIds: string[]): Promise<{ removed: number }> {
+    await this.findGroup(accountId, id);
+
+    const { count } = await prisma.contactGroupMembership.deleteMany({
+      where: { groupId: id, contactId: { in: contactIds } },
+    });
+
+    await this.syncMemberCounts([id]);
+
+    logger.info({ accountId, groupId: id, removed: count }, 'Contacts removed from group');
+
+    return { removed: count };
+  }
+
+  // Throw unless every group belongs to the account
+  static async assertGroups(accountId: string, groupIds: string[]): Promise<void> {
+    const unique = [...new Set(groupIds)];
+    const count = await prisma.contactGroup.count({
+      where: { accountId, id: { in: unique } },
+    });
+
+    if (count !== unique.length) {
+      throw new Error('Contact group not found');
+    }
+  }
+
+  // Keep ContactGroup.contactCount in step with the memberships
+  static async syncMemberCounts(groupIds: string[]): Promise<void> {
+    for (const groupId of new Set(groupIds)) {
+      const count = await prisma.contactGroupMembership.count({ where: { groupId } });
+
+      await prisma.contactGroup.update({
+        where: { id: groupId },
+        data: { contactCount: count },
+      });
+    }
+  }
+
+  private static async findGroup(accountId: string, id: string): Promise<ContactGroup> {
+    const group = await prisma.contactGroup.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!group) {
+      throw new Error('Contact group not found');
+    }
+
+    return group;
+  }
+
+  private static formatGroup(group: ContactGroup): ContactGroupSummary {
+    return {
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      color: group.color,
+      contactCount: group.contactCount,
+      createdAt: group.createdAt,
+      updatedAt: group.updatedAt,
+    };
+  }
+}
+
+export default ContactGroupService;
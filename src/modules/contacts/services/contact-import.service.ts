@@ -0,0 +1,341 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { parseSpreadsheet, FIRST_DATA_ROW } from '@utils/spreadsheet';
+import { SMSValidationService } from '@modules/sms/services/sms-validation.service';
+import { ContactService } from './contact.service';
+import { ContactFieldService } from './contact-field.service';
+import { ContactGroupService } from './contact-group.service';
+import type { Contact, ContactField } from '../../../../generated/prisma/client';
+import type { ImportContactsInput } from '../schemas/contact.schema';
+import type { ContactImportResult } from '../types/contact.types';
+
+// Largest file accepted by an import
+const MAX_IMPORT_ROWS = 100000;
+
+// Contacts looked up and written per round trip
+const WRITE_CHUNK_SIZE = 1000;
+
+// Row errors returned with an import
+const MAX_IMPORT_ERRORS = 500;
+
+// Contact columns a file column can be mapped to (besides customFields.<key>)
+const STANDARD_FIELDS = ['email', 'firstName', 'lastName', 'country', 'city', 'timezone', 'language', 'tags'] as const;
+
+type StandardField = typeof STANDARD_FIELDS[number];
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+// One contact read from the file
+interface ImportRow {
+  row: number;
+  phone: string;
+  country?: string; // Detected from the number
+  network?: string;
+  fields: Partial<Record<Exclude<StandardField, 'tags'>, string>>;
+  tags: string[];
+  customFields: Record<string, any>;
+}
+
+/**
+ * Contact Import Service
+ * Imports contacts from a CSV or Excel file. Numbers are normalized with
+ * the account's country code; a number already in the address book (or
+ * repeated in the file) is merged into one contact: non-empty values
+ * overwrite, tags are combined and custom fields are merged.
+ *
+ * New contacts stop at `AccountLimits.maxContacts`; the rest are skipped
+ * and reported, while merges into existing contacts still go through.
+ */
+export class ContactImportService {
+  static async importFile(accountId: string, input: ImportContactsInput): Promise<ContactImportResult> {
+    const { columns, rows } = await parseSpreadsheet(input.file, input.sheet);
+
+    if (!columns.includes(input.phoneColumn)) {
+      throw new Error(`Column "${input.phoneColumn}" not found in the file`);
+    }
+
+    if (rows.length === 0) {
+      throw new Error('The file has no data rows');
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Maximum ${MAX_IMPORT_ROWS.toLocaleString()} rows per import`);
+    }
+
+    const [countryCode, fields] = await Promise.all([
+      ContactService.accountCountryCode(accountId),
+      ContactFieldService.loadFields(accountId),
+    ]);
+
+    if (input.groupId) {
+      await ContactGroupService.assertGroups(accountId, [input.groupId]);
+    }
+
+    const mapping = this.resolveMapping(columns, input, fields);
+
+    const result: ContactImportResult = {
+      totalRows: rows.length,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      invalid: 0,
+      errors: [],
+    };
+
+    const addError = (row: number, phone: string, error: string) => {
+      if (result.errors.length < MAX_IMPORT_ERRORS) {
+        result.errors.push({ row, phone, error });
+      }
+    };
+
+    // Read and check every row, merging numbers repeated in the file
+    const byPhone = new Map<string, ImportRow>();
+
+    rows.forEach((record, index) => {
+      const row = index + FIRST_DATA_ROW;
+      const rawPhone = record[input.phoneColumn] || '';
+      const validation = SMSValidationService.validatePhoneNumber(
+        SMSValidationService.normalizePhoneNumber(rawPhone, countryCode)
+      );
+
+      if (!validation.valid) {
+        result.invalid++;
+        addError(row, rawPhone, validation.errors?.join(', ') || 'Invalid phone number');
+        return;
+      }
+
+      let parsed: ImportRow;
+
+      try {
+        parsed = {
+          ...this.readRow(row, validation.formatted, record, mapping, fields, input.tags),
+          country: validation.country,
+          network: validation.network,
+        };
+      } catch (error: any) {
+        result.invalid++;
+        addError(row, rawPhone, error.message);
+        return;
+      }
+
+      const earlier = byPhone.get(parsed.phone);
+
+      if (earlier) {
+        byPhone.set(parsed.phone, this.mergeRows(earlier, parsed));
+        result.skipped++;
+      } else {
+        byPhone.set(parsed.phone, parsed);
+      }
+    });
+
+    const capacity = await ContactService.remainingContacts(accountId);
+    let remaining = capacity.remaining;
+    const importRows = [...byPhone.values()];
+    const touchedIds: string[] = [];
+
+    for (let i = 0; i < importRows.length; i += WRITE_CHUNK_SIZE) {
+      const chunk = importRows.slice(i, i + WRITE_CHUNK_SIZE);
+
+      const existing = await prisma.contact.findMany({
+        where: { accountId, phone: { in: chunk.map(row => row.phone) } },
+      });
+      const existingByPhone = new Map<string, Contact>(existing.map(contact => [contact.phone, contact]));
+
+      const toCreate: ImportRow[] = [];
+      const updates: Array<ReturnType<typeof prisma.contact.update>> = [];
+
+      for (const row of chunk) {
+        const contact = existingByPhone.get(row.phone);
+
+        if (contact) {
+          if (input.onDuplicate === 'skip') {
+            result.skipped++;
+            continue;
+          }
+
+          updates.push(prisma.contact.update({
+            where: { id: contact.id },
+            data: this.mergeIntoContact(contact, row),
+          }));
+          touchedIds.push(contact.id);
+          continue;
+        }
+
+        if (remaining < 1) {
+          result.skipped++;
+          addError(row.row, row.phone, `Contact limit of ${capacity.max} reached`);
+          continue;
+        }
+
+        const missing = fields.find(field => field.required && row.customFields[field.key] === undefined);
+
+        if (missing) {
+          result.invalid++;
+          addError(row.row, row.phone, `Custom field "${missing.key}" is required`);
+          continue;
+        }
+
+        toCreate.push(row);
+        remaining--;
+      }
+
+      if (updates.length > 0) {
+        await prisma.$transaction(updates);
+        result.updated += updates.length;
+      }
+
+      if (toCreate.length > 0) {
+        const { count } = await prisma.contact.createMany({
+          data: toCreate.map(row => ({
+            accountId,
+            phone: row.phone,
+            country: row.country,
+            network: row.network,
+            ...row.fields,
+            tags: row.tags,
+            customFields: row.customFields,
+            source: 'import',
+          })),
+          skipDuplicates: true,
+        });
+
+        result.created += count;
+        result.skipped += toCreate.length - count;
+
+        if (input.groupId) {
+          const created = await prisma.contact.findMany({
+            where: { accountId, phone: { in: toCreate.map(row => row.phone) } },
+            select: { id: true },
+          });
+          touchedIds.push(...created.map(contact => contact.id));
+        }
+      }
+    }
+
+    if (input.groupId && touchedIds.length > 0) {
+      for (let i = 0; i < touchedIds.length; i += WRITE_CHUNK_SIZE) {
+        await prisma.contactGroupMembership.createMany({
+          data: touchedIds
+            .slice(i, i + WRITE_CHUNK_SIZE)
+            .map(contactId => ({ contactId, groupId: input.groupId! })),
+          skipDuplicates: true,
+        });
+      }
+
+      await ContactGroupService.syncMemberCounts([input.groupId]);
+    }
+
+    await ContactService.syncContactCount(accountId);
+
+    logger.info({
+      accountId,
+      totalRows: result.totalRows,
+      created: result.created,
+      updated: result.updated,
+      skipped: result.skipped,
+      invalid: result.invalid,
+    }, 'Contacts imported');
+
+    return result;
+  }
+
+  // File column -> target. Without a mapping, columns named like a contact
+  // field or a custom field key are picked up.
+  private static resolveMapping(
+    columns: string[],
+    input: ImportContactsInput,
+    fields: ContactField[]
+  ): Map<string, string> {
+    const customKeys = new Set(fields.map(field => field.key));
+    const mapping = new Map<string, string>();
+
+    if (input.mapping) {
+      for (const [column, target] of Object.entries(input.mapping)) {
+        if (!columns.includes(column)) {
+          throw new Error(`Column "${column}" not found in the file`);
+        }
+
+        if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+          const key = target.substring(CUSTOM_FIELD_PREFIX.length);
+          if (!customKeys.has(key)) {
+            throw new Error(`Unknown custom field "${key}"`);
+          }
+        } else if (!(STANDARD_FIELDS as readonly string[]).includes(target)) {
+          throw new Error(`Unknown contact field "${target}"`);
+        }
+
+        mapping.set(column, target);
+      }
+
+      return mapping;
+    }
+
+    for (const column of columns) {
+      if (column === input.phoneColumn) continue;
+
+      const standard = STANDARD_FIELDS.find(field => field.toLowerCase() === column.toLowerCase());
+
+      if (standard) {
+        mapping.set(column, standard);
+      } else if (customKeys.has(column)) {
+        mapping.set(column, `${CUSTOM_FIELD_PREFIX}${column}`);
+      }
+    }
+
+    return mapping;
+  }
+
+  private static readRow(
+    row: number,
+    phone: string,
+    record: Record<string, string>,
+    mapping: Map<string, string>,
+    fields: ContactField[],
+    extraTags: string[]
+  ): ImportRow {
+    const parsed: ImportRow = { row, phone, fields: {}, tags: [...extraTags], customFields: {} };
+    const custom: Record<string, string> = {};
+
+    for (const [column, target] of mapping) {
+      const value = (record[column] || '').trim();
+      if (!value) continue;
+
+      if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+        custom[target.substring(CUSTOM_FIELD_PREFIX.length)] = value;
+      } else if (target === 'tags') {
+        parsed.tags.push(...value.split(/[,;]/).map(tag => tag.trim()).filter(Boolean));
+      } else if (target === 'email' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+        throw new Error('Invalid email address');
+      } else if (target === 'country') {
+        parsed.fields.country = value.toUpperCase();
+      } else {
+        parsed.fields[target as Exclude<StandardField, 'tags'>] = value;
+      }
+    }
+
+    parsed.tags = [...new Set(parsed.tags)];
+    parsed.customFields = ContactFieldService.applyValues(fields, {}, custom, false);
+
+    return parsed;
+  }
+
+  // Later rows for the same number win for each value they set
+  private static mergeRows(earlier: ImportRow, later: ImportRow): ImportRow {
+    return {
+      ...earlier,
+      fields: { ...earlier.fields, ...later.fields },
+      tags: [...new Set([...earlier.tags, ...later.tags])],
+      customFields: { ...earlier.customFields, ...later.customFields },
+    };
+  }
+
+  private static mergeIntoContact(contact: Contact, row: ImportRow) {
+    return {
+      ...row.fields,
+      tags: [...new Set([...contact.tags, ...row.tags])],
+      customFields: { ...ContactService.customFieldsOf(contact), ...row.customFields },
+    };
+  }
+}
+
+export default ContactImportService;
@@ -0,0 +1,291 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { SMSValidationService } from '@modules/sms/services/sms-validation.service';
+import { ContactFieldService } from './contact-field.service';
+import { ContactGroupService } from './contact-group.service';
+import { SegmentService } from './segment.service';
+import type { SMSValidationResult } from '@modules/sms/types/sms.types';
+import type { Contact } from '../../../../generated/prisma/client';
+import type {
+  QueryContactsInput,
+  CreateContactInput,
+  UpdateContactInput,
+} from '../schemas/contact.schema';
+import type { ContactSummary } from '../types/contact.types';
+
+/**
+ * Contact Service
+ * The account's address book. Phone numbers are stored in E.164 (local
+ * numbers take the account's country code) and are unique per account.
+ * Creating contacts is capped by `AccountLimits.maxContacts`.
+ *
+ * `isSubscribed` is not writable here: it follows the recipient's STOP and
+ * START keywords.
+ */
+export class ContactService {
+  // List contacts
+  static async listContacts(
+    accountId: string,
+    filters: QueryContactsInput
+  ): Promise<{ contacts: ContactSummary[]; total: number }> {
+    const where: any = { accountId };
+
+    if (filters.search) {
+      const search = filters.search.trim();
+      where.OR = [
+        { phone: { contains: search.replace(/[\s\-().]/g, '') } },
+        { firstName: { contains: search, mode: 'insensitive' } },
+        { lastName: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    if (filters.tag) {
+      where.tags = { has: filters.tag };
+    }
+
+    if (filters.groupId) {
+      where.groupMemberships = { some: { groupId: filters.groupId } };
+    }
+
+    if (filters.segmentId) {
+      where.AND = [await SegmentService.whereForSegment(accountId, filters.segmentId)];
+    }
+
+    if (filters.isSubscribed !== undefined) {
+      where.isSubscribed = filters.isSubscribed;
+    }
+
+    if (filters.source) {
+      where.source = filters.source;
+    }
+
+    const [contacts, total] = await Promise.all([
+      prisma.contact.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.contact.count({ where }),
+    ]);
+
+    return {
+      contacts: contacts.map(contact => this.formatContact(contact)),
+      total,
+    };
+  }
+
+  // Get contact by ID, with its groups
+  static async getContact(accountId: string, id: string): Promise<ContactSummary> {
+    const contact = await prisma.contact.findFirst({
+      where: { id, accountId },
+      include: {
+        groupMemberships: {
+          include: { group: { select: { id: true, name: true } } },
+        },
+      },
+    });
+
+    if (!contact) {
+      throw new Error('Contact not found');
+    }
+
+    return {
+      ...this.formatContact(contact),
+      groups: contact.groupMemberships.map(membership => membership.group),
+    };
+  }
+
+  // Create a contact
+  static async createContact(accountId: string, input: CreateContactInput): Promise<ContactSummary> {
+    const { groupIds, customFields, phone: rawPhone, ...fields } = input;
+
+    const validation = await this.validatePhone(accountId, rawPhone);
+
+    const { max, remaining } = await this.remainingContacts(accountId);
+    if (max !== null && remaining < 1) {
+      throw new Error(`Contact limit of ${max} reached`);
+    }
+
+    const values = ContactFieldService.applyValues(
+      await ContactFieldService.loadFields(accountId),
+      {},
+      customFields || {},
+      true
+    );
+
+    if (groupIds?.length) {
+      await ContactGroupService.assertGroups(accountId, groupIds);
+    }
+
+    const contact = await prisma.contact.create({
+      data: {
+        accountId,
+        phone: validation.formatted,
+        country: validation.country,
+        network: validation.network,
+        ...fields,
+        customFields: values,
+        source: 'api',
+        ...(groupIds?.length && {
+          groupMemberships: {
+            create: [...new Set(groupIds)].map(groupId => ({ groupId })),
+          },
+        }),
+      },
+    });
+
+    if (groupIds?.length) {
+      await ContactGroupService.syncMemberCounts(groupIds);
+    }
+
+    await this.syncContactCount(accountId);
+
+    logger.info({ accountId, contactId: contact.id }, 'Contact created');
+
+    return this.formatContact(contact);
+  }
+
+  // Update a contact. Custom fields are merged: send null to clear one.
+  static async updateContact(accountId: string, id: string, input: UpdateContactInput): Promise<ContactSummary> {
+    const current = await this.findContact(accountId, id);
+    const { customFields, ...fields } = input;
+
+    const contact = await prisma.contact.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(customFields && {
+          customFields: ContactFieldService.applyValues(
+            await ContactFieldService.loadFields(accountId),
+            this.customFieldsOf(current),
+            customFields,
+            false
+          ),
+        }),
+      },
+    });
+
+    logger.info({ accountId, contactId: id, fields: Object.keys(input) }, 'Contact updated');
+
+    return this.formatContact(contact);
+  }
+
+  // Delete a contact and its group memberships
+  static async deleteContact(accountId: string, id: string): Promise<void> {
+    await this.findContact(accountId, id);
+
+    const memberships = await prisma.contactGroupMembership.findMany({
+      where: { contactId: id },
+      select: { groupId: true },
+    });
+
+    await prisma.contact.delete({ where: { id } });
+
+    await ContactGroupService.syncMemberCounts(memberships.map(membership => membership.groupId));
+    await this.syncContactCount(accountId);
+
+    logger.info({ accountId, contactId: id }, 'Contact deleted');
+  }
+
+  // Validate a number as typed (`formatted` is E.164), or throw saying why
+  // it is invalid
+  static async validatePhone(accountId: string, phone: string): Promise<SMSValidationResult> {
+    const countryCode = await this.accountCountryCode(accountId);
+    const validation = SMSValidationService.validatePhoneNumber(
+      SMSValidationService.normalizePhoneNumber(phone, countryCode)
+    );
+
+    if (!validation.valid) {
+      throw new Error(`Invalid phone number: ${validation.errors?.join(', ')}`);
+    }
+
+    return validation;
+  }
+
+  static async accountCountryCode(accountId: string): Promise<string> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: { countryCode: true },
+    });
+
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    return account.countryCode;
+  }
+
+  // Contacts the account can still create (`max` null when unlimited)
+  static async remainingContacts(accountId: string): Promise<{ max: number | null; remaining: number }> {
+    const limits = await prisma.accountLimits.findUnique({
+      where: { accountId },
+      select: { maxContacts: true },
+    });
+
+    const max = limits?.maxContacts ?? null;
+
+    if (max === null) {
+      return { max, remaining: Number.POSITIVE_INFINITY };
+    }
+
+    const count = await prisma.contact.count({ where: { accountId } });
+
+    return { max, remaining: Math.max(0, max - count) };
+  }
+
+  // Keep AccountLimits.currentContacts in step with the table
+  static async syncContactCount(accountId: string): Promise<void> {
+    const count = await prisma.contact.count({ where: { accountId } });
+
+    await prisma.accountLimits.updateMany({
+      where: { accountId },
+      data: { currentContacts: count },
+    });
+  }
+
+  static customFieldsOf(contact: Contact): Record<string, any> {
+    const value = contact.customFields;
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? value as Record<string, any>
+      : {};
+  }
+
+  private static async findContact(accountId: string, id: string): Promise<Contact> {
+    const contact = await prisma.contact.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!contact) {
+      throw new Error('Contact not found');
+    }
+
+    return contact;
+  }
+
+  private static formatContact(contact: Contact): ContactSummary {
+    return {
+      id: contact.id,
+      phone: contact.phone,
+      email: contact.email,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      country: contact.country,
+      network: contact.network,
+      city: contact.city,
+      timezone: contact.timezone,
+      language: contact.language,
+      customFields: this.customFieldsOf(contact),
+      tags: contact.tags,
+      isActive: contact.isActive,
+      isSubscribed: contact.isSubscribed,
+      optedOutAt: contact.optedOutAt,
+      source: contact.source,
+      createdAt: contact.createdAt,
+      updatedAt: contact.updatedAt,
+    };
+  }
+}
+
+export default ContactService;
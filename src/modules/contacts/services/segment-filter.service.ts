@@ -0,0 +1,377 @@
+import { prisma } from '@database/prisma.client';
+import { ContactFieldService } from './contact-field.service';
+import { ContactGroupService } from './contact-group.service';
+import { EmailStatus, Prisma, type ContactField } from '../../../../generated/prisma/client';
+import type { SegmentCondition, SegmentNode, SegmentOperator, SegmentValue } from '../types/contact.types';
+
+// Nesting of all/any/not groups
+const MAX_DEPTH = 5;
+
+// Conditions in one filter
+const MAX_CONDITIONS = 50;
+
+// Longest engagement window
+const MAX_WINDOW_DAYS = 730;
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+const TEXT_FIELDS = ['phone', 'email', 'firstName', 'lastName', 'country', 'network', 'city', 'timezone', 'language', 'source'];
+const BOOLEAN_FIELDS = ['isSubscribed', 'isActive'];
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'optedOutAt'];
+const ENGAGEMENT_EVENTS = ['sms.sent', 'sms.delivered', 'sms.failed', 'sms.received', 'email.sent', 'email.opened', 'email.clicked'];
+
+// Message column each SMS event is matched on
+const SMS_EVENT_COLUMNS: Record<string, string> = {
+  'sms.sent': 'sentAt',
+  'sms.delivered': 'deliveredAt',
+  'sms.failed': 'failedAt',
+};
+
+type FieldKind = 'text' | 'boolean' | 'date' | 'tags' | 'group' | 'custom' | 'engagement';
+
+const OPERATORS: Record<FieldKind, SegmentOperator[]> = {
+  text: ['eq', 'neq', 'in', 'notIn', 'contains', 'startsWith', 'isSet', 'notSet'],
+  boolean: ['eq'],
+  date: ['before', 'after', 'withinDays', 'isSet', 'notSet'],
+  tags: ['has', 'hasAny', 'hasAll', 'notHas', 'isSet', 'notSet'],
+  group: ['in', 'notIn'],
+  custom: ['eq', 'neq', 'in', 'notIn', 'contains', 'gt', 'gte', 'lt', 'lte', 'isSet', 'notSet'],
+  engagement: ['ever', 'never', 'withinDays', 'notWithinDays'],
+};
+
+// State while compiling one filter
+interface CompileContext {
+  accountId: string;
+  fields: Map<string, ContactField>;
+  conditions: number;
+}
+
+/**
+ * Segment Filter Service
+ * Compiles a segment filter expression into a Prisma `where` on contacts.
+ * Engagement conditions ("delivered an SMS in the last 30 days", "never
+ * opened an email") are resolved to the matching contacts first, with an
+ * EXISTS subquery on the message logs, so they always reflect the current
+ * logs.
+ *
+ * Errors start with "Invalid segment filter" (or name an unknown custom
+ * field or group) and are meant for the API caller.
+ */
+export class SegmentFilterService {
+  // `where` for the account's contacts matching `filter`
+  static async buildWhere(accountId: string, filter: SegmentNode): Promise<Prisma.ContactWhereInput> {
+    const fields = await ContactFieldService.loadFields(accountId);
+    const context: CompileContext = {
+      accountId,
+      fields: new Map<string, ContactField>(fields.map(field => [field.key, field])),
+      conditions: 0,
+    };
+
+    return {
+      accountId,
+      AND: [await this.compileNode(filter, context, 1)],
+    };
+  }
+
+  private static async compileNode(node: SegmentNode, context: CompileContext, depth: number): Promise<Prisma.ContactWhereInput> {
+    if (depth > MAX_DEPTH) {
+      throw new Error(`Invalid segment filter: groups can be nested at most ${MAX_DEPTH} deep`);
+    }
+
+    if ('field' in node) {
+      return this.compileCondition(node as SegmentCondition, context);
+    }
+
+    if (node.all) {
+      return { AND: await this.compileNodes(node.all, context, depth) };
+    }
+
+    if (node.any) {
+      return { OR: await this.compileNodes(node.any, context, depth) };
+    }
+
+    if (node.not) {
+      return { NOT: await this.compileNode(node.not, context, depth + 1) };
+    }
+
+    throw new Error('Invalid segment filter: a group needs "all", "any" or "not"');
+  }
+
+  // Sequential so engagement lookups run one at a time
+  private static async compileNodes(nodes: SegmentNode[], context: CompileContext, depth: number): Promise<Prisma.ContactWhereInput[]> {
+    const compiled: Prisma.ContactWhereInput[] = [];
+
+    for (const node of nodes) {
+      compiled.push(await this.compileNode(node, context, depth + 1));
+    }
+
+    return compiled;
+  }
+
+  private static async compileCondition(condition: SegmentCondition, context: CompileContext): Promise<Prisma.ContactWhereInput> {
+    context.conditions++;
+
+    if (context.conditions > MAX_CONDITIONS) {
+      throw new Error(`Invalid segment filter: at most ${MAX_CONDITIONS} conditions`);
+    }
+
+    const { field, op } = condition;
+    const kind = this.fieldKind(field);
+
+    if (!kind) {
+      throw new Error(`Invalid segment filter: unknown field "${field}"`);
+    }
+
+    if (!OPERATORS[kind].includes(op)) {
+      throw new Error(`Invalid segment filter: "${op}" cannot be used with "${field}"`);
+    }
+
+    switch (kind) {
+      case 'text':
+        return this.textCondition(field, op, condition.value);
+      case 'boolean':
+        return { [field]: this.booleanValue(condition) };
+      case 'date':
+        return this.dateCondition(field, op, condition.value);
+      case 'tags':
+        return this.tagsCondition(op, condition.value);
+      case 'group':
+        return this.groupCondition(context.accountId, op, condition.value);
+      case 'custom':
+        return this.customCondition(context, field.substring(CUSTOM_FIELD_PREFIX.length), op, condition.value);
+      case 'engagement':
+        return this.engagementCondition(context.accountId, field, op, condition.value);
+    }
+  }
+
+  private static fieldKind(field: string): FieldKind | null {
+    if (TEXT_FIELDS.includes(field)) return 'text';
+    if (BOOLEAN_FIELDS.includes(field)) return 'boolean';
+    if (DATE_FIELDS.includes(field)) return 'date';
+    if (field === 'tags') return 'tags';
+    if (field === 'group') return 'group';
+    if (ENGAGEMENT_EVENTS.includes(field)) return 'engagement';
+    if (field.startsWith(CUSTOM_FIELD_PREFIX) && field.length > CUSTOM_FIELD_PREFIX.length) return 'custom';
+    return null;
+  }
+
+  private static textCondition(field: string, op: SegmentOperator, value: SegmentValue | undefined): Prisma.ContactWhereInput {
+    switch (op) {
+      case 'eq':
+        return { [field]: { equals: this.text(field, value), mode: 'insensitive' } };
+      case 'neq':
+        // Contacts without a value are "not equal" too
+        return { OR: [{ [field]: null }, { NOT: { [field]: { equals: this.text(field, value), mode: 'insensitive' } } }] };
+      case 'in':
+        return { [field]: { in: this.list(field, value) } };
+      case 'notIn':
+        return { OR: [{ [field]: null }, { [field]: { notIn: this.list(field, value) } }] };
+      case 'contains':
+        return { [field]: { contains: this.text(field, value), mode: 'insensitive' } };
+      case 'startsWith':
+        return { [field]: { startsWith: this.text(field, value), mode: 'insensitive' } };
+      case 'isSet':
+        return { NOT: { [field]: null } };
+      default:
+        return { [field]: null };
+    }
+  }
+
+  private static dateCondition(field: string, op: SegmentOperator, value: SegmentValue | undefined): Prisma.ContactWhereInput {
+    switch (op) {
+      case 'before':
+        return { [field]: { lt: this.date(field, value) } };
+      case 'after':
+        return { [field]: { gt: this.date(field, value) } };
+      case 'withinDays':
+        return { [field]: { gte: this.daysAgo(field, value) } };
+      case 'isSet':
+        return { NOT: { [field]: null } };
+      default:
+        return { [field]: null };
+    }
+  }
+
+  private static tagsCondition(op: SegmentOperator, value: SegmentValue | undefined): Prisma.ContactWhereInput {
+    switch (op) {
+      case 'has':
+        return { tags: { has: this.text('tags', value) } };
+      case 'hasAny':
+        return { tags: { hasSome: this.list('tags', value) } };
+      case 'hasAll':
+        return { tags: { hasEvery: this.list('tags', value) } };
+      case 'notHas':
+        return { NOT: { tags: { has: this.text('tags', value) } } };
+      case 'isSet':
+        return { NOT: { tags: { isEmpty: true } } };
+      default:
+        return { tags: { isEmpty: true } };
+    }
+  }
+
+  private static async groupCondition(accountId: string, op: SegmentOperator, value: SegmentValue | undefined): Promise<Prisma.ContactWhereInput> {
+    const groupIds = this.list('group', value);
+
+    await ContactGroupService.assertGroups(accountId, groupIds);
+
+    return op === 'in'
+      ? { groupMemberships: { some: { groupId: { in: groupIds } } } }
+      : { groupMemberships: { none: { groupId: { in: groupIds } } } };
+  }
+
+  private static customCondition(context: CompileContext, key: string, op: SegmentOperator, value: SegmentValue | undefined): Prisma.ContactWhereInput {
+    const definition = context.fields.get(key);
+
+    if (!definition) {
+      throw new Error(`Unknown custom field "${key}"`);
+    }
+
+    const path = [key];
+    const missing = { customFields: { path, equals: Prisma.AnyNull } };
+    const equals = (item: SegmentValue) => ({
+      customFields: { path, equals: ContactFieldService.coerce(definition, item) },
+    });
+
+    switch (op) {
+      case 'eq':
+        return equals(this.scalar(`customFields.${key}`, value));
+      case 'neq':
+        return { OR: [missing, { NOT: equals(this.scalar(`customFields.${key}`, value)) }] };
+      case 'in':
+        return { OR: this.list(`customFields.${key}`, value).map(equals) };
+      case 'notIn':
+        return { OR: [missing, { NOT: { OR: this.list(`customFields.${key}`, value).map(equals) } }] };
+      case 'contains':
+        if (definition.type !== 'TEXT' && definition.type !== 'SELECT') {
+          throw new Error(`Invalid segment filter: "contains" needs a TEXT or SELECT field, "${key}" is ${definition.type}`);
+        }
+        return { customFields: { path, string_contains: this.text(`customFields.${key}`, value) } };
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        if (definition.type !== 'NUMBER' && definition.type !== 'DATE') {
+          throw new Error(`Invalid segment filter: "${op}" needs a NUMBER or DATE field, "${key}" is ${definition.type}`);
+        }
+        const compare: Prisma.JsonNullableFilterBase<'Contact'> = { path };
+        compare[op] = ContactFieldService.coerce(definition, this.scalar(`customFields.${key}`, value));
+        return { customFields: compare };
+      case 'isSet':
+        return { NOT: missing };
+      default:
+        return missing;
+    }
+  }
+
+  // Contacts whose number (or email) does or does not appear in the
+  // message logs. Contacts have no relation to the logs, so Postgres
+  // resolves the EXISTS subquery and the matching contact IDs are returned.
+  private static async engagementCondition(
+    accountId: string,
+    event: string,
+    op: SegmentOperator,
+    value: SegmentValue | undefined
+  ): Promise<Prisma.ContactWhereInput> {
+    const since = op === 'withinDays' || op === 'notWithinDays' ? this.daysAgo(event, value) : undefined;
+    const engaged = op === 'ever' || op === 'withinDays';
+
+    // Contacts without an email have never opened one
+    const contacts = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT c.id FROM contacts c
+      WHERE c."accountId" = ${accountId}
+        AND ${engaged ? Prisma.empty : Prisma.sql`NOT`} EXISTS (${this.engagementQuery(event, since)})
+    `;
+
+    return { id: { in: contacts.map(contact => contact.id) } };
+  }
+
+  // Log rows of `event` for the contact `c`
+  private static engagementQuery(event: string, since?: Date): Prisma.Sql {
+    const window = (column: string) => since
+      ? Prisma.sql`AND ${Prisma.raw(column)} >= ${since}`
+      : Prisma.sql`AND ${Prisma.raw(column)} IS NOT NULL`;
+
+    switch (event) {
+      case 'sms.sent':
+      case 'sms.delivered':
+      case 'sms.failed':
+        return Prisma.sql`
+          SELECT 1 FROM messages m
+          WHERE m."accountId" = c."accountId" AND m.recipient = c.phone
+          ${window(`m."${SMS_EVENT_COLUMNS[event]}"`)}
+        `;
+
+      case 'sms.received':
+        return Prisma.sql`
+          SELECT 1 FROM inbound_messages i
+          WHERE i."accountId" = c."accountId" AND i."from" = c.phone
+          ${since ? Prisma.sql`AND i."createdAt" >= ${since}` : Prisma.empty}
+        `;
+
+      case 'email.sent':
+        return Prisma.sql`
+          SELECT 1 FROM email_messages e
+          WHERE e."accountId" = c."accountId" AND e."to" = c.email
+            AND e.status::text NOT IN (${Prisma.join([EmailStatus.PENDING, EmailStatus.FAILED])})
+          ${since ? Prisma.sql`AND e."createdAt" >= ${since}` : Prisma.empty}
+        `;
+
+      default:
+        return Prisma.sql`
+          SELECT 1 FROM email_messages e
+          WHERE e."accountId" = c."accountId" AND e."to" = c.email
+          ${window(event === 'email.opened' ? 'e."openedAt"' : 'e."clickedAt"')}
+        `;
+    }
+  }
+
+  // ============================================
+  // VALUES
+  // ============================================
+
+  private static scalar(field: string, value: SegmentValue | undefined): string | number | boolean {
+    if (value === undefined || Array.isArray(value)) {
+      throw new Error(`Invalid segment filter: "${field}" needs a single value`);
+    }
+    return value;
+  }
+
+  private static text(field: string, value: SegmentValue | undefined): string {
+    const scalar = this.scalar(field, value);
+    if (typeof scalar !== 'string' || scalar === '') {
+      throw new Error(`Invalid segment filter: "${field}" needs a text value`);
+    }
+    return scalar;
+  }
+
+  private static list(field: string, value: SegmentValue | undefined): string[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new Error(`Invalid segment filter: "${field}" needs a list of values`);
+    }
+    return value;
+  }
+
+  private static booleanValue(condition: SegmentCondition): boolean {
+    if (typeof condition.value !== 'boolean') {
+      throw new Error(`Invalid segment filter: "${condition.field}" needs true or false`);
+    }
+    return condition.value;
+  }
+
+  private static date(field: string, value: SegmentValue | undefined): Date {
+    const date = new Date(this.text(field, value));
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid segment filter: "${field}" needs an ISO date`);
+    }
+    return date;
+  }
+
+  private static daysAgo(field: string, value: SegmentValue | undefined): Date {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_WINDOW_DAYS) {
+      throw new Error(`Invalid segment filter: "${field}" needs a number of days from 1 to ${MAX_WINDOW_DAYS}`);
+    }
+    return new Date(Date.now() - value * 24 * 60 * 60 * 1000);
+  }
+}
+
+export default SegmentFilterService;
@@ -0,0 +1,187 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { SegmentFilterService } from './segment-filter.service';
+import { CampaignStatus, type Prisma, type Segment } from '../../../../generated/prisma/client';
+import type {
+  QuerySegmentsInput,
+  CreateSegmentInput,
+  UpdateSegmentInput,
+} from '../schemas/contact.schema';
+import type { SegmentNode, SegmentPreview, SegmentSummary } from '../types/contact.types';
+
+// Contacts returned with a preview
+const PREVIEW_SAMPLE_SIZE = 10;
+
+// Campaigns that still read their segment
+const ACTIVE_CAMPAIGN_STATUSES = [CampaignStatus.SCHEDULED, CampaignStatus.PROCESSING, CampaignStatus.PAUSED];
+
+/**
+ * Segment Service
+ * Saved contact filters. A segment stores the filter, not the contacts:
+ * it is evaluated each time it is read or used as a campaign audience.
+ * `contactCount` is the count as of `countedAt`, refreshed whenever the
+ * segment is saved or fetched on its own.
+ */
+export class SegmentService {
+  // List segments with their last count
+  static async listSegments(
+    accountId: string,
+    filters: QuerySegmentsInput
+  ): Promise<{ segments: SegmentSummary[]; total: number }> {
+    const where: any = { accountId };
+
+    if (filters.search) {
+      where.name = { contains: filters.search, mode: 'insensitive' };
+    }
+
+    const [segments, total] = await Promise.all([
+      prisma.segment.findMany({
+        where,
+        orderBy: { name: 'asc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.segment.count({ where }),
+    ]);
+
+    return {
+      segments: segments.map(segment => this.formatSegment(segment)),
+      total,
+    };
+  }
+
+  // Get a segment with a fresh count
+  static async getSegment(accountId: string, id: string): Promise<SegmentSummary> {
+    const segment = await this.findSegment(accountId, id);
+    return this.formatSegment(await this.refreshCount(segment));
+  }
+
+  // Save a filter as a segment
+  static async createSegment(accountId: string, input: CreateSegmentInput): Promise<SegmentSummary> {
+    // Compiling checks the fields, operators and values
+    const count = await prisma.contact.count({
+      where: await SegmentFilterService.buildWhere(accountId, input.filter),
+    });
+
+    const segment = await prisma.segment.create({
+      data: {
+        accountId,
+        name: input.name,
+        description: input.description,
+        filter: input.filter as Prisma.InputJsonValue,
+        contactCount: count,
+        countedAt: new Date(),
+      },
+    });
+
+    logger.info({ accountId, segmentId: segment.id, contactCount: count }, 'Segment created');
+
+    return this.formatSegment(segment);
+  }
+
+  // Update a segment
+  static async updateSegment(accountId: string, id: string, input: UpdateSegmentInput): Promise<SegmentSummary> {
+    const current = await this.findSegment(accountId, id);
+    const filter = input.filter || this.filterOf(current);
+
+    const count = await prisma.contact.count({
+      where: await SegmentFilterService.buildWhere(accountId, filter),
+    });
+
+    const segment = await prisma.segment.update({
+      where: { id },
+      data: {
+        ...input,
+        filter: filter as Prisma.InputJsonValue,
+        contactCount: count,
+        countedAt: new Date(),
+      },
+    });
+
+    logger.info({ accountId, segmentId: id, fields: Object.keys(input) }, 'Segment updated');
+
+    return this.formatSegment(segment);
+  }
+
+  // Delete a segment unless a scheduled or running campaign targets it
+  static async deleteSegment(accountId: string, id: string): Promise<void> {
+    await this.findSegment(accountId, id);
+
+    const activeCampaigns = await prisma.campaign.count({
+      where: { segmentId: id, status: { in: ACTIVE_CAMPAIGN_STATUSES } },
+    });
+
+    if (activeCampaigns > 0) {
+      throw new Error('Cannot delete a segment used by a scheduled or running campaign');
+    }
+
+    await prisma.segment.delete({ where: { id } });
+
+    logger.info({ accountId, segmentId: id }, 'Segment deleted');
+  }
+
+  // Count and sample the contacts matching an unsaved filter
+  static async preview(accountId: string, filter: SegmentNode): Promise<SegmentPreview> {
+    const where = await SegmentFilterService.buildWhere(accountId, filter);
+
+    const [count, sample] = await Promise.all([
+      prisma.contact.count({ where }),
+      prisma.contact.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: PREVIEW_SAMPLE_SIZE,
+        select: { id: true, phone: true, firstName: true, lastName: true },
+      }),
+    ]);
+
+    return { count, sample };
+  }
+
+  // `where` for the contacts in a saved segment
+  static async whereForSegment(accountId: string, id: string): Promise<Prisma.ContactWhereInput> {
+    const segment = await this.findSegment(accountId, id);
+    return SegmentFilterService.buildWhere(accountId, this.filterOf(segment));
+  }
+
+  private static async refreshCount(segment: Segment): Promise<Segment> {
+    const count = await prisma.contact.count({
+      where: await SegmentFilterService.buildWhere(segment.accountId, this.filterOf(segment)),
+    });
+
+    return prisma.segment.update({
+      where: { id: segment.id },
+      data: { contactCount: count, countedAt: new Date() },
+    });
+  }
+
+  private static async findSegment(accountId: string, id: string): Promise<Segment> {
+    const segment = await prisma.segment.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!segment) {
+      throw new Error('Segment not found');
+    }
+
+    return segment;
+  }
+
+  private static filterOf(segment: Segment): SegmentNode {
+    return segment.filter as unknown as SegmentNode;
+  }
+
+  private static formatSegment(segment: Segment): SegmentSummary {
+    return {
+      id: segment.id,
+      name: segment.name,
+      description: segment.description,
+      filter: this.filterOf(segment),
+      contactCount: segment.contactCount,
+      countedAt: segment.countedAt,
+      createdAt: segment.createdAt,
+      updatedAt: segment.updatedAt,
+    };
+  }
+}
+
+export default SegmentService;
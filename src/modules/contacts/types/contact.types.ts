@@ -0,0 +1,120 @@
+import type { ContactFieldType } from '../../../../generated/prisma/client';
+
+// Contact as returned by the API
+export interface ContactSummary {
+  id: string;
+  phone: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  country: string | null;
+  network: string | null;
+  city: string | null;
+  timezone: string | null;
+  language: string | null;
+  customFields: Record<string, any>;
+  tags: string[];
+  isActive: boolean;
+  isSubscribed: boolean;
+  optedOutAt: Date | null;
+  source: string;
+  groups?: Array<{ id: string; name: string }>; // Only on single-contact reads
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Contact group as returned by the API
+export interface ContactGroupSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  color: string | null;
+  contactCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Custom field definition as returned by the API
+export interface ContactFieldSummary {
+  id: string;
+  key: string;
+  label: string;
+  type: ContactFieldType;
+  options: string[];
+  required: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Result of a contact import
+export interface ContactImportResult {
+  totalRows: number;
+  created: number;
+  updated: number; // Duplicates merged into an existing contact
+  skipped: number; // Duplicates left alone, or rows over the contact limit
+  invalid: number;
+  errors: Array<{
+    row: number;
+    phone: string;
+    error: string;
+  }>;
+}
+
+// Result of adding contacts to a group
+export interface GroupMembershipResult {
+  added: number;
+  existing: number; // Already in the group
+  notFound: number; // IDs that are not the account's contacts
+}
+
+// ============================================
+// SEGMENTS
+// ============================================
+
+export type SegmentOperator =
+  | 'eq' | 'neq' | 'in' | 'notIn' | 'contains' | 'startsWith'
+  | 'gt' | 'gte' | 'lt' | 'lte' | 'isSet' | 'notSet'
+  | 'has' | 'hasAny' | 'hasAll' | 'notHas'
+  | 'before' | 'after' | 'withinDays'
+  | 'ever' | 'never' | 'notWithinDays';
+
+export type SegmentValue = string | number | boolean | string[];
+
+// One test on a contact, e.g. { field: 'tags', op: 'has', value: 'vip' }
+export interface SegmentCondition {
+  field: string;
+  op: SegmentOperator;
+  value?: SegmentValue;
+}
+
+// Conditions combined with AND (`all`), OR (`any`) or negated (`not`)
+export interface SegmentGroup {
+  all?: SegmentNode[];
+  any?: SegmentNode[];
+  not?: SegmentNode;
+}
+
+export type SegmentNode = SegmentCondition | SegmentGroup;
+
+// Segment as returned by the API
+export interface SegmentSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  filter: SegmentNode;
+  contactCount: number;
+  countedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Matching count and the first few contacts of a filter
+export interface SegmentPreview {
+  count: number;
+  sample: Array<{
+    id: string;
+    phone: string;
+    firstName: string | null;
+    lastName: string | null;
+  }>;
+}
@@ -0,0 +1,144 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { SMSService } from '@modules/sms/services/sms.service';
+import { ConversationService } from '../services/conversation.service';
+import type {
+  QueryConversationsInput,
+  ConversationParamsInput,
+  QueryConversationMessagesInput,
+  ReplyInput,
+  AssignConversationInput,
+} from '../schemas/conversation.schema';
+
+export class ConversationController {
+  // List conversations
+  static async listConversations(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QueryConversationsInput;
+
+      const { conversations, total } = await ConversationService.listConversations(accountId, query);
+
+      return ResponseBuilder.paginated(c, conversations, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List conversations controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get conversation by ID
+  static async getConversation(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as ConversationParamsInput;
+
+      const conversation = await ConversationService.getConversation(accountId, id);
+
+      return ResponseBuilder.success(c, conversation);
+    } catch (error: any) {
+      return ConversationController.handleError(c, error, 'Get conversation controller error');
+    }
+  }
+
+  // List messages in a conversation
+  static async listMessages(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as ConversationParamsInput;
+      const query = c.req.valid('query' as never) as QueryConversationMessagesInput;
+
+      const { messages, total } = await ConversationService.listMessages(accountId, id, query);
+
+      return ResponseBuilder.paginated(c, messages, query.page, query.limit, total);
+    } catch (error: any) {
+      return ConversationController.handleError(c, error, 'List conversation messages controller error');
+    }
+  }
+
+  // Mark a conversation as read
+  static async markRead(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as ConversationParamsInput;
+
+      const conversation = await ConversationService.markRead(accountId, id);
+
+      return ResponseBuilder.success(c, conversation, 'Conversation marked as read');
+    } catch (error: any) {
+      return ConversationController.handleError(c, error, 'Mark conversation read controller error');
+    }
+  }
+
+  // Reply in a conversation; replying also marks it as read
+  static async reply(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as ConversationParamsInput;
+      const body = c.req.valid('json' as never) as ReplyInput;
+
+      const conversation = await ConversationService.getConversation(accountId, id);
+
+      const result = await SMSService.sendSMS(
+        accountId,
+        {
+          to: conversation.phone,
+          message: body.message,
+          senderId: conversation.senderId,
+        },
+        { conversationId: conversation.id, isReply: true }
+      );
+
+      await ConversationService.markRead(accountId, id);
+
+      // Store actual cost in context for billing middleware
+      c.set('actualCost', result.cost);
+      c.set('serviceType', 'sms');
+
+      return ResponseBuilder.created(c, result, 'Reply queued for delivery');
+    } catch (error: any) {
+      if (error.message === 'Conversation not found') {
+        return ResponseBuilder.notFound(c, 'Conversation');
+      }
+
+      if (error.message?.startsWith('Recipient is suppressed')) {
+        return ResponseBuilder.error(c, 'RECIPIENT_SUPPRESSED', error.message, 422);
+      }
+
+      logger.error({ error }, 'Conversation reply controller error');
+      return ResponseBuilder.error(c, 'SMS_SEND_ERROR', error.message, 400);
+    }
+  }
+
+  // Assign a conversation to a team member
+  static async assign(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as ConversationParamsInput;
+      const body = c.req.valid('json' as never) as AssignConversationInput;
+
+      const conversation = await ConversationService.assign(accountId, id, body.teamMemberId);
+
+      return ResponseBuilder.success(
+        c,
+        conversation,
+        body.teamMemberId ? 'Conversation assigned' : 'Conversation unassigned'
+      );
+    } catch (error: any) {
+      return ConversationController.handleError(c, error, 'Assign conversation controller error');
+    }
+  }
+
+  private static handleError(c: Context, error: any, logMessage: string) {
+    if (error.message === 'Conversation not found') {
+      return ResponseBuilder.notFound(c, 'Conversation');
+    }
+
+    if (error.message === 'Team member not found') {
+      return ResponseBuilder.notFound(c, 'Team member');
+    }
+
+    logger.error({ error }, logMessage);
+    return ResponseBuilder.serverError(c);
+  }
+}
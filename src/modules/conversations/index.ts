@@ -0,0 +1,26 @@
+// Export all conversation module components
+
+// Services
+export { ConversationService } from './services/conversation.service';
+
+// Controllers
+export { ConversationController } from './controllers/conversation.controller';
+
+// Routes
+export { default as conversationRouter } from './routes/conversation.routes';
+
+// Types
+export type {
+  ConversationSummary,
+  ConversationMessage,
+  ConversationAssignee,
+} from './types/conversation.types';
+
+// Schemas
+export {
+  queryConversationsSchema,
+  conversationParamsSchema,
+  queryConversationMessagesSchema,
+  replySchema,
+  assignConversationSchema,
+} from './schemas/conversation.schema';
@@ -0,0 +1,94 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { ConversationController } from '../controllers/conversation.controller';
+import { ConversationService } from '../services/conversation.service';
+import {
+  apiKeyAuth,
+  apiKeyRateLimit,
+  smsRateLimit,
+  requirePermissions,
+  validate,
+  checkBalance,
+  checkLimits,
+  deductBalance,
+  auditLogger,
+} from '@app/middleware';
+import {
+  queryConversationsSchema,
+  conversationParamsSchema,
+  queryConversationMessagesSchema,
+  replySchema,
+  assignConversationSchema,
+} from '../schemas/conversation.schema';
+
+const conversationRouter = new Hono();
+
+// Apply authentication to all routes
+conversationRouter.use('*', apiKeyAuth);
+
+// Apply API rate limiting
+conversationRouter.use('*', apiKeyRateLimit);
+
+// ============================================
+// CONVERSATION ROUTES
+// ============================================
+
+// List conversations
+conversationRouter.get(
+  '/',
+  validate('query', queryConversationsSchema),
+  ConversationController.listConversations
+);
+
+// Get conversation by ID
+conversationRouter.get(
+  '/:id',
+  validate('param', conversationParamsSchema),
+  ConversationController.getConversation
+);
+
+// List messages in a conversation
+conversationRouter.get(
+  '/:id/messages',
+  validate('param', conversationParamsSchema),
+  validate('query', queryConversationMessagesSchema),
+  ConversationController.listMessages
+);
+
+// Mark conversation as read
+conversationRouter.post(
+  '/:id/read',
+  requirePermissions('conversations:manage'),
+  validate('param', conversationParamsSchema),
+  ConversationController.markRead
+);
+
+// Reply in conversation
+conversationRouter.post(
+  '/:id/reply',
+  requirePermissions('sms:send'),
+  smsRateLimit,
+  validate('param', conversationParamsSchema),
+  validate('json', replySchema),
+  checkLimits('sms'),
+  checkBalance(async (c: Context) => {
+    const body = await c.req.json();
+
+    return ConversationService.estimateReply(c.get('accountId'), c.req.param('id'), body.message);
+  }),
+  deductBalance,
+  auditLogger('reply', 'conversation'),
+  ConversationController.reply
+);
+
+// Assign conversation to a team member
+conversationRouter.patch(
+  '/:id/assign',
+  requirePermissions('conversations:manage'),
+  validate('param', conversationParamsSchema),
+  validate('json', assignConversationSchema),
+  auditLogger('assign', 'conversation'),
+  ConversationController.assign
+);
+
+export default conversationRouter;
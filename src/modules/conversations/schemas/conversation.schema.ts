@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { messageSchema } from '@modules/sms/schemas/send-sms.schema';
+
+// Query conversations schema
+export const queryConversationsSchema = z.object({
+  unread: z.enum(['true', 'false']).optional().transform(v => v === undefined ? undefined : v === 'true'),
+  assignedTo: z.string().optional(), // Team member ID, or "none"
+  phone: z.string().optional(),
+  senderId: z.string().optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
+});
+
+export type QueryConversationsInput = z.infer<typeof queryConversationsSchema>;
+
+// Conversation by ID schema
+export const conversationParamsSchema = z.object({
+  id: z.string().min(1, 'Conversation ID is required'),
+});
+
+export type ConversationParamsInput = z.infer<typeof conversationParamsSchema>;
+
+// Thread messages schema
+export const queryConversationMessagesSchema = z.object({
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? Math.min(parseInt(v), 100) : 50),
+});
+
+export type QueryConversationMessagesInput = z.infer<typeof queryConversationMessagesSchema>;
+
+// Reply schema
+export const replySchema = z.object({
+  message: messageSchema,
+});
+
+export type ReplyInput = z.infer<typeof replySchema>;
+
+// Assign schema (null unassigns)
+export const assignConversationSchema = z.object({
+  teamMemberId: z.string().min(1).nullable(),
+});
+
+export type AssignConversationInput = z.infer<typeof assignConversationSchema>;
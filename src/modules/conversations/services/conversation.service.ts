@@ -0,0 +1,309 @@
+import { prisma } from '@database/prisma.client';
+import { SMSValidationService } from '@modules/sms/services/sms-validation.service';
+import { SMSRouterService } from '@modules/sms/services/sms-router.service';
+import type {
+  ConversationSummary,
+  ConversationMessage,
+} from '../types/conversation.types';
+import type {
+  QueryConversationsInput,
+  QueryConversationMessagesInput,
+} from '../schemas/conversation.schema';
+import {
+  MessageDirection,
+  MessageType,
+  type Conversation,
+  type InboundMessage,
+  type Message,
+  type TeamMember,
+} from '../../../../generated/prisma/client';
+
+// Characters of the last message kept on the thread
+const PREVIEW_LENGTH = 160;
+
+type ConversationWithAssignee = Conversation & {
+  assignedTo: Pick<TeamMember, 'id' | 'name' | 'email'> | null;
+};
+
+const ASSIGNEE_SELECT = { select: { id: true, name: true, email: true } };
+
+/**
+ * Conversation Service
+ * Groups an account's SMS into threads per (counterpart phone, sender ID).
+ * Inbound messages open a thread or add to it and count as unread; single
+ * sends to a phone with a thread on the same sender ID join that thread.
+ * Bulk and campaign messages never start or join threads.
+ */
+export class ConversationService {
+  // List threads, most recent activity first
+  static async listConversations(
+    accountId: string,
+    filters: QueryConversationsInput
+  ): Promise<{ conversations: ConversationSummary[]; total: number }> {
+    const where: any = { accountId };
+
+    if (filters.unread !== undefined) {
+      where.unreadCount = filters.unread ? { gt: 0 } : 0;
+    }
+
+    if (filters.assignedTo) {
+      where.assignedToId = filters.assignedTo === 'none' ? null : filters.assignedTo;
+    }
+
+    if (filters.phone) {
+      where.phone = filters.phone;
+    }
+
+    if (filters.senderId) {
+      where.senderId = filters.senderId;
+    }
+
+    const [conversations, total] = await Promise.all([
+      prisma.conversation.findMany({
+        where,
+        include: { assignedTo: ASSIGNEE_SELECT },
+        orderBy: [{ lastMessageAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.conversation.count({ where }),
+    ]);
+
+    return {
+      conversations: conversations.map(conversation => this.formatConversation(conversation)),
+      total,
+    };
+  }
+
+  // Get a single thread
+  static async getConversation(accountId: string, id: string): Promise<ConversationSummary> {
+    return this.formatConversation(await this.findConversation(accountId, id));
+  }
+
+  // Messages in a thread, newest first, inbound and outbound together
+  static async listMessages(
+    accountId: string,
+    id: string,
+    filters: QueryConversationMessagesInput
+  ): Promise<{ messages: ConversationMessage[]; total: number }> {
+    await this.findConversation(accountId, id);
+
+    // Enough of each side to fill the requested page once merged
+    const take = filters.page * filters.limit;
+    const where = { conversationId: id };
+
+    const [outbound, inbound, outboundTotal, inboundTotal] = await Promise.all([
+      prisma.message.findMany({ where, orderBy: { createdAt: 'desc' }, take }),
+      prisma.inboundMessage.findMany({ where, orderBy: { createdAt: 'desc' }, take }),
+      prisma.message.count({ where }),
+      prisma.inboundMessage.count({ where }),
+    ]);
+
+    const messages = [
+      ...outbound.map(message => this.formatOutbound(message)),
+      ...inbound.map(message => this.formatInbound(message)),
+    ]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice((filters.page - 1) * filters.limit, take);
+
+    return { messages, total: outboundTotal + inboundTotal };
+  }
+
+  // Clear the unread count
+  static async markRead(accountId: string, id: string): Promise<ConversationSummary> {
+    await this.findConversation(accountId, id);
+
+    const conversation = await prisma.conversation.update({
+      where: { id },
+      data: { unreadCount: 0, lastReadAt: new Date() },
+      include: { assignedTo: ASSIGNEE_SELECT },
+    });
+
+    return this.formatConversation(conversation);
+  }
+
+  // Assign a thread to a team member of the account, or unassign (null)
+  static async assign(
+    accountId: string,
+    id: string,
+    teamMemberId: string | null
+  ): Promise<ConversationSummary> {
+    await this.findConversation(accountId, id);
+
+    if (teamMemberId) {
+      const member = await prisma.teamMember.findFirst({
+        where: {
+          id: teamMemberId,
+          accountId,
+          isActive: true,
+          isSuspended: false,
+        },
+        select: { id: true },
+      });
+
+      if (!member) {
+        throw new Error('Team member not found');
+      }
+    }
+
+    const conversation = await prisma.conversation.update({
+      where: { id },
+      data: {
+        assignedToId: teamMemberId,
+        assignedAt: teamMemberId ? new Date() : null,
+      },
+      include: { assignedTo: ASSIGNEE_SELECT },
+    });
+
+    return this.formatConversation(conversation);
+  }
+
+  // Price of a reply, for the balance check. Zero for an unknown thread;
+  // the reply itself then fails with 404.
+  static async estimateReply(
+    accountId: string,
+    id: string,
+    message: string
+  ): Promise<{ estimatedCost: number; currency: string; units: number }> {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id, accountId },
+      select: { phone: true },
+    });
+
+    const units = SMSValidationService.calculateMessageUnits(message || '').units;
+
+    if (!conversation) {
+      return { estimatedCost: 0, currency: 'GHS', units };
+    }
+
+    const pricing = await SMSRouterService.getPricing(
+      SMSRouterService.getCountryFromPhone(conversation.phone),
+      undefined,
+      MessageType.SMS,
+      units
+    );
+
+    return { estimatedCost: pricing.totalCost, currency: pricing.currency, units };
+  }
+
+  // Thread for a single send, if the phone already has one on this sender ID
+  static async findThreadId(accountId: string, phone: string, senderId: string): Promise<string | null> {
+    const conversation = await prisma.conversation.findUnique({
+      where: {
+        accountId_phone_senderId: { accountId, phone, senderId },
+      },
+      select: { id: true },
+    });
+
+    return conversation?.id || null;
+  }
+
+  // Add a routed inbound message to its thread (created on first message)
+  static async recordInbound(message: InboundMessage): Promise<string | null> {
+    if (!message.accountId) return null;
+
+    const at = message.receivedAt || message.createdAt;
+    const last = {
+      lastMessageAt: at,
+      lastMessagePreview: this.preview(message.content),
+      lastDirection: MessageDirection.INBOUND,
+    };
+
+    const conversation = await prisma.conversation.upsert({
+      where: {
+        accountId_phone_senderId: {
+          accountId: message.accountId,
+          phone: message.from,
+          senderId: message.to,
+        },
+      },
+      update: { ...last, unreadCount: { increment: 1 } },
+      create: {
+        accountId: message.accountId,
+        phone: message.from,
+        senderId: message.to,
+        unreadCount: 1,
+        ...last,
+      },
+      select: { id: true },
+    });
+
+    await prisma.inboundMessage.update({
+      where: { id: message.id },
+      data: { conversationId: conversation.id },
+    });
+
+    return conversation.id;
+  }
+
+  // Note an outbound message (already linked by conversationId) on its thread
+  static async recordOutbound(conversationId: string, message: Message): Promise<void> {
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        lastMessageAt: message.createdAt,
+        lastMessagePreview: this.preview(message.content),
+        lastDirection: MessageDirection.OUTBOUND,
+      },
+    });
+  }
+
+  private static async findConversation(accountId: string, id: string): Promise<ConversationWithAssignee> {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id, accountId },
+      include: { assignedTo: ASSIGNEE_SELECT },
+    });
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  private static preview(content: string): string {
+    return content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH - 1)}…` : content;
+  }
+
+  private static formatConversation(conversation: ConversationWithAssignee): ConversationSummary {
+    return {
+      id: conversation.id,
+      phone: conversation.phone,
+      senderId: conversation.senderId,
+      unreadCount: conversation.unreadCount,
+      lastMessageAt: conversation.lastMessageAt,
+      lastMessagePreview: conversation.lastMessagePreview,
+      lastDirection: conversation.lastDirection,
+      lastReadAt: conversation.lastReadAt,
+      assignedTo: conversation.assignedTo,
+      assignedAt: conversation.assignedAt,
+      createdAt: conversation.createdAt,
+    };
+  }
+
+  private static formatOutbound(message: Message): ConversationMessage {
+    return {
+      id: message.id,
+      direction: 'OUTBOUND',
+      from: message.senderName,
+      to: message.recipient,
+      content: message.content,
+      status: message.status,
+      createdAt: message.createdAt,
+    };
+  }
+
+  private static formatInbound(message: InboundMessage): ConversationMessage {
+    return {
+      id: message.id,
+      direction: 'INBOUND',
+      from: message.from,
+      to: message.to,
+      content: message.content,
+      status: 'RECEIVED',
+      createdAt: message.createdAt,
+    };
+  }
+}
+
+export default ConversationService;
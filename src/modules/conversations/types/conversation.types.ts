@@ -0,0 +1,32 @@
+// Team member a thread is assigned to
+export interface ConversationAssignee {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+// Conversation thread
+export interface ConversationSummary {
+  id: string;
+  phone: string;
+  senderId: string;
+  unreadCount: number;
+  lastMessageAt: Date | null;
+  lastMessagePreview: string | null;
+  lastDirection: 'INBOUND' | 'OUTBOUND' | null;
+  lastReadAt: Date | null;
+  assignedTo: ConversationAssignee | null;
+  assignedAt: Date | null;
+  createdAt: Date;
+}
+
+// Inbound or outbound message in a thread
+export interface ConversationMessage {
+  id: string;
+  direction: 'INBOUND' | 'OUTBOUND';
+  from: string;
+  to: string;
+  content: string;
+  status: string; // Message status, or RECEIVED for inbound
+  createdAt: Date;
+}
@@ -5,6 +5,7 @@ import { emailService } from '../services/email.service';
 import { emailValidationService } from '../services/email-validation.service';
 import { reactEmailService } from '../services/react-email.service';
 import { prisma } from '@core/database/prisma.client';
+import { MessageScheduleService } from '@modules/sms/services/message-schedule.service';
 import { ResponseBuilder } from '@utils/api-response';
 import { logger } from '@utils/logger';
 import type {
@@ -15,6 +16,7 @@ import type {
 //   AddDomainInput,
   RenderReactEmailInput,
 } from '../schemas/email.schema';
+import type { SendEmailRequest } from '../types/email.types';
 //import { smtpService } from '@core/services/smtp/smtp.service';
 
 export class EmailController {
@@ -27,6 +29,24 @@ export class EmailController {
       const accountId = c.get('accountId');
       const body = await c.req.json<SendEmailInput>();
 
+      // Recurring or timezone-aware sends run from a schedule, which
+      // charges each occurrence when it is sent
+      if (body.recurrence || body.timezone) {
+        const schedule = await MessageScheduleService.createSchedule(accountId, 'EMAIL', body as SendEmailRequest);
+
+        c.set('deferredCharge', true);
+        c.set('serviceType', 'email');
+
+        logger.info('Email scheduled', { accountId, scheduleId: schedule.id });
+
+        return ResponseBuilder.success(
+          c,
+          schedule,
+          'Email schedule created',
+          201
+        );
+      }
+
       const result = await emailService.sendEmail(accountId, body);
 
       logger.info('Email sent', { accountId, emailId: result.id });
@@ -38,6 +58,10 @@ export class EmailController {
         201
       );
     } catch (error) {
+      if (error instanceof Error && MessageScheduleService.isScheduleError(error)) {
+        return ResponseBuilder.error(c, 'INVALID_SCHEDULE', error.message, 400);
+      }
+
       logger.error('Failed to send email:', error);
       return ResponseBuilder.error(
         c,
@@ -1,6 +1,12 @@
 // src/modules/email/schemas/email.schema.ts
 
 import { z } from 'zod';
+import {
+  scheduledForSchema,
+  scheduleTimezoneSchema,
+  recurrenceSchema,
+  refineSchedule,
+} from '@utils/validation';
 
 // Email address schema
 const emailAddressSchema = z.union([
@@ -39,14 +45,16 @@ export const sendEmailSchema = z.object({
   headers: headersSchema.optional(),
   tags: z.array(z.string()).max(10, 'Maximum 10 tags allowed').optional(),
   metadata: z.record(z.any()).optional(),
-  scheduledFor: z.union([z.string().datetime(), z.date()]).optional(),
+  scheduledFor: z.union([scheduledForSchema, z.date()]).optional(),
+  timezone: scheduleTimezoneSchema.optional(),
+  recurrence: recurrenceSchema.optional(),
   priority: z.enum(['high', 'normal', 'low']).optional(),
 }).refine(
   (data) => data.html || data.text || data.templateId,
   {
     message: 'Either html, text, or templateId must be provided',
   }
-);
+).superRefine(refineSchedule);
 
 // Bulk email schema
 export const bulkEmailSchema = z.object({
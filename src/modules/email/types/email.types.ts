@@ -1,5 +1,7 @@
 // src/modules/email/types/email.types.ts
 
+import type { RecurrenceRule } from '@utils/recurrence';
+
 export interface EmailAddress {
   email: string;
   name?: string;
@@ -33,6 +35,8 @@ export interface SendEmailRequest {
   tags?: string[];
   metadata?: Record<string, any>;
   scheduledFor?: Date | string;
+  timezone?: string; // IANA timezone or 'recipient'
+  recurrence?: RecurrenceRule;
   priority?: 'high' | 'normal' | 'low';
 }
 
@@ -0,0 +1,52 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { LookupService } from '../services/lookup.service';
+import type { LookupInput, BulkLookupInput } from '../schemas/lookup.schema';
+
+export class LookupController {
+  // Look up one number
+  static async lookupNumber(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as LookupInput;
+
+      const { results, totalCost } = await LookupService.lookupNumbers(
+        accountId,
+        [body.phone],
+        { refresh: body.refresh }
+      );
+
+      // Store actual cost in context for billing middleware
+      c.set('actualCost', totalCost);
+      c.set('serviceType', 'lookup');
+
+      return ResponseBuilder.success(c, results[0]);
+    } catch (error: any) {
+      logger.error({ error }, 'Lookup controller error');
+      return ResponseBuilder.serverError(c, 'Failed to look up number');
+    }
+  }
+
+  // Look up up to 1,000 numbers
+  static async bulkLookup(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as BulkLookupInput;
+
+      const result = await LookupService.lookupNumbers(
+        accountId,
+        body.phones,
+        { refresh: body.refresh }
+      );
+
+      c.set('actualCost', result.totalCost);
+      c.set('serviceType', 'lookup');
+
+      return ResponseBuilder.success(c, result);
+    } catch (error: any) {
+      logger.error({ error }, 'Bulk lookup controller error');
+      return ResponseBuilder.serverError(c, 'Failed to look up numbers');
+    }
+  }
+}
@@ -0,0 +1,26 @@
+// Export all Lookup module components
+
+// Services
+export { LookupService } from './services/lookup.service';
+
+// Controllers
+export { LookupController } from './controllers/lookup.controller';
+
+// Routes
+export { default as lookupRouter } from './routes/lookup.routes';
+
+// Types
+export type {
+  LookupRequest,
+  BulkLookupRequest,
+  LookupSource,
+  PhoneLookupResult,
+  BulkLookupResponse,
+} from './types/lookup.types';
+
+// Schemas
+export {
+  lookupSchema,
+  bulkLookupSchema,
+  MAX_BULK_LOOKUP,
+} from './schemas/lookup.schema';
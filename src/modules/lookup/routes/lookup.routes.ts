@@ -0,0 +1,57 @@
+import { Hono } from 'hono';
+import { LookupController } from '../controllers/lookup.controller';
+import {
+  apiKeyAuth,
+  lookupRateLimit,
+  requirePermissions,
+  validate,
+  checkBalance,
+  deductBalance,
+  auditLogger,
+} from '@app/middleware';
+import { lookupSchema, bulkLookupSchema } from '../schemas/lookup.schema';
+import type { LookupInput, BulkLookupInput } from '../schemas/lookup.schema';
+import { LookupService } from '../services/lookup.service';
+import type { Context } from 'hono';
+
+const lookupRouter = new Hono();
+
+// Apply authentication to all routes
+lookupRouter.use('*', apiKeyAuth);
+
+// Apply lookup rate limiting
+lookupRouter.use('*', lookupRateLimit);
+
+// ============================================
+// LOOKUP ROUTES
+// ============================================
+
+// Look up a number
+lookupRouter.post(
+  '/',
+  requirePermissions('lookup:read'),
+  validate('json', lookupSchema),
+  checkBalance((c: Context) => {
+    const body = c.req.valid('json' as never) as LookupInput;
+    return LookupService.estimateCost([body.phone]);
+  }),
+  deductBalance,
+  auditLogger('lookup', 'phone'),
+  LookupController.lookupNumber
+);
+
+// Look up numbers in bulk
+lookupRouter.post(
+  '/bulk',
+  requirePermissions('lookup:read'),
+  validate('json', bulkLookupSchema),
+  checkBalance((c: Context) => {
+    const body = c.req.valid('json' as never) as BulkLookupInput;
+    return LookupService.estimateCost(body.phones);
+  }),
+  deductBalance,
+  auditLogger('lookup_bulk', 'phone'),
+  LookupController.bulkLookup
+);
+
+export default lookupRouter;
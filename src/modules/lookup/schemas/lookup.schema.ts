@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+// Numbers per bulk lookup request
+export const MAX_BULK_LOOKUP = 1000;
+
+// Any number is accepted; invalid ones come back with `valid: false` and
+// are not billed
+const phoneSchema = z.string()
+  .trim()
+  .min(1, 'Phone number is required')
+  .max(20, 'Phone number must not exceed 20 characters');
+
+// Single lookup schema
+export const lookupSchema = z.object({
+  phone: phoneSchema,
+  refresh: z.boolean().optional().default(false),
+});
+
+// Bulk lookup schema
+export const bulkLookupSchema = z.object({
+  phones: z
+    .array(phoneSchema)
+    .min(1, 'At least one phone number is required')
+    .max(MAX_BULK_LOOKUP, `Maximum ${MAX_BULK_LOOKUP} numbers per request`),
+  refresh: z.boolean().optional().default(false),
+});
+
+export type LookupInput = z.infer<typeof lookupSchema>;
+export type BulkLookupInput = z.infer<typeof bulkLookupSchema>;
@@ -0,0 +1,197 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+import { MNPLookupService, MNPProviderFactory } from '@core/providers/mnp';
+import type { NumberLookupResult } from '@core/providers/mnp';
+import { SMSValidationService } from '@modules/sms/services/sms-validation.service';
+import { SMSRouterService } from '@modules/sms/services/sms-router.service';
+import type { SMSValidationResult } from '@modules/sms/types/sms.types';
+import type { BulkLookupResponse, PhoneLookupResult } from '../types/lookup.types';
+
+// Lookups are billed at the flat LOOKUP_RATE
+const LOOKUP_CURRENCY = 'GHS';
+
+/**
+ * Phone Lookup
+ * Validates and formats numbers and reports their country, original and
+ * current network (MNP when configured, number prefix otherwise), line type
+ * and reachability. Only valid numbers are billed.
+ */
+export class LookupService {
+  // Cost of looking up these numbers (invalid numbers are free)
+  static estimateCost(phones: string[]): { estimatedCost: number; currency: string } {
+    const billable = phones.filter(phone => SMSValidationService.validatePhoneNumber(phone).valid).length;
+
+    return {
+      estimatedCost: this.round(billable * env.LOOKUP_RATE),
+      currency: LOOKUP_CURRENCY,
+    };
+  }
+
+  // Look up numbers; results are in input order
+  static async lookupNumbers(
+    accountId: string,
+    phones: string[],
+    options: { refresh?: boolean } = {}
+  ): Promise<BulkLookupResponse> {
+    const validations = phones.map(phone => SMSValidationService.validatePhoneNumber(phone));
+    const mnp = await this.lookupMNP(
+      validations.filter(validation => validation.valid).map(validation => validation.formatted),
+      options.refresh
+    );
+
+    const lookedUpAt = new Date();
+    const results = validations.map((validation, index) => validation.valid
+      ? this.buildResult(phones[index], validation, mnp.get(validation.formatted), lookedUpAt)
+      : this.invalidResult(phones[index], validation, lookedUpAt)
+    );
+
+    const valid = results.filter(result => result.valid).length;
+    const totalCost = this.round(valid * env.LOOKUP_RATE);
+
+    this.recordUsage(accountId, valid, totalCost).catch(err => {
+      logger.error({ error: err, accountId }, 'Failed to update lookup stats');
+    });
+
+    logger.info({
+      accountId,
+      total: results.length,
+      valid,
+      viaMNP: mnp.size,
+      totalCost,
+    }, 'Phone lookup completed');
+
+    return {
+      results,
+      summary: {
+        total: results.length,
+        valid,
+        invalid: results.length - valid,
+        ported: results.filter(result => result.network?.ported).length,
+      },
+      totalCost,
+      currency: LOOKUP_CURRENCY,
+    };
+  }
+
+  // MNP results for numbers the provider found, keyed by E.164 number
+  private static async lookupMNP(
+    phones: string[],
+    refresh?: boolean
+  ): Promise<Map<string, NumberLookupResult>> {
+    const found = new Map<string, NumberLookupResult>();
+
+    if (phones.length === 0 || !MNPProviderFactory.getProvider()) {
+      return found;
+    }
+
+    try {
+      const results = await MNPLookupService.lookupMany(phones, { refresh });
+
+      for (const result of results) {
+        if (result.found && !result.error) {
+          found.set(result.phone, result);
+        }
+      }
+    } catch (error) {
+      logger.error({ error, count: phones.length }, 'MNP lookup failed, using prefix detection');
+    }
+
+    return found;
+  }
+
+  private static buildResult(
+    phone: string,
+    validation: SMSValidationResult,
+    mnp: NumberLookupResult | undefined,
+    lookedUpAt: Date
+  ): PhoneLookupResult {
+    const dial = SMSRouterService.getDialCode(validation.formatted);
+    const prefixNetwork = validation.network || null;
+
+    return {
+      phone,
+      valid: true,
+      format: {
+        e164: validation.formatted,
+        national: dial ? `0${validation.formatted.slice(dial.dialCode.length + 1)}` : null,
+        dialCode: dial ? `+${dial.dialCode}` : null,
+      },
+      country: mnp?.country || dial?.country || validation.country || null,
+      network: mnp
+        ? {
+          current: mnp.network,
+          original: mnp.originalNetwork || prefixNetwork,
+          operator: mnp.operator,
+          ported: mnp.ported,
+          mcc: mnp.mcc,
+          mnc: mnp.mnc,
+        }
+        : {
+          current: prefixNetwork,
+          original: prefixNetwork,
+          operator: validation.operator || null,
+          ported: null,
+          mcc: null,
+          mnc: null,
+        },
+      lineType: mnp?.lineType || (prefixNetwork ? 'mobile' : 'unknown'),
+      reachable: mnp?.reachable ?? null,
+      source: mnp ? 'mnp' : 'prefix',
+      cost: env.LOOKUP_RATE,
+      lookedUpAt: mnp?.lookedUpAt || lookedUpAt,
+    };
+  }
+
+  private static invalidResult(
+    phone: string,
+    validation: SMSValidationResult,
+    lookedUpAt: Date
+  ): PhoneLookupResult {
+    return {
+      phone,
+      valid: false,
+      errors: validation.errors,
+      country: null,
+      network: null,
+      lineType: 'unknown',
+      reachable: null,
+      source: null,
+      cost: 0,
+      lookedUpAt,
+    };
+  }
+
+  // Count lookups in the account's daily stats
+  private static async recordUsage(accountId: string, lookups: number, cost: number): Promise<void> {
+    if (lookups === 0) return;
+
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+
+    await prisma.dailyStats.upsert({
+      where: {
+        accountId_date: {
+          accountId,
+          date,
+        },
+      },
+      update: {
+        lookups: { increment: lookups },
+        lookupCost: { increment: cost },
+      },
+      create: {
+        accountId,
+        date,
+        lookups,
+        lookupCost: cost,
+      },
+    });
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
+
+export default LookupService;
@@ -0,0 +1,55 @@
+import type { MNPLineType } from '@core/providers/mnp';
+
+// Lookup request
+export interface LookupRequest {
+  phone: string;
+  refresh?: boolean;
+}
+
+// Bulk lookup request
+export interface BulkLookupRequest {
+  phones: string[];
+  refresh?: boolean;
+}
+
+// Where the network information came from
+export type LookupSource = 'mnp' | 'prefix';
+
+// Result for one number
+export interface PhoneLookupResult {
+  phone: string; // As submitted
+  valid: boolean;
+  errors?: string[];
+  format?: {
+    e164: string;
+    national: string | null; // Null outside supported countries
+    dialCode: string | null;
+  };
+  country: string | null;
+  network: {
+    current: string | null;
+    original: string | null;
+    operator: string | null;
+    ported: boolean | null; // Null when no MNP lookup was possible
+    mcc: string | null;
+    mnc: string | null;
+  } | null;
+  lineType: MNPLineType;
+  reachable: boolean | null; // Null when the provider doesn't check
+  source: LookupSource | null;
+  cost: number;
+  lookedUpAt: Date;
+}
+
+// Response for a bulk lookup
+export interface BulkLookupResponse {
+  results: PhoneLookupResult[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    ported: number;
+  };
+  totalCost: number;
+  currency: string;
+}
@@ -0,0 +1,101 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { SendWindowService } from '../services/send-window.service';
+import type {
+  QuerySendWindowsInput,
+  CreateSendWindowInput,
+  UpdateSendWindowInput,
+  SendWindowParamsInput,
+} from '../schemas/send-window.schema';
+
+export class SendWindowController {
+  // List the account's send windows
+  static async listWindows(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QuerySendWindowsInput;
+
+      const { windows, total } = await SendWindowService.list(accountId, query);
+
+      return ResponseBuilder.paginated(c, windows, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List send windows controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Add a send window for a country or for all countries
+  static async createWindow(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as CreateSendWindowInput;
+
+      const window = await SendWindowService.create(accountId, body);
+
+      return ResponseBuilder.created(c, window, 'Send window created');
+    } catch (error: any) {
+      return SendWindowController.handleError(c, error, 'Create send window controller error');
+    }
+  }
+
+  // Update a send window
+  static async updateWindow(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as SendWindowParamsInput;
+      const body = c.req.valid('json' as never) as UpdateSendWindowInput;
+
+      const window = await SendWindowService.update(accountId, id, body);
+
+      return ResponseBuilder.success(c, window, 'Send window updated');
+    } catch (error: any) {
+      return SendWindowController.handleError(c, error, 'Update send window controller error');
+    }
+  }
+
+  // Remove a send window
+  static async deleteWindow(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as SendWindowParamsInput;
+
+      await SendWindowService.remove(accountId, id);
+
+      return ResponseBuilder.success(c, null, 'Send window deleted');
+    } catch (error: any) {
+      return SendWindowController.handleError(c, error, 'Delete send window controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Send window not found') {
+      return ResponseBuilder.notFound(c, 'Send window');
+    }
+
+    if (error.message?.startsWith('Unknown country ')) {
+      return ResponseBuilder.error(c, 'UNKNOWN_COUNTRY', error.message, 400);
+    }
+
+    if (error.message === 'Start and end time must differ') {
+      return ResponseBuilder.error(c, 'INVALID_SEND_WINDOW', error.message, 400);
+    }
+
+    if (error.message?.startsWith('A send window for ')) {
+      return ResponseBuilder.error(c, 'DUPLICATE_SEND_WINDOW', error.message, 409);
+    }
+
+    if (error.code === 'P2002') {
+      return ResponseBuilder.error(
+        c,
+        'DUPLICATE_SEND_WINDOW',
+        'A send window for this country already exists',
+        409
+      );
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
@@ -0,0 +1,24 @@
+// Export all send window module components
+
+// Services
+export { SendWindowService } from './services/send-window.service';
+
+// Controllers
+export { SendWindowController } from './controllers/send-window.controller';
+
+// Routes
+export { default as sendWindowRouter } from './routes/send-window.routes';
+
+// Types
+export type {
+  SendWindowEntry,
+  SendWindowRecipient,
+} from './types/send-window.types';
+
+// Schemas
+export {
+  querySendWindowsSchema,
+  createSendWindowSchema,
+  updateSendWindowSchema,
+  sendWindowParamsSchema,
+} from './schemas/send-window.schema';
@@ -0,0 +1,64 @@
+import { Hono } from 'hono';
+import { SendWindowController } from '../controllers/send-window.controller';
+import {
+  apiKeyAuth,
+  apiKeyRateLimit,
+  requirePermissions,
+  validate,
+  auditLogger,
+} from '@app/middleware';
+import {
+  querySendWindowsSchema,
+  createSendWindowSchema,
+  updateSendWindowSchema,
+  sendWindowParamsSchema,
+} from '../schemas/send-window.schema';
+
+const sendWindowRouter = new Hono();
+
+// Apply authentication to all routes
+sendWindowRouter.use('*', apiKeyAuth);
+
+// Apply API rate limiting
+sendWindowRouter.use('*', apiKeyRateLimit);
+
+// ============================================
+// SEND WINDOW ROUTES
+// ============================================
+
+// List send windows
+sendWindowRouter.get(
+  '/',
+  validate('query', querySendWindowsSchema),
+  SendWindowController.listWindows
+);
+
+// Add a send window
+sendWindowRouter.post(
+  '/',
+  requirePermissions('send-windows:manage'),
+  validate('json', createSendWindowSchema),
+  auditLogger('create', 'send_window'),
+  SendWindowController.createWindow
+);
+
+// Update a send window
+sendWindowRouter.patch(
+  '/:id',
+  requirePermissions('send-windows:manage'),
+  validate('param', sendWindowParamsSchema),
+  validate('json', updateSendWindowSchema),
+  auditLogger('update', 'send_window'),
+  SendWindowController.updateWindow
+);
+
+// Remove a send window
+sendWindowRouter.delete(
+  '/:id',
+  requirePermissions('send-windows:manage'),
+  validate('param', sendWindowParamsSchema),
+  auditLogger('delete', 'send_window'),
+  SendWindowController.deleteWindow
+);
+
+export default sendWindowRouter;
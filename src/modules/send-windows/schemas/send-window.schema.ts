@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { isValidClockTime } from '@utils/send-window';
+
+const clockTimeSchema = z.string().refine(isValidClockTime, 'Time must be HH:mm (24-hour)');
+
+// ISO country code, stored upper-case
+const countrySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{2}$/, 'Country must be a 2-letter ISO code')
+  .transform(v => v.toUpperCase());
+
+const sendWindowFields = {
+  startTime: clockTimeSchema,
+  endTime: clockTimeSchema,
+  note: z.string().max(500).nullable(),
+  isActive: z.boolean(),
+};
+
+// Query send windows schema
+export const querySendWindowsSchema = z.object({
+  country: z.string().optional().transform(v => v?.toUpperCase()),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 50),
+});
+
+// Create send window schema; without a country it covers every country
+export const createSendWindowSchema = z.object({
+  country: countrySchema.nullable().optional().default(null),
+  startTime: sendWindowFields.startTime,
+  endTime: sendWindowFields.endTime,
+  note: sendWindowFields.note.optional(),
+  isActive: sendWindowFields.isActive.default(true),
+})
+  .refine(data => data.startTime !== data.endTime, {
+    message: 'Start and end time must differ',
+    path: ['endTime'],
+  });
+
+// Update send window schema (the country is fixed)
+export const updateSendWindowSchema = z.object(sendWindowFields)
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+  .refine(data => !data.startTime || !data.endTime || data.startTime !== data.endTime, {
+    message: 'Start and end time must differ',
+    path: ['endTime'],
+  });
+
+// Send window by ID schema
+export const sendWindowParamsSchema = z.object({
+  id: z.string().min(1, 'Send window ID is required'),
+});
+
+export type QuerySendWindowsInput = z.infer<typeof querySendWindowsSchema>;
+export type CreateSendWindowInput = z.infer<typeof createSendWindowSchema>;
+export type UpdateSendWindowInput = z.infer<typeof updateSendWindowSchema>;
+export type SendWindowParamsInput = z.infer<typeof sendWindowParamsSchema>;
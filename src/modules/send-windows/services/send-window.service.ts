@@ -0,0 +1,246 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { isValidTimezone } from '@utils/recurrence';
+import { nextWindowOpening, type TimeWindow } from '@utils/send-window';
+import { MessageType, type SendWindow } from '../../../../generated/prisma/client';
+import type { SendWindowEntry, SendWindowRecipient } from '../types/send-window.types';
+import type {
+  QuerySendWindowsInput,
+  CreateSendWindowInput,
+  UpdateSendWindowInput,
+} from '../schemas/send-window.schema';
+
+// Message types held outside send windows. OTPs and single sends go out at once.
+const WINDOWED_TYPES: MessageType[] = [MessageType.BULK, MessageType.CAMPAIGN];
+
+// Used when neither the contact, the country nor the account has a timezone
+const FALLBACK_TIMEZONE = 'Africa/Accra';
+
+/**
+ * Send Window Service
+ * Quiet hours for bulk and campaign SMS. Each account can set windows for
+ * all countries and per country, and windows with no account (regulator
+ * rules) apply to every account. A country's own window wins over the
+ * catch-all within the same scope; the platform and account windows must
+ * both be open.
+ *
+ * Windows are read in the recipient's local time: the contact's timezone
+ * when known, otherwise the country's (`Country.timezone`). Messages that
+ * fall outside are deferred to the next opening, never rejected.
+ */
+export class SendWindowService {
+  // Whether sends of this type wait for a window
+  static appliesTo(messageType: MessageType): boolean {
+    return messageType !== MessageType.OTP && WINDOWED_TYPES.includes(messageType);
+  }
+
+  // For each recipient, when its message may go out if not at `at`, or null
+  // if it can go at `at`
+  static async deferrals(
+    accountId: string,
+    messageType: MessageType,
+    recipients: SendWindowRecipient[],
+    at: Date = new Date()
+  ): Promise<Array<Date | null>> {
+    if (!this.appliesTo(messageType) || recipients.length === 0) {
+      return recipients.map(() => null);
+    }
+
+    const rules = await prisma.sendWindow.findMany({
+      where: { isActive: true, OR: [{ accountId }, { accountId: null }] },
+    });
+
+    if (rules.length === 0) {
+      return recipients.map(() => null);
+    }
+
+    const timezones = await this.timezones(accountId, recipients);
+    const slots = new Map<string, Date | null>();
+
+    return recipients.map(recipient => {
+      const tz = timezones.get(recipient.phone) || timezones.get(recipient.country) || timezones.get('')!;
+      const key = `${recipient.country}:${tz}`;
+
+      if (!slots.has(key)) {
+        const windows = this.windowsFor(rules, accountId, recipient.country);
+        const opening = nextWindowOpening(at, tz, windows);
+        slots.set(key, opening > at ? opening : null);
+      }
+
+      return slots.get(key)!;
+    });
+  }
+
+  // List an account's windows, or the platform rules (accountId null)
+  static async list(
+    accountId: string | null,
+    filters: QuerySendWindowsInput
+  ): Promise<{ windows: SendWindowEntry[]; total: number }> {
+    const where: any = { accountId };
+
+    if (filters.country) {
+      where.country = filters.country;
+    }
+
+    const [windows, total] = await Promise.all([
+      prisma.sendWindow.findMany({
+        where,
+        orderBy: [{ country: 'asc' }, { createdAt: 'asc' }],
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.sendWindow.count({ where }),
+    ]);
+
+    return {
+      windows: windows.map(window => this.formatWindow(window)),
+      total,
+    };
+  }
+
+  // Add a window; one per country (or catch-all) per scope
+  static async create(accountId: string | null, input: CreateSendWindowInput): Promise<SendWindowEntry> {
+    if (input.country) {
+      const country = await prisma.country.findUnique({
+        where: { code: input.country },
+        select: { code: true },
+      });
+
+      if (!country) {
+        throw new Error(`Unknown country "${input.country}"`);
+      }
+    }
+
+    // The unique index does not cover a null account or country, so the
+    // scope's windows are locked until the new one is written; two requests
+    // cannot both pass the check
+    const window = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`send_windows:${accountId ?? 'platform'}`}))`;
+
+      const existing = await tx.sendWindow.findFirst({
+        where: { accountId, country: input.country },
+        select: { id: true },
+      });
+
+      if (existing) {
+        throw new Error(input.country
+          ? `A send window for ${input.country} already exists`
+          : 'A send window for all countries already exists');
+      }
+
+      return tx.sendWindow.create({
+        data: {
+          accountId,
+          country: input.country,
+          startTime: input.startTime,
+          endTime: input.endTime,
+          note: input.note,
+          isActive: input.isActive,
+        },
+      });
+    });
+
+    logger.info({ accountId, country: input.country, startTime: input.startTime, endTime: input.endTime }, 'Send window created');
+
+    return this.formatWindow(window);
+  }
+
+  // Update a window's hours, note or status
+  static async update(accountId: string | null, id: string, input: UpdateSendWindowInput): Promise<SendWindowEntry> {
+    const existing = await this.findWindow(accountId, id);
+
+    if ((input.startTime ?? existing.startTime) === (input.endTime ?? existing.endTime)) {
+      throw new Error('Start and end time must differ');
+    }
+
+    const window = await prisma.sendWindow.update({
+      where: { id },
+      data: input,
+    });
+
+    logger.info({ accountId, sendWindowId: id, fields: Object.keys(input) }, 'Send window updated');
+
+    return this.formatWindow(window);
+  }
+
+  // Remove a window
+  static async remove(accountId: string | null, id: string): Promise<void> {
+    await this.findWindow(accountId, id);
+
+    await prisma.sendWindow.delete({ where: { id } });
+
+    logger.info({ accountId, sendWindowId: id }, 'Send window deleted');
+  }
+
+  // The platform and account windows for a country
+  private static windowsFor(rules: SendWindow[], accountId: string, country: string): TimeWindow[] {
+    const pick = (scope: string | null) =>
+      rules.find(rule => rule.accountId === scope && rule.country === country)
+      ?? rules.find(rule => rule.accountId === scope && rule.country === null);
+
+    // Platform first: when the two never overlap, the regulator's rule wins
+    return [pick(null), pick(accountId)].filter((rule): rule is SendWindow => !!rule);
+  }
+
+  // Timezones keyed by contact phone, by country code, and '' for the account
+  private static async timezones(accountId: string, recipients: SendWindowRecipient[]): Promise<Map<string, string>> {
+    const phones = [...new Set(recipients.map(recipient => recipient.phone))];
+    const countries = [...new Set(recipients.map(recipient => recipient.country))];
+
+    const [contacts, countryRows, account] = await Promise.all([
+      prisma.contact.findMany({
+        where: { accountId, phone: { in: phones }, timezone: { not: null } },
+        select: { phone: true, timezone: true },
+      }),
+      prisma.country.findMany({
+        where: { code: { in: countries } },
+        select: { code: true, timezone: true },
+      }),
+      prisma.account.findUnique({
+        where: { id: accountId },
+        select: { timezone: true },
+      }),
+    ]);
+
+    const timezones = new Map<string, string>();
+    const valid = (tz: string | null | undefined): tz is string => !!tz && isValidTimezone(tz);
+
+    timezones.set('', valid(account?.timezone) ? account!.timezone : FALLBACK_TIMEZONE);
+
+    for (const country of countryRows) {
+      if (valid(country.timezone)) timezones.set(country.code, country.timezone);
+    }
+
+    for (const contact of contacts) {
+      if (valid(contact.timezone)) timezones.set(contact.phone, contact.timezone);
+    }
+
+    return timezones;
+  }
+
+  private static async findWindow(accountId: string | null, id: string): Promise<SendWindow> {
+    const window = await prisma.sendWindow.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!window) {
+      throw new Error('Send window not found');
+    }
+
+    return window;
+  }
+
+  private static formatWindow(window: SendWindow): SendWindowEntry {
+    return {
+      id: window.id,
+      country: window.country,
+      startTime: window.startTime,
+      endTime: window.endTime,
+      note: window.note,
+      isActive: window.isActive,
+      scope: window.accountId ? 'account' : 'platform',
+      createdAt: window.createdAt,
+      updatedAt: window.updatedAt,
+    };
+  }
+}
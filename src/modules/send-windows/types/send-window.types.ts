@@ -0,0 +1,18 @@
+// Send window, for one account or platform-wide
+export interface SendWindowEntry {
+  id: string;
+  country: string | null; // null for every country
+  startTime: string;
+  endTime: string;
+  note: string | null;
+  isActive: boolean;
+  scope: 'account' | 'platform';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Recipient whose send time is checked
+export interface SendWindowRecipient {
+  phone: string;
+  country: string;
+}
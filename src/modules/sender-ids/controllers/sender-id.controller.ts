@@ -0,0 +1,148 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { SenderIdService } from '../services/sender-id.service';
+import type {
+  QuerySenderIdsInput,
+  QuerySenderIdRequirementsInput,
+  RequestSenderIdInput,
+  UpdateSenderIdInput,
+  SenderIdParamsInput,
+} from '../schemas/sender-id.schema';
+
+export class SenderIdController {
+  // Registration requirements per country
+  static async getRequirements(c: Context) {
+    try {
+      const { country } = c.req.valid('query' as never) as QuerySenderIdRequirementsInput;
+
+      const requirements = await SenderIdService.requirements(country);
+
+      return ResponseBuilder.success(c, requirements);
+    } catch (error: any) {
+      logger.error({ error }, 'Get sender ID requirements controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // List sender IDs
+  static async listSenderIds(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QuerySenderIdsInput;
+
+      const { senderIds, total } = await SenderIdService.list(accountId, query);
+
+      return ResponseBuilder.paginated(c, senderIds, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List sender IDs controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get sender ID by ID
+  static async getSenderId(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as SenderIdParamsInput;
+
+      const senderId = await SenderIdService.get(accountId, id);
+
+      return ResponseBuilder.success(c, senderId);
+    } catch (error: any) {
+      return SenderIdController.handleError(c, error, 'Get sender ID controller error');
+    }
+  }
+
+  // Request a sender ID for a country (reviewed before it can send)
+  static async requestSenderId(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as RequestSenderIdInput;
+
+      const senderId = await SenderIdService.request(accountId, body);
+
+      return ResponseBuilder.created(c, senderId, 'Sender ID requested');
+    } catch (error: any) {
+      return SenderIdController.handleError(c, error, 'Request sender ID controller error');
+    }
+  }
+
+  // Update a pending or rejected request
+  static async updateSenderId(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as SenderIdParamsInput;
+      const body = c.req.valid('json' as never) as UpdateSenderIdInput;
+
+      const senderId = await SenderIdService.update(accountId, id, body);
+
+      return ResponseBuilder.success(c, senderId, 'Sender ID updated');
+    } catch (error: any) {
+      return SenderIdController.handleError(c, error, 'Update sender ID controller error');
+    }
+  }
+
+  // Make an approved sender ID the default
+  static async setDefault(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as SenderIdParamsInput;
+
+      const senderId = await SenderIdService.setDefault(accountId, id);
+
+      return ResponseBuilder.success(c, senderId, 'Default sender ID set');
+    } catch (error: any) {
+      return SenderIdController.handleError(c, error, 'Set default sender ID controller error');
+    }
+  }
+
+  // Delete sender ID
+  static async deleteSenderId(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as SenderIdParamsInput;
+
+      await SenderIdService.remove(accountId, id);
+
+      return ResponseBuilder.success(c, null, 'Sender ID deleted');
+    } catch (error: any) {
+      return SenderIdController.handleError(c, error, 'Delete sender ID controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Sender ID not found') {
+      return ResponseBuilder.notFound(c, 'Sender ID');
+    }
+
+    if (error.message?.startsWith('Unknown country ')) {
+      return ResponseBuilder.error(c, 'UNKNOWN_COUNTRY', error.message, 400);
+    }
+
+    if (error.message?.startsWith('Sender IDs for ')) {
+      return ResponseBuilder.error(c, 'REGISTRATION_DETAILS_REQUIRED', error.message, 400);
+    }
+
+    if (error.message?.startsWith('Sender ID limit of ') || error.message === 'This account can only use one sender ID name') {
+      return ResponseBuilder.error(c, 'SENDER_ID_LIMIT_REACHED', error.message, 403);
+    }
+
+    if (error.message?.startsWith('A sender ID that is ') || error.message === 'Only an approved sender ID can be the default') {
+      return ResponseBuilder.error(c, 'INVALID_SENDER_ID_STATE', error.message, 409);
+    }
+
+    if (error.code === 'P2002') {
+      return ResponseBuilder.error(
+        c,
+        'DUPLICATE_SENDER_ID',
+        'This sender ID has already been requested for the country',
+        409
+      );
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
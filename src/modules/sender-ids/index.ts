@@ -0,0 +1,29 @@
+// Export all sender ID module components
+
+// Services
+export { SenderIdService } from './services/sender-id.service';
+
+// Controllers
+export { SenderIdController } from './controllers/sender-id.controller';
+
+// Routes
+export { default as senderIdRouter } from './routes/sender-id.routes';
+
+// Types
+export type {
+  SenderIdDocument,
+  SenderIdResponse,
+  SenderIdReviewResponse,
+  SenderIdRequirement,
+} from './types/sender-id.types';
+
+// Schemas
+export {
+  querySenderIdsSchema,
+  querySenderIdRequirementsSchema,
+  requestSenderIdSchema,
+  updateSenderIdSchema,
+  querySenderIdReviewsSchema,
+  rejectSenderIdSchema,
+  senderIdParamsSchema,
+} from './schemas/sender-id.schema';
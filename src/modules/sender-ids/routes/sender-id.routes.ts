@@ -0,0 +1,88 @@
+import { Hono } from 'hono';
+import { SenderIdController } from '../controllers/sender-id.controller';
+import {
+  apiKeyAuth,
+  apiKeyRateLimit,
+  requirePermissions,
+  validate,
+  auditLogger,
+} from '@app/middleware';
+import {
+  querySenderIdsSchema,
+  querySenderIdRequirementsSchema,
+  requestSenderIdSchema,
+  updateSenderIdSchema,
+  senderIdParamsSchema,
+} from '../schemas/sender-id.schema';
+
+const senderIdRouter = new Hono();
+
+// Apply authentication to all routes
+senderIdRouter.use('*', apiKeyAuth);
+
+// Apply API rate limiting
+senderIdRouter.use('*', apiKeyRateLimit);
+
+// ============================================
+// SENDER ID ROUTES
+// ============================================
+
+// Registration requirements per country
+senderIdRouter.get(
+  '/requirements',
+  validate('query', querySenderIdRequirementsSchema),
+  SenderIdController.getRequirements
+);
+
+// List sender IDs
+senderIdRouter.get(
+  '/',
+  validate('query', querySenderIdsSchema),
+  SenderIdController.listSenderIds
+);
+
+// Request a sender ID
+senderIdRouter.post(
+  '/',
+  requirePermissions('sender-ids:manage'),
+  validate('json', requestSenderIdSchema),
+  auditLogger('request', 'sender_id'),
+  SenderIdController.requestSenderId
+);
+
+// Get sender ID by ID
+senderIdRouter.get(
+  '/:id',
+  validate('param', senderIdParamsSchema),
+  SenderIdController.getSenderId
+);
+
+// Update a pending or rejected request
+senderIdRouter.patch(
+  '/:id',
+  requirePermissions('sender-ids:manage'),
+  validate('param', senderIdParamsSchema),
+  validate('json', updateSenderIdSchema),
+  auditLogger('update', 'sender_id'),
+  SenderIdController.updateSenderId
+);
+
+// Make an approved sender ID the default
+senderIdRouter.post(
+  '/:id/default',
+  requirePermissions('sender-ids:manage'),
+  validate('param', senderIdParamsSchema),
+  auditLogger('set_default', 'sender_id'),
+  SenderIdController.setDefault
+);
+
+// Delete sender ID
+senderIdRouter.delete(
+  '/:id',
+  requirePermissions('sender-ids:manage'),
+  validate('param', senderIdParamsSchema),
+  auditLogger('delete', 'sender_id'),
+  SenderIdController.deleteSenderId
+);
+
+export default senderIdRouter;
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { senderIdSchema } from '@modules/sms/schemas/send-sms.schema';
+
+const SENDER_ID_STATUSES = ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED'] as const;
+
+// ISO country code, stored upper-case
+const countrySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{2}$/, 'Country must be a 2-letter ISO code')
+  .transform(v => v.toUpperCase());
+
+const documentSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  url: z.string().url('Document URL must be a valid URL'),
+});
+
+const requestFields = {
+  description: z.string().trim().max(500).nullable(),
+  useCase: z.string().trim().min(1).max(1000).nullable(),
+  documents: z.array(documentSchema).max(10, 'At most 10 documents'),
+};
+
+// List sender IDs schema
+export const querySenderIdsSchema = z.object({
+  status: z.enum(SENDER_ID_STATUSES).optional(),
+  country: z.string().optional().transform(v => v?.toUpperCase()),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
+});
+
+// Registration requirements schema
+export const querySenderIdRequirementsSchema = z.object({
+  country: z.string().optional().transform(v => v?.toUpperCase()),
+});
+
+// Request a sender ID for a country
+export const requestSenderIdSchema = z.object({
+  name: senderIdSchema,
+  country: countrySchema,
+  type: z.enum(['ALPHANUMERIC', 'SHORT_CODE', 'DEDICATED']).optional().default('ALPHANUMERIC'),
+  description: requestFields.description.optional().default(null),
+  useCase: requestFields.useCase.optional().default(null),
+  documents: requestFields.documents.optional().default([]),
+});
+
+// Change a pending or rejected request (a rejected one is sent again)
+export const updateSenderIdSchema = z.object(requestFields)
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+// Admin review queue schema (waiting requests by default)
+export const querySenderIdReviewsSchema = z.object({
+  status: z.enum(SENDER_ID_STATUSES).optional(),
+  country: z.string().optional().transform(v => v?.toUpperCase()),
+  accountId: z.string().optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
+});
+
+// Admin rejection schema
+export const rejectSenderIdSchema = z.object({
+  reason: z.string().trim().min(1, 'A rejection reason is required').max(500),
+});
+
+// Sender ID param schema
+export const senderIdParamsSchema = z.object({
+  id: z.string().min(1, 'Sender ID is required'),
+});
+
+export type QuerySenderIdsInput = z.infer<typeof querySenderIdsSchema>;
+export type QuerySenderIdRequirementsInput = z.infer<typeof querySenderIdRequirementsSchema>;
+export type RequestSenderIdInput = z.infer<typeof requestSenderIdSchema>;
+export type UpdateSenderIdInput = z.infer<typeof updateSenderIdSchema>;
+export type QuerySenderIdReviewsInput = z.infer<typeof querySenderIdReviewsSchema>;
+export type RejectSenderIdInput = z.infer<typeof rejectSenderIdSchema>;
+export type SenderIdParamsInput = z.infer<typeof senderIdParamsSchema>;
@@ -0,0 +1,450 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { WebhookDispatcher } from '@modules/webhooks/services/webhook-dispatcher.service';
+import { SenderIdStatus, type Prisma, type SenderId } from '../../../../generated/prisma/client';
+import type {
+  SenderIdDocument,
+  SenderIdRequirement,
+  SenderIdResponse,
+  SenderIdReviewResponse,
+} from '../types/sender-id.types';
+import type {
+  QuerySenderIdsInput,
+  RequestSenderIdInput,
+  UpdateSenderIdInput,
+  QuerySenderIdReviewsInput,
+} from '../schemas/sender-id.schema';
+
+// Statuses an admin can still decide
+const REVIEWABLE: SenderIdStatus[] = [SenderIdStatus.PENDING, SenderIdStatus.UNDER_REVIEW];
+
+// Statuses the account can still edit
+const EDITABLE: SenderIdStatus[] = [SenderIdStatus.PENDING, SenderIdStatus.REJECTED];
+
+type SenderIdWithAccount = SenderId & { account: { id: string; name: string } };
+
+/**
+ * Sender ID Service
+ * Accounts request a sender ID per country; an admin reviews it:
+ *
+ *   PENDING -> UNDER_REVIEW -> APPROVED | REJECTED
+ *
+ * A rejected request can be edited, which sends it again as PENDING.
+ * Countries with `Country.requiresSenderIdRegistration` need a use case
+ * and supporting documents, and only take messages from sender IDs
+ * approved for them. Elsewhere any approved sender ID of the account
+ * can send. Decisions raise SENDER_ID_APPROVED / SENDER_ID_REJECTED.
+ */
+export class SenderIdService {
+  // Registration requirements of the countries SMS can be sent to
+  static async requirements(country?: string): Promise<SenderIdRequirement[]> {
+    const countries = await prisma.country.findMany({
+      where: { isActive: true, smsEnabled: true, ...(country && { code: country }) },
+      select: { code: true, name: true, requiresSenderIdRegistration: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return countries.map(row => ({
+      country: row.code,
+      name: row.name,
+      requiresRegistration: row.requiresSenderIdRegistration,
+    }));
+  }
+
+  // List the account's sender IDs
+  static async list(
+    accountId: string,
+    filters: QuerySenderIdsInput
+  ): Promise<{ senderIds: SenderIdResponse[]; total: number }> {
+    const where: any = { accountId };
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.country) {
+      where.country = filters.country;
+    }
+
+    const [senderIds, total] = await Promise.all([
+      prisma.senderId.findMany({
+        where,
+        orderBy: [{ name: 'asc' }, { country: 'asc' }],
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.senderId.count({ where }),
+    ]);
+
+    return {
+      senderIds: senderIds.map(senderId => this.formatSenderId(senderId)),
+      total,
+    };
+  }
+
+  // Get a single sender ID
+  static async get(accountId: string, id: string): Promise<SenderIdResponse> {
+    return this.formatSenderId(await this.findSenderId(accountId, id));
+  }
+
+  // Request a sender ID for a country
+  static async request(accountId: string, input: RequestSenderIdInput): Promise<SenderIdResponse> {
+    const country = await prisma.country.findUnique({
+      where: { code: input.country },
+      select: { code: true, requiresSenderIdRegistration: true },
+    });
+
+    if (!country) {
+      throw new Error(`Unknown country "${input.country}"`);
+    }
+
+    if (country.requiresSenderIdRegistration) {
+      this.assertRegistrationDetails(country.code, input.useCase, input.documents);
+    }
+
+    await this.checkLimits(accountId, input.name);
+
+    const senderId = await prisma.senderId.create({
+      data: {
+        accountId,
+        name: input.name,
+        country: country.code,
+        type: input.type,
+        description: input.description,
+        useCase: input.useCase,
+        documents: input.documents,
+        status: SenderIdStatus.PENDING,
+      },
+    });
+
+    await this.syncSenderIdCount(accountId);
+
+    logger.info({ accountId, senderId: senderId.id, name: senderId.name, country: senderId.country }, 'Sender ID requested');
+
+    return this.formatSenderId(senderId);
+  }
+
+  // Change a pending or rejected request; a rejected one is sent again
+  static async update(accountId: string, id: string, input: UpdateSenderIdInput): Promise<SenderIdResponse> {
+    const existing = await this.findSenderId(accountId, id);
+
+    if (!EDITABLE.includes(existing.status)) {
+      throw new Error(`A sender ID that is ${existing.status} cannot be changed`);
+    }
+
+    const country = await prisma.country.findUnique({
+      where: { code: existing.country },
+      select: { requiresSenderIdRegistration: true },
+    });
+
+    if (country?.requiresSenderIdRegistration) {
+      this.assertRegistrationDetails(
+        existing.country,
+        input.useCase !== undefined ? input.useCase : existing.useCase,
+        input.documents ?? this.documentsOf(existing)
+      );
+    }
+
+    const resubmitted = existing.status === SenderIdStatus.REJECTED;
+
+    const senderId = await prisma.senderId.update({
+      where: { id },
+      data: {
+        ...input,
+        ...(resubmitted && {
+          status: SenderIdStatus.PENDING,
+          submittedAt: new Date(),
+          rejectionReason: null,
+        }),
+      },
+    });
+
+    logger.info({ accountId, senderId: id, fields: Object.keys(input), resubmitted }, 'Sender ID request updated');
+
+    return this.formatSenderId(senderId);
+  }
+
+  // Make an approved sender ID the account's default
+  static async setDefault(accountId: string, id: string): Promise<SenderIdResponse> {
+    const existing = await this.findSenderId(accountId, id);
+
+    if (existing.status !== SenderIdStatus.APPROVED || !existing.isActive) {
+      throw new Error('Only an approved sender ID can be the default');
+    }
+
+    const [, senderId] = await prisma.$transaction([
+      prisma.senderId.updateMany({
+        where: { accountId, isDefault: true, id: { not: id } },
+        data: { isDefault: false },
+      }),
+      prisma.senderId.update({
+        where: { id },
+        data: { isDefault: true },
+      }),
+    ]);
+
+    logger.info({ accountId, senderId: id }, 'Default sender ID changed');
+
+    return this.formatSenderId(senderId);
+  }
+
+  // Withdraw a request or remove a sender ID; sent messages keep its name
+  static async remove(accountId: string, id: string): Promise<void> {
+    await this.findSenderId(accountId, id);
+
+    await prisma.senderId.delete({ where: { id } });
+    await this.syncSenderIdCount(accountId);
+
+    logger.info({ accountId, senderId: id }, 'Sender ID deleted');
+  }
+
+  // Requests across accounts, oldest first; waiting ones unless a status is given
+  static async listReviews(
+    filters: QuerySenderIdReviewsInput
+  ): Promise<{ senderIds: SenderIdReviewResponse[]; total: number }> {
+    const where: any = {
+      status: filters.status ?? { in: REVIEWABLE },
+    };
+
+    if (filters.country) {
+      where.country = filters.country;
+    }
+
+    if (filters.accountId) {
+      where.accountId = filters.accountId;
+    }
+
+    const [senderIds, total] = await Promise.all([
+      prisma.senderId.findMany({
+        where,
+        include: { account: { select: { id: true, name: true } } },
+        orderBy: { submittedAt: 'asc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.senderId.count({ where }),
+    ]);
+
+    return {
+      senderIds: senderIds.map(senderId => this.formatReview(senderId)),
+      total,
+    };
+  }
+
+  // Mark a pending request as being reviewed
+  static async startReview(id: string, reviewerId: string): Promise<SenderIdReviewResponse> {
+    return this.decide(id, reviewerId, [SenderIdStatus.PENDING], {
+      status: SenderIdStatus.UNDER_REVIEW,
+    });
+  }
+
+  // Approve a request and tell the account
+  static async approve(id: string, reviewerId: string): Promise<SenderIdReviewResponse> {
+    const senderId = await this.decide(id, reviewerId, REVIEWABLE, {
+      status: SenderIdStatus.APPROVED,
+      approvedAt: new Date(),
+      approvedBy: reviewerId,
+      rejectionReason: null,
+    });
+
+    await WebhookDispatcher.emit(senderId.account.id, 'SENDER_ID_APPROVED', {
+      id: senderId.id,
+      senderId: senderId.name,
+      country: senderId.country,
+      status: senderId.status,
+    });
+
+    return senderId;
+  }
+
+  // Reject a request with a reason and tell the account
+  static async reject(id: string, reviewerId: string, reason: string): Promise<SenderIdReviewResponse> {
+    const senderId = await this.decide(id, reviewerId, REVIEWABLE, {
+      status: SenderIdStatus.REJECTED,
+      approvedAt: null,
+      approvedBy: null,
+      isDefault: false,
+      rejectionReason: reason,
+    });
+
+    await WebhookDispatcher.emit(senderId.account.id, 'SENDER_ID_REJECTED', {
+      id: senderId.id,
+      senderId: senderId.name,
+      country: senderId.country,
+      status: senderId.status,
+      reason,
+    });
+
+    return senderId;
+  }
+
+  // Countries among `countries` that refuse this sender name: those
+  // requiring registration where the account has no approved ID by that name
+  static async unregisteredCountries(
+    accountId: string,
+    name: string,
+    countries: string[]
+  ): Promise<Set<string>> {
+    if (countries.length === 0) {
+      return new Set<string>();
+    }
+
+    const [required, registered] = await Promise.all([
+      prisma.country.findMany({
+        where: { code: { in: countries }, requiresSenderIdRegistration: true },
+        select: { code: true },
+      }),
+      prisma.senderId.findMany({
+        where: { accountId, name, status: SenderIdStatus.APPROVED, isActive: true, country: { in: countries } },
+        select: { country: true },
+      }),
+    ]);
+
+    const approved = new Set<string>(registered.map(row => row.country));
+
+    return new Set<string>(required.map(row => row.code).filter(code => !approved.has(code)));
+  }
+
+  // Refuse a send from a sender name not registered for the country
+  static async assertRegistered(accountId: string, name: string, country: string): Promise<void> {
+    const refused = await this.unregisteredCountries(accountId, name, [country]);
+
+    if (refused.has(country)) {
+      throw new Error(`Sender ID "${name}" is not registered for ${country}`);
+    }
+  }
+
+  private static async decide(
+    id: string,
+    reviewerId: string,
+    from: SenderIdStatus[],
+    data: Prisma.SenderIdUpdateManyMutationInput
+  ): Promise<SenderIdReviewResponse> {
+    // Only the first decision on a request wins
+    const { count } = await prisma.senderId.updateMany({
+      where: { id, status: { in: from } },
+      data,
+    });
+
+    if (count === 0) {
+      const existing = await prisma.senderId.findUnique({
+        where: { id },
+        select: { status: true },
+      });
+
+      throw new Error(existing
+        ? `A sender ID that is ${existing.status} cannot be reviewed`
+        : 'Sender ID not found');
+    }
+
+    const senderId = await prisma.senderId.findUniqueOrThrow({
+      where: { id },
+      include: { account: { select: { id: true, name: true } } },
+    });
+
+    logger.info({
+      senderId: id,
+      accountId: senderId.accountId,
+      name: senderId.name,
+      country: senderId.country,
+      status: senderId.status,
+      reviewerId,
+    }, 'Sender ID reviewed');
+
+    return this.formatReview(senderId);
+  }
+
+  // Registration countries need a use case and at least one document
+  private static assertRegistrationDetails(
+    country: string,
+    useCase: string | null | undefined,
+    documents: SenderIdDocument[]
+  ): void {
+    if (!useCase || documents.length === 0) {
+      throw new Error(`Sender IDs for ${country} need a use case and supporting documents`);
+    }
+  }
+
+  // `AccountLimits.maxSenderIds` and `Account.allowMultipleSenderIds`
+  private static async checkLimits(accountId: string, name: string): Promise<void> {
+    const [account, limits, count] = await Promise.all([
+      prisma.account.findUnique({
+        where: { id: accountId },
+        select: { allowMultipleSenderIds: true },
+      }),
+      prisma.accountLimits.findUnique({
+        where: { accountId },
+        select: { maxSenderIds: true },
+      }),
+      prisma.senderId.count({ where: { accountId } }),
+    ]);
+
+    if (limits?.maxSenderIds != null && count >= limits.maxSenderIds) {
+      throw new Error(`Sender ID limit of ${limits.maxSenderIds} reached`);
+    }
+
+    // One name, which may still be registered in several countries
+    if (account && !account.allowMultipleSenderIds) {
+      const other = await prisma.senderId.count({
+        where: { accountId, name: { not: name } },
+      });
+
+      if (other > 0) {
+        throw new Error('This account can only use one sender ID name');
+      }
+    }
+  }
+
+  // Keep AccountLimits.currentSenderIds in step with the table
+  private static async syncSenderIdCount(accountId: string): Promise<void> {
+    const count = await prisma.senderId.count({ where: { accountId } });
+
+    await prisma.accountLimits.updateMany({
+      where: { accountId },
+      data: { currentSenderIds: count },
+    });
+  }
+
+  private static async findSenderId(accountId: string, id: string): Promise<SenderId> {
+    const senderId = await prisma.senderId.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!senderId) {
+      throw new Error('Sender ID not found');
+    }
+
+    return senderId;
+  }
+
+  private static documentsOf(senderId: SenderId): SenderIdDocument[] {
+    return Array.isArray(senderId.documents) ? senderId.documents as unknown as SenderIdDocument[] : [];
+  }
+
+  private static formatSenderId(senderId: SenderId): SenderIdResponse {
+    return {
+      id: senderId.id,
+      name: senderId.name,
+      type: senderId.type,
+      status: senderId.status,
+      country: senderId.country,
+      description: senderId.description,
+      useCase: senderId.useCase,
+      documents: this.documentsOf(senderId),
+      isDefault: senderId.isDefault,
+      isActive: senderId.isActive,
+      submittedAt: senderId.submittedAt,
+      approvedAt: senderId.approvedAt,
+      rejectionReason: senderId.rejectionReason,
+      createdAt: senderId.createdAt,
+      updatedAt: senderId.updatedAt,
+    };
+  }
+
+  private static formatReview(senderId: SenderIdWithAccount): SenderIdReviewResponse {
+    return {
+      ...this.formatSenderId(senderId),
+      account: senderId.account,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import type { SenderIdStatus, SenderIdType } from '../../../../generated/prisma/client';
+
+// Supporting document for a sender ID request, hosted by the customer
+export interface SenderIdDocument {
+  name: string;
+  url: string;
+}
+
+// Sender ID and its review state
+export interface SenderIdResponse {
+  id: string;
+  name: string;
+  type: SenderIdType;
+  status: SenderIdStatus;
+  country: string;
+  description: string | null;
+  useCase: string | null;
+  documents: SenderIdDocument[];
+  isDefault: boolean;
+  isActive: boolean;
+  submittedAt: Date;
+  approvedAt: Date | null;
+  rejectionReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Sender ID in the admin review queue
+export interface SenderIdReviewResponse extends SenderIdResponse {
+  account: {
+    id: string;
+    name: string;
+  };
+}
+
+// What a country asks of a sender ID request
+export interface SenderIdRequirement {
+  country: string;
+  name: string;
+  requiresRegistration: boolean; // Needs a use case and documents, and only IDs approved for it may send there
+}
@@ -1,39 +1,53 @@
 import type { Context } from 'hono';
 import { ResponseBuilder } from '@utils/api-response';
 import { logger } from '@utils/logger';
+import { env } from '@config/env';
 import { SMSService } from '../services/sms.service';
+import { BulkSMSService } from '../services/bulk-sms.service';
+import { BulkUploadService } from '../services/bulk-upload.service';
+import { sendErrorCode } from './sms.controller';
+import type { BulkUploadInput } from '../schemas/bulk-sms.schema';
 import { prisma } from '@/core/database/prisma.client';
 
 export class BulkSMSController {
-  // Send bulk SMS
+  // Send bulk SMS (accepted asynchronously, track progress by batch ID)
   static async sendBulkSMS(c: Context) {
     try {
       const accountId = c.get('accountId');
       const body = await c.req.json();
 
       // Validate maximum recipients
-      if (body.recipients && body.recipients.length > 10000) {
+      if (body.recipients && body.recipients.length > env.SMS_BULK_MAX_RECIPIENTS) {
         return ResponseBuilder.error(
           c,
           'BULK_LIMIT_EXCEEDED',
-          'Maximum 10,000 recipients per batch',
+          `Maximum ${env.SMS_BULK_MAX_RECIPIENTS.toLocaleString()} recipients per batch`,
           400
         );
       }
 
-      const result = await SMSService.sendBulkSMS(accountId, body);
+      const result = await BulkSMSService.createBatch(
+        accountId,
+        body,
+        c.get('estimatedCost') || 0
+      );
 
-      // Store actual cost in context for billing middleware
-      c.set('actualCost', result.estimatedCost);
+      // Chunks are charged as the workers insert them
+      c.set('deferredCharge', true);
       c.set('serviceType', 'sms');
 
       return ResponseBuilder.success(
         c,
         result,
-        `Bulk SMS processed. ${result.accepted} accepted, ${result.rejected} rejected`,
-        201
+        `Bulk SMS accepted. ${result.totalRecipients} recipients queued for processing`,
+        202
       );
     } catch (error: any) {
+      const code = sendErrorCode(error);
+      if (code) {
+        return ResponseBuilder.error(c, code, error.message, 400);
+      }
+
       logger.error({ error }, 'Send bulk SMS controller error');
       return ResponseBuilder.error(
         c,
@@ -44,20 +58,77 @@ export class BulkSMSController {
     }
   }
 
-  // Get batch status
-  static async getBatchStatus(c: Context) {
+  // Upload a CSV/Excel recipient file and preview it as a draft batch
+  static async uploadRecipients(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const input = c.req.valid('form' as never) as BulkUploadInput;
+
+      const result = await BulkUploadService.createPreview(accountId, input);
+
+      return ResponseBuilder.success(
+        c,
+        result,
+        `File processed. ${result.validRows} valid, ${result.invalidRows} invalid rows`,
+        201
+      );
+    } catch (error: any) {
+      logger.error({ error }, 'Upload bulk SMS file controller error');
+      return ResponseBuilder.error(
+        c,
+        'BULK_UPLOAD_ERROR',
+        error.message,
+        400
+      );
+    }
+  }
+
+  // Confirm an uploaded draft batch
+  static async confirmUpload(c: Context) {
     try {
       const accountId = c.get('accountId');
       const { batchId } = c.req.param();
 
-      const result = await SMSService.getBatchMessages(batchId, accountId);
+      const result = await BulkSMSService.confirmDraft(accountId, batchId);
 
-      if (result.messages.length === 0) {
+      // Chunks are charged as the workers insert them
+      c.set('deferredCharge', true);
+      c.set('serviceType', 'sms');
+
+      return ResponseBuilder.success(
+        c,
+        result,
+        `Bulk SMS accepted. ${result.totalRecipients} recipients queued for processing`,
+        202
+      );
+    } catch (error: any) {
+      if (error.message === 'Batch not found') {
         return ResponseBuilder.notFound(c, 'Batch');
       }
 
+      if (error.message?.startsWith('Cannot')) {
+        return ResponseBuilder.error(c, 'INVALID_BATCH_STATE', error.message, 409);
+      }
+
+      logger.error({ error }, 'Confirm bulk SMS upload controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get batch progress
+  static async getBatchStatus(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { batchId } = c.req.param();
+
+      const result = await BulkSMSService.getBatchProgress(batchId, accountId);
+
       return ResponseBuilder.success(c, result);
     } catch (error: any) {
+      if (error.message === 'Batch not found') {
+        return ResponseBuilder.notFound(c, 'Batch');
+      }
+
       logger.error({ error }, 'Get batch status controller error');
       return ResponseBuilder.serverError(c);
     }
@@ -73,38 +144,37 @@ export class BulkSMSController {
       const limit = parseInt(query.limit || '20');
       const skip = (page - 1) * limit;
 
-      // Get unique batch IDs with message counts
-      const batches = await prisma.$queryRaw`
-        SELECT 
-          "batchId",
-          COUNT(*) as total,
-          SUM(CASE WHEN status = 'DELIVERED' THEN 1 ELSE 0 END) as delivered,
-          SUM(CASE WHEN status = 'FAILED' THEN 1 ELSE 0 END) as failed,
-          SUM(CASE WHEN status IN ('PENDING', 'QUEUED', 'SENT') THEN 1 ELSE 0 END) as pending,
-          SUM("totalCost") as "totalCost",
-          MIN("createdAt") as "createdAt"
-        FROM messages
-        WHERE "accountId" = ${accountId}
-          AND "batchId" IS NOT NULL
-        GROUP BY "batchId"
-        ORDER BY "createdAt" DESC
-        LIMIT ${limit}
-        OFFSET ${skip}
-      `;
-
-      const totalBatches = await prisma.$queryRaw`
-        SELECT COUNT(DISTINCT "batchId") as count
-        FROM messages
-        WHERE "accountId" = ${accountId}
-          AND "batchId" IS NOT NULL
-      `;
+      const where = { accountId };
+
+      const [batches, total] = await Promise.all([
+        prisma.messageBatch.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit,
+          select: {
+            id: true,
+            status: true,
+            totalRecipients: true,
+            accepted: true,
+            rejected: true,
+            estimatedCost: true,
+            totalCost: true,
+            currency: true,
+            scheduledFor: true,
+            completedAt: true,
+            createdAt: true,
+          },
+        }),
+        prisma.messageBatch.count({ where }),
+      ]);
 
       return ResponseBuilder.paginated(
         c,
-        batches,
+        batches.map(({ id, ...batch }) => ({ batchId: id, ...batch })),
         page,
         limit,
-        Number((totalBatches as any[])[0]?.count || 0)
+        total
       );
     } catch (error: any) {
       logger.error({ error }, 'List batches controller error');
@@ -0,0 +1,41 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { InboundSMSService } from '../services/inbound-sms.service';
+import type { QueryInboundInput, InboundParamsInput } from '../schemas/inbound-sms.schema';
+
+export class InboundSMSController {
+  // List inbound messages
+  static async listInbound(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QueryInboundInput;
+
+      const { messages, total } = await InboundSMSService.listInbound(accountId, query);
+
+      return ResponseBuilder.paginated(c, messages, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List inbound SMS controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get inbound message by ID
+  static async getInbound(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as InboundParamsInput;
+
+      const message = await InboundSMSService.getInbound(accountId, id);
+
+      return ResponseBuilder.success(c, message);
+    } catch (error: any) {
+      if (error.message === 'Inbound message not found') {
+        return ResponseBuilder.notFound(c, 'Inbound message');
+      }
+
+      logger.error({ error }, 'Get inbound SMS controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+}
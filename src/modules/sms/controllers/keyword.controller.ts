@@ -0,0 +1,119 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { KeywordResponderService } from '../services/keyword-responder.service';
+import type {
+  QueryKeywordsInput,
+  CreateKeywordInput,
+  UpdateKeywordInput,
+  KeywordParamsInput,
+} from '../schemas/keyword.schema';
+
+// Service errors for a bad reference or keyword, returned as 400
+const INVALID_KEYWORD_ERRORS: Record<string, string> = {
+  'Keyword is reserved': 'RESERVED_KEYWORD',
+  'Template not found': 'TEMPLATE_NOT_FOUND',
+  'Contact group not found': 'GROUP_NOT_FOUND',
+  'Webhook not found': 'WEBHOOK_NOT_FOUND',
+};
+
+export class KeywordController {
+  // List keyword responders
+  static async listKeywords(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QueryKeywordsInput;
+
+      const { keywords, total } = await KeywordResponderService.listKeywords(accountId, query);
+
+      return ResponseBuilder.paginated(c, keywords, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List keywords controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get keyword responder by ID
+  static async getKeyword(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as KeywordParamsInput;
+
+      const keyword = await KeywordResponderService.getKeyword(accountId, id);
+
+      return ResponseBuilder.success(c, keyword);
+    } catch (error: any) {
+      return KeywordController.handleError(c, error, 'Get keyword controller error');
+    }
+  }
+
+  // Register a keyword with its auto-reply and actions
+  static async createKeyword(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as CreateKeywordInput;
+
+      const keyword = await KeywordResponderService.createKeyword(accountId, body);
+
+      return ResponseBuilder.created(c, keyword, 'Keyword created');
+    } catch (error: any) {
+      return KeywordController.handleError(c, error, 'Create keyword controller error');
+    }
+  }
+
+  // Update keyword responder
+  static async updateKeyword(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as KeywordParamsInput;
+      const body = c.req.valid('json' as never) as UpdateKeywordInput;
+
+      const keyword = await KeywordResponderService.updateKeyword(accountId, id, body);
+
+      return ResponseBuilder.success(c, keyword, 'Keyword updated');
+    } catch (error: any) {
+      return KeywordController.handleError(c, error, 'Update keyword controller error');
+    }
+  }
+
+  // Delete keyword responder
+  static async deleteKeyword(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as KeywordParamsInput;
+
+      await KeywordResponderService.deleteKeyword(accountId, id);
+
+      return ResponseBuilder.success(c, null, 'Keyword deleted');
+    } catch (error: any) {
+      return KeywordController.handleError(c, error, 'Delete keyword controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Keyword not found') {
+      return ResponseBuilder.notFound(c, 'Keyword');
+    }
+
+    if (error.message === 'Number is not routed to this account') {
+      return ResponseBuilder.error(c, 'NUMBER_NOT_ROUTED', error.message, 403);
+    }
+
+    if (INVALID_KEYWORD_ERRORS[error.message]) {
+      return ResponseBuilder.error(c, INVALID_KEYWORD_ERRORS[error.message], error.message, 400);
+    }
+
+    if (error.code === 'P2002') {
+      return ResponseBuilder.error(
+        c,
+        'DUPLICATE_KEYWORD',
+        'This keyword is already registered on the number',
+        409
+      );
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
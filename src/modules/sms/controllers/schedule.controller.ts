@@ -0,0 +1,92 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { MessageScheduleService } from '../services/message-schedule.service';
+import type { QuerySchedulesInput } from '../schemas/schedule.schema';
+
+export class ScheduleController {
+  // List schedules
+  static async listSchedules(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QuerySchedulesInput;
+
+      const { schedules, total } = await MessageScheduleService.listSchedules(accountId, query);
+
+      return ResponseBuilder.paginated(c, schedules, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List schedules controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get schedule by ID
+  static async getSchedule(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.param();
+
+      const schedule = await MessageScheduleService.getSchedule(accountId, id);
+
+      return ResponseBuilder.success(c, schedule);
+    } catch (error: any) {
+      return ScheduleController.handleError(c, error, 'Get schedule controller error');
+    }
+  }
+
+  // Pause schedule
+  static async pauseSchedule(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.param();
+
+      const schedule = await MessageScheduleService.pauseSchedule(accountId, id);
+
+      return ResponseBuilder.success(c, schedule, 'Schedule paused');
+    } catch (error: any) {
+      return ScheduleController.handleError(c, error, 'Pause schedule controller error');
+    }
+  }
+
+  // Resume schedule
+  static async resumeSchedule(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.param();
+
+      const schedule = await MessageScheduleService.resumeSchedule(accountId, id);
+
+      return ResponseBuilder.success(c, schedule, 'Schedule resumed');
+    } catch (error: any) {
+      return ScheduleController.handleError(c, error, 'Resume schedule controller error');
+    }
+  }
+
+  // Delete (cancel) schedule
+  static async deleteSchedule(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.param();
+
+      const schedule = await MessageScheduleService.cancelSchedule(accountId, id);
+
+      return ResponseBuilder.success(c, schedule, 'Schedule cancelled');
+    } catch (error: any) {
+      return ScheduleController.handleError(c, error, 'Delete schedule controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Schedule not found') {
+      return ResponseBuilder.notFound(c, 'Schedule');
+    }
+
+    if (error.message?.startsWith('Cannot ')) {
+      return ResponseBuilder.error(c, 'INVALID_SCHEDULE_STATE', error.message, 409);
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
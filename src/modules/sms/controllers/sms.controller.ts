@@ -3,8 +3,24 @@ import { ResponseBuilder } from '@utils/api-response';
 import { logger } from '@utils/logger';
 import { SMSService } from '../services/sms.service';
 import { SMSAnalyticsService } from '../services/sms-analytics.service';
+import { MessageScheduleService } from '../services/message-schedule.service';
 import prisma from '@database/prisma.client';
 
+// Template and sender ID errors on send, returned as 400
+const SEND_ERRORS: Array<[RegExp, string]> = [
+  [/^Template not found/, 'TEMPLATE_NOT_FOUND'],
+  [/^Template is not approved/, 'TEMPLATE_NOT_APPROVED'],
+  [/^Missing template variables/, 'MISSING_TEMPLATE_VARIABLES'],
+  [/^Messages to \w+ must use an approved template/, 'TEMPLATE_REQUIRED'],
+  [/^Sender ID ".*" is not approved/, 'INVALID_SENDER_ID'],
+  [/^Sender ID ".*" is not registered for/, 'SENDER_ID_NOT_REGISTERED'],
+];
+
+// Code for a template or sender ID error, if the error is one
+export function sendErrorCode(error: any): string | undefined {
+  return SEND_ERRORS.find(([pattern]) => pattern.test(error.message || ''))?.[1];
+}
+
 export class SMSController {
   // Send SMS
   static async sendSMS(c: Context) {
@@ -12,6 +28,31 @@ export class SMSController {
       const accountId = c.get('accountId');
       const body = await c.req.json();
 
+      // Recurring sends become a schedule, charged per occurrence
+      if (body.recurrence) {
+        const schedule = await MessageScheduleService.createSchedule(accountId, 'SMS', body);
+
+        c.set('deferredCharge', true);
+        c.set('serviceType', 'sms');
+
+        return ResponseBuilder.success(
+          c,
+          schedule,
+          'SMS schedule created',
+          201
+        );
+      }
+
+      // Local send times are converted to UTC in the requested timezone
+      if (body.scheduledFor) {
+        body.scheduledFor = await MessageScheduleService.resolveScheduledFor(
+          accountId,
+          body.scheduledFor,
+          body.timezone,
+          { phone: body.to }
+        );
+      }
+
       const result = await SMSService.sendSMS(accountId, body);
 
       // Store actual cost in context for billing middleware
@@ -25,6 +66,19 @@ export class SMSController {
         201
       );
     } catch (error: any) {
+      if (error.message?.startsWith('Recipient is suppressed')) {
+        return ResponseBuilder.error(c, 'RECIPIENT_SUPPRESSED', error.message, 422);
+      }
+
+      if (MessageScheduleService.isScheduleError(error)) {
+        return ResponseBuilder.error(c, 'INVALID_SCHEDULE', error.message, 400);
+      }
+
+      const code = sendErrorCode(error);
+      if (code) {
+        return ResponseBuilder.error(c, code, error.message, 400);
+      }
+
       logger.error({ error }, 'Send SMS controller error');
       return ResponseBuilder.error(
         c,
@@ -0,0 +1,121 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { TemplateService } from '../services/template.service';
+import type {
+  QueryTemplatesInput,
+  CreateTemplateInput,
+  UpdateTemplateInput,
+  TemplateParamsInput,
+} from '../schemas/template.schema';
+
+export class TemplateController {
+  // List templates
+  static async listTemplates(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QueryTemplatesInput;
+
+      const { templates, total } = await TemplateService.list(accountId, query);
+
+      return ResponseBuilder.paginated(c, templates, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List templates controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Get template by ID
+  static async getTemplate(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as TemplateParamsInput;
+
+      const template = await TemplateService.get(accountId, id);
+
+      return ResponseBuilder.success(c, template);
+    } catch (error: any) {
+      return TemplateController.handleError(c, error, 'Get template controller error');
+    }
+  }
+
+  // Save a template; its {{variables}} are read from the content
+  static async createTemplate(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as CreateTemplateInput;
+
+      const template = await TemplateService.create(accountId, body);
+
+      return ResponseBuilder.created(c, template, 'Template created');
+    } catch (error: any) {
+      return TemplateController.handleError(c, error, 'Create template controller error');
+    }
+  }
+
+  // Update template
+  static async updateTemplate(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as TemplateParamsInput;
+      const body = c.req.valid('json' as never) as UpdateTemplateInput;
+
+      const template = await TemplateService.update(accountId, id, body);
+
+      return ResponseBuilder.success(c, template, 'Template updated');
+    } catch (error: any) {
+      return TemplateController.handleError(c, error, 'Update template controller error');
+    }
+  }
+
+  // Delete template
+  static async deleteTemplate(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as TemplateParamsInput;
+
+      await TemplateService.remove(accountId, id);
+
+      return ResponseBuilder.success(c, null, 'Template deleted');
+    } catch (error: any) {
+      return TemplateController.handleError(c, error, 'Delete template controller error');
+    }
+  }
+
+  // Submit a template for approval
+  static async submitTemplate(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as TemplateParamsInput;
+
+      const template = await TemplateService.submit(accountId, id);
+
+      return ResponseBuilder.success(c, template, 'Template submitted for approval');
+    } catch (error: any) {
+      return TemplateController.handleError(c, error, 'Submit template controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Template not found') {
+      return ResponseBuilder.notFound(c, 'Template');
+    }
+
+    if (error.message?.startsWith('Template is already ')) {
+      return ResponseBuilder.error(c, 'INVALID_TEMPLATE_STATE', error.message, 409);
+    }
+
+    if (error.code === 'P2002') {
+      return ResponseBuilder.error(
+        c,
+        'DUPLICATE_TEMPLATE',
+        'A template with this name already exists',
+        409
+      );
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
@@ -5,10 +5,22 @@ export { SMSService } from './services/sms.service';
 export { SMSValidationService } from './services/sms-validation.service';
 export { SMSRouterService } from './services/sms-router.service';
 export { SMSAnalyticsService } from './services/sms-analytics.service';
+export { SMSSchedulerService } from './services/sms-scheduler.service';
+export { DeliveryReconcilerService } from './services/delivery-reconciler.service';
+export { InboundSMSService } from './services/inbound-sms.service';
+export { KeywordResponderService } from './services/keyword-responder.service';
+export { MessageScheduleService } from './services/message-schedule.service';
+export { BulkSMSService } from './services/bulk-sms.service';
+export { BulkUploadService } from './services/bulk-upload.service';
+export { TemplateService } from './services/template.service';
 
 // Controllers
 export { SMSController } from './controllers/sms.controller';
 export { BulkSMSController } from './controllers/bulk-sms.controller';
+export { ScheduleController } from './controllers/schedule.controller';
+export { InboundSMSController } from './controllers/inbound-sms.controller';
+export { KeywordController } from './controllers/keyword.controller';
+export { TemplateController } from './controllers/template.controller';
 
 // Routes
 export { default as smsRouter } from './routes/sms.routes';
@@ -20,12 +32,23 @@ export type {
   BulkSMSRequest,
   SMSResponse,
   BulkSMSResponse,
+  BulkBatchStatus,
+  BulkBatchProgress,
+  BulkUploadPreview,
   SMSStatus,
+  MessageScheduleResponse,
   SMSAnalytics,
   SMSValidationResult,
   ProviderInfo,
   SMSPricing,
   MessageUnits,
+  InboundMessageResponse,
+  InboundReceiveResult,
+  KeywordResponderResponse,
+  KeywordResult,
+  TemplateApprovalStatus,
+  TemplateResponse,
+  TemplateReviewResponse,
 } from './types/sms.types';
 
 // Schemas
@@ -36,13 +59,42 @@ export {
   phoneNumberSchema,
   senderIdSchema,
   messageSchema,
+  templateVariablesSchema,
 } from './schemas/send-sms.schema';
 
 export {
   bulkSMSSchema,
   queryBulkSMSSchema,
+  bulkUploadSchema,
+  batchParamsSchema,
 } from './schemas/bulk-sms.schema';
 
+export {
+  querySchedulesSchema,
+  scheduleParamsSchema,
+} from './schemas/schedule.schema';
+
+export {
+  queryInboundSchema,
+  inboundParamsSchema,
+} from './schemas/inbound-sms.schema';
+
+export {
+  queryKeywordsSchema,
+  createKeywordSchema,
+  updateKeywordSchema,
+  keywordParamsSchema,
+} from './schemas/keyword.schema';
+
+export {
+  queryTemplatesSchema,
+  createTemplateSchema,
+  updateTemplateSchema,
+  queryTemplateReviewsSchema,
+  rejectTemplateSchema,
+  templateParamsSchema,
+} from './schemas/template.schema';
+
 export {
   getSMSStatusSchema,
   getBatchStatusSchema,
@@ -1,6 +1,10 @@
 import { Hono } from 'hono';
 import { SMSController } from '../controllers/sms.controller';
 import { BulkSMSController } from '../controllers/bulk-sms.controller';
+import { ScheduleController } from '../controllers/schedule.controller';
+import { InboundSMSController } from '../controllers/inbound-sms.controller';
+import { KeywordController } from '../controllers/keyword.controller';
+import { TemplateController } from '../controllers/template.controller';
 import {
   apiKeyAuth,
   smsRateLimit,
@@ -16,9 +20,25 @@ import {
   querySMSSchema,
   getSMSSchema,
 } from '../schemas/send-sms.schema';
-import { bulkSMSSchema } from '../schemas/bulk-sms.schema'
+import { bulkSMSSchema, bulkUploadSchema, batchParamsSchema } from '../schemas/bulk-sms.schema'
+import { querySchedulesSchema, scheduleParamsSchema } from '../schemas/schedule.schema';
+import { queryInboundSchema, inboundParamsSchema } from '../schemas/inbound-sms.schema';
+import {
+  queryKeywordsSchema,
+  createKeywordSchema,
+  updateKeywordSchema,
+  keywordParamsSchema,
+} from '../schemas/keyword.schema';
+import {
+  queryTemplatesSchema,
+  createTemplateSchema,
+  updateTemplateSchema,
+  templateParamsSchema,
+} from '../schemas/template.schema';
 import { SMSValidationService } from '../services/sms-validation.service';
 import { SMSRouterService } from '../services/sms-router.service';
+import { BulkSMSService } from '../services/bulk-sms.service';
+import { TemplateService } from '../services/template.service';
 import type { Context } from 'hono';
 
 const smsRouter = new Hono();
@@ -42,8 +62,9 @@ smsRouter.post(
   checkBalance(async (c: Context) => {
     const body = await c.req.json();
     
-    // Calculate message units
-    const messageUnits = SMSValidationService.calculateMessageUnits(body.message);
+    // Calculate message units (template sends use the filled template)
+    const message = await TemplateService.estimateContent(c.get('accountId'), body);
+    const messageUnits = SMSValidationService.calculateMessageUnits(message);
     
     // Get routing info for cost estimation
     const validation = SMSValidationService.validatePhoneNumber(body.to);
@@ -65,6 +86,175 @@ smsRouter.post(
   SMSController.sendSMS
 );
 
+// ============================================
+// SCHEDULE ROUTES
+// ============================================
+// Registered before /:id so the static path is matched first
+
+// List schedules
+smsRouter.get(
+  '/schedules',
+  validate('query', querySchedulesSchema),
+  ScheduleController.listSchedules
+);
+
+// Get schedule by ID
+smsRouter.get(
+  '/schedules/:id',
+  validate('param', scheduleParamsSchema),
+  ScheduleController.getSchedule
+);
+
+// Pause schedule
+smsRouter.post(
+  '/schedules/:id/pause',
+  requirePermissions('sms:send'),
+  validate('param', scheduleParamsSchema),
+  auditLogger('pause', 'schedule'),
+  ScheduleController.pauseSchedule
+);
+
+// Resume schedule
+smsRouter.post(
+  '/schedules/:id/resume',
+  requirePermissions('sms:send'),
+  validate('param', scheduleParamsSchema),
+  auditLogger('resume', 'schedule'),
+  ScheduleController.resumeSchedule
+);
+
+// Delete schedule
+smsRouter.delete(
+  '/schedules/:id',
+  requirePermissions('sms:send'),
+  validate('param', scheduleParamsSchema),
+  auditLogger('delete', 'schedule'),
+  ScheduleController.deleteSchedule
+);
+
+// ============================================
+// INBOUND SMS ROUTES
+// ============================================
+
+// List inbound messages
+smsRouter.get(
+  '/inbound',
+  validate('query', queryInboundSchema),
+  InboundSMSController.listInbound
+);
+
+// Get inbound message by ID
+smsRouter.get(
+  '/inbound/:id',
+  validate('param', inboundParamsSchema),
+  InboundSMSController.getInbound
+);
+
+// ============================================
+// KEYWORD ROUTES
+// ============================================
+
+// List keyword responders
+smsRouter.get(
+  '/keywords',
+  validate('query', queryKeywordsSchema),
+  KeywordController.listKeywords
+);
+
+// Register a keyword on one of the account's numbers
+smsRouter.post(
+  '/keywords',
+  requirePermissions('sms:send'),
+  validate('json', createKeywordSchema),
+  auditLogger('create', 'keyword'),
+  KeywordController.createKeyword
+);
+
+// Get keyword responder by ID
+smsRouter.get(
+  '/keywords/:id',
+  validate('param', keywordParamsSchema),
+  KeywordController.getKeyword
+);
+
+// Update keyword responder
+smsRouter.patch(
+  '/keywords/:id',
+  requirePermissions('sms:send'),
+  validate('param', keywordParamsSchema),
+  validate('json', updateKeywordSchema),
+  auditLogger('update', 'keyword'),
+  KeywordController.updateKeyword
+);
+
+// Delete keyword responder
+smsRouter.delete(
+  '/keywords/:id',
+  requirePermissions('sms:send'),
+  validate('param', keywordParamsSchema),
+  auditLogger('delete', 'keyword'),
+  KeywordController.deleteKeyword
+);
+
+// ============================================
+// TEMPLATE ROUTES
+// ============================================
+
+// List templates
+smsRouter.get(
+  '/templates',
+  validate('query', queryTemplatesSchema),
+  TemplateController.listTemplates
+);
+
+// Create template
+smsRouter.post(
+  '/templates',
+  requirePermissions('sms:send'),
+  validate('json', createTemplateSchema),
+  auditLogger('create', 'template'),
+  TemplateController.createTemplate
+);
+
+// Get template by ID
+smsRouter.get(
+  '/templates/:id',
+  validate('param', templateParamsSchema),
+  TemplateController.getTemplate
+);
+
+// Update template
+smsRouter.patch(
+  '/templates/:id',
+  requirePermissions('sms:send'),
+  validate('param', templateParamsSchema),
+  validate('json', updateTemplateSchema),
+  auditLogger('update', 'template'),
+  TemplateController.updateTemplate
+);
+
+// Delete template
+smsRouter.delete(
+  '/templates/:id',
+  requirePermissions('sms:send'),
+  validate('param', templateParamsSchema),
+  auditLogger('delete', 'template'),
+  TemplateController.deleteTemplate
+);
+
+// Submit template for approval
+smsRouter.post(
+  '/templates/:id/submit',
+  requirePermissions('sms:send'),
+  validate('param', templateParamsSchema),
+  auditLogger('submit', 'template'),
+  TemplateController.submitTemplate
+);
+
+// ============================================
+// SINGLE SMS LOOKUP ROUTES
+// ============================================
+
 // Get SMS by ID
 smsRouter.get(
   '/:id',
@@ -107,37 +297,40 @@ smsRouter.post(
   checkLimits('sms'),
   checkBalance(async (c: Context) => {
     const body = await c.req.json();
-    
-    // Estimate total cost for all recipients
-    let totalCost = 0;
-    
-    for (const recipient of body.recipients) {
-      const message = recipient.message || body.message || '';
-      const messageUnits = SMSValidationService.calculateMessageUnits(message);
-      
-      const validation = SMSValidationService.validatePhoneNumber(recipient.to);
-      if (validation.valid) {
-        const pricing = await SMSRouterService.getPricing(
-          SMSRouterService.getCountryFromPhone(validation.formatted),
-          undefined,
-          'BULK',
-          messageUnits.units
-        );
-        totalCost += pricing.totalCost;
-      }
-    }
-    
-    return {
-      estimatedCost: totalCost,
-      currency: 'GHS',
-    };
+
+    // Priced once per (country, network) group, on the template's text if any
+    const message = await TemplateService.estimateContent(c.get('accountId'), body);
+    return BulkSMSService.estimateCost({ ...body, message });
   }),
   deductBalance,
   auditLogger('send_bulk', 'sms'),
   BulkSMSController.sendBulkSMS
 );
 
-// Get batch status
+// Upload a CSV/Excel recipient file (returns a draft preview)
+smsRouter.post(
+  '/bulk/upload',
+  requirePermissions('sms:send', 'sms:bulk'),
+  validate('form', bulkUploadSchema),
+  auditLogger('upload_bulk', 'sms'),
+  BulkSMSController.uploadRecipients
+);
+
+// Confirm an uploaded draft and start sending
+smsRouter.post(
+  '/bulk/upload/:batchId/confirm',
+  requirePermissions('sms:send', 'sms:bulk'),
+  validate('param', batchParamsSchema),
+  checkLimits('sms'),
+  checkBalance(async (c: Context) =>
+    BulkSMSService.getDraftEstimate(c.get('accountId'), c.req.param('batchId'))
+  ),
+  deductBalance,
+  auditLogger('send_bulk', 'sms'),
+  BulkSMSController.confirmUpload
+);
+
+// Get batch progress
 smsRouter.get(
   '/bulk/batch/:batchId',
   BulkSMSController.getBatchStatus
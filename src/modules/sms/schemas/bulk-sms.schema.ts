@@ -1,19 +1,22 @@
 import { z } from 'zod';
-import { phoneNumberSchema, senderIdSchema, messageSchema } from './send-sms.schema';
+import { env } from '@config/env';
+import { phoneNumberSchema, senderIdSchema, messageSchema, templateVariablesSchema } from './send-sms.schema';
 
 // Single recipient schema
 const recipientSchema = z.object({
   to: phoneNumberSchema,
   message: messageSchema.optional(),
-  variables: z.record(z.string()).optional(),
+  variables: templateVariablesSchema.optional(),
 });
 
 // Bulk SMS schema
 export const bulkSMSSchema = z.object({
   recipients: z.array(recipientSchema)
     .min(1, 'At least one recipient is required')
-    .max(10000, 'Maximum 10,000 recipients per batch'),
+    .max(env.SMS_BULK_MAX_RECIPIENTS, `Maximum ${env.SMS_BULK_MAX_RECIPIENTS.toLocaleString()} recipients per batch`),
   message: messageSchema.optional(),
+  templateId: z.string().min(1).optional(),
+  variables: templateVariablesSchema.optional(),
   senderId: senderIdSchema.optional(),
   scheduledFor: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
   metadata: z.record(z.any()).optional(),
@@ -21,7 +24,7 @@ export const bulkSMSSchema = z.object({
 }).refine(
   (data) => {
     // Either message must be provided at root level or for each recipient
-    if (!data.message) {
+    if (!data.message && !data.templateId) {
       return data.recipients.every(r => r.message);
     }
     return true;
@@ -29,6 +32,13 @@ export const bulkSMSSchema = z.object({
   {
     message: 'Either provide a default message or a message for each recipient',
   }
+).refine(
+  // A template batch sends the template to everyone
+  (data) => !data.templateId || (!data.message && data.recipients.every(r => !r.message)),
+  {
+    message: 'A templateId cannot be combined with messages',
+    path: ['templateId'],
+  }
 );
 
 export type BulkSMSInput = z.infer<typeof bulkSMSSchema>;
@@ -43,4 +53,47 @@ export const queryBulkSMSSchema = z.object({
   limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
 });
 
-export type QueryBulkSMSInput = z.infer<typeof queryBulkSMSSchema>;
\ No newline at end of file
+export type QueryBulkSMSInput = z.infer<typeof queryBulkSMSSchema>;
+// Template variable names usable in {{variable}} placeholders
+const variableNameSchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_.]*$/, 'Invalid variable name');
+
+// Bulk upload (multipart form) schema
+export const bulkUploadSchema = z.object({
+  file: z.instanceof(File, { message: 'A CSV or Excel file is required' }),
+  phoneColumn: z.string().min(1, 'Phone column is required'),
+  messageColumn: z.string().min(1).optional(),
+  message: messageSchema.optional(),
+  // JSON object mapping template variables to columns, e.g. {"name":"First Name"}
+  variables: z.string().optional().transform((val, ctx) => {
+    if (!val) return undefined;
+
+    try {
+      return z.record(variableNameSchema, z.string().min(1)).parse(JSON.parse(val));
+    } catch {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Variables must be a JSON object mapping variable names to column names',
+      });
+      return z.NEVER;
+    }
+  }),
+  sheet: z.string().optional(),
+  senderId: senderIdSchema.optional(),
+  scheduledFor: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  tags: z.string().optional().transform(val =>
+    val ? val.split(',').map(tag => tag.trim()).filter(Boolean) : undefined
+  ),
+}).refine(
+  (data) => data.message || data.messageColumn,
+  {
+    message: 'Provide a default message or a message column',
+    path: ['message'],
+  }
+);
+
+export type BulkUploadInput = z.infer<typeof bulkUploadSchema>;
+
+// Batch ID parameter schema
+export const batchParamsSchema = z.object({
+  batchId: z.string().min(1),
+});
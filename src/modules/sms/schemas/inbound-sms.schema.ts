@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+// Query inbound messages schema
+export const queryInboundSchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+  keyword: z.string().optional().transform(v => v?.toUpperCase()),
+  processed: z.enum(['true', 'false']).optional().transform(v => v === undefined ? undefined : v === 'true'),
+  search: z.string().optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
+});
+
+export type QueryInboundInput = z.infer<typeof queryInboundSchema>;
+
+// Inbound message by ID schema
+export const inboundParamsSchema = z.object({
+  id: z.string().min(1, 'Message ID is required'),
+});
+
+export type InboundParamsInput = z.infer<typeof inboundParamsSchema>;
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+// Numbers as routes store them: E.164 (+233...) or short codes (3-8 digits)
+const numberSchema = z
+  .string()
+  .transform(v => v.trim().replace(/^tel:/i, '').replace(/[\s\-().]/g, ''))
+  .pipe(z.string().regex(/^(\+[1-9]\d{7,14}|\d{3,8})$/, 'Number must be E.164 or a short code'));
+
+// One word, stored upper-case
+const keywordSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9]{1,20}$/, 'Keyword must be a single word of letters and digits')
+  .transform(v => v.toUpperCase());
+
+const replyMessageSchema = z.string().min(1).max(1600, 'Reply cannot exceed 1600 characters');
+
+const tagSchema = z.string().trim().min(1).max(50);
+
+// List keyword responders schema
+export const queryKeywordsSchema = z.object({
+  number: z.string().optional(),
+  keyword: z.string().optional().transform(v => v?.toUpperCase()),
+  isActive: z.enum(['true', 'false']).optional().transform(v => v === undefined ? undefined : v === 'true'),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
+});
+
+// Create keyword responder schema
+export const createKeywordSchema = z.object({
+  number: numberSchema,
+  keyword: keywordSchema,
+  templateId: z.string().min(1).nullable().optional().default(null),
+  replyMessage: replyMessageSchema.nullable().optional().default(null),
+  groupId: z.string().min(1).nullable().optional().default(null),
+  tag: tagSchema.nullable().optional().default(null),
+  webhookId: z.string().min(1).nullable().optional().default(null),
+})
+  .refine(data => !(data.templateId && data.replyMessage), {
+    message: 'Use either templateId or replyMessage, not both',
+    path: ['replyMessage'],
+  })
+  .refine(data => data.templateId || data.replyMessage || data.groupId || data.tag || data.webhookId, {
+    message: 'A keyword needs a reply or an action',
+  });
+
+// Update keyword responder schema (number and keyword are fixed)
+export const updateKeywordSchema = z.object({
+  templateId: z.string().min(1).nullable(),
+  replyMessage: replyMessageSchema.nullable(),
+  groupId: z.string().min(1).nullable(),
+  tag: tagSchema.nullable(),
+  webhookId: z.string().min(1).nullable(),
+  isActive: z.boolean(),
+})
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+  .refine(data => !(data.templateId && data.replyMessage), {
+    message: 'Use either templateId or replyMessage, not both',
+    path: ['replyMessage'],
+  });
+
+// Keyword responder param schema
+export const keywordParamsSchema = z.object({
+  id: z.string().min(1, 'Keyword ID is required'),
+});
+
+export type QueryKeywordsInput = z.infer<typeof queryKeywordsSchema>;
+export type CreateKeywordInput = z.infer<typeof createKeywordSchema>;
+export type UpdateKeywordInput = z.infer<typeof updateKeywordSchema>;
+export type KeywordParamsInput = z.infer<typeof keywordParamsSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// Query schedules schema
+export const querySchedulesSchema = z.object({
+  status: z.enum(['ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED']).optional(),
+  channel: z.enum(['SMS', 'EMAIL']).optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
+});
+
+export type QuerySchedulesInput = z.infer<typeof querySchedulesSchema>;
+
+// Schedule by ID schema
+export const scheduleParamsSchema = z.object({
+  id: z.string().min(1, 'Schedule ID is required'),
+});
+
+export type ScheduleParamsInput = z.infer<typeof scheduleParamsSchema>;
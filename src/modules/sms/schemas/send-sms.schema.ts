@@ -1,4 +1,10 @@
 import { z } from 'zod';
+import {
+  scheduledForSchema,
+  scheduleTimezoneSchema,
+  recurrenceSchema,
+  refineSchedule,
+} from '@utils/validation';
 
 // Phone number validation schema
 export const phoneNumberSchema = z.string()
@@ -17,15 +23,27 @@ export const messageSchema = z.string()
   .min(1, 'Message cannot be empty')
   .max(1600, 'Message exceeds maximum length of 1600 characters');
 
+// Values for a template's {{placeholders}}
+export const templateVariablesSchema = z.record(z.string().max(1600));
+
 // Send SMS schema
 export const sendSMSSchema = z.object({
   to: phoneNumberSchema,
-  message: messageSchema,
+  message: messageSchema.optional(),
+  templateId: z.string().min(1).optional(),
+  variables: templateVariablesSchema.optional(),
   senderId: senderIdSchema.optional(),
-  scheduledFor: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  scheduledFor: scheduledForSchema.optional(),
+  timezone: scheduleTimezoneSchema.optional(),
+  recurrence: recurrenceSchema.optional(),
   metadata: z.record(z.any()).optional(),
   tags: z.array(z.string()).optional(),
-});
+})
+  .refine(data => !!data.message !== !!data.templateId, {
+    message: 'Provide either message or templateId',
+    path: ['message'],
+  })
+  .superRefine(refineSchedule);
 
 export type SendSMSInput = z.infer<typeof sendSMSSchema>;
 
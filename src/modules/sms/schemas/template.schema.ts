@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { messageSchema } from './send-sms.schema';
+
+const APPROVAL_STATUSES = ['draft', 'pending', 'approved', 'rejected'] as const;
+
+const tagSchema = z.string().trim().min(1).max(50);
+
+// List templates schema
+export const queryTemplatesSchema = z.object({
+  search: z.string().optional(),
+  category: z.string().optional(),
+  approvalStatus: z.enum(APPROVAL_STATUSES).optional(),
+  isActive: z.enum(['true', 'false']).optional().transform(v => v === undefined ? undefined : v === 'true'),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
+});
+
+// Create template schema
+export const createTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  content: messageSchema,
+  category: z.string().trim().min(1).max(50).optional().default('general'),
+  language: z.string().trim().min(2).max(10).optional().default('en'),
+  tags: z.array(tagSchema).optional().default([]),
+  requiresApproval: z.boolean().optional().default(false),
+});
+
+// Update template schema
+export const updateTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  content: messageSchema,
+  category: z.string().trim().min(1).max(50),
+  language: z.string().trim().min(2).max(10),
+  tags: z.array(tagSchema),
+  requiresApproval: z.boolean(),
+  isActive: z.boolean(),
+})
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+// Admin review queue schema (pending first by default)
+export const queryTemplateReviewsSchema = z.object({
+  approvalStatus: z.enum(APPROVAL_STATUSES).optional().default('pending'),
+  accountId: z.string().optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 20),
+});
+
+// Admin rejection schema
+export const rejectTemplateSchema = z.object({
+  reason: z.string().trim().min(1, 'A rejection reason is required').max(500),
+});
+
+// Template param schema
+export const templateParamsSchema = z.object({
+  id: z.string().min(1, 'Template ID is required'),
+});
+
+export type QueryTemplatesInput = z.infer<typeof queryTemplatesSchema>;
+export type CreateTemplateInput = z.infer<typeof createTemplateSchema>;
+export type UpdateTemplateInput = z.infer<typeof updateTemplateSchema>;
+export type QueryTemplateReviewsInput = z.infer<typeof queryTemplateReviewsSchema>;
+export type RejectTemplateInput = z.infer<typeof rejectTemplateSchema>;
+export type TemplateParamsInput = z.infer<typeof templateParamsSchema>;
@@ -0,0 +1,712 @@
+import { logger } from '@utils/logger';
+import { detectNetwork } from '@utils/phone';
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+import { QueueManager, type Job } from '@services/queue/queue.manager';
+import { JobProcessor } from '@services/queue/job.processor';
+import { BillingService, type BalanceChange } from '@modules/billing/services/billing.service';
+import { SMSService } from './sms.service';
+import { SMSValidationService } from './sms-validation.service';
+import { SMSRouterService } from './sms-router.service';
+import { SMSQueueService } from './sms-queue.service';
+import { TemplateService } from './template.service';
+import { MNPLookupService } from '@core/providers/mnp';
+import { SuppressionService } from '@modules/suppressions/services/suppression.service';
+import { SendWindowService } from '@modules/send-windows/services/send-window.service';
+import { SenderIdService } from '@modules/sender-ids/services/sender-id.service';
+import type {
+  BulkSMSRequest,
+  BulkSMSResponse,
+  BulkBatchProgress,
+  BulkBatchStatus,
+} from '../types/sms.types';
+import { BatchStatus, MessageStatus, MessageType, Prisma } from '../../../../generated/prisma/client';
+
+export const SMS_BULK_QUEUE = 'sms.bulk';
+
+// Per-recipient errors kept on the batch; counters keep counting past this
+const MAX_STORED_REJECTIONS = 1000;
+
+// Uploaded drafts must be confirmed within a day
+export const DRAFT_TTL_MS = 24 * 60 * 60 * 1000;
+
+type BulkRecipient = BulkSMSRequest['recipients'][number];
+
+interface BulkChunkJob {
+  batchId: string;
+  chunk: number;
+  recipients: BulkRecipient[];
+}
+
+interface RecipientGroup {
+  country: string;
+  network?: string;
+  units: number;
+}
+
+// A chunk's inserted messages and the balance around its charge
+interface RecordedChunk {
+  inserted: Array<{ id: string; provider: string | null; status: MessageStatus }>;
+  balance: BalanceChange | null;
+}
+
+/**
+ * Bulk SMS
+ * A bulk send is accepted as a `MessageBatch` and split into chunk jobs
+ * of `SMS_BULK_CHUNK_SIZE` recipients. Workers validate each chunk, price
+ * it once per (country, network) group, insert its messages with a single
+ * `createMany` and hand them to the delivery queue.
+ *
+ * A chunk is recorded in `processedChunks` in the same transaction that
+ * charges it and inserts its messages, so a retried chunk job never inserts
+ * twice and no message exists that was not paid for.
+ */
+export class BulkSMSService {
+  // Register the chunk worker (jobs only run once JobProcessor starts)
+  static register(): void {
+    JobProcessor.register<BulkChunkJob>(
+      SMS_BULK_QUEUE,
+      job => this.processChunk(job),
+      {
+        concurrency: env.SMS_BULK_CONCURRENCY,
+        onDead: (job, error) => this.markChunkFailed(job, error),
+        onReplay: job => this.reopenChunk(job),
+      }
+    );
+  }
+
+  // Accept a bulk send: create the batch and queue its chunks
+  static async createBatch(
+    accountId: string,
+    request: BulkSMSRequest,
+    estimatedCost: number = 0
+  ): Promise<BulkSMSResponse> {
+    if (request.recipients.length > env.SMS_BULK_MAX_RECIPIENTS) {
+      throw new Error(`Maximum ${env.SMS_BULK_MAX_RECIPIENTS.toLocaleString()} recipients per batch`);
+    }
+
+    // Resolve the sender up front so a bad sender ID fails the request
+    const senderId = await SMSService.resolveSenderId(accountId, request.senderId);
+
+    // Template batches send the template's text as it is now
+    const template = request.templateId
+      ? await TemplateService.findUsable(accountId, request.templateId)
+      : null;
+
+    const totalChunks = this.countChunks(request.recipients.length);
+
+    const batch = await prisma.messageBatch.create({
+      data: {
+        accountId,
+        status: BatchStatus.PENDING,
+        message: template?.content ?? request.message,
+        templateId: template?.id,
+        senderId: senderId.id,
+        senderName: senderId.name,
+        scheduledFor: request.scheduledFor,
+        metadata: request.metadata,
+        tags: request.tags || [],
+        totalRecipients: request.recipients.length,
+        totalChunks,
+        estimatedCost,
+      },
+    });
+
+    // Shared variables travel with each recipient, which can override them
+    const recipients = request.variables
+      ? request.recipients.map(recipient => ({
+        ...recipient,
+        variables: { ...request.variables, ...recipient.variables },
+      }))
+      : request.recipients;
+
+    await this.enqueueChunks(batch.id, recipients);
+
+    if (template) {
+      await TemplateService.recordUse(template.id);
+    }
+
+    logger.info({
+      batchId: batch.id,
+      accountId,
+      totalRecipients: batch.totalRecipients,
+      totalChunks,
+    }, 'Bulk SMS batch accepted');
+
+    return this.formatAccepted(batch);
+  }
+
+  // Confirm an uploaded draft: queue the recipients it holds
+  static async confirmDraft(accountId: string, batchId: string): Promise<BulkSMSResponse> {
+    const batch = await prisma.messageBatch.findFirst({
+      where: { id: batchId, accountId },
+    });
+
+    if (!batch) {
+      throw new Error('Batch not found');
+    }
+
+    if (batch.status !== BatchStatus.DRAFT) {
+      throw new Error('Cannot confirm a batch that is not a draft');
+    }
+
+    if (batch.createdAt.getTime() < Date.now() - DRAFT_TTL_MS) {
+      throw new Error('Cannot confirm an expired upload, please upload the file again');
+    }
+
+    const recipients = (batch.recipients || []) as BulkRecipient[];
+    const totalChunks = this.countChunks(recipients.length);
+
+    // Only one confirmation wins
+    const claimed = await prisma.messageBatch.updateMany({
+      where: { id: batchId, status: BatchStatus.DRAFT },
+      data: {
+        status: BatchStatus.PENDING,
+        totalChunks,
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Cannot confirm a batch that is not a draft');
+    }
+
+    await this.enqueueChunks(batchId, recipients);
+
+    // The chunk jobs carry the recipients from here on
+    const confirmed = await prisma.messageBatch.update({
+      where: { id: batchId },
+      data: { recipients: Prisma.DbNull },
+    });
+
+    logger.info({
+      batchId,
+      accountId,
+      totalRecipients: confirmed.totalRecipients,
+      totalChunks,
+    }, 'Bulk SMS upload confirmed');
+
+    return this.formatAccepted(confirmed);
+  }
+
+  // Cost held on a draft, used for the balance check before confirming
+  static async getDraftEstimate(
+    accountId: string,
+    batchId: string
+  ): Promise<{ estimatedCost: number; currency: string }> {
+    const batch = await prisma.messageBatch.findFirst({
+      where: { id: batchId, accountId, status: BatchStatus.DRAFT },
+      select: { estimatedCost: true, currency: true },
+    });
+
+    return {
+      estimatedCost: batch?.estimatedCost || 0,
+      currency: batch?.currency || 'GHS',
+    };
+  }
+
+  // Estimate the cost of a bulk send, pricing each (country, network) group once
+  static async estimateCost(
+    request: { recipients: BulkRecipient[]; message?: string; variables?: Record<string, string> }
+  ): Promise<{ estimatedCost: number; currency: string; units: number }> {
+    const groups = new Map<string, RecipientGroup>();
+
+    for (const recipient of request.recipients) {
+      const validation = SMSValidationService.validatePhoneNumber(recipient.to);
+      if (!validation.valid) continue;
+
+      let message = recipient.message || request.message || '';
+      if (recipient.variables || request.variables) {
+        message = SMSValidationService.replaceVariables(message, { ...request.variables, ...recipient.variables });
+      }
+
+      const { units } = SMSValidationService.calculateMessageUnits(message);
+      this.addToGroup(groups, validation.formatted, units);
+    }
+
+    let estimatedCost = 0;
+    let currency = 'GHS';
+    let totalUnits = 0;
+
+    for (const group of groups.values()) {
+      const pricing = await SMSRouterService.getPricing(
+        group.country,
+        group.network,
+        MessageType.BULK,
+        group.units
+      );
+
+      estimatedCost += pricing.totalCost;
+      currency = pricing.currency;
+      totalUnits += group.units;
+    }
+
+    return { estimatedCost, currency, units: totalUnits };
+  }
+
+  // Batch progress
+  static async getBatchProgress(batchId: string, accountId: string): Promise<BulkBatchProgress> {
+    const batch = await prisma.messageBatch.findFirst({
+      where: { id: batchId, accountId },
+    });
+
+    if (!batch) {
+      throw new Error('Batch not found');
+    }
+
+    const statusCounts = await prisma.message.groupBy({
+      by: ['status'],
+      where: { batchId, accountId },
+      _count: { _all: true },
+    });
+
+    const count = (status: MessageStatus) =>
+      statusCounts.find(s => s.status === status)?._count._all || 0;
+
+    return {
+      batchId: batch.id,
+      status: batch.status as BulkBatchStatus,
+      totalRecipients: batch.totalRecipients,
+      processedRecipients: batch.accepted + batch.rejected,
+      accepted: batch.accepted,
+      rejected: batch.rejected,
+      chunks: {
+        total: batch.totalChunks,
+        processed: batch.processedChunks.length,
+        failed: batch.failedChunks.length,
+      },
+      delivery: {
+        pending: count(MessageStatus.PENDING),
+        queued: count(MessageStatus.QUEUED),
+        sent: count(MessageStatus.SENT),
+        delivered: count(MessageStatus.DELIVERED),
+        failed: count(MessageStatus.FAILED),
+      },
+      estimatedCost: batch.estimatedCost,
+      totalCost: batch.totalCost,
+      currency: batch.currency,
+      rejections: batch.rejections as Array<{ to: string; error: string }>,
+      scheduledFor: batch.scheduledFor || undefined,
+      startedAt: batch.startedAt || undefined,
+      completedAt: batch.completedAt || undefined,
+      createdAt: batch.createdAt,
+    };
+  }
+
+  // Validate, price and insert one chunk of recipients
+  private static async processChunk(job: Job<BulkChunkJob>): Promise<void> {
+    const { batchId, chunk, recipients } = job.data;
+
+    const batch = await prisma.messageBatch.findUnique({
+      where: { id: batchId },
+    });
+
+    if (!batch || batch.processedChunks.includes(chunk)) {
+      logger.debug({ batchId, chunk }, 'Skipping bulk SMS chunk');
+      return;
+    }
+
+    if (batch.status === BatchStatus.PENDING) {
+      await prisma.messageBatch.updateMany({
+        where: { id: batchId, status: BatchStatus.PENDING },
+        data: {
+          status: BatchStatus.PROCESSING,
+          startedAt: new Date(),
+        },
+      });
+    }
+
+    // Validate recipients and group them by destination
+    const valid: Array<{ to: string; content: string; units: number }> = [];
+    const accepted: Array<{ to: string; content: string; units: number; groupKey: string }> = [];
+    const rejections: Array<{ to: string; error: string }> = [];
+    const groups = new Map<string, RecipientGroup>();
+
+    // Ported numbers already looked up are routed and priced on their
+    // current network; bulk sends never trigger live lookups
+    const lookups = await MNPLookupService.getCached(recipients.map(recipient => recipient.to));
+
+    // Approval is read per chunk: a template edited back to draft stops
+    // going to countries that require registration
+    const template = batch.templateId
+      ? await prisma.template.findUnique({
+        where: { id: batch.templateId },
+        select: { approvalStatus: true },
+      })
+      : null;
+
+    for (const recipient of recipients) {
+      const message = recipient.message || batch.message;
+      if (!message) {
+        rejections.push({ to: recipient.to, error: 'No message provided' });
+        continue;
+      }
+
+      let content = message;
+
+      if (batch.templateId) {
+        try {
+          content = TemplateService.render(message, recipient.variables || {});
+        } catch (error: any) {
+          rejections.push({ to: recipient.to, error: error.message });
+          continue;
+        }
+      } else if (recipient.variables) {
+        content = SMSValidationService.replaceVariables(message, recipient.variables);
+      }
+
+      const validation = SMSValidationService.validatePhoneNumber(recipient.to);
+      if (!validation.valid) {
+        rejections.push({ to: recipient.to, error: validation.errors?.join(', ') || 'Invalid phone number' });
+        continue;
+      }
+
+      const { units } = SMSValidationService.calculateMessageUnits(content);
+      valid.push({ to: validation.formatted, content, units });
+    }
+
+    // Opted-out and do-not-disturb numbers are rejected with the reason
+    const suppressed = await SuppressionService.check(batch.accountId, valid.map(recipient => recipient.to));
+
+    for (const recipient of valid) {
+      const reason = suppressed.get(recipient.to);
+      if (reason) {
+        rejections.push({ to: recipient.to, error: SuppressionService.describe(reason) });
+        continue;
+      }
+
+      const groupKey = this.addToGroup(
+        groups,
+        recipient.to,
+        recipient.units,
+        lookups.get(recipient.to)?.network || undefined
+      );
+
+      accepted.push({ ...recipient, groupKey });
+    }
+
+    // Countries requiring registration refuse unapproved templates and
+    // sender IDs not approved for them
+    const countries = [...new Set([...groups.values()].map(group => group.country))];
+    const unregisteredTemplate = await TemplateService.unregisteredCountries(template, countries);
+    const unregisteredSender = await SenderIdService.unregisteredCountries(
+      batch.accountId,
+      batch.senderName,
+      countries
+    );
+
+    // One provider selection and one price lookup per group
+    const routes = new Map<string, { provider: string | null; ratePerUnit: number; currency: string }>();
+
+    for (const [key, group] of groups) {
+      const provider = await SMSRouterService.selectProvider({
+        country: group.country,
+        network: group.network,
+        messageType: MessageType.BULK,
+      });
+
+      const pricing = await SMSRouterService.getPricing(
+        group.country,
+        group.network,
+        MessageType.BULK,
+        1
+      );
+
+      routes.set(key, {
+        provider: provider?.id || null,
+        ratePerUnit: pricing.ratePerUnit,
+        currency: pricing.currency,
+      });
+    }
+
+    const isScheduled = !!batch.scheduledFor && batch.scheduledFor > new Date();
+    const queuedAt = isScheduled ? null : new Date();
+
+    // Recipients outside their send window wait for it to open
+    const deferrals = await SendWindowService.deferrals(
+      batch.accountId,
+      MessageType.BULK,
+      accepted.map(recipient => ({ phone: recipient.to, country: groups.get(recipient.groupKey)!.country })),
+      isScheduled ? batch.scheduledFor! : queuedAt!
+    );
+
+    const rows: Prisma.MessageCreateManyInput[] = [];
+    let totalCost = 0;
+    let deferred = 0;
+
+    for (const [index, recipient] of accepted.entries()) {
+      const route = routes.get(recipient.groupKey)!;
+      const group = groups.get(recipient.groupKey)!;
+      const deferredUntil = deferrals[index];
+
+      if (unregisteredTemplate.has(group.country)) {
+        rejections.push({ to: recipient.to, error: `Messages to ${group.country} must use an approved template` });
+        continue;
+      }
+
+      if (unregisteredSender.has(group.country)) {
+        rejections.push({ to: recipient.to, error: `Sender ID "${batch.senderName}" is not registered for ${group.country}` });
+        continue;
+      }
+
+      if (!route.provider) {
+        rejections.push({ to: recipient.to, error: 'No provider available' });
+        continue;
+      }
+
+      const cost = route.ratePerUnit * recipient.units;
+      totalCost += cost;
+
+      // Held for the scheduler: scheduled, or outside the send window
+      const isHeld = isScheduled || !!deferredUntil;
+      if (deferredUntil) deferred++;
+
+      rows.push({
+        accountId: batch.accountId,
+        recipient: recipient.to,
+        recipientCountry: group.country,
+        recipientNetwork: group.network,
+        content: recipient.content,
+        messageType: MessageType.BULK,
+        templateId: batch.templateId,
+        senderId: batch.senderId,
+        senderName: batch.senderName,
+        status: isHeld ? MessageStatus.PENDING : MessageStatus.QUEUED,
+        queuedAt: isHeld ? null : queuedAt,
+        provider: route.provider,
+        units: recipient.units,
+        unitCost: route.ratePerUnit,
+        totalCost: cost,
+        currency: route.currency,
+        batchId,
+        scheduledFor: deferredUntil ?? batch.scheduledFor,
+        metadata: batch.metadata ?? undefined,
+        tags: batch.tags,
+      });
+    }
+
+    // Record the chunk, charge it and insert its messages in one transaction,
+    // so a chunk is never marked processed without being paid for. A chunk
+    // the balance can no longer cover is recorded with every recipient rejected
+    const description = `Bulk SMS batch ${batchId} (chunk ${chunk + 1}/${batch.totalChunks})`;
+    let recorded: RecordedChunk | null;
+
+    try {
+      recorded = await this.recordChunk(batchId, chunk, rows, rejections, totalCost, {
+        accountId: batch.accountId,
+        description,
+      });
+    } catch (error: any) {
+      if (error.message !== 'Insufficient balance') throw error;
+
+      logger.warn({ batchId, chunk, totalCost }, 'Bulk SMS chunk could not be charged');
+
+      const unpaid = rows.map(row => ({ to: row.recipient, error: 'Insufficient balance' }));
+      recorded = await this.recordChunk(batchId, chunk, [], [...rejections, ...unpaid], 0, null);
+    }
+
+    if (!recorded) {
+      logger.debug({ batchId, chunk }, 'Bulk SMS chunk already processed');
+      return;
+    }
+
+    const { inserted, balance } = recorded;
+
+    if (balance) {
+      await BillingService.notifyBalanceChange(batch.accountId, balance);
+    }
+
+    // Scheduled and deferred messages stay PENDING until SMSSchedulerService claims them
+    const ready = inserted.filter(message => message.status === MessageStatus.QUEUED);
+    if (ready.length > 0) {
+      await SMSQueueService.enqueue(ready);
+    }
+
+    logger.info({
+      batchId,
+      chunk,
+      accepted: inserted.length,
+      rejected: rejections.length,
+      deferred,
+      totalCost,
+    }, 'Bulk SMS chunk processed');
+
+    await this.finalizeBatch(batchId);
+  }
+
+  // Mark the chunk processed, charge it and insert its messages. Null when
+  // another worker already processed the chunk; throws 'Insufficient
+  // balance' (and rolls back) when the account cannot cover `totalCost`
+  private static async recordChunk(
+    batchId: string,
+    chunk: number,
+    rows: Prisma.MessageCreateManyInput[],
+    rejections: Array<{ to: string; error: string }>,
+    totalCost: number,
+    charge: { accountId: string; description: string } | null
+  ): Promise<RecordedChunk | null> {
+    return prisma.$transaction(async (tx) => {
+      const claimed = await tx.$executeRaw`
+        UPDATE message_batches
+        SET "processedChunks" = array_append("processedChunks", ${chunk}),
+            accepted = accepted + ${rows.length},
+            rejected = rejected + ${rejections.length},
+            "totalCost" = "totalCost" + ${totalCost},
+            rejections = CASE
+              WHEN jsonb_array_length(rejections) < ${MAX_STORED_REJECTIONS}
+              THEN rejections || ${JSON.stringify(rejections)}::jsonb
+              ELSE rejections
+            END,
+            "updatedAt" = NOW()
+        WHERE id = ${batchId}
+          AND NOT (${chunk} = ANY("processedChunks"))
+      `;
+
+      if (claimed === 0) return null;
+
+      const balance = charge && totalCost > 0
+        ? await BillingService.charge(tx, charge.accountId, totalCost, 'sms', charge.description, { requireFunds: true })
+        : null;
+
+      const inserted = rows.length > 0
+        ? await tx.message.createManyAndReturn({
+            data: rows,
+            select: { id: true, provider: true, status: true },
+          })
+        : [];
+
+      return { inserted, balance };
+    }, { timeout: 30000 });
+  }
+
+  // Attempts exhausted: count the chunk as failed so the batch can finish
+  private static async markChunkFailed(job: Job<BulkChunkJob>, error: Error): Promise<void> {
+    const { batchId, chunk } = job.data;
+
+    await prisma.$executeRaw`
+      UPDATE message_batches
+      SET "failedChunks" = array_append("failedChunks", ${chunk}),
+          "updatedAt" = NOW()
+      WHERE id = ${batchId}
+        AND NOT (${chunk} = ANY("processedChunks"))
+        AND NOT (${chunk} = ANY("failedChunks"))
+    `;
+
+    logger.error({ batchId, chunk, error: error.message }, 'Bulk SMS chunk failed');
+
+    await this.finalizeBatch(batchId);
+  }
+
+  // Replayed from the dead-letter queue: the chunk is outstanding again
+  private static async reopenChunk(job: Job<BulkChunkJob>): Promise<void> {
+    const { batchId, chunk } = job.data;
+
+    await prisma.$executeRaw`
+      UPDATE message_batches
+      SET "failedChunks" = array_remove("failedChunks", ${chunk}),
+          status = 'PROCESSING',
+          "completedAt" = NULL,
+          "updatedAt" = NOW()
+      WHERE id = ${batchId}
+        AND ${chunk} = ANY("failedChunks")
+    `;
+  }
+
+  // Close the batch once every chunk has been processed or has failed
+  private static async finalizeBatch(batchId: string): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE message_batches
+      SET status = CASE
+            WHEN cardinality("processedChunks") = 0 THEN 'FAILED'::"BatchStatus"
+            ELSE 'COMPLETED'::"BatchStatus"
+          END,
+          "completedAt" = NOW(),
+          "updatedAt" = NOW()
+      WHERE id = ${batchId}
+        AND status IN ('PENDING', 'PROCESSING')
+        AND cardinality("processedChunks") + cardinality("failedChunks") >= "totalChunks"
+    `;
+  }
+
+  // Split recipients into chunk jobs; the job ID makes re-queueing a chunk a no-op
+  private static async enqueueChunks(batchId: string, recipients: BulkRecipient[]): Promise<void> {
+    const chunkSize = Math.max(1, env.SMS_BULK_CHUNK_SIZE);
+
+    try {
+      const jobs: Promise<unknown>[] = [];
+
+      for (let chunk = 0; chunk * chunkSize < recipients.length; chunk++) {
+        jobs.push(QueueManager.add<BulkChunkJob>(
+          SMS_BULK_QUEUE,
+          {
+            batchId,
+            chunk,
+            recipients: recipients.slice(chunk * chunkSize, (chunk + 1) * chunkSize),
+          },
+          { jobId: `${batchId}:${chunk}` }
+        ));
+      }
+
+      await Promise.all(jobs);
+    } catch (error) {
+      await prisma.messageBatch.update({
+        where: { id: batchId },
+        data: {
+          status: BatchStatus.FAILED,
+          completedAt: new Date(),
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  private static countChunks(recipients: number): number {
+    return Math.ceil(recipients / Math.max(1, env.SMS_BULK_CHUNK_SIZE));
+  }
+
+  private static formatAccepted(batch: {
+    id: string;
+    status: BatchStatus;
+    totalRecipients: number;
+    totalChunks: number;
+    estimatedCost: number;
+    currency: string;
+    fileName: string | null;
+    scheduledFor: Date | null;
+    createdAt: Date;
+  }): BulkSMSResponse {
+    return {
+      batchId: batch.id,
+      status: batch.status as BulkBatchStatus,
+      totalRecipients: batch.totalRecipients,
+      totalChunks: batch.totalChunks,
+      estimatedCost: batch.estimatedCost,
+      currency: batch.currency,
+      fileName: batch.fileName || undefined,
+      scheduledFor: batch.scheduledFor || undefined,
+      createdAt: batch.createdAt,
+    };
+  }
+
+  // Add a recipient's units to its (country, network) group. Without a
+  // known current network the number prefix decides.
+  private static addToGroup(
+    groups: Map<string, RecipientGroup>,
+    phone: string,
+    units: number,
+    currentNetwork?: string
+  ): string {
+    const country = SMSRouterService.getCountryFromPhone(phone);
+    const network = currentNetwork || detectNetwork(phone).network || undefined;
+    const key = `${country}:${network || ''}`;
+
+    const group = groups.get(key);
+    if (group) {
+      group.units += units;
+    } else {
+      groups.set(key, { country, network, units });
+    }
+
+    return key;
+  }
+}
@@ -0,0 +1,185 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+import { parseSpreadsheet, FIRST_DATA_ROW } from '@utils/spreadsheet';
+import { SMSService } from './sms.service';
+import { SMSValidationService } from './sms-validation.service';
+import { BulkSMSService, DRAFT_TTL_MS } from './bulk-sms.service';
+import type { BulkSMSRequest, BulkUploadPreview } from '../types/sms.types';
+import type { BulkUploadInput } from '../schemas/bulk-sms.schema';
+import { BatchStatus } from '../../../../generated/prisma/client';
+
+// Row errors and sample messages returned with the preview
+const MAX_PREVIEW_ERRORS = 500;
+const MAX_PREVIEW_ROWS = 10;
+
+/**
+ * Bulk Upload
+ * Turns a CSV or Excel recipient file into a draft bulk batch. Every row is
+ * validated and priced up front; the draft holds the valid recipients until
+ * it is confirmed through `BulkSMSService.confirmDraft`.
+ */
+export class BulkUploadService {
+  // Parse, validate and price an uploaded file, returning a preview
+  static async createPreview(
+    accountId: string,
+    input: BulkUploadInput
+  ): Promise<BulkUploadPreview> {
+    const { file } = input;
+
+    if (file.size > env.SMS_BULK_UPLOAD_MAX_MB * 1024 * 1024) {
+      throw new Error(`File size must not exceed ${env.SMS_BULK_UPLOAD_MAX_MB}MB`);
+    }
+
+    const parsed = await parseSpreadsheet(file, input.sheet);
+
+    if (parsed.rows.length === 0) {
+      throw new Error('The file has no data rows');
+    }
+
+    if (parsed.rows.length > env.SMS_BULK_MAX_RECIPIENTS) {
+      throw new Error(`Maximum ${env.SMS_BULK_MAX_RECIPIENTS.toLocaleString()} recipients per batch`);
+    }
+
+    // Check the mapping against the header row
+    const variables = input.variables || this.defaultVariables(parsed.columns, input);
+    const mapped = [input.phoneColumn, input.messageColumn, ...Object.values(variables)]
+      .filter((column): column is string => !!column);
+    const missing = mapped.filter(column => !parsed.columns.includes(column));
+
+    if (missing.length > 0) {
+      throw new Error(`Column not found in file: ${[...new Set(missing)].join(', ')}`);
+    }
+
+    // Resolve the sender now so the draft can't fail on confirm
+    const senderId = await SMSService.resolveSenderId(accountId, input.senderId);
+
+    const recipients: BulkSMSRequest['recipients'] = [];
+    const errors: BulkUploadPreview['errors'] = [];
+    const preview: BulkUploadPreview['preview'] = [];
+    let invalidRows = 0;
+
+    parsed.rows.forEach((row, index) => {
+      const rowNumber = index + FIRST_DATA_ROW;
+      const rowErrors: string[] = [];
+
+      const phone = this.normalizePhone(row[input.phoneColumn] || '');
+      if (!phone) {
+        rowErrors.push('Phone number is missing');
+      } else {
+        const validation = SMSValidationService.validatePhoneNumber(phone);
+        if (!validation.valid) {
+          rowErrors.push(...(validation.errors || ['Invalid phone number']));
+        }
+      }
+
+      const template = (input.messageColumn && row[input.messageColumn]) || input.message || '';
+      const values: Record<string, string> = {};
+      for (const [name, column] of Object.entries(variables)) {
+        values[name] = row[column] ?? '';
+      }
+
+      const message = SMSValidationService.replaceVariables(template, values);
+
+      if (!message.trim()) {
+        rowErrors.push('Message is missing');
+      } else {
+        const unresolved = message.match(/{{\s*[\w.]+\s*}}/g);
+        if (unresolved) {
+          rowErrors.push(`No value for ${[...new Set(unresolved)].join(', ')}`);
+        }
+
+        const messageValidation = SMSValidationService.validateMessage(message);
+        if (!messageValidation.valid) {
+          rowErrors.push(...(messageValidation.errors || ['Invalid message']));
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        invalidRows++;
+        if (errors.length < MAX_PREVIEW_ERRORS) {
+          errors.push({ row: rowNumber, phone: phone || undefined, errors: rowErrors });
+        }
+        return;
+      }
+
+      const formatted = SMSValidationService.validatePhoneNumber(phone).formatted;
+      recipients.push({ to: formatted, message });
+
+      if (preview.length < MAX_PREVIEW_ROWS) {
+        preview.push({
+          row: rowNumber,
+          to: formatted,
+          message,
+          units: SMSValidationService.calculateMessageUnits(message).units,
+        });
+      }
+    });
+
+    const estimate = await BulkSMSService.estimateCost({ recipients });
+
+    const batch = await prisma.messageBatch.create({
+      data: {
+        accountId,
+        status: BatchStatus.DRAFT,
+        senderId: senderId.id,
+        senderName: senderId.name,
+        scheduledFor: input.scheduledFor,
+        tags: input.tags || [],
+        fileName: file.name,
+        recipients,
+        totalRecipients: recipients.length,
+        totalChunks: 0,
+        estimatedCost: estimate.estimatedCost,
+        currency: estimate.currency,
+      },
+    });
+
+    logger.info({
+      batchId: batch.id,
+      accountId,
+      fileName: file.name,
+      totalRows: parsed.rows.length,
+      invalidRows,
+    }, 'Bulk SMS upload parsed');
+
+    return {
+      batchId: batch.id,
+      status: 'DRAFT',
+      fileName: file.name,
+      columns: parsed.columns,
+      totalRows: parsed.rows.length,
+      validRows: recipients.length,
+      invalidRows,
+      units: estimate.units,
+      estimatedCost: estimate.estimatedCost,
+      currency: estimate.currency,
+      errors,
+      preview,
+      expiresAt: new Date(batch.createdAt.getTime() + DRAFT_TTL_MS),
+    };
+  }
+
+  // Spreadsheets drop the leading + from numbers stored as numeric cells
+  private static normalizePhone(value: string): string {
+    const phone = value.trim();
+    return /^[1-9]\d{7,14}$/.test(phone) ? `+${phone}` : phone;
+  }
+
+  // Without a mapping, every other column is available as {{header}}
+  private static defaultVariables(
+    columns: string[],
+    input: BulkUploadInput
+  ): Record<string, string> {
+    const variables: Record<string, string> = {};
+
+    for (const column of columns) {
+      if (column === input.phoneColumn || column === input.messageColumn) continue;
+      if (/^[A-Za-z_][A-Za-z0-9_.]*$/.test(column)) {
+        variables[column] = column;
+      }
+    }
+
+    return variables;
+  }
+}
@@ -0,0 +1,242 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+import { smsStatusChecks } from '@utils/metrics';
+import { SMSProviderRouter, type DeliveryStatus } from '@core/providers/sms';
+import { DeliveryReceiptHandler } from '@webhooks/handlers/delivery-receipt.handler';
+import { MessageStatus, type Message } from '../../../../generated/prisma/client';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Time between status checks by message age: [age below, delay]. Most
+// receipts arrive within minutes, so young messages are checked often.
+const CHECK_SCHEDULE: Array<[number, number]> = [
+  [15 * MINUTE, 2 * MINUTE],
+  [HOUR, 10 * MINUTE],
+  [6 * HOUR, 30 * MINUTE],
+  [24 * HOUR, 2 * HOUR],
+];
+const LATE_CHECK_DELAY = 6 * HOUR;
+
+// A claimed message is not picked up again for this long, so a tick that
+// dies halfway is retried by a later one
+const CLAIM_LEASE_MS = 5 * MINUTE;
+
+type CheckResult = 'updated' | 'pending' | 'expired' | 'error';
+
+/**
+ * Delivery Status Reconciler
+ * Polls providers for SENT messages that have no final status yet: for
+ * providers without delivery receipt callbacks, and for receipts that never
+ * arrived. Due messages are claimed with `FOR UPDATE SKIP LOCKED`, grouped
+ * by provider and checked in batches (`BaseSMSProvider.getDeliveryStatuses`).
+ *
+ * Checks back off as the message gets older (CHECK_SCHEDULE) and stop at
+ * `Message.expiresAt`: a message with no final status after its last check
+ * becomes EXPIRED. Status changes go through DeliveryReceiptHandler, so
+ * stats and webhooks are the same as for a callback.
+ */
+export class DeliveryReconcilerService {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static currentTick: Promise<number> | null = null;
+
+  // Start polling for messages due a status check
+  static start(intervalMs: number = env.SMS_RECONCILER_INTERVAL): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runTick();
+    }, intervalMs);
+
+    this.runTick();
+
+    logger.info({ intervalMs }, 'Delivery reconciler started');
+  }
+
+  // Stop polling and wait for the in-flight tick to finish
+  static async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentTick) {
+      await this.currentTick.catch(() => undefined);
+    }
+
+    logger.info('Delivery reconciler stopped');
+  }
+
+  // When a message sent at `sentAt` is given up on
+  static expiresAt(sentAt: Date): Date {
+    return new Date(sentAt.getTime() + env.SMS_DELIVERY_EXPIRY_HOURS * HOUR);
+  }
+
+  // Next status check for a message, never later than its expiry
+  static nextCheckAt(sentAt: Date, expiresAt: Date | null, now: Date = new Date()): Date {
+    const age = now.getTime() - sentAt.getTime();
+    const tier = CHECK_SCHEDULE.find(([maxAge]) => age < maxAge);
+    const next = new Date(now.getTime() + (tier ? tier[1] : LATE_CHECK_DELAY));
+
+    return expiresAt && expiresAt < next ? expiresAt : next;
+  }
+
+  // Run a tick unless one is already in progress
+  private static runTick(): void {
+    if (this.currentTick) return;
+
+    this.currentTick = this.tick()
+      .catch(error => {
+        logger.error({ error }, 'Delivery reconciler tick failed');
+        return 0;
+      })
+      .finally(() => {
+        this.currentTick = null;
+      });
+  }
+
+  // Check every message that is due, returns the number checked
+  static async tick(): Promise<number> {
+    const totals: Record<CheckResult, number> = { updated: 0, pending: 0, expired: 0, error: 0 };
+    let checked = 0;
+
+    while (true) {
+      const messages = await this.claimDueMessages(env.SMS_RECONCILER_BATCH_SIZE);
+      if (messages.length === 0) break;
+
+      for (const [provider, group] of this.groupByProvider(messages)) {
+        const results = await this.checkGroup(provider, group);
+
+        for (const result of results) {
+          totals[result]++;
+          smsStatusChecks.inc({ provider, result });
+        }
+      }
+
+      checked += messages.length;
+
+      if (messages.length < env.SMS_RECONCILER_BATCH_SIZE) break;
+    }
+
+    if (checked > 0) {
+      logger.info({ checked, ...totals }, 'Delivery statuses reconciled');
+    }
+
+    return checked;
+  }
+
+  // Lease due SENT messages by pushing their next check forward
+  private static async claimDueMessages(limit: number): Promise<Message[]> {
+    const leaseUntil = new Date(Date.now() + CLAIM_LEASE_MS);
+
+    const claimed = await prisma.$queryRaw<Array<{ id: string }>>`
+      UPDATE messages
+      SET "nextStatusCheckAt" = ${leaseUntil}, "statusChecks" = "statusChecks" + 1
+      WHERE id IN (
+        SELECT id FROM messages
+        WHERE status = 'SENT'
+          AND COALESCE("nextStatusCheckAt", "sentAt") <= NOW()
+        ORDER BY COALESCE("nextStatusCheckAt", "sentAt") ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `;
+
+    if (claimed.length === 0) return [];
+
+    return prisma.message.findMany({
+      where: { id: { in: claimed.map((row: { id: string }) => row.id) } },
+    });
+  }
+
+  private static groupByProvider(messages: Message[]): Map<string, Message[]> {
+    const groups = new Map<string, Message[]>();
+
+    for (const message of messages) {
+      const provider = message.provider || 'unknown';
+      groups.set(provider, [...(groups.get(provider) || []), message]);
+    }
+
+    return groups;
+  }
+
+  // Poll one provider for a group of its messages and act on each status
+  private static async checkGroup(provider: string, messages: Message[]): Promise<CheckResult[]> {
+    const pollable = messages.filter(message => message.provider && message.providerId);
+    const statuses = new Map<string, DeliveryStatus>();
+
+    if (pollable.length > 0) {
+      const results = await SMSProviderRouter.checkDeliveryStatuses(
+        provider,
+        pollable.map(message => message.providerId!)
+      );
+
+      for (const status of results) {
+        statuses.set(status.externalId, status);
+      }
+    }
+
+    const outcomes: CheckResult[] = [];
+
+    for (const message of messages) {
+      try {
+        outcomes.push(await this.reconcile(message, statuses.get(message.providerId || '')));
+      } catch (error) {
+        logger.error({ error, messageId: message.id }, 'Delivery status reconcile failed');
+        outcomes.push('error');
+      }
+    }
+
+    return outcomes;
+  }
+
+  private static async reconcile(message: Message, status?: DeliveryStatus): Promise<CheckResult> {
+    const now = new Date();
+
+    if (status && ['delivered', 'failed', 'expired'].includes(status.status)) {
+      await DeliveryReceiptHandler.apply(message, status);
+      return 'updated';
+    }
+
+    const sentAt = message.sentAt || message.createdAt;
+    const expiresAt = message.expiresAt || this.expiresAt(sentAt);
+
+    // Last check done and still no final status
+    if (expiresAt <= now) {
+      await DeliveryReceiptHandler.apply(message, {
+        status: 'expired',
+        externalId: message.providerId || message.id,
+        providerStatus: status?.providerStatus,
+        error: 'No delivery receipt before the message expired',
+      });
+      return 'expired';
+    }
+
+    const providerStatus = status && status.status !== 'unknown'
+      ? status.providerStatus || status.status
+      : undefined;
+
+    await prisma.message.updateMany({
+      where: { id: message.id, status: MessageStatus.SENT },
+      data: {
+        nextStatusCheckAt: this.nextCheckAt(sentAt, expiresAt, now),
+        ...(providerStatus && { providerStatus }),
+      },
+    });
+
+    if (!status || status.status === 'unknown') {
+      logger.debug({
+        messageId: message.id,
+        provider: message.provider,
+        error: status?.error,
+      }, 'Delivery status unavailable');
+      return 'error';
+    }
+
+    return 'pending';
+  }
+}
+
+export default DeliveryReconcilerService;
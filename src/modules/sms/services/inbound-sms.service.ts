@@ -0,0 +1,276 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { smsInboundMessages } from '@utils/metrics';
+import { detectNetwork } from '@utils/phone';
+import { WebhookDispatcher } from '@modules/webhooks/services/webhook-dispatcher.service';
+import { ConversationService } from '@modules/conversations/services/conversation.service';
+import { KeywordResponderService } from './keyword-responder.service';
+import type { InboundSMS } from '@core/providers/sms';
+import type { InboundMessageResponse, InboundReceiveResult } from '../types/sms.types';
+import type { QueryInboundInput } from '../schemas/inbound-sms.schema';
+import type { InboundMessage, InboundRoute, Prisma } from '../../../../generated/prisma/client';
+
+/**
+ * Inbound SMS Service
+ * Stores messages that providers receive on our numbers and short codes,
+ * and hands them to the owning account. The account is found through
+ * `InboundRoute`: a route whose keyword matches the first word of the
+ * message wins, then the number's catch-all route (no keyword). Messages
+ * with no route are kept without an account for support to look at;
+ * opt-out and help words on a shared number go to the account that last
+ * texted the sender from it. Routed messages are added to the sender's
+ * conversation thread, handed to KeywordResponderService and raised as
+ * MESSAGE_RECEIVED; `processed` is set once all of that is done.
+ */
+export class InboundSMSService {
+  // Store a provider's inbound messages and hand routed ones to their
+  // account. A repeated callback for a message that is already processed
+  // is dropped; one for a message whose handling failed part-way (the
+  // provider retries after an error response) runs the remaining steps.
+  static async receive(provider: string, messages: InboundSMS[]): Promise<InboundReceiveResult> {
+    const result: InboundReceiveResult = { stored: 0, duplicates: 0, unrouted: 0 };
+
+    for (const inbound of messages) {
+      const stored = await this.store(provider, inbound);
+
+      if (!stored || stored.retried) {
+        result.duplicates++;
+        smsInboundMessages.inc({ provider, result: 'duplicate' });
+        if (!stored) continue;
+      } else {
+        result.stored++;
+      }
+
+      const { message } = stored;
+
+      if (!message.accountId) {
+        result.unrouted++;
+        smsInboundMessages.inc({ provider, result: 'unrouted' });
+        logger.warn({ provider, to: message.to, inboundId: message.id }, 'Inbound SMS has no route');
+        continue;
+      }
+
+      if (!stored.retried) {
+        smsInboundMessages.inc({ provider, result: 'routed' });
+      }
+
+      await this.process(message.accountId, message);
+    }
+
+    return result;
+  }
+
+  // Add a routed message to its conversation, run its keyword and raise
+  // MESSAGE_RECEIVED, then mark it processed. Steps a failed attempt
+  // already completed (conversation, keyword reply) are not repeated.
+  private static async process(accountId: string, message: InboundMessage): Promise<void> {
+    const conversationId = message.conversationId ?? await ConversationService.recordInbound(message);
+    const keyword = message.response === null
+      ? await KeywordResponderService.handle(message, this.keywordOf(message.content), conversationId)
+      : null;
+
+    const data = {
+      ...this.webhookData(message),
+      keyword: keyword?.keyword || message.keyword,
+      conversationId,
+    };
+
+    await WebhookDispatcher.emit(accountId, 'MESSAGE_RECEIVED', data);
+
+    if (keyword?.webhookId) {
+      await WebhookDispatcher.emit(accountId, 'MESSAGE_RECEIVED', data, {
+        webhookId: keyword.webhookId,
+      });
+    }
+
+    await prisma.inboundMessage.update({
+      where: { id: message.id },
+      data: { processed: true, processedAt: new Date() },
+    });
+  }
+
+  // List an account's inbound messages, newest first
+  static async listInbound(
+    accountId: string,
+    filters: QueryInboundInput
+  ): Promise<{ messages: InboundMessageResponse[]; total: number }> {
+    const where: Prisma.InboundMessageWhereInput = { accountId };
+
+    if (filters.from) {
+      where.from = this.normalizeAddress(filters.from);
+    }
+
+    if (filters.to) {
+      where.to = this.normalizeAddress(filters.to);
+    }
+
+    if (filters.keyword) {
+      where.keyword = filters.keyword;
+    }
+
+    if (filters.processed !== undefined) {
+      where.processed = filters.processed;
+    }
+
+    if (filters.search) {
+      where.content = { contains: filters.search, mode: 'insensitive' };
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {
+        ...(filters.startDate && { gte: new Date(filters.startDate) }),
+        ...(filters.endDate && { lte: new Date(filters.endDate) }),
+      };
+    }
+
+    const [messages, total] = await Promise.all([
+      prisma.inboundMessage.findMany({
+        where,
+        take: filters.limit,
+        skip: (filters.page - 1) * filters.limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.inboundMessage.count({ where }),
+    ]);
+
+    return {
+      messages: messages.map(message => this.formatInbound(message)),
+      total,
+    };
+  }
+
+  // Get a single inbound message
+  static async getInbound(accountId: string, id: string): Promise<InboundMessageResponse> {
+    const message = await prisma.inboundMessage.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!message) {
+      throw new Error('Inbound message not found');
+    }
+
+    return this.formatInbound(message);
+  }
+
+  // Find the route for a message sent to `to`
+  static async resolveRoute(
+    to: string,
+    content: string,
+    provider?: string
+  ): Promise<InboundRoute | null> {
+    const routes = await prisma.inboundRoute.findMany({
+      where: {
+        number: to,
+        isActive: true,
+        OR: [{ provider: null }, ...(provider ? [{ provider }] : [])],
+      },
+    });
+
+    const keyword = this.keywordOf(content);
+
+    return routes.find(route => route.keyword && route.keyword === keyword)
+      || routes.find(route => !route.keyword)
+      || null;
+  }
+
+  // Numbers as stored on routes and messages: no `tel:` prefix or spacing
+  static normalizeAddress(value: string): string {
+    return value.trim().replace(/^tel:/i, '').replace(/[\s\-().]/g, '');
+  }
+
+  // First word of a message, upper-case ("stop please" -> "STOP")
+  static keywordOf(content: string): string | null {
+    const word = content.trim().split(/\s+/)[0];
+    return word ? word.toUpperCase() : null;
+  }
+
+  // Save one message with its account. A message stored by an earlier
+  // callback is returned as `retried` while it still needs processing;
+  // null when there is nothing left to do
+  private static async store(
+    provider: string,
+    inbound: InboundSMS
+  ): Promise<{ message: InboundMessage; retried: boolean } | null> {
+    if (inbound.externalId) {
+      const existing = await prisma.inboundMessage.findUnique({
+        where: {
+          provider_providerId: {
+            provider,
+            providerId: inbound.externalId,
+          },
+        },
+      });
+
+      if (existing) {
+        return existing.processed || !existing.accountId ? null : { message: existing, retried: true };
+      }
+    }
+
+    const from = this.normalizeAddress(inbound.from);
+    const to = this.normalizeAddress(inbound.to);
+    const route = await this.resolveRoute(to, inbound.content, provider);
+    const accountId = route?.accountId
+      || (KeywordResponderService.builtInKeyword(this.keywordOf(inbound.content))
+        ? await KeywordResponderService.lastSenderAccountId(from, to)
+        : null);
+    const detected = detectNetwork(from);
+
+    try {
+      const message = await prisma.inboundMessage.create({
+        data: {
+          accountId,
+          routeId: route?.id,
+          from,
+          to,
+          content: inbound.content,
+          keyword: route?.keyword || null,
+          network: inbound.network || detected.network,
+          country: detected.country,
+          provider,
+          providerId: inbound.externalId,
+          rawData: inbound.metadata,
+          receivedAt: inbound.receivedAt,
+        },
+      });
+
+      return { message, retried: false };
+    } catch (error: any) {
+      // Same callback stored (and being processed) by a concurrent request
+      if (error.code === 'P2002') return null;
+      throw error;
+    }
+  }
+
+  private static webhookData(message: InboundMessage): Record<string, any> {
+    return {
+      messageId: message.id,
+      from: message.from,
+      to: message.to,
+      content: message.content,
+      keyword: message.keyword,
+      network: message.network,
+      country: message.country,
+      receivedAt: message.receivedAt || message.createdAt,
+    };
+  }
+
+  private static formatInbound(message: InboundMessage): InboundMessageResponse {
+    return {
+      id: message.id,
+      from: message.from,
+      to: message.to,
+      content: message.content,
+      keyword: message.keyword,
+      network: message.network,
+      country: message.country,
+      provider: message.provider,
+      conversationId: message.conversationId,
+      processed: message.processed,
+      processedAt: message.processedAt,
+      response: message.response,
+      receivedAt: message.receivedAt || message.createdAt,
+    };
+  }
+}
+
+export default InboundSMSService;
@@ -0,0 +1,547 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { smsKeywordMatches } from '@utils/metrics';
+import { BillingService } from '@modules/billing/services/billing.service';
+import { SuppressionService } from '@modules/suppressions/services/suppression.service';
+import { SMSService } from './sms.service';
+import { SMSValidationService } from './sms-validation.service';
+import { SMSRouterService } from './sms-router.service';
+import type { KeywordResponderResponse, KeywordResult } from '../types/sms.types';
+import type {
+  QueryKeywordsInput,
+  CreateKeywordInput,
+  UpdateKeywordInput,
+} from '../schemas/keyword.schema';
+import {
+  MessageType,
+  type InboundMessage,
+  type KeywordResponder,
+  type Template,
+  type Webhook,
+  type Prisma,
+} from '../../../../generated/prisma/client';
+
+type BuiltInType = 'opt_out' | 'opt_in' | 'help';
+
+// Words handled for every account, by language. Matched upper-case with
+// accents removed (ARRÊT -> ARRET).
+const BUILT_IN_KEYWORDS: Record<BuiltInType, Record<string, string[]>> = {
+  opt_out: {
+    en: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT'],
+    fr: ['ARRET', 'DESABONNER', 'DESINSCRIRE'],
+    pt: ['PARAR', 'SAIR'],
+    sw: ['ACHA', 'SITISHA'],
+    ha: ['TSAYA', 'DAINA'],
+    tw: ['GYAE'],
+    yo: ['DURO'],
+  },
+  opt_in: {
+    en: ['START', 'SUBSCRIBE', 'UNSTOP'],
+  },
+  help: {
+    en: ['HELP', 'INFO'],
+    fr: ['AIDE'],
+    pt: ['AJUDA'],
+    sw: ['MSAADA'],
+    ha: ['TAIMAKO'],
+    tw: ['MMOA'],
+    yo: ['IRANLOWO'],
+  },
+};
+
+// Confirmations; a language without one here gets English
+const BUILT_IN_REPLIES: Record<BuiltInType, Record<string, string>> = {
+  opt_out: {
+    en: 'You have been unsubscribed from {brand} messages. Reply START to subscribe again.',
+    fr: 'Vous êtes désabonné des messages de {brand}. Répondez START pour vous réabonner.',
+    pt: 'Você não receberá mais mensagens de {brand}. Responda START para voltar a receber.',
+    sw: 'Umejiondoa kwenye ujumbe wa {brand}. Jibu START kujiunga tena.',
+  },
+  opt_in: {
+    en: 'You are subscribed to {brand} messages again. Reply STOP to unsubscribe.',
+  },
+  help: {
+    en: '{brand}: for help contact {contact}. Reply STOP to unsubscribe.',
+    fr: '{brand} : pour toute aide, contactez {contact}. Répondez STOP pour vous désabonner.',
+  },
+};
+
+type ResponderWithRelations = KeywordResponder & {
+  template: Template | null;
+  webhook: Pick<Webhook, 'events'> | null;
+};
+
+/**
+ * Keyword Responder Service
+ * Acts on the first word of routed inbound messages. Opt-out (STOP) and
+ * opt-in (START) words update `Contact.isSubscribed` and the account's
+ * suppression list and send a confirmation; they cannot be registered by
+ * accounts. The opt-out confirmation goes out before the number is
+ * suppressed; a failure to suppress it is thrown, so the message stays
+ * unprocessed and the provider's retry applies the opt-out. For other words the
+ * account's responder on the number runs: an auto-reply from a template or
+ * text, and optional actions (add the sender to a contact group, tag the
+ * contact, forward the message to one webhook). HELP words get a default
+ * reply unless the account has its own responder for them.
+ *
+ * Auto-replies are sent on the number the keyword came in on and charged
+ * like any other SMS; an account without the balance gets no reply.
+ */
+export class KeywordResponderService {
+  // Handle a routed inbound message; null when no keyword applies
+  static async handle(
+    message: InboundMessage,
+    keyword: string | null,
+    conversationId: string | null
+  ): Promise<KeywordResult | null> {
+    if (!message.accountId || !keyword) return null;
+
+    let result: KeywordResult | null;
+
+    try {
+      result = await this.match(message, keyword);
+      if (!result) return null;
+
+      smsKeywordMatches.inc({ type: result.type });
+
+      if (result.reply) {
+        try {
+          result.replyMessageId = await this.sendReply(message, result.reply, conversationId) || undefined;
+        } catch (error) {
+          logger.error({ error, inboundId: message.id }, 'Keyword auto-reply failed');
+        }
+      }
+    } catch (error) {
+      logger.error({ error, inboundId: message.id, keyword }, 'Inbound keyword handling failed');
+      return null;
+    }
+
+    // An opt-out that did not stick must not be acknowledged to the
+    // provider: the error reaches it and it sends the message again
+    if (result.type === 'opt_out') {
+      await this.setSubscribed(message.accountId, message.from, false, this.builtInKeyword(keyword)!.language);
+    }
+
+    await prisma.inboundMessage.update({
+      where: { id: message.id },
+      data: {
+        keyword: result.keyword,
+        response: result.reply,
+      },
+    }).catch(error => {
+      logger.error({ error, inboundId: message.id }, 'Failed to record keyword response');
+    });
+
+    logger.info({
+      accountId: message.accountId,
+      inboundId: message.id,
+      keyword: result.keyword,
+      type: result.type,
+    }, 'Inbound keyword handled');
+
+    return result;
+  }
+
+  // Opt-out, opt-in or help word, with its language
+  static builtInKeyword(keyword: string | null): { type: BuiltInType; language: string } | null {
+    if (!keyword) return null;
+
+    const word = keyword.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+
+    for (const [type, languages] of Object.entries(BUILT_IN_KEYWORDS) as Array<[BuiltInType, Record<string, string[]>]>) {
+      for (const [language, words] of Object.entries(languages)) {
+        if (words.includes(word)) return { type, language };
+      }
+    }
+
+    return null;
+  }
+
+  // Account that last texted `phone` from `senderName`; opt-out and help
+  // words on a shared number without a matching route go to it
+  static async lastSenderAccountId(phone: string, senderName: string): Promise<string | null> {
+    const message = await prisma.message.findFirst({
+      where: { recipient: phone, senderName },
+      orderBy: { createdAt: 'desc' },
+      select: { accountId: true },
+    });
+
+    return message?.accountId || null;
+  }
+
+  // List an account's keyword responders
+  static async listKeywords(
+    accountId: string,
+    filters: QueryKeywordsInput
+  ): Promise<{ keywords: KeywordResponderResponse[]; total: number }> {
+    const where: Prisma.KeywordResponderWhereInput = { accountId };
+
+    if (filters.number) {
+      where.number = filters.number;
+    }
+
+    if (filters.keyword) {
+      where.keyword = filters.keyword;
+    }
+
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+
+    const [keywords, total] = await Promise.all([
+      prisma.keywordResponder.findMany({
+        where,
+        orderBy: [{ number: 'asc' }, { keyword: 'asc' }],
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.keywordResponder.count({ where }),
+    ]);
+
+    return {
+      keywords: keywords.map(keyword => this.formatKeyword(keyword)),
+      total,
+    };
+  }
+
+  // Get a single keyword responder
+  static async getKeyword(accountId: string, id: string): Promise<KeywordResponderResponse> {
+    return this.formatKeyword(await this.findKeyword(accountId, id));
+  }
+
+  // Register a keyword on a number routed to the account
+  static async createKeyword(
+    accountId: string,
+    input: CreateKeywordInput
+  ): Promise<KeywordResponderResponse> {
+    const builtIn = this.builtInKeyword(input.keyword);
+
+    if (builtIn && builtIn.type !== 'help') {
+      throw new Error('Keyword is reserved');
+    }
+
+    await this.checkNumber(accountId, input.number, input.keyword);
+    await this.checkReferences(accountId, input);
+
+    const keyword = await prisma.keywordResponder.create({
+      data: {
+        accountId,
+        ...input,
+      },
+    });
+
+    return this.formatKeyword(keyword);
+  }
+
+  // Change a responder's reply or actions, or switch it off
+  static async updateKeyword(
+    accountId: string,
+    id: string,
+    input: UpdateKeywordInput
+  ): Promise<KeywordResponderResponse> {
+    await this.findKeyword(accountId, id);
+    await this.checkReferences(accountId, input);
+
+    const keyword = await prisma.keywordResponder.update({
+      where: { id },
+      data: {
+        ...input,
+        // One reply source at a time
+        ...(input.templateId && { replyMessage: null }),
+        ...(input.replyMessage && { templateId: null }),
+      },
+    });
+
+    return this.formatKeyword(keyword);
+  }
+
+  // Remove a responder
+  static async deleteKeyword(accountId: string, id: string): Promise<void> {
+    const { count } = await prisma.keywordResponder.deleteMany({
+      where: { id, accountId },
+    });
+
+    if (count === 0) {
+      throw new Error('Keyword not found');
+    }
+  }
+
+  // What a keyword does for this message, after running its actions
+  private static async match(message: InboundMessage, keyword: string): Promise<KeywordResult | null> {
+    const accountId = message.accountId!;
+    const builtIn = this.builtInKeyword(keyword);
+
+    if (builtIn && builtIn.type !== 'help') {
+      // Opt-outs are applied once the confirmation is sent
+      if (builtIn.type === 'opt_in') {
+        await this.setSubscribed(accountId, message.from, true, builtIn.language);
+      }
+
+      return {
+        type: builtIn.type,
+        keyword,
+        reply: await this.builtInReply(accountId, message.to, builtIn.type, builtIn.language),
+      };
+    }
+
+    const responder = await prisma.keywordResponder.findFirst({
+      where: { accountId, number: message.to, keyword, isActive: true },
+      include: { template: true, webhook: { select: { events: true } } },
+    });
+
+    if (responder) {
+      return this.respond(message, responder);
+    }
+
+    if (builtIn) {
+      return {
+        type: 'help',
+        keyword,
+        reply: await this.builtInReply(accountId, message.to, 'help', builtIn.language),
+      };
+    }
+
+    return null;
+  }
+
+  // Run a responder's actions and build its reply
+  private static async respond(
+    message: InboundMessage,
+    responder: ResponderWithRelations
+  ): Promise<KeywordResult> {
+    const accountId = message.accountId!;
+
+    const contact = responder.groupId || responder.tag
+      ? await prisma.contact.upsert({
+        where: { accountId_phone: { accountId, phone: message.from } },
+        update: {},
+        create: { accountId, phone: message.from, source: 'keyword' },
+      })
+      : await prisma.contact.findUnique({
+        where: { accountId_phone: { accountId, phone: message.from } },
+      });
+
+    if (contact && responder.groupId) {
+      const { count } = await prisma.contactGroupMembership.createMany({
+        data: [{ contactId: contact.id, groupId: responder.groupId }],
+        skipDuplicates: true,
+      });
+
+      if (count > 0) {
+        await prisma.contactGroup.update({
+          where: { id: responder.groupId },
+          data: { contactCount: { increment: 1 } },
+        });
+      }
+    }
+
+    if (contact && responder.tag && !contact.tags.includes(responder.tag)) {
+      await prisma.contact.update({
+        where: { id: contact.id },
+        data: { tags: { push: responder.tag } },
+      });
+    }
+
+    let reply = responder.replyMessage;
+
+    if (responder.template?.isActive) {
+      reply = responder.template.content;
+
+      await prisma.template.update({
+        where: { id: responder.template.id },
+        data: { useCount: { increment: 1 }, lastUsedAt: new Date() },
+      });
+    }
+
+    if (reply) {
+      reply = SMSValidationService.replaceVariables(reply, {
+        firstName: contact?.firstName || '',
+        lastName: contact?.lastName || '',
+        phone: message.from,
+        keyword: responder.keyword,
+      });
+    }
+
+    await prisma.keywordResponder.update({
+      where: { id: responder.id },
+      data: { matchCount: { increment: 1 }, lastMatchedAt: new Date() },
+    });
+
+    // Subscribed webhooks already get every MESSAGE_RECEIVED
+    const forward = responder.webhookId && !responder.webhook?.events.includes('MESSAGE_RECEIVED');
+
+    return {
+      type: 'responder',
+      keyword: responder.keyword,
+      responderId: responder.id,
+      reply,
+      ...(forward && { webhookId: responder.webhookId! }),
+    };
+  }
+
+  private static async setSubscribed(
+    accountId: string,
+    phone: string,
+    subscribed: boolean,
+    language: string
+  ): Promise<void> {
+    const optedOutAt = subscribed ? null : new Date();
+
+    await prisma.contact.upsert({
+      where: { accountId_phone: { accountId, phone } },
+      update: { isSubscribed: subscribed, optedOutAt },
+      create: {
+        accountId,
+        phone,
+        language,
+        isSubscribed: subscribed,
+        optedOutAt,
+        source: 'keyword',
+      },
+    });
+
+    await SuppressionService.setOptOut(accountId, phone, !subscribed);
+  }
+
+  private static async builtInReply(
+    accountId: string,
+    number: string,
+    type: BuiltInType,
+    language: string
+  ): Promise<string> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: { name: true, businessName: true, contactPhone: true, contactEmail: true },
+    });
+
+    return SMSValidationService.replaceVariables(
+      BUILT_IN_REPLIES[type][language] || BUILT_IN_REPLIES[type].en,
+      {
+        brand: account?.businessName || account?.name || number,
+        contact: account?.contactPhone || account?.contactEmail || number,
+      }
+    );
+  }
+
+  // Send and charge an auto-reply on the number the keyword came in on.
+  // Skipped (null) when the account cannot pay for it.
+  private static async sendReply(
+    message: InboundMessage,
+    text: string,
+    conversationId: string | null
+  ): Promise<string | null> {
+    const accountId = message.accountId!;
+
+    // Same estimate the send route uses for its balance check
+    const messageUnits = SMSValidationService.calculateMessageUnits(text);
+    const pricing = await SMSRouterService.getPricing(
+      SMSRouterService.getCountryFromPhone(message.from),
+      undefined,
+      MessageType.SMS,
+      messageUnits.units
+    );
+
+    if (!(await BillingService.hasSufficientBalance(accountId, pricing.totalCost))) {
+      logger.warn({ accountId, inboundId: message.id }, 'Keyword auto-reply skipped: insufficient balance');
+      return null;
+    }
+
+    const result = await SMSService.sendSMS(
+      accountId,
+      { to: message.from, message: text, senderId: message.to },
+      { conversationId: conversationId || undefined, isReply: true }
+    );
+
+    await BillingService.deductBalance(
+      accountId,
+      result.cost,
+      'sms',
+      `Keyword auto-reply (inbound ${message.id})`
+    );
+
+    return result.id;
+  }
+
+  // The number (and keyword) must route to this account
+  private static async checkNumber(accountId: string, number: string, keyword: string): Promise<void> {
+    const routes = await prisma.inboundRoute.findMany({
+      where: {
+        number,
+        isActive: true,
+        OR: [{ keyword }, { keyword: null }],
+      },
+      select: { accountId: true, keyword: true },
+    });
+
+    const route = routes.find(r => r.keyword === keyword) || routes.find(r => !r.keyword);
+
+    if (!route || route.accountId !== accountId) {
+      throw new Error('Number is not routed to this account');
+    }
+  }
+
+  // Template, group and webhook must belong to the account
+  private static async checkReferences(
+    accountId: string,
+    input: { templateId?: string | null; groupId?: string | null; webhookId?: string | null }
+  ): Promise<void> {
+    if (input.templateId) {
+      const template = await prisma.template.findFirst({
+        where: { id: input.templateId, accountId, isActive: true },
+        select: { id: true },
+      });
+
+      if (!template) throw new Error('Template not found');
+    }
+
+    if (input.groupId) {
+      const group = await prisma.contactGroup.findFirst({
+        where: { id: input.groupId, accountId },
+        select: { id: true },
+      });
+
+      if (!group) throw new Error('Contact group not found');
+    }
+
+    if (input.webhookId) {
+      const webhook = await prisma.webhook.findFirst({
+        where: { id: input.webhookId, accountId },
+        select: { id: true },
+      });
+
+      if (!webhook) throw new Error('Webhook not found');
+    }
+  }
+
+  private static async findKeyword(accountId: string, id: string): Promise<KeywordResponder> {
+    const keyword = await prisma.keywordResponder.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!keyword) {
+      throw new Error('Keyword not found');
+    }
+
+    return keyword;
+  }
+
+  private static formatKeyword(keyword: KeywordResponder): KeywordResponderResponse {
+    return {
+      id: keyword.id,
+      number: keyword.number,
+      keyword: keyword.keyword,
+      templateId: keyword.templateId,
+      replyMessage: keyword.replyMessage,
+      groupId: keyword.groupId,
+      tag: keyword.tag,
+      webhookId: keyword.webhookId,
+      isActive: keyword.isActive,
+      matchCount: keyword.matchCount,
+      lastMatchedAt: keyword.lastMatchedAt,
+      createdAt: keyword.createdAt,
+      updatedAt: keyword.updatedAt,
+    };
+  }
+}
+
+export default KeywordResponderService;
@@ -0,0 +1,511 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+import {
+  nextOccurrence,
+  countOccurrences,
+  resolveInstant,
+  hasExplicitOffset,
+  isValidTimezone,
+  type RecurrenceRule,
+  type Weekday,
+} from '@utils/recurrence';
+import { BillingService } from '@modules/billing/services/billing.service';
+import { emailService } from '@modules/email/services/email.service';
+import type { SendEmailRequest } from '@modules/email/types/email.types';
+import { SMSService } from './sms.service';
+import { SMSValidationService } from './sms-validation.service';
+import { SMSRouterService } from './sms-router.service';
+import { TemplateService } from './template.service';
+import type { SendSMSRequest, MessageScheduleResponse } from '../types/sms.types';
+import type { QuerySchedulesInput } from '../schemas/schedule.schema';
+import {
+  ScheduleStatus,
+  ScheduleFrequency,
+  ServiceType,
+  MessageType,
+} from '../../../../generated/prisma/client';
+import type { MessageSchedule, Prisma } from '../../../../generated/prisma/client';
+
+type ScheduleChannel = 'SMS' | 'EMAIL';
+
+// Recipient used to resolve a "recipient" timezone
+interface ScheduleRecipient {
+  phone?: string;
+  email?: string;
+}
+
+/**
+ * Message Schedules
+ * Recurring (RRULE-style) and timezone-aware sends for SMS and email.
+ *
+ * A schedule keeps the original send request as its payload. Every time it
+ * falls due, the scheduler worker replays the payload as an immediate send,
+ * charges the account for that occurrence and advances `nextRunAt`.
+ */
+export class MessageScheduleService {
+  // Create a recurring schedule from a send request
+  static async createSchedule(
+    accountId: string,
+    channel: ScheduleChannel,
+    request: SendSMSRequest | SendEmailRequest
+  ): Promise<MessageScheduleResponse> {
+    if (!request.scheduledFor) {
+      throw new Error('scheduledFor is required for scheduled sends');
+    }
+
+    const recipient = this.getRecipient(channel, request);
+
+    // A template that cannot be sent fails now rather than on every run
+    const { templateId, variables } = request as SendSMSRequest;
+    if (channel === 'SMS' && templateId) {
+      const template = await TemplateService.findUsable(accountId, templateId);
+      TemplateService.render(template.content, variables || {});
+    }
+
+    const { timezone, recipientLocal } = await this.resolveTimezone(
+      accountId,
+      request.timezone,
+      channel === 'SMS' ? { phone: recipient } : { email: recipient.split(',')[0] }
+    );
+
+    // One-off sends with a timezone are a single-occurrence rule
+    const rule: RecurrenceRule = request.recurrence || { frequency: 'daily', count: 1 };
+    const startAt = resolveInstant(request.scheduledFor, timezone);
+
+    const now = new Date();
+
+    // A one-off send can't be scheduled in the past
+    if (!request.recurrence && startAt <= now) {
+      throw new Error('scheduledFor is in the past');
+    }
+
+    // Occurrences already in the past are skipped, and count towards `count`
+    const nextRunAt = nextOccurrence({
+      start: startAt,
+      timezone,
+      rule,
+      after: startAt > now ? new Date(startAt.getTime() - 1) : now,
+      occurrences: countOccurrences({ start: startAt, timezone, rule, through: now }),
+    });
+
+    if (!nextRunAt) {
+      throw new Error('Schedule has no future occurrences');
+    }
+
+    // Everything except the scheduling fields is replayed on each run
+    const { scheduledFor, timezone: _timezone, recurrence, ...payload } = request;
+
+    const schedule = await prisma.messageSchedule.create({
+      data: {
+        accountId,
+        channel: channel === 'SMS' ? ServiceType.SMS : ServiceType.EMAIL,
+        recipient,
+        payload: payload as Prisma.InputJsonValue,
+        timezone,
+        recipientLocal,
+        startAt,
+        frequency: rule.frequency.toUpperCase() as ScheduleFrequency,
+        interval: rule.interval ?? 1,
+        byWeekday: rule.byWeekday || [],
+        byMonthDay: rule.byMonthDay,
+        until: rule.until ? new Date(rule.until) : undefined,
+        count: rule.count,
+        nextRunAt,
+      },
+    });
+
+    logger.info({
+      scheduleId: schedule.id,
+      accountId,
+      channel,
+      timezone,
+      nextRunAt,
+    }, 'Message schedule created');
+
+    return this.formatSchedule(schedule);
+  }
+
+  // Schedule errors that are the caller's fault
+  static isScheduleError(error: Error): boolean {
+    return error.message === 'scheduledFor is in the past'
+      || error.message === 'Schedule has no future occurrences';
+  }
+
+  // Convert a requested send time to UTC, honouring timezone / recipient-local time
+  static async resolveScheduledFor(
+    accountId: string,
+    scheduledFor: Date | string,
+    timezone: string | undefined,
+    recipient: ScheduleRecipient
+  ): Promise<Date> {
+    if (scheduledFor instanceof Date || hasExplicitOffset(scheduledFor)) {
+      return new Date(scheduledFor);
+    }
+
+    const resolved = await this.resolveTimezone(accountId, timezone, recipient);
+    return resolveInstant(scheduledFor, resolved.timezone);
+  }
+
+  // Resolve the timezone to schedule in. "recipient" walks
+  // contact -> contact/recipient country -> account -> platform default.
+  static async resolveTimezone(
+    accountId: string,
+    timezone: string | undefined,
+    recipient: ScheduleRecipient
+  ): Promise<{ timezone: string; recipientLocal: boolean }> {
+    if (timezone && timezone !== 'recipient') {
+      return { timezone, recipientLocal: false };
+    }
+
+    if (timezone === 'recipient') {
+      const phone = recipient.phone
+        ? SMSValidationService.validatePhoneNumber(recipient.phone).formatted
+        : undefined;
+
+      const contact = phone || recipient.email
+        ? await prisma.contact.findFirst({
+            where: {
+              accountId,
+              ...(phone ? { phone } : { email: recipient.email }),
+            },
+            select: { timezone: true, country: true },
+          })
+        : null;
+
+      if (contact?.timezone && isValidTimezone(contact.timezone)) {
+        return { timezone: contact.timezone, recipientLocal: true };
+      }
+
+      const countryCode = contact?.country || (phone ? SMSRouterService.getCountryFromPhone(phone) : undefined);
+
+      if (countryCode) {
+        const country = await prisma.country.findUnique({
+          where: { code: countryCode },
+          select: { timezone: true },
+        });
+
+        if (country?.timezone && isValidTimezone(country.timezone)) {
+          return { timezone: country.timezone, recipientLocal: true };
+        }
+      }
+    }
+
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: { timezone: true },
+    });
+
+    return {
+      timezone: account?.timezone && isValidTimezone(account.timezone)
+        ? account.timezone
+        : env.DEFAULT_TIMEZONE,
+      recipientLocal: timezone === 'recipient',
+    };
+  }
+
+  // List schedules for an account
+  static async listSchedules(
+    accountId: string,
+    filters: QuerySchedulesInput
+  ): Promise<{ schedules: MessageScheduleResponse[]; total: number }> {
+    const where: Prisma.MessageScheduleWhereInput = { accountId };
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.channel) {
+      where.channel = filters.channel === 'SMS' ? ServiceType.SMS : ServiceType.EMAIL;
+    }
+
+    const [schedules, total] = await Promise.all([
+      prisma.messageSchedule.findMany({
+        where,
+        take: filters.limit,
+        skip: (filters.page - 1) * filters.limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.messageSchedule.count({ where }),
+    ]);
+
+    return {
+      schedules: schedules.map(schedule => this.formatSchedule(schedule)),
+      total,
+    };
+  }
+
+  // Get a single schedule
+  static async getSchedule(accountId: string, scheduleId: string): Promise<MessageScheduleResponse> {
+    return this.formatSchedule(await this.findSchedule(accountId, scheduleId));
+  }
+
+  // Pause an active schedule
+  static async pauseSchedule(accountId: string, scheduleId: string): Promise<MessageScheduleResponse> {
+    const schedule = await this.findSchedule(accountId, scheduleId);
+
+    if (schedule.status !== ScheduleStatus.ACTIVE) {
+      throw new Error(`Cannot pause a ${schedule.status.toLowerCase()} schedule`);
+    }
+
+    const updated = await prisma.messageSchedule.update({
+      where: { id: schedule.id },
+      data: { status: ScheduleStatus.PAUSED },
+    });
+
+    return this.formatSchedule(updated);
+  }
+
+  // Resume a paused schedule from the next occurrence after now
+  static async resumeSchedule(accountId: string, scheduleId: string): Promise<MessageScheduleResponse> {
+    const schedule = await this.findSchedule(accountId, scheduleId);
+
+    if (schedule.status !== ScheduleStatus.PAUSED) {
+      throw new Error(`Cannot resume a ${schedule.status.toLowerCase()} schedule`);
+    }
+
+    // Occurrences missed while paused are skipped, not replayed
+    const now = new Date();
+    const nextRunAt = nextOccurrence({
+      start: schedule.startAt,
+      timezone: schedule.timezone,
+      rule: this.toRule(schedule),
+      after: now,
+      occurrences: this.elapsedOccurrences(schedule, now),
+    });
+
+    const updated = await prisma.messageSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        status: nextRunAt ? ScheduleStatus.ACTIVE : ScheduleStatus.COMPLETED,
+        nextRunAt,
+        claimedAt: null,
+      },
+    });
+
+    return this.formatSchedule(updated);
+  }
+
+  // Cancel a schedule; it is kept for history but never runs again
+  static async cancelSchedule(accountId: string, scheduleId: string): Promise<MessageScheduleResponse> {
+    const schedule = await this.findSchedule(accountId, scheduleId);
+
+    if (schedule.status === ScheduleStatus.CANCELLED || schedule.status === ScheduleStatus.COMPLETED) {
+      throw new Error(`Cannot cancel a ${schedule.status.toLowerCase()} schedule`);
+    }
+
+    const updated = await prisma.messageSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        status: ScheduleStatus.CANCELLED,
+        nextRunAt: null,
+      },
+    });
+
+    return this.formatSchedule(updated);
+  }
+
+  // Claim and run every due schedule, returns the number of occurrences run
+  static async runDueSchedules(limit: number = env.SMS_SCHEDULER_BATCH_SIZE): Promise<number> {
+    const staleBefore = new Date(Date.now() - env.SMS_SCHEDULER_STALE_CLAIM_MS);
+
+    // Claims are timestamps so a crashed worker's schedules are picked up again
+    const claimed = await prisma.$queryRaw<Array<{ id: string }>>`
+      UPDATE message_schedules
+      SET "claimedAt" = NOW(), "updatedAt" = NOW()
+      WHERE id IN (
+        SELECT id FROM message_schedules
+        WHERE status = 'ACTIVE'
+          AND "nextRunAt" IS NOT NULL
+          AND "nextRunAt" <= NOW()
+          AND ("claimedAt" IS NULL OR "claimedAt" < ${staleBefore})
+        ORDER BY "nextRunAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `;
+
+    if (claimed.length === 0) return 0;
+
+    const schedules = await prisma.messageSchedule.findMany({
+      where: { id: { in: claimed.map(row => row.id) } },
+    });
+
+    let ran = 0;
+
+    for (const schedule of schedules) {
+      if (await this.runOccurrence(schedule)) {
+        ran++;
+      }
+    }
+
+    return ran;
+  }
+
+  // Advance the schedule, then send one occurrence
+  private static async runOccurrence(schedule: MessageSchedule): Promise<boolean> {
+    const now = new Date();
+
+    // Late runs send once and skip to the next future occurrence
+    const nextRunAt = nextOccurrence({
+      start: schedule.startAt,
+      timezone: schedule.timezone,
+      rule: this.toRule(schedule),
+      after: now,
+      occurrences: this.elapsedOccurrences(schedule, now),
+    });
+
+    // Advancing first means a crash mid-send drops an occurrence rather
+    // than sending it twice. Paused or cancelled schedules are left alone.
+    const advanced = await prisma.messageSchedule.updateMany({
+      where: { id: schedule.id, status: ScheduleStatus.ACTIVE },
+      data: {
+        runCount: { increment: 1 },
+        lastRunAt: now,
+        nextRunAt,
+        claimedAt: null,
+        ...(nextRunAt ? {} : { status: ScheduleStatus.COMPLETED }),
+      },
+    });
+
+    if (advanced.count === 0) return false;
+
+    try {
+      const messageId = schedule.channel === ServiceType.EMAIL
+        ? await this.sendEmailOccurrence(schedule)
+        : await this.sendSMSOccurrence(schedule);
+
+      await prisma.messageSchedule.update({
+        where: { id: schedule.id },
+        data: { lastMessageId: messageId, lastError: null },
+      });
+    } catch (error: any) {
+      logger.warn({ error, scheduleId: schedule.id }, 'Scheduled occurrence failed');
+
+      await prisma.messageSchedule.update({
+        where: { id: schedule.id },
+        data: { lastError: error.message },
+      }).catch(err => {
+        logger.error({ error: err, scheduleId: schedule.id }, 'Failed to record schedule error');
+      });
+    }
+
+    return true;
+  }
+
+  // Send and charge one SMS occurrence
+  private static async sendSMSOccurrence(schedule: MessageSchedule): Promise<string> {
+    const payload = schedule.payload as unknown as SendSMSRequest;
+
+    // Same estimate the send route uses for its balance check
+    const content = await TemplateService.estimateContent(schedule.accountId, payload);
+    const messageUnits = SMSValidationService.calculateMessageUnits(content);
+    const pricing = await SMSRouterService.getPricing(
+      SMSRouterService.getCountryFromPhone(schedule.recipient),
+      undefined,
+      MessageType.SMS,
+      messageUnits.units
+    );
+
+    if (!(await BillingService.hasSufficientBalance(schedule.accountId, pricing.totalCost))) {
+      throw new Error('Insufficient balance');
+    }
+
+    const result = await SMSService.sendSMS(schedule.accountId, payload);
+
+    await BillingService.deductBalance(
+      schedule.accountId,
+      result.cost,
+      'sms',
+      `Scheduled SMS (schedule ${schedule.id})`
+    );
+
+    return result.id;
+  }
+
+  // Send one email occurrence (the email service charges the account itself)
+  private static async sendEmailOccurrence(schedule: MessageSchedule): Promise<string> {
+    const payload = schedule.payload as unknown as SendEmailRequest;
+    const result = await emailService.sendEmail(schedule.accountId, payload);
+
+    return result.id;
+  }
+
+  // Find a schedule owned by the account
+  private static async findSchedule(accountId: string, scheduleId: string): Promise<MessageSchedule> {
+    const schedule = await prisma.messageSchedule.findFirst({
+      where: { id: scheduleId, accountId },
+    });
+
+    if (!schedule) {
+      throw new Error('Schedule not found');
+    }
+
+    return schedule;
+  }
+
+  // Recipient shown in listings: phone for SMS, addresses for email
+  private static getRecipient(
+    channel: ScheduleChannel,
+    request: SendSMSRequest | SendEmailRequest
+  ): string {
+    if (channel === 'SMS') {
+      const validation = SMSValidationService.validatePhoneNumber((request as SendSMSRequest).to);
+      if (!validation.valid) {
+        throw new Error(`Invalid phone number: ${validation.errors?.join(', ')}`);
+      }
+      return validation.formatted;
+    }
+
+    return (request as SendEmailRequest).to
+      .map(to => typeof to === 'string' ? to : to.email)
+      .join(',');
+  }
+
+  // Occurrences used up by `now`, run or skipped. Only `count` needs them.
+  private static elapsedOccurrences(schedule: MessageSchedule, now: Date): number {
+    const rule = this.toRule(schedule);
+
+    if (rule.count === undefined) return 0;
+
+    return countOccurrences({
+      start: schedule.startAt,
+      timezone: schedule.timezone,
+      rule,
+      through: now,
+    });
+  }
+
+  // Rebuild the recurrence rule from a schedule row
+  private static toRule(schedule: MessageSchedule): RecurrenceRule {
+    return {
+      frequency: schedule.frequency.toLowerCase() as RecurrenceRule['frequency'],
+      interval: schedule.interval,
+      byWeekday: schedule.byWeekday.length ? schedule.byWeekday as Weekday[] : undefined,
+      byMonthDay: schedule.byMonthDay ?? undefined,
+      until: schedule.until ?? undefined,
+      count: schedule.count ?? undefined,
+    };
+  }
+
+  // Format a schedule for API responses
+  private static formatSchedule(schedule: MessageSchedule): MessageScheduleResponse {
+    return {
+      id: schedule.id,
+      channel: schedule.channel === ServiceType.EMAIL ? 'EMAIL' : 'SMS',
+      recipient: schedule.recipient,
+      status: schedule.status,
+      timezone: schedule.timezone,
+      recipientLocal: schedule.recipientLocal,
+      recurrence: this.toRule(schedule),
+      startAt: schedule.startAt,
+      nextRunAt: schedule.nextRunAt || undefined,
+      lastRunAt: schedule.lastRunAt || undefined,
+      runCount: schedule.runCount,
+      lastMessageId: schedule.lastMessageId || undefined,
+      lastError: schedule.lastError || undefined,
+      createdAt: schedule.createdAt,
+    };
+  }
+}
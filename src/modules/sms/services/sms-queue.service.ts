@@ -0,0 +1,205 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+import { QueueManager, type Job } from '@services/queue/queue.manager';
+import { JobProcessor } from '@services/queue/job.processor';
+import { SMSProviderRouter, ProviderCostService } from '@core/providers/sms';
+import { WebhookDispatcher } from '@modules/webhooks/services/webhook-dispatcher.service';
+import { CampaignStatsService } from '@modules/campaigns/services/campaign-stats.service';
+import { DeliveryReconcilerService } from './delivery-reconciler.service';
+import { MessageStatus } from '../../../../generated/prisma/client';
+
+export const SMS_DELIVERY_QUEUE = 'sms.delivery';
+
+interface SMSDeliveryJob {
+  messageId: string;
+}
+
+/**
+ * SMS Delivery Queue
+ * Every outbound SMS is handed to the provider through the job queue, so
+ * sends survive a process crash and failed attempts are retried with
+ * backoff. `Message.retryCount` tracks attempts; a message that exhausts
+ * them is marked FAILED and its job is kept in the dead-letter queue.
+ */
+export class SMSQueueService {
+  // Register the delivery worker (jobs only run once JobProcessor starts)
+  static register(): void {
+    JobProcessor.register<SMSDeliveryJob>(
+      SMS_DELIVERY_QUEUE,
+      job => this.deliver(job),
+      {
+        concurrency: env.SMS_QUEUE_CONCURRENCY,
+        groupConcurrency: env.SMS_PROVIDER_CONCURRENCY,
+        onDead: (job, error) => this.markFailed(job, error),
+        onReplay: job => this.requeueMessage(job),
+      }
+    );
+  }
+
+  // Queue messages for delivery, grouped by provider for concurrency limits.
+  // The message id is the job id, so queueing the same message twice is a no-op.
+  static async enqueue(messages: Array<{ id: string; provider?: string | null }>): Promise<void> {
+    await Promise.all(messages.map(message =>
+      QueueManager.add<SMSDeliveryJob>(
+        SMS_DELIVERY_QUEUE,
+        { messageId: message.id },
+        {
+          jobId: message.id,
+          group: message.provider || undefined,
+        }
+      )
+    ));
+  }
+
+  // Send one queued message; throwing schedules a retry
+  private static async deliver(job: Job<SMSDeliveryJob>): Promise<void> {
+    const { messageId } = job.data;
+
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+    });
+
+    // Queued before SMSService.sendSMS marked the message QUEUED: retry
+    if (message && this.awaitingQueue(message)) {
+      throw new Error('Message is not queued yet');
+    }
+
+    // Cancelled, already sent or deleted while waiting in the queue
+    if (!message || message.status !== MessageStatus.QUEUED) {
+      logger.debug({ messageId, status: message?.status }, 'Skipping SMS delivery job');
+      return;
+    }
+
+    const response = await SMSProviderRouter.sendSMS(
+      {
+        recipient: message.recipient,
+        message: message.content,
+        senderId: message.senderName,
+        messageId,
+      },
+      message.recipientCountry || env.DEFAULT_COUNTRY,
+      message.recipientNetwork || undefined,
+      {
+        preferred: message.provider || undefined,
+        messageType: message.messageType,
+      }
+    );
+
+    if (!response.success) {
+      await prisma.message.update({
+        where: { id: messageId },
+        data: {
+          retryCount: job.attempts,
+          errorCode: response.errorCode,
+          errorMessage: response.message,
+        },
+      });
+
+      throw new Error(response.message || 'Provider rejected the message');
+    }
+
+    // Buy price of the provider that took the message, for margin reporting
+    const providerCost = await ProviderCostService.getCost(
+      response.providerId,
+      message.recipientCountry || env.DEFAULT_COUNTRY,
+      message.recipientNetwork || undefined,
+      message.messageType
+    );
+
+    const sentAt = new Date();
+    const expiresAt = message.expiresAt || DeliveryReconcilerService.expiresAt(sentAt);
+
+    const sent = await prisma.message.update({
+      where: { id: messageId },
+      data: {
+        status: MessageStatus.SENT,
+        provider: response.providerId,
+        providerCost: providerCost ? providerCost.costPerUnit * message.units : null,
+        providerId: response.externalId,
+        providerStatus: response.status,
+        providerMessage: response.message,
+        retryCount: job.attempts - 1,
+        errorCode: null,
+        errorMessage: null,
+        sentAt,
+        expiresAt,
+        // First status poll, in case no delivery receipt comes back
+        nextStatusCheckAt: DeliveryReconcilerService.nextCheckAt(sentAt, expiresAt, sentAt),
+      },
+    });
+
+    logger.info({
+      messageId,
+      providerId: response.externalId,
+      provider: response.providerId,
+      attempt: job.attempts,
+    }, 'SMS sent successfully');
+
+    await CampaignStatsService.recordStatusChange(sent, MessageStatus.QUEUED, MessageStatus.SENT);
+    await WebhookDispatcher.emitMessageEvent('MESSAGE_SENT', sent);
+  }
+
+  // Attempts exhausted: the message is failed
+  private static async markFailed(job: Job<SMSDeliveryJob>, error: Error): Promise<void> {
+    const result = await prisma.message.updateMany({
+      where: {
+        id: job.data.messageId,
+        OR: [
+          { status: MessageStatus.QUEUED },
+          // Never marked QUEUED, e.g. the process died right after queueing it
+          { status: MessageStatus.PENDING, scheduledFor: null, campaignId: null },
+        ],
+      },
+      data: {
+        status: MessageStatus.FAILED,
+        retryCount: job.attempts,
+        errorMessage: error.message,
+        failedAt: new Date(),
+      },
+    });
+
+    if (result.count === 0) return;
+
+    const message = await prisma.message.findUnique({
+      where: { id: job.data.messageId },
+    });
+
+    if (message) {
+      await CampaignStatsService.recordStatusChange(message, MessageStatus.QUEUED, MessageStatus.FAILED);
+      await WebhookDispatcher.emitMessageEvent('MESSAGE_FAILED', message);
+    }
+  }
+
+  // An immediate single send whose job was queued, but which is not marked
+  // QUEUED yet. Scheduled and campaign messages only get a job once claimed.
+  private static awaitingQueue(message: { status: MessageStatus; scheduledFor: Date | null; campaignId: string | null }): boolean {
+    return message.status === MessageStatus.PENDING && !message.scheduledFor && !message.campaignId;
+  }
+
+  // Replayed from the dead-letter queue: make the message sendable again
+  private static async requeueMessage(job: Job<SMSDeliveryJob>): Promise<void> {
+    const result = await prisma.message.updateMany({
+      where: {
+        id: job.data.messageId,
+        status: MessageStatus.FAILED,
+      },
+      data: {
+        status: MessageStatus.QUEUED,
+        queuedAt: new Date(),
+        failedAt: null,
+      },
+    });
+
+    if (result.count === 0) return;
+
+    const message = await prisma.message.findUnique({
+      where: { id: job.data.messageId },
+      select: { id: true, campaignId: true, variantId: true, sentAt: true },
+    });
+
+    if (message) {
+      await CampaignStatsService.recordStatusChange(message, MessageStatus.FAILED, MessageStatus.QUEUED);
+    }
+  }
+}
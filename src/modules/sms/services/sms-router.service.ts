@@ -1,5 +1,9 @@
 import { logger } from '@utils/logger';
+import { detectNetwork } from '@utils/phone';
 import prisma from '@database/prisma.client';
+import { env } from '@config/env';
+import { SMSProviderRouter, ProviderCostService } from '@core/providers/sms';
+import { MNPLookupService } from '@core/providers/mnp';
 import type { 
   ProviderInfo, 
   ProviderSelectionCriteria, 
@@ -7,88 +11,68 @@ import type {
 } from '../types/sms.types';
 import { MessageType } from '../../../../generated/prisma/client';
 
+// Country calling codes of supported destinations
+const COUNTRY_CODES: Record<string, string> = {
+  '233': 'GH', // Ghana
+  '234': 'NG', // Nigeria
+  '254': 'KE', // Kenya
+  '27': 'ZA',  // South Africa
+  '256': 'UG', // Uganda
+  '255': 'TZ', // Tanzania
+  '250': 'RW', // Rwanda
+  '225': 'CI', // Côte d'Ivoire
+  '221': 'SN', // Senegal
+  '237': 'CM', // Cameroon
+  '20': 'EG',  // Egypt
+  '212': 'MA', // Morocco
+  '213': 'DZ', // Algeria
+  '251': 'ET', // Ethiopia
+};
+
 export class SMSRouterService {
-  // Select best provider based on criteria
+  // Select best provider based on criteria. Uses the same provider
+  // instances and ranking as delivery (SMSProviderRouter), so the chosen
+  // provider is always one that can actually send.
   static async selectProvider(
     criteria: ProviderSelectionCriteria
   ): Promise<ProviderInfo | null> {
     try {
-      // Get all active SMS providers
-      const providers = await prisma.provider.findMany({
-        where: {
-          type: 'SMS',
-          status: 'ACTIVE',
-          supportedCountries: {
-            has: criteria.country,
-          },
-        },
-        orderBy: [
-          { priority: 'desc' },
-          { successRate: 'desc' },
-        ],
-      });
+      const provider = await SMSProviderRouter.getBestProvider(
+        criteria.country,
+        criteria.network,
+        criteria.priority || env.SMS_ROUTING_STRATEGY,
+        criteria.messageType
+      );
 
-      if (providers.length === 0) {
+      if (!provider) {
         logger.warn({ criteria }, 'No SMS providers available for criteria');
         return null;
       }
 
-      // Filter by network if specified
-      let filteredProviders = providers;
-      if (criteria.network) {
-        filteredProviders = providers.filter(p => 
-          p.supportedNetworks.includes(criteria.network!)
-        );
-        
-        // Fall back to all providers if no network-specific provider found
-        if (filteredProviders.length === 0) {
-          filteredProviders = providers;
-        }
-      }
-
-      // Apply priority criteria
-      let selectedProvider = filteredProviders[0];
-
-      switch (criteria.priority) {
-        case 'cost':
-          // Sort by cost (would need pricing data)
-          selectedProvider = filteredProviders[0];
-          break;
-        
-        case 'speed':
-          // Sort by latency
-          selectedProvider = filteredProviders.sort((a, b) => 
-            (a.avgLatency || 1000) - (b.avgLatency || 1000)
-          )[0];
-          break;
-        
-        case 'reliability':
-          // Sort by success rate
-          selectedProvider = filteredProviders.sort((a, b) => 
-            (b.successRate || 0) - (a.successRate || 0)
-          )[0];
-          break;
-        
-        default:
-          // Use default priority
-          selectedProvider = filteredProviders[0];
-      }
+      const config = provider.getConfig();
+      const stats = provider.getStats();
+      const cost = await ProviderCostService.getCost(
+        provider.getProviderId(),
+        criteria.country,
+        criteria.network,
+        criteria.messageType
+      );
 
       logger.info({
-        provider: selectedProvider.name,
+        provider: provider.getProviderName(),
         criteria,
       }, 'Provider selected');
 
       return {
-        id: selectedProvider.id,
-        name: selectedProvider.name,
-        type: selectedProvider.type,
-        countries: selectedProvider.supportedCountries,
-        networks: selectedProvider.supportedNetworks,
-        priority: selectedProvider.priority,
-        successRate: selectedProvider.successRate || undefined,
-        avgLatency: selectedProvider.avgLatency || undefined,
-        costPerUnit: 0.035, // TODO: Get from pricing table
+        id: provider.getProviderId(),
+        name: provider.getProviderName(),
+        type: config.type,
+        countries: config.supportedCountries,
+        networks: config.supportedNetworks || [],
+        priority: config.priority ?? 0,
+        successRate: stats.totalSent > 0 ? stats.successRate : undefined,
+        avgLatency: stats.avgLatency || undefined,
+        costPerUnit: cost?.costPerUnit,
       };
 
     } catch (error) {
@@ -166,35 +150,28 @@ export class SMSRouterService {
 
   // Get country from phone number
   static getCountryFromPhone(phone: string): string {
-    const countryCodeMap: Record<string, string> = {
-      '233': 'GH', // Ghana
-      '234': 'NG', // Nigeria
-      '254': 'KE', // Kenya
-      '27': 'ZA',  // South Africa
-      '256': 'UG', // Uganda
-      '255': 'TZ', // Tanzania
-      '250': 'RW', // Rwanda
-      '225': 'CI', // Côte d'Ivoire
-      '221': 'SN', // Senegal
-      '237': 'CM', // Cameroon
-      '20': 'EG',  // Egypt
-      '212': 'MA', // Morocco
-      '213': 'DZ', // Algeria
-      '251': 'ET', // Ethiopia
-    };
+    const dial = this.getDialCode(phone);
+    if (dial) {
+      return dial.country;
+    }
+
+    // Default to Ghana if not found
+    logger.warn({ phone }, 'Could not determine country, defaulting to GH');
+    return 'GH';
+  }
 
+  // Country calling code of a phone number, if it is a supported country
+  static getDialCode(phone: string): { dialCode: string; country: string } | null {
     const cleaned = phone.replace(/\D/g, '');
-    
+
     // Try to match country codes
-    for (const [code, country] of Object.entries(countryCodeMap)) {
-      if (cleaned.startsWith(code)) {
-        return country;
+    for (const [dialCode, country] of Object.entries(COUNTRY_CODES)) {
+      if (cleaned.startsWith(dialCode)) {
+        return { dialCode, country };
       }
     }
 
-    // Default to Ghana if not found
-    logger.warn({ phone }, 'Could not determine country, defaulting to GH');
-    return 'GH';
+    return null;
   }
 
   // Route message to best provider
@@ -208,9 +185,9 @@ export class SMSRouterService {
     country: string;
     network?: string;
   }> {
-    // Detect country and network
+    // Detect country and network (ported numbers use their MNP network)
     const country = this.getCountryFromPhone(to);
-    const networkInfo = this.detectNetworkFromPhone(to);
+    const networkInfo = await this.resolveNetwork(to);
 
     // Select provider
     const provider = await this.selectProvider({
@@ -236,53 +213,28 @@ export class SMSRouterService {
     };
   }
 
-  // Detect network from phone number
-  private static detectNetworkFromPhone(phone: string): {
+  // Current network of a number: the MNP lookup result when one is
+  // available, otherwise the prefix-based guess
+  static async resolveNetwork(phone: string): Promise<{
     network: string;
     operator: string;
-  } | null {
-    const cleaned = phone.replace(/\D/g, '');
-
-    // Ghana networks
-    if (cleaned.startsWith('233')) {
-      const prefix = cleaned.substring(3, 5);
-      if (['20', '50', '23', '28'].includes(prefix)) {
-        return { network: 'vodafone', operator: 'Vodafone Ghana' };
-      }
-      if (['24', '54', '55', '59'].includes(prefix)) {
-        return { network: 'mtn', operator: 'MTN Ghana' };
-      }
-      if (['26', '56', '27', '57'].includes(prefix)) {
-        return { network: 'airteltigo', operator: 'AirtelTigo' };
-      }
-    }
+    ported?: boolean;
+  } | null> {
+    const lookup = await MNPLookupService.getNetwork(phone);
 
-    // Nigeria networks
-    if (cleaned.startsWith('234')) {
-      const prefix = cleaned.substring(3, 6);
-      if (['803', '806', '810', '813', '816', '903', '906'].includes(prefix)) {
-        return { network: 'mtn', operator: 'MTN Nigeria' };
-      }
-      if (['805', '807', '811', '815', '905'].includes(prefix)) {
-        return { network: 'glo', operator: 'Globacom' };
-      }
-      if (['802', '808', '812', '902', '907', '901'].includes(prefix)) {
-        return { network: 'airtel', operator: 'Airtel Nigeria' };
-      }
+    if (lookup?.network) {
+      return {
+        network: lookup.network,
+        operator: lookup.operator || lookup.network,
+        ported: lookup.ported,
+      };
     }
 
-    // Kenya networks
-    if (cleaned.startsWith('254')) {
-      const prefix = cleaned.substring(3, 6);
-      if (['701', '702', '703', '704', '705', '706', '707', '708', '709'].includes(prefix)) {
-        return { network: 'safaricom', operator: 'Safaricom' };
-      }
-      if (['710', '711', '712', '713', '714', '715'].includes(prefix)) {
-        return { network: 'airtel', operator: 'Airtel Kenya' };
-      }
-    }
+    const detected = detectNetwork(phone);
 
-    return null;
+    return detected.network
+      ? { network: detected.network, operator: detected.operator || detected.network }
+      : null;
   }
 
   // Check provider health
@@ -0,0 +1,198 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+import {
+  smsSchedulerLag,
+  smsSchedulerDue,
+  smsSchedulerDispatched,
+  smsSchedulerRecovered,
+  smsSchedulerLastRun,
+  messageScheduleOccurrences,
+} from '@utils/metrics';
+import { SMSQueueService } from './sms-queue.service';
+import { MessageScheduleService } from './message-schedule.service';
+import { MessageStatus } from '../../../../generated/prisma/client';
+
+// Row returned when claiming due messages
+interface ClaimedMessage {
+  id: string;
+  provider: string | null;
+}
+
+/**
+ * SMS Scheduler
+ * Polls for scheduled messages that are due and dispatches them, and runs
+ * due occurrences of recurring schedules (see MessageScheduleService).
+ *
+ * Claims are taken with `FOR UPDATE SKIP LOCKED`, so any number of API
+ * instances can run the scheduler without sending a message twice. Claimed
+ * messages move to QUEUED and are handed to the SMS delivery queue. A QUEUED
+ * scheduled or bulk message that was never sent and has no queued job (e.g.
+ * Redis was down or the process died between the two steps) is re-queued after
+ * SMS_SCHEDULER_STALE_CLAIM_MS; the message id doubles as the job id, so a
+ * message whose job is still waiting or retrying is not queued twice.
+ */
+export class SMSSchedulerService {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static currentTick: Promise<number> | null = null;
+
+  // Start polling for due messages
+  static start(intervalMs: number = env.SMS_SCHEDULER_INTERVAL): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runTick();
+    }, intervalMs);
+
+    // Pick up anything that became due while we were down
+    this.runTick();
+
+    logger.info({ intervalMs }, 'SMS scheduler started');
+  }
+
+  // Stop polling and wait for the in-flight tick to finish
+  static async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentTick) {
+      await this.currentTick.catch(() => undefined);
+    }
+
+    logger.info('SMS scheduler stopped');
+  }
+
+  // Run a tick unless one is already in progress
+  private static runTick(): void {
+    if (this.currentTick) return;
+
+    this.currentTick = this.tick()
+      .catch(error => {
+        logger.error({ error }, 'SMS scheduler tick failed');
+        return 0;
+      })
+      .finally(() => {
+        this.currentTick = null;
+      });
+  }
+
+  // Claim and dispatch every due message, returns the number dispatched
+  static async tick(): Promise<number> {
+    const recovered = await this.recoverStaleClaims();
+    let dispatched = 0;
+
+    // Drain in batches so a backlog is cleared within one tick
+    while (true) {
+      const claimed = await this.claimDueMessages(env.SMS_SCHEDULER_BATCH_SIZE);
+      if (claimed.length === 0) break;
+
+      await this.dispatch(claimed);
+      dispatched += claimed.length;
+
+      if (claimed.length < env.SMS_SCHEDULER_BATCH_SIZE) break;
+    }
+
+    // Recurring and timezone-aware schedules (SMS and email)
+    const occurrences = await MessageScheduleService.runDueSchedules();
+
+    smsSchedulerDispatched.inc(dispatched);
+    messageScheduleOccurrences.inc(occurrences);
+    await this.updateLagMetrics();
+    smsSchedulerLastRun.set(Date.now() / 1000);
+
+    if (dispatched > 0 || recovered > 0 || occurrences > 0) {
+      logger.info({ dispatched, recovered, occurrences }, 'Scheduled SMS dispatched');
+    }
+
+    return dispatched;
+  }
+
+  // Atomically move due PENDING messages to QUEUED. Campaign messages held
+  // for a send window are left to CampaignDispatchService, which throttles
+  // and charges them.
+  private static async claimDueMessages(limit: number): Promise<ClaimedMessage[]> {
+    return prisma.$queryRaw<ClaimedMessage[]>`
+      UPDATE messages
+      SET status = 'QUEUED', "queuedAt" = NOW(), "updatedAt" = NOW()
+      WHERE id IN (
+        SELECT id FROM messages
+        WHERE status = 'PENDING'
+          AND "scheduledFor" IS NOT NULL
+          AND "scheduledFor" <= NOW()
+          AND "campaignId" IS NULL
+        ORDER BY "scheduledFor" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, provider
+    `;
+  }
+
+  // Re-queue QUEUED messages that never reached a provider. Only messages
+  // charged before they were queued: scheduled sends (charged when they were
+  // created) and bulk messages (charged with the chunk that inserted them).
+  // Immediate single sends only turn QUEUED once their job is queued, and
+  // campaigns recover their own slices (CampaignDispatchService).
+  private static async recoverStaleClaims(): Promise<number> {
+    const staleBefore = new Date(Date.now() - env.SMS_SCHEDULER_STALE_CLAIM_MS);
+
+    const stale = await prisma.$queryRaw<ClaimedMessage[]>`
+      UPDATE messages
+      SET "queuedAt" = NOW(), "updatedAt" = NOW()
+      WHERE id IN (
+        SELECT id FROM messages
+        WHERE status = 'QUEUED'
+          AND "sentAt" IS NULL
+          AND "providerId" IS NULL
+          AND "queuedAt" < ${staleBefore}
+          AND "campaignId" IS NULL
+          AND ("scheduledFor" IS NOT NULL OR "batchId" IS NOT NULL)
+        ORDER BY "queuedAt" ASC
+        LIMIT ${env.SMS_SCHEDULER_BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, provider
+    `;
+
+    if (stale.length === 0) return 0;
+
+    logger.warn({ count: stale.length }, 'Re-queueing stale SMS claims');
+
+    await this.dispatch(stale);
+    smsSchedulerRecovered.inc(stale.length);
+
+    return stale.length;
+  }
+
+  // Hand claimed messages to the delivery queue
+  private static async dispatch(messages: ClaimedMessage[]): Promise<void> {
+    try {
+      await SMSQueueService.enqueue(messages);
+    } catch (error) {
+      // Left QUEUED; picked up again by recoverStaleClaims
+      logger.error({ error, count: messages.length }, 'Failed to queue scheduled SMS');
+    }
+  }
+
+  // Update lag gauges from the oldest undispatched due message
+  private static async updateLagMetrics(): Promise<void> {
+    const now = new Date();
+
+    const due = await prisma.message.aggregate({
+      where: {
+        status: MessageStatus.PENDING,
+        scheduledFor: { lte: now },
+        campaignId: null,
+      },
+      _min: { scheduledFor: true },
+      _count: true,
+    });
+
+    const oldest = due._min.scheduledFor;
+
+    smsSchedulerDue.set(due._count);
+    smsSchedulerLag.set(oldest ? Math.max(0, (now.getTime() - oldest.getTime()) / 1000) : 0);
+  }
+}
@@ -1,5 +1,5 @@
 import { logger } from '@utils/logger';
-import { detectNetwork } from '@app/middleware/geo.middleware';
+import { detectNetwork } from '@utils/phone';
 import type { SMSValidationResult, MessageUnits } from '../types/sms.types';
 
 export class SMSValidationService {
@@ -48,6 +48,27 @@ export class SMSValidationService {
     };
   }
 
+  // Bring a number as people type it into E.164: "00" becomes "+", a
+  // leading 0 takes the account's country code and bare digits are read
+  // as international
+  static normalizePhoneNumber(phone: string, countryCode: string = '+233'): string {
+    const cleaned = phone.trim().replace(/[^\d+]/g, '');
+
+    if (cleaned.startsWith('+')) {
+      return cleaned;
+    }
+
+    if (cleaned.startsWith('00')) {
+      return `+${cleaned.substring(2)}`;
+    }
+
+    if (cleaned.startsWith('0')) {
+      return `${countryCode}${cleaned.substring(1)}`;
+    }
+
+    return cleaned ? `+${cleaned}` : cleaned;
+  }
+
   // Validate multiple phone numbers
   static validatePhoneNumbers(phones: string[]): {
     valid: SMSValidationResult[];
@@ -1,25 +1,38 @@
 import { logger } from '@utils/logger';
-import prisma from '@database/prisma.client';
+import { prisma } from '@database/prisma.client';
 import { SMSValidationService } from './sms-validation.service';
 import { SMSRouterService } from './sms-router.service';
 import { SMSAnalyticsService } from './sms-analytics.service';
-import { SMSProviderRouter } from '@core/providers/sms';
+import { SMSQueueService } from './sms-queue.service';
+import { TemplateService } from './template.service';
+import { SenderIdService } from '@modules/sender-ids/services/sender-id.service';
+import { ConversationService } from '@modules/conversations/services/conversation.service';
+import { SuppressionService } from '@modules/suppressions/services/suppression.service';
 import type { 
   SendSMSRequest, 
-  BulkSMSRequest, 
   SMSResponse, 
-  BulkSMSResponse,
   SMSStatus 
 } from '../types/sms.types';
-import { MessageStatus, MessageType } from '../../../../generated/prisma/client';
-import { nanoid } from 'nanoid';
+import { MessageStatus, MessageType, SenderIdStatus } from '../../../../generated/prisma/client';
 
 export class SMSService {
-  // Send single SMS
+  // Send single SMS. It joins the recipient's conversation on this sender
+  // ID when there is one (or `options.conversationId` for thread replies).
+  // Suppressed recipients are refused unless `options.messageType` is OTP.
+  // With `request.templateId` the text is the template filled with
+  // `request.variables`; countries requiring template registration refuse
+  // anything else, except OTPs and replies. Countries requiring sender ID
+  // registration only take sender IDs approved for them.
+  //
+  // `options.isReply` marks replies to inbound messages (keyword replies,
+  // conversation threads), which may name the number they came in on.
   static async sendSMS(
     accountId: string,
-    request: SendSMSRequest
+    request: SendSMSRequest,
+    options: { conversationId?: string; messageType?: MessageType; isReply?: boolean } = {}
   ): Promise<SMSResponse> {
+    const messageType = options.messageType || MessageType.SMS;
+
     try {
       // Validate phone number
       const validation = SMSValidationService.validatePhoneNumber(request.to);
@@ -27,17 +40,30 @@ export class SMSService {
         throw new Error(`Invalid phone number: ${validation.errors?.join(', ')}`);
       }
 
+      await SuppressionService.assertSendable(accountId, validation.formatted, messageType);
+
+      // Fill the template, if any
+      const template = request.templateId
+        ? await TemplateService.findUsable(accountId, request.templateId)
+        : null;
+      const content = template
+        ? TemplateService.render(template.content, request.variables || {})
+        : request.message || '';
+
       // Validate message
-      const messageValidation = SMSValidationService.validateMessage(request.message);
+      const messageValidation = SMSValidationService.validateMessage(content);
       if (!messageValidation.valid) {
         throw new Error(`Invalid message: ${messageValidation.errors?.join(', ')}`);
       }
 
       // Calculate message units
-      const messageUnits = SMSValidationService.calculateMessageUnits(request.message);
+      const messageUnits = SMSValidationService.calculateMessageUnits(content);
 
       // Get sender ID
-      const senderId = await this.resolveSenderId(accountId, request.senderId);
+      const senderId = await this.resolveSenderId(accountId, request.senderId, {
+        country: SMSRouterService.getCountryFromPhone(validation.formatted),
+        fallback: options.isReply,
+      });
 
       // Route message and get provider
       const routing = await SMSRouterService.routeMessage(
@@ -49,6 +75,12 @@ export class SMSService {
         throw new Error('No SMS provider available for this destination');
       }
 
+      if (!options.isReply) {
+        await TemplateService.assertRegistered(template, routing.country, messageType);
+      }
+
+      await SenderIdService.assertRegistered(accountId, senderId.name, routing.country);
+
       // Calculate cost
       const pricing = await SMSRouterService.getPricing(
         routing.country,
@@ -57,22 +89,28 @@ export class SMSService {
         messageUnits.units
       );
 
+      const conversationId = options.conversationId
+        ?? await ConversationService.findThreadId(accountId, validation.formatted, senderId.name);
+
       // Check if scheduled
       const isScheduled = request.scheduledFor && new Date(request.scheduledFor) > new Date();
       
-      // Create message in database
+      // Create message in database. It stays PENDING until its delivery
+      // job is queued, so a message that never made it into the queue is
+      // not left QUEUED
       const message = await prisma.message.create({
         data: {
           accountId,
           recipient: validation.formatted,
           recipientCountry: routing.country,
           recipientNetwork: routing.network,
-          content: request.message,
-          messageType: MessageType.SMS,
+          content,
+          messageType,
+          templateId: template?.id,
           senderId: senderId.id,
           senderName: senderId.name,
-          status: isScheduled ? MessageStatus.PENDING : MessageStatus.QUEUED,
-          provider: routing.provider.name,
+          status: MessageStatus.PENDING,
+          provider: routing.provider.id,
           units: messageUnits.units,
           unitCost: pricing.ratePerUnit,
           totalCost: pricing.totalCost,
@@ -80,27 +118,28 @@ export class SMSService {
           scheduledFor: request.scheduledFor,
           metadata: request.metadata,
           tags: request.tags || [],
+          conversationId,
         },
       });
 
-      // If not scheduled, send immediately
-      if (!isScheduled) {
-        this.sendViaProvider(
-          message.id,
-          validation.formatted,
-          request.message,
-          senderId.name,
-          routing.country,
-          routing.network
-        ).catch(err => {
-          logger.error({ error: err, messageId: message.id }, 'Failed to send SMS');
-        });
+      // If not scheduled, queue for delivery now. Scheduled messages stay
+      // PENDING until SMSSchedulerService claims them.
+      const status = isScheduled
+        ? MessageStatus.PENDING
+        : await this.queueMessage(message);
+
+      if (conversationId) {
+        await ConversationService.recordOutbound(conversationId, message);
+      }
+
+      if (template) {
+        await TemplateService.recordUse(template.id);
       }
 
       // Update daily stats
       SMSAnalyticsService.updateDailyStats(
         accountId,
-        message.status,
+        status,
         pricing.totalCost
       ).catch(err => {
         logger.error({ error: err }, 'Failed to update daily stats');
@@ -117,13 +156,13 @@ export class SMSService {
         id: message.id,
         to: validation.formatted,
         from: senderId.name,
-        message: request.message,
-        status: message.status,
+        message: content,
+        status,
         provider: routing.provider.name,
         cost: pricing.totalCost,
         currency: pricing.currency,
         units: messageUnits.units,
-        scheduledFor: request.scheduledFor,
+        scheduledFor: message.scheduledFor || undefined,
         createdAt: message.createdAt,
       };
 
@@ -133,245 +172,33 @@ export class SMSService {
     }
   }
 
-  // Send via provider (actual delivery)
-  private static async sendViaProvider(
-    messageId: string,
-    recipient: string,
-    message: string,
-    senderId: string,
-    country: string,
-    network?: string
-  ): Promise<void> {
+  // Queue a new message for delivery, then mark it QUEUED. If either step
+  // fails the message is FAILED, so it is neither charged nor sent; a job
+  // that did get queued skips it.
+  private static async queueMessage(message: { id: string; provider: string | null }): Promise<MessageStatus> {
     try {
-      // Update status to sending
+      await SMSQueueService.enqueue([message]);
+
       await prisma.message.update({
-        where: { id: messageId },
-        data: { 
-          status: MessageStatus.SENT,
-          queuedAt: new Date(),
-        },
+        where: { id: message.id },
+        data: { status: MessageStatus.QUEUED, queuedAt: new Date() },
       });
-
-      // Send via provider router
-      const response = await SMSProviderRouter.sendSMS(
-        {
-          recipient,
-          message,
-          senderId,
-          messageId,
-        },
-        country,
-        network
-      );
-
-      if (response.success) {
-        // Update message with provider response
-        await prisma.message.update({
-          where: { id: messageId },
-          data: {
-            status: MessageStatus.SENT,
-            providerId: response.externalId,
-            providerStatus: response.status,
-            providerMessage: response.message,
-            sentAt: new Date(),
-          },
-        });
-
-        logger.info({
-          messageId,
-          providerId: response.externalId,
-          provider: response.providerId,
-        }, 'SMS sent successfully');
-
-      } else {
-        // Update message as failed
-        await prisma.message.update({
-          where: { id: messageId },
-          data: {
-            status: MessageStatus.FAILED,
-            errorCode: response.errorCode,
-            errorMessage: response.message,
-            failedAt: new Date(),
-          },
-        });
-
-        logger.error({
-          messageId,
-          error: response.message,
-          errorCode: response.errorCode,
-        }, 'SMS send failed');
-      }
-
     } catch (error: any) {
-      logger.error({ error, messageId }, 'Provider send error');
-      
-      // Mark message as failed
       await prisma.message.update({
-        where: { id: messageId },
+        where: { id: message.id },
         data: {
           status: MessageStatus.FAILED,
-          errorMessage: error.message,
+          errorMessage: `Could not queue message: ${error.message}`,
           failedAt: new Date(),
         },
       }).catch(err => {
-        logger.error({ error: err, messageId }, 'Failed to update message status');
+        logger.error({ error: err, messageId: message.id }, 'Failed to mark unqueued SMS failed');
       });
-    }
-  }
-
-  // Send bulk SMS
-  static async sendBulkSMS(
-    accountId: string,
-    request: BulkSMSRequest
-  ): Promise<BulkSMSResponse> {
-    try {
-      const batchId = nanoid(16);
-      const results: Array<{ id: string; to: string; status: 'accepted' | 'rejected'; error?: string }> = [];
-      let totalCost = 0;
-
-      // Get sender ID
-      const senderId = await this.resolveSenderId(accountId, request.senderId);
-
-      // Process each recipient
-      for (const recipient of request.recipients) {
-        try {
-          // Use recipient-specific message or default message
-          const message = recipient.message || request.message;
-          if (!message) {
-            results.push({
-              id: '',
-              to: recipient.to,
-              status: 'rejected',
-              error: 'No message provided',
-            });
-            continue;
-          }
-
-          // Replace variables if provided
-          let finalMessage = message;
-          if (recipient.variables) {
-            finalMessage = SMSValidationService.replaceVariables(message, recipient.variables);
-          }
-
-          // Validate phone number
-          const validation = SMSValidationService.validatePhoneNumber(recipient.to);
-          if (!validation.valid) {
-            results.push({
-              id: '',
-              to: recipient.to,
-              status: 'rejected',
-              error: validation.errors?.join(', '),
-            });
-            continue;
-          }
-
-          // Calculate message units
-          const messageUnits = SMSValidationService.calculateMessageUnits(finalMessage);
-
-          // Route message
-          const routing = await SMSRouterService.routeMessage(
-            validation.formatted,
-            MessageType.BULK
-          );
-
-          if (!routing.provider) {
-            results.push({
-              id: '',
-              to: recipient.to,
-              status: 'rejected',
-              error: 'No provider available',
-            });
-            continue;
-          }
-
-          // Calculate cost
-          const pricing = await SMSRouterService.getPricing(
-            routing.country,
-            routing.network,
-            MessageType.BULK,
-            messageUnits.units
-          );
-
-          // Create message
-          const msg = await prisma.message.create({
-            data: {
-              accountId,
-              recipient: validation.formatted,
-              recipientCountry: routing.country,
-              recipientNetwork: routing.network,
-              content: finalMessage,
-              messageType: MessageType.BULK,
-              senderId: senderId.id,
-              senderName: senderId.name,
-              status: MessageStatus.QUEUED,
-              provider: routing.provider.name,
-              units: messageUnits.units,
-              unitCost: pricing.ratePerUnit,
-              totalCost: pricing.totalCost,
-              currency: pricing.currency,
-              batchId,
-              scheduledFor: request.scheduledFor,
-              metadata: request.metadata,
-              tags: request.tags || [],
-            },
-          });
-
-          totalCost += pricing.totalCost;
-
-          results.push({
-            id: msg.id,
-            to: validation.formatted,
-            status: 'accepted',
-          });
-
-          // Send via provider
-          this.sendViaProvider(
-            msg.id,
-            validation.formatted,
-            finalMessage,
-            senderId.name,
-            routing.country,
-            routing.network
-          ).catch(err => {
-            logger.error({ error: err, messageId: msg.id }, 'Failed to send bulk SMS');
-          });
-
-        } catch (error: any) {
-          logger.error({ error, recipient }, 'Recipient processing error');
-          results.push({
-            id: '',
-            to: recipient.to,
-            status: 'rejected',
-            error: error.message,
-          });
-        }
-      }
-
-      const accepted = results.filter(r => r.status === 'accepted').length;
-      const rejected = results.filter(r => r.status === 'rejected').length;
-
-      logger.info({
-        batchId,
-        total: request.recipients.length,
-        accepted,
-        rejected,
-        totalCost,
-      }, 'Bulk SMS processed');
 
-      return {
-        batchId,
-        totalRecipients: request.recipients.length,
-        accepted,
-        rejected,
-        estimatedCost: totalCost,
-        currency: 'GHS',
-        messages: results,
-      };
-
-    } catch (error: any) {
-      logger.error({ error, accountId }, 'Bulk SMS error');
       throw error;
     }
+
+    return MessageStatus.QUEUED;
   }
 
   // Get SMS status
@@ -448,55 +275,56 @@ export class SMSService {
     }
   }
 
-  // Resolve sender ID
-  private static async resolveSenderId(
+  // Resolve the sender ID to send from. A requested name must be an
+  // approved, active sender ID of the account, preferring the one approved
+  // for `options.country`; with `options.fallback` an unknown name falls
+  // back to the default instead (replies naming the number they came in on).
+  // Without a request: the default, then any approved sender ID, those
+  // approved for `options.country` first.
+  static async resolveSenderId(
     accountId: string,
-    requestedSenderId?: string
+    requestedSenderId?: string,
+    options: { country?: string; fallback?: boolean } = {}
   ): Promise<{ id: string; name: string }> {
+    const senders = await prisma.senderId.findMany({
+      where: {
+        accountId,
+        status: SenderIdStatus.APPROVED,
+        isActive: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Senders for the recipient's country come first
+    const ranked = [
+      ...senders.filter(sender => sender.country === options.country),
+      ...senders.filter(sender => sender.country !== options.country),
+    ];
+
     if (requestedSenderId) {
-      const senderId = await prisma.senderId.findFirst({
-        where: {
-          accountId,
-          name: requestedSenderId,
-          status: 'APPROVED',
-          isActive: true,
-        },
-      });
+      const senderId = ranked.find(sender => sender.name === requestedSenderId);
 
       if (senderId) {
         return { id: senderId.id, name: senderId.name };
       }
 
-      logger.warn({ accountId, requestedSenderId }, 'Requested sender ID not found, using default');
-    }
+      const known = await prisma.senderId.count({
+        where: { accountId, name: requestedSenderId },
+      });
 
-    // Get default sender ID
-    const defaultSender = await prisma.senderId.findFirst({
-      where: {
-        accountId,
-        status: 'APPROVED',
-        isActive: true,
-        isDefault: true,
-      },
-    });
+      if (known > 0 || !options.fallback) {
+        throw new Error(`Sender ID "${requestedSenderId}" is not approved for this account`);
+      }
 
-    if (defaultSender) {
-      return { id: defaultSender.id, name: defaultSender.name };
+      logger.warn({ accountId, requestedSenderId }, 'Requested sender ID not found, using default');
     }
 
-    // Get any approved sender ID
-    const anySender = await prisma.senderId.findFirst({
-      where: {
-        accountId,
-        status: 'APPROVED',
-        isActive: true,
-      },
-    });
+    const sender = ranked.find(candidate => candidate.isDefault) ?? ranked[0];
 
-    if (anySender) {
-      return { id: anySender.id, name: anySender.name };
+    if (sender) {
+      return { id: sender.id, name: sender.name };
     }
 
     throw new Error('No approved sender ID found. Please register a sender ID first.');
   }
-}
\ No newline at end of file
+}
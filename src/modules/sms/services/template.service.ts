@@ -0,0 +1,374 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { MessageType, type Template } from '../../../../generated/prisma/client';
+import type {
+  TemplateApprovalStatus,
+  TemplateResponse,
+  TemplateReviewResponse,
+} from '../types/sms.types';
+import type {
+  QueryTemplatesInput,
+  CreateTemplateInput,
+  UpdateTemplateInput,
+  QueryTemplateReviewsInput,
+} from '../schemas/template.schema';
+
+// {{name}} placeholders; the name may use letters, digits, _ and .
+const PLACEHOLDER = /{{\s*([A-Za-z_][A-Za-z0-9_.]*)\s*}}/g;
+
+type TemplateWithAccount = Template & { account: { id: string; name: string } };
+
+/**
+ * Template Service
+ * Saved SMS texts with `{{name}}` placeholders, filled from the send
+ * request's `variables`. A template marked `requiresApproval` can only be
+ * sent once an admin has approved it:
+ *
+ *   draft -> pending (submitted) -> approved | rejected
+ *
+ * Changing the content of a submitted or approved template returns it to
+ * draft. Countries with `Country.requiresTemplateRegistration` only take
+ * messages from approved templates, whatever `requiresApproval` says.
+ */
+export class TemplateService {
+  // Placeholder names in order of first use
+  static extractVariables(content: string): string[] {
+    return [...new Set([...content.matchAll(PLACEHOLDER)].map(match => match[1]))];
+  }
+
+  // Fill a template's placeholders. Strict rendering refuses missing values;
+  // otherwise they are left in place.
+  static render(content: string, variables: Record<string, string>, strict: boolean = true): string {
+    if (strict) {
+      const missing = this.extractVariables(content).filter(name => variables[name] === undefined);
+
+      if (missing.length > 0) {
+        throw new Error(`Missing template variables: ${missing.join(', ')}`);
+      }
+    }
+
+    return content.replace(PLACEHOLDER, (placeholder, name: string) => variables[name] ?? placeholder);
+  }
+
+  // List the account's templates
+  static async list(
+    accountId: string,
+    filters: QueryTemplatesInput
+  ): Promise<{ templates: TemplateResponse[]; total: number }> {
+    const where: any = { accountId };
+
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { content: { contains: filters.search, mode: 'insensitive' } },
+      ];
+    }
+
+    if (filters.category) {
+      where.category = filters.category;
+    }
+
+    if (filters.approvalStatus) {
+      where.approvalStatus = filters.approvalStatus;
+    }
+
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+
+    const [templates, total] = await Promise.all([
+      prisma.template.findMany({
+        where,
+        orderBy: { name: 'asc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.template.count({ where }),
+    ]);
+
+    return {
+      templates: templates.map(template => this.formatTemplate(template)),
+      total,
+    };
+  }
+
+  // Get a single template
+  static async get(accountId: string, id: string): Promise<TemplateResponse> {
+    return this.formatTemplate(await this.findTemplate(accountId, id));
+  }
+
+  // Save a new template as a draft
+  static async create(accountId: string, input: CreateTemplateInput): Promise<TemplateResponse> {
+    const template = await prisma.template.create({
+      data: {
+        accountId,
+        ...input,
+        variables: this.extractVariables(input.content),
+        approvalStatus: 'draft',
+      },
+    });
+
+    logger.info({ accountId, templateId: template.id, name: template.name }, 'Template created');
+
+    return this.formatTemplate(template);
+  }
+
+  // Update a template; new content sends it back to draft
+  static async update(accountId: string, id: string, input: UpdateTemplateInput): Promise<TemplateResponse> {
+    const existing = await this.findTemplate(accountId, id);
+    const data: any = { ...input };
+
+    if (input.content !== undefined && input.content !== existing.content) {
+      data.variables = this.extractVariables(input.content);
+
+      if (existing.approvalStatus !== 'draft') {
+        Object.assign(data, {
+          approvalStatus: 'draft',
+          submittedAt: null,
+          approvedAt: null,
+          approvedBy: null,
+        });
+      }
+    }
+
+    const template = await prisma.template.update({
+      where: { id },
+      data,
+    });
+
+    logger.info({ accountId, templateId: id, fields: Object.keys(input) }, 'Template updated');
+
+    return this.formatTemplate(template);
+  }
+
+  // Delete a template; messages and campaigns keep their copy of the text
+  static async remove(accountId: string, id: string): Promise<void> {
+    await this.findTemplate(accountId, id);
+
+    await prisma.template.delete({ where: { id } });
+
+    logger.info({ accountId, templateId: id }, 'Template deleted');
+  }
+
+  // Send a draft or rejected template for review
+  static async submit(accountId: string, id: string): Promise<TemplateResponse> {
+    const existing = await this.findTemplate(accountId, id);
+
+    if (existing.approvalStatus === 'pending') {
+      throw new Error('Template is already pending approval');
+    }
+
+    if (existing.approvalStatus === 'approved') {
+      throw new Error('Template is already approved');
+    }
+
+    const template = await prisma.template.update({
+      where: { id },
+      data: {
+        approvalStatus: 'pending',
+        submittedAt: new Date(),
+        rejectionReason: null,
+      },
+    });
+
+    logger.info({ accountId, templateId: id }, 'Template submitted for approval');
+
+    return this.formatTemplate(template);
+  }
+
+  // Templates across accounts by approval status, oldest submission first
+  static async listReviews(
+    filters: QueryTemplateReviewsInput
+  ): Promise<{ templates: TemplateReviewResponse[]; total: number }> {
+    const where: any = { approvalStatus: filters.approvalStatus };
+
+    if (filters.accountId) {
+      where.accountId = filters.accountId;
+    }
+
+    const [templates, total] = await Promise.all([
+      prisma.template.findMany({
+        where,
+        include: { account: { select: { id: true, name: true } } },
+        orderBy: [{ submittedAt: 'asc' }, { createdAt: 'asc' }],
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.template.count({ where }),
+    ]);
+
+    return {
+      templates: templates.map(template => this.formatReview(template)),
+      total,
+    };
+  }
+
+  // Approve a pending template
+  static async approve(id: string, reviewerId: string): Promise<TemplateReviewResponse> {
+    return this.review(id, reviewerId, {
+      approvalStatus: 'approved',
+      approvedAt: new Date(),
+      approvedBy: reviewerId,
+      rejectionReason: null,
+    });
+  }
+
+  // Reject a pending template with a reason the account can see
+  static async reject(id: string, reviewerId: string, reason: string): Promise<TemplateReviewResponse> {
+    return this.review(id, reviewerId, {
+      approvalStatus: 'rejected',
+      approvedAt: null,
+      approvedBy: null,
+      rejectionReason: reason,
+    });
+  }
+
+  // An active template the account may send: approved if it needs approval
+  static async findUsable(accountId: string, id: string): Promise<Template> {
+    const template = await prisma.template.findFirst({
+      where: { id, accountId, isActive: true },
+    });
+
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    if (template.requiresApproval && template.approvalStatus !== 'approved') {
+      throw new Error('Template is not approved');
+    }
+
+    return template;
+  }
+
+  // Text of a send request for cost estimates: the template filled with
+  // what variables there are, or '' if the template cannot be used
+  static async estimateContent(
+    accountId: string,
+    request: { message?: string; templateId?: string; variables?: Record<string, string> }
+  ): Promise<string> {
+    if (!request.templateId) {
+      return request.message || '';
+    }
+
+    const template = await prisma.template.findFirst({
+      where: { id: request.templateId, accountId, isActive: true },
+      select: { content: true },
+    });
+
+    return template ? this.render(template.content, request.variables || {}, false) : '';
+  }
+
+  // Countries among `countries` that refuse a send with this template (or
+  // without one): those requiring registration, unless it is approved
+  static async unregisteredCountries(
+    template: Pick<Template, 'approvalStatus'> | null,
+    countries: string[]
+  ): Promise<Set<string>> {
+    if (template?.approvalStatus === 'approved' || countries.length === 0) {
+      return new Set<string>();
+    }
+
+    const rows = await prisma.country.findMany({
+      where: { code: { in: countries }, requiresTemplateRegistration: true },
+      select: { code: true },
+    });
+
+    return new Set<string>(rows.map(row => row.code));
+  }
+
+  // Refuse a send to a registration country without an approved template.
+  // OTPs are exempt.
+  static async assertRegistered(
+    template: Pick<Template, 'approvalStatus'> | null,
+    country: string,
+    messageType: MessageType
+  ): Promise<void> {
+    if (messageType === MessageType.OTP) return;
+
+    const refused = await this.unregisteredCountries(template, [country]);
+
+    if (refused.has(country)) {
+      throw new Error(`Messages to ${country} must use an approved template`);
+    }
+  }
+
+  // Count a send (a message, a batch or a campaign launch)
+  static async recordUse(id: string): Promise<void> {
+    await prisma.template.update({
+      where: { id },
+      data: { useCount: { increment: 1 }, lastUsedAt: new Date() },
+    });
+  }
+
+  private static async review(
+    id: string,
+    reviewerId: string,
+    data: Partial<Template>
+  ): Promise<TemplateReviewResponse> {
+    // Only the first reviewer of a submission wins
+    const { count } = await prisma.template.updateMany({
+      where: { id, approvalStatus: 'pending' },
+      data,
+    });
+
+    if (count === 0) {
+      const exists = await prisma.template.count({ where: { id } });
+      throw new Error(exists ? 'Only pending templates can be reviewed' : 'Template not found');
+    }
+
+    const template = await prisma.template.findUniqueOrThrow({
+      where: { id },
+      include: { account: { select: { id: true, name: true } } },
+    });
+
+    logger.info({
+      templateId: id,
+      accountId: template.accountId,
+      approvalStatus: data.approvalStatus,
+      reviewerId,
+    }, 'Template reviewed');
+
+    return this.formatReview(template);
+  }
+
+  private static async findTemplate(accountId: string, id: string): Promise<Template> {
+    const template = await prisma.template.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    return template;
+  }
+
+  private static formatTemplate(template: Template): TemplateResponse {
+    return {
+      id: template.id,
+      name: template.name,
+      content: template.content,
+      variables: template.variables,
+      category: template.category,
+      language: template.language,
+      tags: template.tags,
+      requiresApproval: template.requiresApproval,
+      approvalStatus: template.approvalStatus as TemplateApprovalStatus,
+      submittedAt: template.submittedAt,
+      approvedAt: template.approvedAt,
+      rejectionReason: template.rejectionReason,
+      isActive: template.isActive,
+      useCount: template.useCount,
+      lastUsedAt: template.lastUsedAt,
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    };
+  }
+
+  private static formatReview(template: TemplateWithAccount): TemplateReviewResponse {
+    return {
+      ...this.formatTemplate(template),
+      account: template.account,
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import type { MessageStatus, MessageType } from '../../../../generated/prisma/client';
+import type { RecurrenceRule } from '@utils/recurrence';
 
 // SMS Message interface
 export interface SMSMessage {
@@ -13,9 +14,13 @@ export interface SMSMessage {
 // SMS Send request
 export interface SendSMSRequest {
   to: string;
-  message: string;
+  message?: string; // Required unless templateId is set
+  templateId?: string;
+  variables?: Record<string, string>; // Fills the template's {{placeholders}}
   senderId?: string;
-  scheduledFor?: Date;
+  scheduledFor?: Date | string; // Local wall-clock time when timezone is set
+  timezone?: string; // IANA timezone or 'recipient'
+  recurrence?: RecurrenceRule;
   metadata?: Record<string, any>;
   tags?: string[];
 }
@@ -28,6 +33,8 @@ export interface BulkSMSRequest {
     variables?: Record<string, string>;
   }>;
   message?: string; // Default message if not provided per recipient
+  templateId?: string; // Instead of message; recipients fill its variables
+  variables?: Record<string, string>; // Template values shared by all recipients
   senderId?: string;
   scheduledFor?: Date;
   metadata?: Record<string, any>;
@@ -50,20 +57,93 @@ export interface SMSResponse {
   createdAt: Date;
 }
 
-// Bulk SMS Response
+// Bulk SMS Response (batch accepted, recipients are processed by workers)
 export interface BulkSMSResponse {
   batchId: string;
+  status: BulkBatchStatus;
   totalRecipients: number;
-  accepted: number;
-  rejected: number;
+  totalChunks: number;
   estimatedCost: number;
   currency: string;
-  messages: Array<{
-    id: string;
+  fileName?: string;
+  scheduledFor?: Date;
+  createdAt: Date;
+}
+
+export type BulkBatchStatus = 'DRAFT' | 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+// Bulk upload preview (draft batch awaiting confirmation)
+export interface BulkUploadPreview {
+  batchId: string;
+  status: 'DRAFT';
+  fileName: string;
+  columns: string[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  units: number;
+  estimatedCost: number;
+  currency: string;
+  errors: Array<{
+    row: number;
+    phone?: string;
+    errors: string[];
+  }>;
+  preview: Array<{
+    row: number;
     to: string;
-    status: 'accepted' | 'rejected';
-    error?: string;
+    message: string;
+    units: number;
   }>;
+  expiresAt: Date;
+}
+
+// Bulk batch progress
+export interface BulkBatchProgress {
+  batchId: string;
+  status: BulkBatchStatus;
+  totalRecipients: number;
+  processedRecipients: number;
+  accepted: number;
+  rejected: number;
+  chunks: {
+    total: number;
+    processed: number;
+    failed: number;
+  };
+  delivery: {
+    pending: number;
+    queued: number;
+    sent: number;
+    delivered: number;
+    failed: number;
+  };
+  estimatedCost: number;
+  totalCost: number;
+  currency: string;
+  rejections: Array<{ to: string; error: string }>;
+  scheduledFor?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+}
+
+// Recurring schedule
+export interface MessageScheduleResponse {
+  id: string;
+  channel: 'SMS' | 'EMAIL';
+  recipient: string;
+  status: 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+  timezone: string;
+  recipientLocal: boolean;
+  recurrence: RecurrenceRule;
+  startAt: Date;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  runCount: number;
+  lastMessageId?: string;
+  lastError?: string;
+  createdAt: Date;
 }
 
 // SMS Status
@@ -136,7 +216,7 @@ export interface ProviderSelectionCriteria {
 
 // Provider info
 export interface ProviderInfo {
-  id: string;
+  id: string; // Provider ID, as stored on Message.provider
   name: string;
   type: string;
   countries: string[];
@@ -144,7 +224,7 @@ export interface ProviderInfo {
   priority: number;
   successRate?: number;
   avgLatency?: number;
-  costPerUnit: number;
+  costPerUnit?: number; // Provider's buy price, when a ProviderCost row exists
 }
 
 // SMS pricing
@@ -163,4 +243,86 @@ export interface MessageUnits {
   units: number;
   encoding: 'GSM-7' | 'UCS-2';
   charactersPerUnit: number;
-}
\ No newline at end of file
+}
+// Inbound SMS (two-way messaging)
+export interface InboundMessageResponse {
+  id: string;
+  from: string;
+  to: string;
+  content: string;
+  keyword: string | null;
+  network: string | null;
+  country: string | null;
+  provider: string | null;
+  conversationId: string | null;
+  processed: boolean;
+  processedAt: Date | null;
+  response: string | null;
+  receivedAt: Date;
+}
+
+// Result of storing a provider's inbound callback
+export interface InboundReceiveResult {
+  stored: number;
+  duplicates: number;
+  unrouted: number; // Stored without an account
+}
+
+// Keyword auto-responder on an account's number
+export interface KeywordResponderResponse {
+  id: string;
+  number: string;
+  keyword: string;
+  templateId: string | null;
+  replyMessage: string | null;
+  groupId: string | null;
+  tag: string | null;
+  webhookId: string | null;
+  isActive: boolean;
+  matchCount: number;
+  lastMatchedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What an inbound keyword did
+export interface KeywordResult {
+  type: 'opt_out' | 'opt_in' | 'help' | 'responder';
+  keyword: string;
+  responderId?: string;
+  reply: string | null;
+  replyMessageId?: string;
+  webhookId?: string; // Forward target that does not subscribe to MESSAGE_RECEIVED
+}
+
+// Template approval: draft -> pending -> approved | rejected
+export type TemplateApprovalStatus = 'draft' | 'pending' | 'approved' | 'rejected';
+
+// Saved SMS template
+export interface TemplateResponse {
+  id: string;
+  name: string;
+  content: string;
+  variables: string[];
+  category: string;
+  language: string;
+  tags: string[];
+  requiresApproval: boolean;
+  approvalStatus: TemplateApprovalStatus;
+  submittedAt: Date | null;
+  approvedAt: Date | null;
+  rejectionReason: string | null;
+  isActive: boolean;
+  useCount: number;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Template in the admin review queue
+export interface TemplateReviewResponse extends TemplateResponse {
+  account: {
+    id: string;
+    name: string;
+  };
+}
@@ -0,0 +1,113 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { SuppressionService } from '../services/suppression.service';
+import type {
+  QuerySuppressionsInput,
+  AddSuppressionsInput,
+  ImportSuppressionsInput,
+  SuppressionParamsInput,
+} from '../schemas/suppression.schema';
+
+export class SuppressionController {
+  // List the account's suppressed numbers
+  static async listSuppressions(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const query = c.req.valid('query' as never) as QuerySuppressionsInput;
+
+      const { suppressions, total } = await SuppressionService.list(accountId, query);
+
+      return ResponseBuilder.paginated(c, suppressions, query.page, query.limit, total);
+    } catch (error: any) {
+      logger.error({ error }, 'List suppressions controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Add numbers to the account's list
+  static async addSuppressions(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as AddSuppressionsInput;
+
+      const result = await SuppressionService.add(accountId, body.phones, {
+        reason: body.reason,
+        note: body.note,
+      });
+
+      return ResponseBuilder.created(c, result, 'Numbers suppressed');
+    } catch (error: any) {
+      logger.error({ error }, 'Add suppressions controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Import a CSV or Excel file of numbers into the account's list
+  static async importSuppressions(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('form' as never) as ImportSuppressionsInput;
+
+      const result = await SuppressionService.importFile(accountId, body.file, {
+        phoneColumn: body.phoneColumn,
+        reason: body.reason,
+        note: body.note,
+      });
+
+      return ResponseBuilder.created(c, result, 'Suppression list imported');
+    } catch (error: any) {
+      return SuppressionController.handleError(c, error, 'Import suppressions controller error');
+    }
+  }
+
+  // Download the account's list as CSV
+  static async exportSuppressions(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+
+      const csv = await SuppressionService.exportCSV(accountId);
+
+      c.header('Content-Type', 'text/csv');
+      c.header('Content-Disposition', 'attachment; filename="suppressions.csv"');
+      return c.body(csv);
+    } catch (error: any) {
+      logger.error({ error }, 'Export suppressions controller error');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Remove a number from the account's list
+  static async deleteSuppression(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.valid('param' as never) as SuppressionParamsInput;
+
+      await SuppressionService.remove(accountId, id);
+
+      return ResponseBuilder.success(c, null, 'Suppression removed');
+    } catch (error: any) {
+      return SuppressionController.handleError(c, error, 'Delete suppression controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Suppression not found') {
+      return ResponseBuilder.notFound(c, 'Suppression');
+    }
+
+    if (error.message?.startsWith('Cannot ')) {
+      return ResponseBuilder.error(c, 'OPT_OUT_LOCKED', error.message, 409);
+    }
+
+    if (error.message?.startsWith('Column ') || error.message?.startsWith('Maximum ')
+        || error.message?.startsWith('Unsupported ') || error.message?.startsWith('Legacy ')
+      || error.message === 'The file has no data rows') {
+      return ResponseBuilder.error(c, 'SUPPRESSION_IMPORT_ERROR', error.message, 400);
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
@@ -0,0 +1,26 @@
+// Export all suppression module components
+
+// Services
+export { SuppressionService } from './services/suppression.service';
+
+// Controllers
+export { SuppressionController } from './controllers/suppression.controller';
+
+// Routes
+export { default as suppressionRouter } from './routes/suppression.routes';
+
+// Types
+export type {
+  SuppressionEntry,
+  SuppressionImportResult,
+} from './types/suppression.types';
+
+// Schemas
+export {
+  querySuppressionsSchema,
+  addSuppressionsSchema,
+  importSuppressionsSchema,
+  addPlatformSuppressionsSchema,
+  importPlatformSuppressionsSchema,
+  suppressionParamsSchema,
+} from './schemas/suppression.schema';
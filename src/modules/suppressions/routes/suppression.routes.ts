@@ -0,0 +1,69 @@
+import { Hono } from 'hono';
+import { SuppressionController } from '../controllers/suppression.controller';
+import {
+  apiKeyAuth,
+  apiKeyRateLimit,
+  requirePermissions,
+  validate,
+  auditLogger,
+} from '@app/middleware';
+import {
+  querySuppressionsSchema,
+  addSuppressionsSchema,
+  importSuppressionsSchema,
+  suppressionParamsSchema,
+} from '../schemas/suppression.schema';
+
+const suppressionRouter = new Hono();
+
+// Apply authentication to all routes
+suppressionRouter.use('*', apiKeyAuth);
+
+// Apply API rate limiting
+suppressionRouter.use('*', apiKeyRateLimit);
+
+// ============================================
+// SUPPRESSION ROUTES
+// ============================================
+
+// List suppressed numbers
+suppressionRouter.get(
+  '/',
+  validate('query', querySuppressionsSchema),
+  SuppressionController.listSuppressions
+);
+
+// Export the list as CSV
+suppressionRouter.get(
+  '/export',
+  SuppressionController.exportSuppressions
+);
+
+// Add numbers
+suppressionRouter.post(
+  '/',
+  requirePermissions('suppressions:manage'),
+  validate('json', addSuppressionsSchema),
+  auditLogger('create', 'suppression'),
+  SuppressionController.addSuppressions
+);
+
+// Import a CSV or Excel file of numbers
+suppressionRouter.post(
+  '/import',
+  requirePermissions('suppressions:manage'),
+  validate('form', importSuppressionsSchema),
+  auditLogger('import', 'suppression'),
+  SuppressionController.importSuppressions
+);
+
+// Remove a number
+suppressionRouter.delete(
+  '/:id',
+  requirePermissions('suppressions:manage'),
+  validate('param', suppressionParamsSchema),
+  auditLogger('delete', 'suppression'),
+  SuppressionController.deleteSuppression
+);
+
+export default suppressionRouter;
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+const reasonSchema = z.enum(['OPT_OUT', 'MANUAL', 'COMPLAINT', 'DND_REGISTRY']);
+
+// Reasons an account can give; DND_REGISTRY entries are platform-wide only
+const accountReasonSchema = z.enum(['OPT_OUT', 'MANUAL', 'COMPLAINT']);
+
+// Query suppressions schema
+export const querySuppressionsSchema = z.object({
+  phone: z.string().optional(),
+  reason: reasonSchema.optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? parseInt(v) : 50),
+});
+
+// Add numbers to the account's list schema
+export const addSuppressionsSchema = z.object({
+  phones: z.array(z.string().min(1)).min(1, 'At least one phone number is required')
+    .max(10000, 'Maximum 10,000 numbers per request, import a file for more'),
+  reason: accountReasonSchema.default('MANUAL'),
+  note: z.string().max(500).optional(),
+});
+
+// Import a CSV or Excel file into the account's list schema
+export const importSuppressionsSchema = z.object({
+  file: z.instanceof(File, { message: 'A CSV or Excel file is required' }),
+  phoneColumn: z.string().min(1).default('phone'),
+  reason: accountReasonSchema.default('MANUAL'),
+  note: z.string().max(500).optional(),
+});
+
+// Add numbers to the platform-wide list schema (admin)
+export const addPlatformSuppressionsSchema = addSuppressionsSchema.extend({
+  reason: reasonSchema.default('DND_REGISTRY'),
+  source: z.string().min(1).max(100).optional(),
+});
+
+// Import a CSV or Excel file into the platform-wide list schema (admin)
+export const importPlatformSuppressionsSchema = importSuppressionsSchema.extend({
+  reason: reasonSchema.default('DND_REGISTRY'),
+  source: z.string().min(1).max(100).optional(),
+});
+
+// Suppression by ID schema
+export const suppressionParamsSchema = z.object({
+  id: z.string().min(1, 'Suppression ID is required'),
+});
+
+export type QuerySuppressionsInput = z.infer<typeof querySuppressionsSchema>;
+export type AddSuppressionsInput = z.infer<typeof addSuppressionsSchema>;
+export type ImportSuppressionsInput = z.infer<typeof importSuppressionsSchema>;
+export type AddPlatformSuppressionsInput = z.infer<typeof addPlatformSuppressionsSchema>;
+export type ImportPlatformSuppressionsInput = z.infer<typeof importPlatformSuppressionsSchema>;
+export type SuppressionParamsInput = z.infer<typeof suppressionParamsSchema>;
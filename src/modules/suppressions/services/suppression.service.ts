@@ -0,0 +1,315 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { parseSpreadsheet, csvField, FIRST_DATA_ROW } from '@utils/spreadsheet';
+import { SMSValidationService } from '@modules/sms/services/sms-validation.service';
+import type { SuppressionEntry, SuppressionImportResult } from '../types/suppression.types';
+import type { QuerySuppressionsInput } from '../schemas/suppression.schema';
+import {
+  MessageType,
+  SuppressionReason,
+  type Prisma,
+  type Suppression,
+} from '../../../../generated/prisma/client';
+
+// Rows per lookup/insert when adding numbers
+const WRITE_CHUNK_SIZE = 1000;
+
+// Largest file accepted by an import
+const MAX_IMPORT_ROWS = 500000;
+
+// Row errors returned with an import
+const MAX_IMPORT_ERRORS = 500;
+
+const REASON_DESCRIPTIONS: Record<SuppressionReason, string> = {
+  OPT_OUT: 'recipient opted out',
+  MANUAL: 'number is on the suppression list',
+  COMPLAINT: 'recipient complained',
+  DND_REGISTRY: 'number is on the do-not-disturb registry',
+};
+
+/**
+ * Suppression Service
+ * Numbers that must not receive SMS. Each account has its own list, and
+ * entries with no account (regulator do-not-disturb registries) apply to
+ * every account. Contacts with `isSubscribed=false` count as opted out even
+ * without an entry.
+ *
+ * Every send except OTPs (`MessageType.OTP`) is checked: single sends are
+ * refused and bulk recipients are rejected with the reason. `OPT_OUT`
+ * entries are lifted only by the recipient texting an opt-in keyword.
+ */
+export class SuppressionService {
+  // Suppressed numbers among `phones` for an account, with the reason.
+  // Platform-wide entries win over the account's own.
+  static async check(accountId: string, phones: string[]): Promise<Map<string, SuppressionReason>> {
+    const suppressed = new Map<string, SuppressionReason>();
+    const unique = [...new Set(phones)];
+
+    if (unique.length === 0) return suppressed;
+
+    const [entries, optedOut] = await Promise.all([
+      prisma.suppression.findMany({
+        where: {
+          phone: { in: unique },
+          OR: [{ accountId }, { accountId: null }],
+        },
+        select: { phone: true, reason: true, accountId: true },
+      }),
+      prisma.contact.findMany({
+        where: { accountId, phone: { in: unique }, isSubscribed: false },
+        select: { phone: true },
+      }),
+    ]);
+
+    for (const contact of optedOut) {
+      suppressed.set(contact.phone, SuppressionReason.OPT_OUT);
+    }
+
+    for (const entry of entries.sort((a, b) => Number(a.accountId === null) - Number(b.accountId === null))) {
+      suppressed.set(entry.phone, entry.reason);
+    }
+
+    return suppressed;
+  }
+
+  // Why a send is refused, for errors and bulk rejections
+  static describe(reason: SuppressionReason): string {
+    return `Recipient is suppressed: ${REASON_DESCRIPTIONS[reason]}`;
+  }
+
+  // OTPs are the only messages sent to suppressed numbers
+  static isExempt(messageType: MessageType): boolean {
+    return messageType === MessageType.OTP;
+  }
+
+  // Throw when a single send to `phone` is not allowed
+  static async assertSendable(accountId: string, phone: string, messageType: MessageType): Promise<void> {
+    if (this.isExempt(messageType)) return;
+
+    const reason = (await this.check(accountId, [phone])).get(phone);
+
+    if (reason) {
+      throw new Error(this.describe(reason));
+    }
+  }
+
+  // List an account's entries, or the platform-wide list (accountId null)
+  static async list(
+    accountId: string | null,
+    filters: QuerySuppressionsInput
+  ): Promise<{ suppressions: SuppressionEntry[]; total: number }> {
+    const where: Prisma.SuppressionWhereInput = { accountId };
+
+    if (filters.phone) {
+      where.phone = this.normalizePhone(filters.phone);
+    }
+
+    if (filters.reason) {
+      where.reason = filters.reason;
+    }
+
+    const [suppressions, total] = await Promise.all([
+      prisma.suppression.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.suppression.count({ where }),
+    ]);
+
+    return {
+      suppressions: suppressions.map(entry => this.formatEntry(entry)),
+      total,
+    };
+  }
+
+  // Add numbers; ones already on the list are left as they are
+  static async add(
+    accountId: string | null,
+    phones: string[],
+    details: { reason: SuppressionReason; source?: string; note?: string }
+  ): Promise<SuppressionImportResult> {
+    return this.addRows(accountId, phones.map(phone => ({ phone })), details);
+  }
+
+  // Add the numbers in one column of a CSV or Excel file
+  static async importFile(
+    accountId: string | null,
+    file: File,
+    options: { phoneColumn: string; reason: SuppressionReason; source?: string; note?: string }
+  ): Promise<SuppressionImportResult> {
+    const { columns, rows } = await parseSpreadsheet(file);
+
+    if (!columns.includes(options.phoneColumn)) {
+      throw new Error(`Column "${options.phoneColumn}" not found in the file`);
+    }
+
+    if (rows.length === 0) {
+      throw new Error('The file has no data rows');
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Maximum ${MAX_IMPORT_ROWS.toLocaleString()} rows per import`);
+    }
+
+    return this.addRows(
+      accountId,
+      rows.map((row, index) => ({ phone: row[options.phoneColumn] || '', row: index + FIRST_DATA_ROW })),
+      { reason: options.reason, source: options.source || 'import', note: options.note }
+    );
+  }
+
+  // Whole list as CSV
+  static async exportCSV(accountId: string | null): Promise<string> {
+    const entries = await prisma.suppression.findMany({
+      where: { accountId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return [
+      ['phone', 'reason', 'source', 'note', 'createdAt'].join(','),
+      ...entries.map(entry => [
+        entry.phone,
+        entry.reason,
+        csvField(entry.source),
+        csvField(entry.note),
+        entry.createdAt.toISOString(),
+      ].join(',')),
+    ].join('\n');
+  }
+
+  // Remove an entry. Opt-outs stay until the recipient opts back in.
+  static async remove(accountId: string | null, id: string): Promise<void> {
+    const entry = await prisma.suppression.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!entry) {
+      throw new Error('Suppression not found');
+    }
+
+    if (accountId && entry.reason === SuppressionReason.OPT_OUT) {
+      throw new Error('Cannot remove an opt-out, the recipient must text START');
+    }
+
+    await prisma.suppression.delete({ where: { id } });
+  }
+
+  // Record an opt-out or opt-in keyword from the recipient
+  static async setOptOut(accountId: string, phone: string, optedOut: boolean): Promise<void> {
+    if (optedOut) {
+      await prisma.suppression.upsert({
+        where: { accountId_phone: { accountId, phone } },
+        update: { reason: SuppressionReason.OPT_OUT, source: 'keyword' },
+        create: { accountId, phone, reason: SuppressionReason.OPT_OUT, source: 'keyword' },
+      });
+      return;
+    }
+
+    await prisma.suppression.deleteMany({
+      where: { accountId, phone, reason: SuppressionReason.OPT_OUT },
+    });
+  }
+
+  // E.164 form of a number; spreadsheets drop the leading +
+  static normalizePhone(value: string): string {
+    const phone = value.trim().replace(/[\s\-().]/g, '');
+    return /^[1-9]\d{7,14}$/.test(phone) ? `+${phone}` : phone;
+  }
+
+  private static async addRows(
+    accountId: string | null,
+    rows: Array<{ phone: string; row?: number }>,
+    details: { reason: SuppressionReason; source?: string; note?: string }
+  ): Promise<SuppressionImportResult> {
+    const result: SuppressionImportResult = { added: 0, existing: 0, invalid: 0, errors: [] };
+    const phones = new Set<string>();
+
+    for (const { phone, row } of rows) {
+      const normalized = this.normalizePhone(phone);
+      const validation = SMSValidationService.validatePhoneNumber(normalized);
+
+      if (!validation.valid) {
+        result.invalid++;
+        if (result.errors.length < MAX_IMPORT_ERRORS) {
+          result.errors.push({
+            ...(row && { row }),
+            phone,
+            error: validation.errors?.join(', ') || 'Invalid phone number',
+          });
+        }
+        continue;
+      }
+
+      if (phones.has(validation.formatted)) {
+        result.existing++;
+        continue;
+      }
+
+      phones.add(validation.formatted);
+    }
+
+    const unique = [...phones];
+
+    for (let i = 0; i < unique.length; i += WRITE_CHUNK_SIZE) {
+      const chunk = unique.slice(i, i + WRITE_CHUNK_SIZE);
+
+      // The unique index does not cover platform entries (null account),
+      // so existing numbers are filtered out here for both lists. The list
+      // is locked until the chunk is written, so two imports cannot both
+      // add a number.
+      const count = await prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`suppressions:${accountId ?? 'platform'}`}))`;
+
+        const existing = await tx.suppression.findMany({
+          where: { accountId, phone: { in: chunk } },
+          select: { phone: true },
+        });
+        const known = new Set(existing.map(entry => entry.phone));
+
+        const created = await tx.suppression.createMany({
+          data: chunk
+            .filter(phone => !known.has(phone))
+            .map(phone => ({
+              accountId,
+              phone,
+              reason: details.reason,
+              source: details.source || 'api',
+              note: details.note,
+            })),
+          skipDuplicates: true,
+        });
+
+        return created.count;
+      });
+
+      result.added += count;
+      result.existing += chunk.length - count;
+    }
+
+    logger.info({
+      accountId,
+      reason: details.reason,
+      added: result.added,
+      existing: result.existing,
+      invalid: result.invalid,
+    }, 'Suppression list updated');
+
+    return result;
+  }
+
+  private static formatEntry(entry: Suppression): SuppressionEntry {
+    return {
+      id: entry.id,
+      phone: entry.phone,
+      reason: entry.reason,
+      source: entry.source,
+      note: entry.note,
+      scope: entry.accountId ? 'account' : 'platform',
+      createdAt: entry.createdAt,
+    };
+  }
+}
+
+export default SuppressionService;
@@ -0,0 +1,22 @@
+// Suppressed number, for one account or platform-wide
+export interface SuppressionEntry {
+  id: string;
+  phone: string;
+  reason: 'OPT_OUT' | 'MANUAL' | 'COMPLAINT' | 'DND_REGISTRY';
+  source: string | null;
+  note: string | null;
+  scope: 'account' | 'platform';
+  createdAt: Date;
+}
+
+// Result of adding or importing numbers
+export interface SuppressionImportResult {
+  added: number;
+  existing: number; // Already on the list
+  invalid: number;
+  errors: Array<{
+    row?: number;
+    phone: string;
+    error: string;
+  }>;
+}
@@ -1,7 +1,8 @@
 import { logger } from '@utils/logger';
-import prisma from '@database/prisma.client';
+import { prisma } from '@database/prisma.client';
 import type { OTPStorageData, RateLimitInfo } from '../types/verify.types';
-import { OTPStatus } from '../../../../generated/prisma/client';
+import { WebhookDispatcher } from '@modules/webhooks/services/webhook-dispatcher.service';
+import { OTPStatus, type OtpMessage } from '../../../../generated/prisma/client';
 
 export class VerificationStorageService {
   // Store OTP
@@ -102,7 +103,7 @@ export class VerificationStorageService {
   // Mark OTP as verified
   static async markAsVerified(otpId: string): Promise<void> {
     try {
-      await prisma.otpMessage.update({
+      const otp = await prisma.otpMessage.update({
         where: { id: otpId },
         data: {
           status: OTPStatus.VERIFIED,
@@ -113,6 +114,8 @@ export class VerificationStorageService {
 
       logger.info({ otpId }, 'OTP marked as verified');
 
+      await WebhookDispatcher.emit(otp.accountId, 'OTP_VERIFIED', this.webhookData(otp));
+
     } catch (error) {
       logger.error({ error, otpId }, 'Failed to mark OTP as verified');
       throw error;
@@ -141,7 +144,7 @@ export class VerificationStorageService {
   // Mark OTP as expired
   static async markAsExpired(otpId: string): Promise<void> {
     try {
-      await prisma.otpMessage.update({
+      const otp = await prisma.otpMessage.update({
         where: { id: otpId },
         data: {
           status: OTPStatus.EXPIRED,
@@ -151,6 +154,8 @@ export class VerificationStorageService {
 
       logger.info({ otpId }, 'OTP marked as expired');
 
+      await WebhookDispatcher.emit(otp.accountId, 'OTP_EXPIRED', this.webhookData(otp));
+
     } catch (error) {
       logger.error({ error, otpId }, 'Failed to mark OTP as expired');
       throw error;
@@ -285,20 +290,34 @@ export class VerificationStorageService {
   // Clean up expired OTPs (cron job)
   static async cleanupExpiredOTPs(): Promise<number> {
     try {
-      const result = await prisma.otpMessage.updateMany({
+      const expired = await prisma.otpMessage.findMany({
         where: {
           status: OTPStatus.PENDING,
           expiresAt: {
             lt: new Date(),
           },
         },
+      });
+
+      if (expired.length === 0) return 0;
+
+      const result = await prisma.otpMessage.updateMany({
+        where: {
+          id: { in: expired.map(otp => otp.id) },
+          status: OTPStatus.PENDING,
+        },
         data: {
           status: OTPStatus.EXPIRED,
         },
       });
 
-      if (result.count > 0) {
-        logger.info({ count: result.count }, 'Expired OTPs cleaned up');
+      logger.info({ count: result.count }, 'Expired OTPs cleaned up');
+
+      for (const otp of expired) {
+        await WebhookDispatcher.emit(otp.accountId, 'OTP_EXPIRED', this.webhookData({
+          ...otp,
+          status: OTPStatus.EXPIRED,
+        }));
       }
 
       return result.count;
@@ -309,6 +328,20 @@ export class VerificationStorageService {
     }
   }
 
+  // Webhook event data for an OTP (the code is never included)
+  private static webhookData(otp: OtpMessage) {
+    return {
+      otpId: otp.id,
+      phone: otp.recipient,
+      status: otp.status,
+      purpose: otp.purpose,
+      attempts: otp.attempts,
+      expiresAt: otp.expiresAt,
+      verifiedAt: otp.verifiedAt,
+      metadata: otp.metadata,
+    };
+  }
+
   // Mask phone number for logging
   private static maskPhone(phone: string): string {
     if (phone.length <= 4) return '***';
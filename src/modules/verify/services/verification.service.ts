@@ -12,7 +12,7 @@ import type {
   OTPResendResponse,
   OTPStatistics,
 } from '../types/verify.types';
-import { OTPStatus } from '../../../../generated/prisma/client';
+import { MessageType, OTPStatus } from '../../../../generated/prisma/client';
 
 export class VerificationService {
   // Request OTP
@@ -96,7 +96,7 @@ export class VerificationService {
             otpId,
             purpose: 'verification',
           },
-        });
+        }, { messageType: MessageType.OTP });
       } catch (smsError) {
         logger.error({ error: smsError, otpId }, 'Failed to send OTP SMS');
         // Mark OTP as failed
@@ -323,7 +323,7 @@ export class VerificationService {
             otpId,
             purpose: 'verification',
           },
-        });
+        }, { messageType: MessageType.OTP });
       } catch (smsError) {
         logger.error({ error: smsError, otpId }, 'Failed to resend OTP SMS');
         await VerificationStorageService.markAsFailed(otpId);
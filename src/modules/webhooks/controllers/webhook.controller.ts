@@ -0,0 +1,186 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { WebhookService } from '../services/webhook.service';
+import type {
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  RotateSecretInput,
+  TestWebhookInput,
+  QueryDeliveriesInput,
+} from '../schemas/webhook.schema';
+
+export class WebhookController {
+  // List webhooks
+  static async listWebhooks(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+
+      const webhooks = await WebhookService.listWebhooks(accountId);
+
+      return ResponseBuilder.success(c, webhooks);
+    } catch (error: any) {
+      return WebhookController.handleError(c, error, 'List webhooks controller error');
+    }
+  }
+
+  // Get webhook by ID
+  static async getWebhook(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.param();
+
+      const webhook = await WebhookService.getWebhook(accountId, id);
+
+      return ResponseBuilder.success(c, webhook);
+    } catch (error: any) {
+      return WebhookController.handleError(c, error, 'Get webhook controller error');
+    }
+  }
+
+  // Create webhook
+  static async createWebhook(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const body = c.req.valid('json' as never) as CreateWebhookInput;
+
+      const webhook = await WebhookService.createWebhook(accountId, body);
+
+      return ResponseBuilder.created(c, webhook, 'Webhook created. Store the secret now, it is not shown again.');
+    } catch (error: any) {
+      return WebhookController.handleError(c, error, 'Create webhook controller error');
+    }
+  }
+
+  // Update webhook
+  static async updateWebhook(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.param();
+      const body = c.req.valid('json' as never) as UpdateWebhookInput;
+
+      const webhook = await WebhookService.updateWebhook(accountId, id, body);
+
+      return ResponseBuilder.success(c, webhook, 'Webhook updated');
+    } catch (error: any) {
+      return WebhookController.handleError(c, error, 'Update webhook controller error');
+    }
+  }
+
+  // Delete webhook
+  static async deleteWebhook(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.param();
+
+      await WebhookService.deleteWebhook(accountId, id);
+
+      return ResponseBuilder.success(c, { id }, 'Webhook deleted');
+    } catch (error: any) {
+      return WebhookController.handleError(c, error, 'Delete webhook controller error');
+    }
+  }
+
+  // Rotate webhook secret
+  static async rotateSecret(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.param();
+      const body = c.req.valid('json' as never) as RotateSecretInput;
+
+      const webhook = await WebhookService.rotateSecret(accountId, id, body.gracePeriodHours);
+
+      return ResponseBuilder.success(c, webhook, 'Webhook secret rotated');
+    } catch (error: any) {
+      return WebhookController.handleError(c, error, 'Rotate webhook secret controller error');
+    }
+  }
+
+  // Send a test event
+  static async testWebhook(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.param();
+      const body = c.req.valid('json' as never) as TestWebhookInput;
+
+      const delivery = await WebhookService.sendTest(accountId, id, body.event);
+
+      return ResponseBuilder.success(
+        c,
+        delivery,
+        delivery.status === 'delivered' ? 'Test event delivered' : 'Test event failed'
+      );
+    } catch (error: any) {
+      return WebhookController.handleError(c, error, 'Test webhook controller error');
+    }
+  }
+
+  // List deliveries
+  static async listDeliveries(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id } = c.req.param();
+      const query = c.req.valid('query' as never) as QueryDeliveriesInput;
+
+      const { deliveries, total } = await WebhookService.listDeliveries(accountId, id, query);
+
+      return ResponseBuilder.paginated(c, deliveries, query.page, query.limit, total);
+    } catch (error: any) {
+      return WebhookController.handleError(c, error, 'List webhook deliveries controller error');
+    }
+  }
+
+  // Get delivery by ID
+  static async getDelivery(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id, deliveryId } = c.req.param();
+
+      const delivery = await WebhookService.getDelivery(accountId, id, deliveryId);
+
+      return ResponseBuilder.success(c, delivery);
+    } catch (error: any) {
+      return WebhookController.handleError(c, error, 'Get webhook delivery controller error');
+    }
+  }
+
+  // Redeliver a delivery
+  static async redeliver(c: Context) {
+    try {
+      const accountId = c.get('accountId');
+      const { id, deliveryId } = c.req.param();
+
+      const delivery = await WebhookService.redeliver(accountId, id, deliveryId);
+
+      return ResponseBuilder.success(c, delivery, 'Redelivery queued');
+    } catch (error: any) {
+      return WebhookController.handleError(c, error, 'Redeliver webhook controller error');
+    }
+  }
+
+  // Map service errors to responses
+  private static handleError(c: Context, error: any, message: string) {
+    if (error.message === 'Webhook not found') {
+      return ResponseBuilder.notFound(c, 'Webhook');
+    }
+
+    if (error.message === 'Delivery not found') {
+      return ResponseBuilder.notFound(c, 'Delivery');
+    }
+
+    if (error.message === 'Webhooks are not enabled for this account') {
+      return ResponseBuilder.error(c, 'WEBHOOKS_DISABLED', error.message, 403);
+    }
+
+    if (error.message?.startsWith('Webhook limit of ')) {
+      return ResponseBuilder.error(c, 'WEBHOOK_LIMIT_REACHED', error.message, 403);
+    }
+
+    if (error.message?.startsWith('Cannot ')) {
+      return ResponseBuilder.error(c, 'INVALID_DELIVERY_STATE', error.message, 409);
+    }
+
+    logger.error({ error }, message);
+    return ResponseBuilder.serverError(c);
+  }
+}
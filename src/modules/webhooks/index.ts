@@ -0,0 +1,35 @@
+// Export all Webhooks module components
+
+// Services
+export { WebhookDispatcher, WEBHOOK_DELIVERY_QUEUE } from './services/webhook-dispatcher.service';
+export { WebhookService } from './services/webhook.service';
+
+// Controllers
+export { WebhookController } from './controllers/webhook.controller';
+
+// Routes
+export { default as webhookRouter } from './routes/webhook.routes';
+
+// Types
+export type {
+  WebhookDeliveryStatus,
+  WebhookPayload,
+  WebhookDeliveryJob,
+  WebhookAttemptResult,
+  WebhookSummary,
+  WebhookDeliveryLog,
+  MessageEventData,
+} from './types/webhook.types';
+
+// Schemas
+export {
+  WEBHOOK_EVENTS,
+  MAX_SECRET_GRACE_HOURS,
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookParamsSchema,
+  deliveryParamsSchema,
+  rotateSecretSchema,
+  testWebhookSchema,
+  queryDeliveriesSchema,
+} from './schemas/webhook.schema';
@@ -0,0 +1,120 @@
+import { Hono } from 'hono';
+import { WebhookController } from '../controllers/webhook.controller';
+import {
+  apiKeyAuth,
+  apiKeyRateLimit,
+  requirePermissions,
+  validate,
+  auditLogger,
+} from '@app/middleware';
+import {
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookParamsSchema,
+  deliveryParamsSchema,
+  rotateSecretSchema,
+  testWebhookSchema,
+  queryDeliveriesSchema,
+} from '../schemas/webhook.schema';
+
+const webhookRouter = new Hono();
+
+// Apply authentication to all routes
+webhookRouter.use('*', apiKeyAuth);
+
+// Apply API rate limiting
+webhookRouter.use('*', apiKeyRateLimit);
+
+// ============================================
+// WEBHOOK ROUTES
+// ============================================
+
+// List webhooks
+webhookRouter.get(
+  '/',
+  WebhookController.listWebhooks
+);
+
+// Create webhook
+webhookRouter.post(
+  '/',
+  requirePermissions('webhooks:manage'),
+  validate('json', createWebhookSchema),
+  auditLogger('create', 'webhook'),
+  WebhookController.createWebhook
+);
+
+// Get webhook by ID
+webhookRouter.get(
+  '/:id',
+  validate('param', webhookParamsSchema),
+  WebhookController.getWebhook
+);
+
+// Update webhook
+webhookRouter.patch(
+  '/:id',
+  requirePermissions('webhooks:manage'),
+  validate('param', webhookParamsSchema),
+  validate('json', updateWebhookSchema),
+  auditLogger('update', 'webhook'),
+  WebhookController.updateWebhook
+);
+
+// Delete webhook
+webhookRouter.delete(
+  '/:id',
+  requirePermissions('webhooks:manage'),
+  validate('param', webhookParamsSchema),
+  auditLogger('delete', 'webhook'),
+  WebhookController.deleteWebhook
+);
+
+// Rotate secret
+webhookRouter.post(
+  '/:id/rotate-secret',
+  requirePermissions('webhooks:manage'),
+  validate('param', webhookParamsSchema),
+  validate('json', rotateSecretSchema),
+  auditLogger('rotate_secret', 'webhook'),
+  WebhookController.rotateSecret
+);
+
+// Send test event
+webhookRouter.post(
+  '/:id/test',
+  requirePermissions('webhooks:manage'),
+  validate('param', webhookParamsSchema),
+  validate('json', testWebhookSchema),
+  WebhookController.testWebhook
+);
+
+// ============================================
+// DELIVERY LOG ROUTES
+// ============================================
+
+// List deliveries
+webhookRouter.get(
+  '/:id/deliveries',
+  validate('param', webhookParamsSchema),
+  validate('query', queryDeliveriesSchema),
+  WebhookController.listDeliveries
+);
+
+// Get delivery by ID
+webhookRouter.get(
+  '/:id/deliveries/:deliveryId',
+  validate('param', deliveryParamsSchema),
+  WebhookController.getDelivery
+);
+
+// Redeliver
+webhookRouter.post(
+  '/:id/deliveries/:deliveryId/redeliver',
+  requirePermissions('webhooks:manage'),
+  validate('param', deliveryParamsSchema),
+  auditLogger('redeliver', 'webhook'),
+  WebhookController.redeliver
+);
+
+export default webhookRouter;
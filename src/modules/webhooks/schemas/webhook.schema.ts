@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { env } from '@config/env';
+
+export const WEBHOOK_EVENTS = [
+  'MESSAGE_SENT',
+  'MESSAGE_DELIVERED',
+  'MESSAGE_FAILED',
+  'MESSAGE_RECEIVED',
+  'OTP_VERIFIED',
+  'OTP_EXPIRED',
+  'BALANCE_LOW',
+  'BALANCE_DEPLETED',
+  'SENDER_ID_APPROVED',
+  'SENDER_ID_REJECTED',
+  'PAYMENT_RECEIVED',
+  'PAYMENT_FAILED',
+] as const;
+
+// Longest grace period for a rotated secret (7 days)
+export const MAX_SECRET_GRACE_HOURS = 168;
+
+// Webhook fields shared by create and update
+const webhookFields = {
+  name: z.string().min(1, 'Webhook name is required').max(100),
+  url: z
+    .string()
+    .url('URL must be a valid URL')
+    .refine(url => /^https?:\/\//i.test(url), 'URL must use http or https'),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1, 'At least one event is required')
+    .transform(events => [...new Set(events)]),
+  isActive: z.boolean(),
+  retryEnabled: z.boolean(),
+  maxRetries: z.number().int().min(0).max(10),
+  timeoutMs: z.number().int().min(1000).max(30000),
+};
+
+// Create webhook schema
+export const createWebhookSchema = z.object({
+  name: webhookFields.name,
+  url: webhookFields.url,
+  events: webhookFields.events,
+  secret: z.string().min(16, 'Secret must be at least 16 characters').max(128).optional(),
+  isActive: webhookFields.isActive.optional().default(true),
+  retryEnabled: webhookFields.retryEnabled.optional().default(true),
+  maxRetries: webhookFields.maxRetries.optional().default(env.WEBHOOK_MAX_RETRIES),
+  timeoutMs: webhookFields.timeoutMs.optional().default(env.WEBHOOK_TIMEOUT),
+});
+
+// Update webhook schema (the secret is changed through rotation)
+export const updateWebhookSchema = z.object(webhookFields)
+  .partial()
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+
+// Webhook param schema
+export const webhookParamsSchema = z.object({
+  id: z.string().min(1, 'Webhook ID is required'),
+});
+
+// Delivery param schema
+export const deliveryParamsSchema = z.object({
+  id: z.string().min(1, 'Webhook ID is required'),
+  deliveryId: z.string().min(1, 'Delivery ID is required'),
+});
+
+// Rotate secret schema
+export const rotateSecretSchema = z.object({
+  gracePeriodHours: z.number().min(0).max(MAX_SECRET_GRACE_HOURS).optional().default(24),
+});
+
+// Test event schema
+export const testWebhookSchema = z.object({
+  event: z.enum(WEBHOOK_EVENTS).optional(),
+});
+
+// List deliveries schema
+export const queryDeliveriesSchema = z.object({
+  status: z.enum(['pending', 'retrying', 'delivered', 'failed']).optional(),
+  event: z.enum(WEBHOOK_EVENTS).optional(),
+  page: z.string().optional().transform(v => v ? parseInt(v) : 1),
+  limit: z.string().optional().transform(v => v ? Math.min(parseInt(v), 100) : 20),
+});
+
+export type RotateSecretInput = z.infer<typeof rotateSecretSchema>;
+export type TestWebhookInput = z.infer<typeof testWebhookSchema>;
+export type QueryDeliveriesInput = z.infer<typeof queryDeliveriesSchema>;
@@ -0,0 +1,402 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { env } from '@config/env';
+import { webhookDeliveries } from '@utils/metrics';
+import { QueueManager, type Job } from '@services/queue/queue.manager';
+import { JobProcessor } from '@services/queue/job.processor';
+import { signPayload } from '@webhooks/utils/signature';
+import type {
+  Message,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+} from '../../../../generated/prisma/client';
+import type {
+  WebhookPayload,
+  WebhookDeliveryJob,
+  WebhookDeliveryStatus,
+  WebhookAttemptResult,
+  MessageEventData,
+} from '../types/webhook.types';
+
+export const WEBHOOK_DELIVERY_QUEUE = 'webhook.delivery';
+
+// Response bodies are stored for debugging, truncated to this length
+const MAX_RESPONSE_BODY = 1000;
+
+/**
+ * Webhook Dispatcher
+ * Sends account events to the customer's webhook endpoints. Every event
+ * creates one `WebhookDelivery` per subscribed webhook and each attempt runs
+ * as a queue job, grouped by webhook so one slow endpoint cannot hold up
+ * the others.
+ *
+ * Payloads are signed with the webhook secret: `X-Webhook-Signature` is
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ *
+ * A non-2xx response, timeout (`Webhook.timeoutMs`) or network error is
+ * retried `Webhook.maxRetries` times with exponential backoff when
+ * `retryEnabled` is set. The next attempt time is kept in
+ * `WebhookDelivery.nextRetryAt`. `successCount`/`failureCount` count
+ * deliveries, not attempts. Manual redeliveries and test events are a
+ * single attempt; test events do not touch the counters.
+ */
+export class WebhookDispatcher {
+  // Register the delivery worker (jobs only run once JobProcessor starts)
+  static register(): void {
+    JobProcessor.register<WebhookDeliveryJob>(
+      WEBHOOK_DELIVERY_QUEUE,
+      job => this.deliver(job),
+      {
+        concurrency: env.WEBHOOK_QUEUE_CONCURRENCY,
+        groupConcurrency: env.WEBHOOK_ENDPOINT_CONCURRENCY,
+        onDead: (job, error) => this.markFailed(job.data.deliveryId, job.data.attempt, error.message),
+      }
+    );
+  }
+
+  // Queue an event for every active webhook subscribed to it, or only for
+  // `options.webhookId`, subscribed or not (keyword forwarding).
+  // Never throws: a webhook problem must not fail the operation that raised the event.
+  static async emit(
+    accountId: string,
+    event: WebhookEvent,
+    data: Record<string, any>,
+    options: { webhookId?: string } = {}
+  ): Promise<number> {
+    if (!env.ENABLE_WEBHOOKS) return 0;
+
+    try {
+      const webhooks = await prisma.webhook.findMany({
+        where: {
+          accountId,
+          isActive: true,
+          ...(options.webhookId ? { id: options.webhookId } : { events: { has: event } }),
+          account: { allowWebhooks: true },
+        },
+        select: { id: true },
+      });
+
+      if (webhooks.length === 0) return 0;
+
+      const createdAt = new Date().toISOString();
+
+      for (const webhook of webhooks) {
+        const delivery = await prisma.webhookDelivery.create({
+          data: {
+            webhookId: webhook.id,
+            event,
+            payload: { createdAt, data: JSON.parse(JSON.stringify(data)) },
+            status: 'pending' satisfies WebhookDeliveryStatus,
+          },
+        });
+
+        await this.enqueue(webhook.id, delivery.id, 1);
+      }
+
+      await prisma.webhook.updateMany({
+        where: { id: { in: webhooks.map(webhook => webhook.id) } },
+        data: { lastTriggeredAt: new Date() },
+      });
+
+      logger.debug({ accountId, event, webhooks: webhooks.length }, 'Webhook event queued');
+
+      return webhooks.length;
+
+    } catch (error) {
+      logger.error({ error, accountId, event }, 'Failed to queue webhook event');
+      return 0;
+    }
+  }
+
+  // Queue a message status event (sent, delivered or failed)
+  static async emitMessageEvent(event: WebhookEvent, message: Message): Promise<number> {
+    return this.emit(message.accountId, event, this.messageData(message));
+  }
+
+  // Event data for a message; also used for other message status events
+  static messageData(message: Message): MessageEventData {
+    return {
+      messageId: message.id,
+      batchId: message.batchId,
+      recipient: message.recipient,
+      senderId: message.senderName,
+      status: message.status,
+      units: message.units,
+      cost: message.totalCost,
+      currency: message.currency,
+      errorCode: message.errorCode,
+      errorMessage: message.errorMessage,
+      sentAt: message.sentAt,
+      deliveredAt: message.deliveredAt,
+      failedAt: message.failedAt,
+      metadata: message.metadata,
+    };
+  }
+
+  // Make one delivery attempt; throws only when the result cannot be recorded
+  private static async deliver(job: Job<WebhookDeliveryJob>): Promise<void> {
+    const { deliveryId, attempt } = job.data;
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true },
+    });
+
+    if (!delivery || delivery.status === 'delivered' || delivery.status === 'failed') {
+      logger.debug({ deliveryId, status: delivery?.status }, 'Skipping webhook delivery job');
+      return;
+    }
+
+    const { webhook } = delivery;
+
+    if (!webhook.isActive) {
+      await this.markFailed(deliveryId, attempt, 'Webhook is disabled');
+      return;
+    }
+
+    const { responseCode, responseBody, error } = await this.send(webhook, delivery, attempt);
+
+    const now = new Date();
+
+    if (!error) {
+      await prisma.$transaction([
+        prisma.webhookDelivery.update({
+          where: { id: deliveryId },
+          data: {
+            attempt,
+            status: 'delivered' satisfies WebhookDeliveryStatus,
+            responseCode,
+            responseBody,
+            error: null,
+            deliveredAt: now,
+            nextRetryAt: null,
+          },
+        }),
+        prisma.webhook.update({
+          where: { id: webhook.id },
+          data: {
+            successCount: { increment: 1 },
+            lastSuccessAt: now,
+          },
+        }),
+      ]);
+
+      webhookDeliveries.inc({ event: delivery.event, result: 'delivered' });
+      logger.debug({ deliveryId, webhookId: webhook.id, attempt }, 'Webhook delivered');
+      return;
+    }
+
+    // maxRetries counts retries, so the first attempt is not one of them
+    if (!job.data.manual && webhook.retryEnabled && attempt <= webhook.maxRetries) {
+      const delay = JobProcessor.backoff(attempt, env.WEBHOOK_BACKOFF_BASE, env.WEBHOOK_BACKOFF_MAX);
+      const nextRetryAt = new Date(now.getTime() + delay);
+
+      await prisma.$transaction([
+        prisma.webhookDelivery.update({
+          where: { id: deliveryId },
+          data: {
+            attempt,
+            status: 'retrying' satisfies WebhookDeliveryStatus,
+            responseCode,
+            responseBody,
+            error,
+            nextRetryAt,
+          },
+        }),
+        prisma.webhook.update({
+          where: { id: webhook.id },
+          data: { lastFailureAt: now },
+        }),
+      ]);
+
+      await this.enqueue(webhook.id, deliveryId, attempt + 1, delay);
+
+      webhookDeliveries.inc({ event: delivery.event, result: 'retrying' });
+      logger.warn({
+        deliveryId,
+        webhookId: webhook.id,
+        attempt,
+        responseCode,
+        retryInMs: delay,
+        error,
+      }, 'Webhook delivery failed, retrying');
+      return;
+    }
+
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { responseCode, responseBody },
+    });
+
+    await this.markFailed(deliveryId, attempt, error);
+  }
+
+  // Send a test event straight away and record it in the delivery log
+  static async sendTest(webhook: Webhook, event: WebhookEvent, data: Record<string, any>): Promise<WebhookDelivery> {
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        webhookId: webhook.id,
+        event,
+        payload: { createdAt: new Date().toISOString(), data },
+        status: 'pending' satisfies WebhookDeliveryStatus,
+        test: true,
+      },
+    });
+
+    const { responseCode, responseBody, error } = await this.send(webhook, delivery, 1);
+
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: (error ? 'failed' : 'delivered') satisfies WebhookDeliveryStatus,
+        responseCode,
+        responseBody,
+        error,
+        deliveredAt: error ? null : new Date(),
+      },
+    });
+  }
+
+  // Queue one more attempt of a finished (delivered or failed) delivery
+  static async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const attempt = delivery.attempt + 1;
+
+    const updated = await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'pending' satisfies WebhookDeliveryStatus,
+        nextRetryAt: null,
+      },
+    });
+
+    await this.enqueue(delivery.webhookId, delivery.id, attempt, 0, true);
+
+    return updated;
+  }
+
+  // Body exactly as POSTed to the endpoint
+  static buildPayload(delivery: WebhookDelivery): WebhookPayload {
+    const stored = delivery.payload as { createdAt: string; data: Record<string, any> };
+
+    return {
+      id: delivery.id,
+      event: delivery.event,
+      createdAt: stored.createdAt,
+      ...(delivery.test && { test: true }),
+      data: stored.data,
+    };
+  }
+
+  // Secrets payloads are signed with: the current one, plus the previous
+  // one until its grace period ends
+  static signingSecrets(webhook: Webhook): string[] {
+    const secrets = [webhook.secret];
+
+    if (webhook.previousSecret && webhook.previousSecretExpiresAt && webhook.previousSecretExpiresAt > new Date()) {
+      secrets.push(webhook.previousSecret);
+    }
+
+    return secrets;
+  }
+
+  // POST a delivery to the endpoint
+  private static async send(
+    webhook: Webhook,
+    delivery: WebhookDelivery,
+    attempt: number
+  ): Promise<WebhookAttemptResult> {
+    const body = JSON.stringify(this.buildPayload(delivery));
+    const signature = signPayload(this.signingSecrets(webhook), body);
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': `${env.APP_NAME.replace(/\s+/g, '-')}-Webhooks/${env.APP_VERSION}`,
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Attempt': String(attempt),
+          'X-Webhook-Timestamp': String(signature.timestamp),
+          'X-Webhook-Signature': signature.header,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(webhook.timeoutMs),
+      });
+
+      const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+
+      return {
+        responseCode: response.status,
+        responseBody,
+        error: response.ok ? null : `Endpoint responded with HTTP ${response.status}`,
+      };
+    } catch (err: any) {
+      return {
+        responseCode: null,
+        responseBody: null,
+        error: err?.name === 'TimeoutError'
+          ? `Timed out after ${webhook.timeoutMs}ms`
+          : err?.message || 'Request failed',
+      };
+    }
+  }
+
+  // No attempts left: the delivery has failed
+  private static async markFailed(deliveryId: string, attempt: number, error: string): Promise<void> {
+    const now = new Date();
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      select: { webhookId: true, event: true, status: true },
+    });
+
+    if (!delivery || delivery.status === 'delivered' || delivery.status === 'failed') return;
+
+    await prisma.$transaction([
+      prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          attempt,
+          status: 'failed' satisfies WebhookDeliveryStatus,
+          error,
+          nextRetryAt: null,
+        },
+      }),
+      prisma.webhook.update({
+        where: { id: delivery.webhookId },
+        data: {
+          failureCount: { increment: 1 },
+          lastFailureAt: now,
+        },
+      }),
+    ]);
+
+    webhookDeliveries.inc({ event: delivery.event, result: 'failed' });
+    logger.warn({ deliveryId, webhookId: delivery.webhookId, attempt, error }, 'Webhook delivery failed');
+  }
+
+  // One job per attempt, so a retry is never swallowed by the previous job's id
+  private static async enqueue(
+    webhookId: string,
+    deliveryId: string,
+    attempt: number,
+    delayMs: number = 0,
+    manual: boolean = false
+  ): Promise<void> {
+    await QueueManager.add<WebhookDeliveryJob>(
+      WEBHOOK_DELIVERY_QUEUE,
+      { deliveryId, attempt, ...(manual && { manual }) },
+      {
+        jobId: `${deliveryId}:${attempt}`,
+        group: webhookId,
+        delayMs,
+      }
+    );
+  }
+}
+
+export default WebhookDispatcher;
@@ -0,0 +1,294 @@
+import { randomBytes } from 'crypto';
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import type { Webhook, WebhookDelivery, WebhookEvent } from '../../../../generated/prisma/client';
+import type {
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  QueryDeliveriesInput,
+} from '../schemas/webhook.schema';
+import type { WebhookSummary, WebhookDeliveryLog } from '../types/webhook.types';
+
+// Example data sent by the test endpoint
+const TEST_EVENT_DATA: Record<WebhookEvent, Record<string, any>> = {
+  MESSAGE_SENT: { messageId: 'msg_test', recipient: '+233241234567', senderId: 'TEST', status: 'SENT', units: 1, cost: 0.05, currency: 'GHS' },
+  MESSAGE_DELIVERED: { messageId: 'msg_test', recipient: '+233241234567', senderId: 'TEST', status: 'DELIVERED', units: 1, cost: 0.05, currency: 'GHS' },
+  MESSAGE_FAILED: { messageId: 'msg_test', recipient: '+233241234567', senderId: 'TEST', status: 'FAILED', errorMessage: 'Test failure' },
+  MESSAGE_RECEIVED: { messageId: 'inb_test', from: '+233241234567', to: '1234', content: 'JOIN test', keyword: 'JOIN', network: 'mtn', country: 'GH', conversationId: 'conv_test' },
+  OTP_VERIFIED: { otpId: 'otp_test', phone: '+233241234567', status: 'VERIFIED', attempts: 1 },
+  OTP_EXPIRED: { otpId: 'otp_test', phone: '+233241234567', status: 'EXPIRED', attempts: 0 },
+  BALANCE_LOW: { balance: 9.5, threshold: 10, currency: 'GHS' },
+  BALANCE_DEPLETED: { balance: 0, currency: 'GHS' },
+  SENDER_ID_APPROVED: { id: 'sid_test', senderId: 'TEST', country: 'GH', status: 'APPROVED' },
+  SENDER_ID_REJECTED: { id: 'sid_test', senderId: 'TEST', country: 'GH', status: 'REJECTED', reason: 'Test rejection' },
+  PAYMENT_RECEIVED: { paymentId: 'pay_test', amount: 100, currency: 'GHS', status: 'COMPLETED' },
+  PAYMENT_FAILED: { paymentId: 'pay_test', amount: 100, currency: 'GHS', status: 'FAILED' },
+};
+
+/**
+ * Webhook Service
+ * Manages an account's webhooks and their delivery log. Creating a webhook
+ * needs `Account.allowWebhooks` and is capped by `AccountLimits.maxWebhooks`.
+ */
+export class WebhookService {
+  // List webhooks
+  static async listWebhooks(accountId: string): Promise<WebhookSummary[]> {
+    const webhooks = await prisma.webhook.findMany({
+      where: { accountId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return webhooks.map(webhook => this.formatWebhook(webhook));
+  }
+
+  // Get webhook by ID
+  static async getWebhook(accountId: string, id: string): Promise<WebhookSummary> {
+    return this.formatWebhook(await this.findWebhook(accountId, id));
+  }
+
+  // Create a webhook; the secret is only returned here and on rotation
+  static async createWebhook(
+    accountId: string,
+    input: CreateWebhookInput
+  ): Promise<WebhookSummary & { secret: string }> {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: {
+        allowWebhooks: true,
+        accountLimits: { select: { maxWebhooks: true } },
+      },
+    });
+
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    if (!account.allowWebhooks) {
+      throw new Error('Webhooks are not enabled for this account');
+    }
+
+    const maxWebhooks = account.accountLimits?.maxWebhooks;
+
+    if (maxWebhooks != null) {
+      const count = await prisma.webhook.count({ where: { accountId } });
+
+      if (count >= maxWebhooks) {
+        throw new Error(`Webhook limit of ${maxWebhooks} reached`);
+      }
+    }
+
+    const secret = input.secret || this.generateSecret();
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        accountId,
+        name: input.name,
+        url: input.url,
+        secret,
+        events: input.events,
+        isActive: input.isActive,
+        retryEnabled: input.retryEnabled,
+        maxRetries: input.maxRetries,
+        timeoutMs: input.timeoutMs,
+      },
+    });
+
+    await this.syncWebhookCount(accountId);
+
+    logger.info({ accountId, webhookId: webhook.id, events: webhook.events }, 'Webhook created');
+
+    return { ...this.formatWebhook(webhook), secret };
+  }
+
+  // Update a webhook
+  static async updateWebhook(accountId: string, id: string, input: UpdateWebhookInput): Promise<WebhookSummary> {
+    await this.findWebhook(accountId, id);
+
+    const webhook = await prisma.webhook.update({
+      where: { id },
+      data: input,
+    });
+
+    logger.info({ accountId, webhookId: id, fields: Object.keys(input) }, 'Webhook updated');
+
+    return this.formatWebhook(webhook);
+  }
+
+  // Delete a webhook and its delivery log
+  static async deleteWebhook(accountId: string, id: string): Promise<void> {
+    await this.findWebhook(accountId, id);
+
+    await prisma.webhook.delete({ where: { id } });
+    await this.syncWebhookCount(accountId);
+
+    logger.info({ accountId, webhookId: id }, 'Webhook deleted');
+  }
+
+  // Replace the secret. The old secret keeps signing (alongside the new
+  // one) for the grace period so receivers can switch over without gaps.
+  static async rotateSecret(
+    accountId: string,
+    id: string,
+    gracePeriodHours: number
+  ): Promise<WebhookSummary & { secret: string }> {
+    const current = await this.findWebhook(accountId, id);
+    const secret = this.generateSecret();
+
+    const webhook = await prisma.webhook.update({
+      where: { id },
+      data: {
+        secret,
+        previousSecret: gracePeriodHours > 0 ? current.secret : null,
+        previousSecretExpiresAt: gracePeriodHours > 0
+          ? new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000)
+          : null,
+      },
+    });
+
+    logger.info({ accountId, webhookId: id, gracePeriodHours }, 'Webhook secret rotated');
+
+    return { ...this.formatWebhook(webhook), secret };
+  }
+
+  // Send an example event to the endpoint and wait for the response
+  static async sendTest(accountId: string, id: string, event?: WebhookEvent): Promise<WebhookDeliveryLog> {
+    const webhook = await this.findWebhook(accountId, id);
+    const testEvent = event || webhook.events[0] || 'MESSAGE_SENT';
+
+    const delivery = await WebhookDispatcher.sendTest(webhook, testEvent, TEST_EVENT_DATA[testEvent]);
+
+    return this.formatDelivery(delivery, webhook);
+  }
+
+  // Delivery log, newest first
+  static async listDeliveries(
+    accountId: string,
+    id: string,
+    query: QueryDeliveriesInput
+  ): Promise<{ deliveries: WebhookDeliveryLog[]; total: number }> {
+    const webhook = await this.findWebhook(accountId, id);
+
+    const where = {
+      webhookId: id,
+      ...(query.status && { status: query.status }),
+      ...(query.event && { event: query.event }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { triggeredAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      deliveries: deliveries.map(delivery => this.formatDelivery(delivery, webhook)),
+      total,
+    };
+  }
+
+  // Get one delivery
+  static async getDelivery(accountId: string, id: string, deliveryId: string): Promise<WebhookDeliveryLog> {
+    const webhook = await this.findWebhook(accountId, id);
+    return this.formatDelivery(await this.findDelivery(id, deliveryId), webhook);
+  }
+
+  // Queue a finished delivery again with its original payload
+  static async redeliver(accountId: string, id: string, deliveryId: string): Promise<WebhookDeliveryLog> {
+    const webhook = await this.findWebhook(accountId, id);
+    const delivery = await this.findDelivery(id, deliveryId);
+
+    if (!webhook.isActive) {
+      throw new Error('Cannot redeliver to a disabled webhook');
+    }
+
+    if (delivery.status !== 'delivered' && delivery.status !== 'failed') {
+      throw new Error(`Cannot redeliver a ${delivery.status} delivery`);
+    }
+
+    const updated = await WebhookDispatcher.redeliver(delivery);
+
+    logger.info({ accountId, webhookId: id, deliveryId }, 'Webhook redelivery queued');
+
+    return this.formatDelivery(updated, webhook);
+  }
+
+  private static async findWebhook(accountId: string, id: string): Promise<Webhook> {
+    const webhook = await prisma.webhook.findFirst({
+      where: { id, accountId },
+    });
+
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+
+    return webhook;
+  }
+
+  private static async findDelivery(webhookId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhookId },
+    });
+
+    if (!delivery) {
+      throw new Error('Delivery not found');
+    }
+
+    return delivery;
+  }
+
+  // Keep AccountLimits.currentWebhooks in step with the table
+  private static async syncWebhookCount(accountId: string): Promise<void> {
+    const count = await prisma.webhook.count({ where: { accountId } });
+
+    await prisma.accountLimits.updateMany({
+      where: { accountId },
+      data: { currentWebhooks: count },
+    });
+  }
+
+  private static generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+
+  // Webhook as returned by the API: secrets are never included
+  private static formatWebhook(webhook: Webhook): WebhookSummary {
+    const { secret, previousSecret: _previousSecret, previousSecretExpiresAt, accountId: _accountId, ...fields } = webhook;
+    const rotating = WebhookDispatcher.signingSecrets(webhook).length > 1;
+
+    return {
+      ...fields,
+      secretHint: `…${secret.slice(-4)}`,
+      previousSecretExpiresAt: rotating ? previousSecretExpiresAt : null,
+    };
+  }
+
+  // Delivery log entry with the exact request body and the response
+  private static formatDelivery(delivery: WebhookDelivery, webhook: Webhook): WebhookDeliveryLog {
+    return {
+      id: delivery.id,
+      event: delivery.event,
+      status: delivery.status,
+      attempt: delivery.attempt,
+      test: delivery.test,
+      request: {
+        url: webhook.url,
+        body: WebhookDispatcher.buildPayload(delivery),
+      },
+      response: delivery.responseCode == null && delivery.responseBody == null ? null : {
+        status: delivery.responseCode,
+        body: delivery.responseBody,
+      },
+      error: delivery.error,
+      triggeredAt: delivery.triggeredAt,
+      deliveredAt: delivery.deliveredAt,
+      nextRetryAt: delivery.nextRetryAt,
+    };
+  }
+}
+
+export default WebhookService;
@@ -0,0 +1,87 @@
+import type { WebhookEvent } from '../../../../generated/prisma/client';
+
+// WebhookDelivery.status values
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+// Body POSTed to the customer's endpoint
+export interface WebhookPayload<T = Record<string, any>> {
+  id: string; // WebhookDelivery id, stable across retries
+  event: WebhookEvent;
+  createdAt: string;
+  test?: boolean; // Sent from the test endpoint
+  data: T;
+}
+
+// Queue job for one delivery attempt
+export interface WebhookDeliveryJob {
+  deliveryId: string;
+  attempt: number;
+  manual?: boolean; // Redelivery requested by the customer: one attempt, no retries
+}
+
+// Outcome of one POST to the endpoint
+export interface WebhookAttemptResult {
+  responseCode: number | null;
+  responseBody: string | null;
+  error: string | null; // Null when the endpoint answered 2xx
+}
+
+// Webhook as returned by the API (secrets removed)
+export interface WebhookSummary {
+  id: string;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  retryEnabled: boolean;
+  maxRetries: number;
+  timeoutMs: number;
+  secretHint: string; // Last characters of the current secret
+  previousSecretExpiresAt: Date | null; // Set while a rotated-out secret still signs
+  successCount: number;
+  failureCount: number;
+  lastTriggeredAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Delivery log entry
+export interface WebhookDeliveryLog {
+  id: string;
+  event: WebhookEvent;
+  status: string;
+  attempt: number;
+  test: boolean;
+  request: {
+    url: string;
+    body: WebhookPayload;
+  };
+  response: {
+    status: number | null;
+    body: string | null; // First 1,000 characters
+  } | null;
+  error: string | null;
+  triggeredAt: Date;
+  deliveredAt: Date | null;
+  nextRetryAt: Date | null;
+}
+
+// Message event data (MESSAGE_SENT / MESSAGE_DELIVERED / MESSAGE_FAILED)
+export interface MessageEventData {
+  messageId: string;
+  batchId: string | null;
+  recipient: string;
+  senderId: string;
+  status: string;
+  units: number;
+  cost: number;
+  currency: string;
+  errorCode: string | null;
+  errorMessage: string | null;
+  sentAt: Date | null;
+  deliveredAt: Date | null;
+  failedAt: Date | null;
+  metadata: unknown;
+}
@@ -0,0 +1,159 @@
+import { logger } from '@utils/logger';
+import { prisma } from '@database/prisma.client';
+import { smsDeliveryReceipts } from '@utils/metrics';
+import { WebhookDispatcher } from '@modules/webhooks/services/webhook-dispatcher.service';
+import { CampaignStatsService } from '@modules/campaigns/services/campaign-stats.service';
+import type { DeliveryStatus } from '@core/providers/sms';
+import { MessageStatus, type Message } from '../../../generated/prisma/client';
+
+// Final message status for each receipt status; null = not final yet
+const FINAL_STATUS: Record<DeliveryStatus['status'], MessageStatus | null> = {
+  delivered: MessageStatus.DELIVERED,
+  failed: MessageStatus.FAILED,
+  expired: MessageStatus.EXPIRED,
+  sent: null,
+  pending: null,
+  unknown: null,
+};
+
+// Statuses a receipt may move a message out of. A late "delivered" wins
+// over an earlier failure; nothing overrides "delivered".
+const ALLOWED_FROM: Record<string, MessageStatus[]> = {
+  [MessageStatus.DELIVERED]: [MessageStatus.SENT, MessageStatus.FAILED, MessageStatus.EXPIRED],
+  [MessageStatus.FAILED]: [MessageStatus.SENT],
+  [MessageStatus.EXPIRED]: [MessageStatus.SENT],
+};
+
+export interface DeliveryReceiptResult {
+  updated: number;
+  ignored: number;
+  unmatched: number;
+}
+
+/**
+ * Delivery Receipt Handler
+ * Applies provider delivery receipts (DLRs) to messages: matches them on
+ * `Message.providerId`, moves the message to its final status, counts it in
+ * `DailyStats` and its campaign's counters, and raises MESSAGE_DELIVERED /
+ * MESSAGE_FAILED webhooks.
+ * Receipts are idempotent; repeats and out-of-order receipts are ignored.
+ */
+export class DeliveryReceiptHandler {
+  static async process(provider: string, receipts: DeliveryStatus[]): Promise<DeliveryReceiptResult> {
+    const result: DeliveryReceiptResult = { updated: 0, ignored: 0, unmatched: 0 };
+
+    for (const receipt of receipts) {
+      const message = await prisma.message.findFirst({
+        where: {
+          provider,
+          providerId: receipt.externalId,
+        },
+      });
+
+      let outcome: keyof DeliveryReceiptResult = 'unmatched';
+
+      if (message) {
+        outcome = await this.apply(message, receipt) ? 'updated' : 'ignored';
+      } else {
+        logger.debug({ provider, externalId: receipt.externalId }, 'Delivery receipt for unknown message');
+      }
+
+      result[outcome]++;
+      smsDeliveryReceipts.inc({ provider, result: outcome });
+    }
+
+    return result;
+  }
+
+  // Apply a status to a message already loaded. Also used by the delivery
+  // reconciler for polled statuses. Returns true when the status changed.
+  static async apply(message: Message, receipt: DeliveryStatus): Promise<boolean> {
+    const provider = message.provider;
+    const providerStatus = receipt.providerStatus || receipt.status;
+    const target = FINAL_STATUS[receipt.status];
+
+    // Intermediate or stale receipt: only record what the provider said
+    if (!target || !ALLOWED_FROM[target].includes(message.status)) {
+      if (message.status === MessageStatus.SENT && message.providerStatus !== providerStatus) {
+        await prisma.message.update({
+          where: { id: message.id },
+          data: { providerStatus },
+        });
+      }
+
+      return false;
+    }
+
+    const at = receipt.timestamp || new Date();
+    const data = {
+      status: target,
+      providerStatus,
+      ...(target === MessageStatus.DELIVERED
+        ? { deliveredAt: at, errorCode: null, errorMessage: null }
+        : {
+          failedAt: at,
+          errorCode: receipt.errorCode || null,
+          errorMessage: receipt.error || `Provider reported ${providerStatus}`,
+        }),
+    };
+
+    // Guarded on the status we read, so concurrent receipts apply once
+    const { count } = await prisma.message.updateMany({
+      where: { id: message.id, status: message.status },
+      data,
+    });
+
+    if (count === 0) return false;
+
+    await this.updateDailyStats(message, target);
+    await CampaignStatsService.recordStatusChange(message, message.status, target);
+
+    logger.info({
+      messageId: message.id,
+      provider,
+      from: message.status,
+      to: target,
+      providerStatus,
+    }, 'Delivery receipt applied');
+
+    await WebhookDispatcher.emitMessageEvent(
+      target === MessageStatus.DELIVERED ? 'MESSAGE_DELIVERED' : 'MESSAGE_FAILED',
+      { ...message, ...data }
+    );
+
+    return true;
+  }
+
+  // Counted on the day the message was sent
+  private static async updateDailyStats(message: Message, status: MessageStatus): Promise<void> {
+    const date = new Date(message.sentAt || message.createdAt);
+    date.setHours(0, 0, 0, 0);
+
+    const delivered = status === MessageStatus.DELIVERED;
+    const wasFailed = message.status === MessageStatus.FAILED || message.status === MessageStatus.EXPIRED;
+
+    try {
+      await prisma.dailyStats.upsert({
+        where: {
+          accountId_date: {
+            accountId: message.accountId,
+            date,
+          },
+        },
+        update: delivered
+          ? { smsDelivered: { increment: 1 }, ...(wasFailed && { smsFailed: { decrement: 1 } }) }
+          : { smsFailed: { increment: 1 } },
+        create: {
+          accountId: message.accountId,
+          date,
+          smsDelivered: delivered ? 1 : 0,
+          smsFailed: delivered ? 0 : 1,
+        },
+      });
+    } catch (error) {
+      logger.error({ error, messageId: message.id }, 'Failed to update delivery stats');
+    }
+  }
+}
+
+export default DeliveryReceiptHandler;
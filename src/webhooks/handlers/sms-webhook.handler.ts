@@ -0,0 +1,127 @@
+import type { Context } from 'hono';
+import { ResponseBuilder } from '@utils/api-response';
+import { logger } from '@utils/logger';
+import { env } from '@config/env';
+import { smsDeliveryReceipts, smsInboundMessages } from '@utils/metrics';
+import { SMSProviderFactory } from '@core/providers/sms';
+import type { BaseSMSProvider, ProviderCallback } from '@core/providers/sms';
+import { InboundSMSService } from '@modules/sms/services/inbound-sms.service';
+import { DeliveryReceiptHandler } from './delivery-receipt.handler';
+
+/**
+ * SMS Provider Webhooks
+ * Callbacks from SMS providers, addressed by provider name:
+ * `POST /webhooks/sms/:provider/dlr` for delivery receipts and
+ * `POST /webhooks/sms/:provider/inbound` for inbound messages. The callback is checked with the
+ * provider's own verification (signature or callback token) before anything
+ * is read from it.
+ */
+export class SMSWebhookHandler {
+  // Delivery receipt (DLR) callback
+  static async deliveryReceipt(c: Context) {
+    const name = c.req.param('provider');
+    const provider = SMSProviderFactory.getProvider(name);
+
+    if (!provider) {
+      return ResponseBuilder.notFound(c, 'Provider');
+    }
+
+    const providerId = provider.getProviderId();
+
+    try {
+      const callback = await SMSWebhookHandler.readCallback(c);
+
+      if (!SMSWebhookHandler.verify(provider, callback)) {
+        smsDeliveryReceipts.inc({ provider: providerId, result: 'rejected' });
+        logger.warn({ provider: providerId }, 'Delivery receipt failed verification');
+        return ResponseBuilder.unauthorized(c, 'Invalid callback signature');
+      }
+
+      const receipts = provider.parseDeliveryReceipt(callback);
+
+      if (receipts.length === 0) {
+        logger.warn({ provider: providerId }, 'Delivery receipt callback had no receipts');
+        return ResponseBuilder.success(c, { received: 0 });
+      }
+
+      const result = await DeliveryReceiptHandler.process(providerId, receipts);
+
+      return ResponseBuilder.success(c, { received: receipts.length, ...result });
+    } catch (error: any) {
+      // A 5xx makes the provider retry the callback
+      logger.error({ error, provider: providerId }, 'Delivery receipt processing failed');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  // Inbound SMS callback
+  static async inboundMessage(c: Context) {
+    const name = c.req.param('provider');
+    const provider = SMSProviderFactory.getProvider(name);
+
+    if (!provider) {
+      return ResponseBuilder.notFound(c, 'Provider');
+    }
+
+    const providerId = provider.getProviderId();
+
+    try {
+      const callback = await SMSWebhookHandler.readCallback(c);
+
+      if (!SMSWebhookHandler.verify(provider, callback)) {
+        smsInboundMessages.inc({ provider: providerId, result: 'rejected' });
+        logger.warn({ provider: providerId }, 'Inbound SMS callback failed verification');
+        return ResponseBuilder.unauthorized(c, 'Invalid callback signature');
+      }
+
+      const messages = provider.parseInboundMessage(callback);
+
+      if (messages.length === 0) {
+        logger.warn({ provider: providerId }, 'Inbound SMS callback had no messages');
+        return ResponseBuilder.success(c, { received: 0 });
+      }
+
+      const result = await InboundSMSService.receive(providerId, messages);
+
+      return ResponseBuilder.success(c, { received: messages.length, ...result });
+    } catch (error: any) {
+      logger.error({ error, provider: providerId }, 'Inbound SMS processing failed');
+      return ResponseBuilder.serverError(c);
+    }
+  }
+
+  private static verify(provider: BaseSMSProvider, callback: ProviderCallback): boolean {
+    if (!env.SMS_DLR_VERIFY_SIGNATURE) return true;
+    return provider.verifyCallback(callback);
+  }
+
+  // Raw body, parsed params and the public URL (signatures cover the URL
+  // the provider called, not the one behind the proxy)
+  private static async readCallback(c: Context): Promise<ProviderCallback> {
+    const rawBody = await c.req.text();
+    const contentType = c.req.header('content-type') || '';
+    const requestUrl = new URL(c.req.url);
+
+    let params: Record<string, any> = {};
+
+    if (contentType.includes('application/json')) {
+      try {
+        params = rawBody ? JSON.parse(rawBody) : {};
+      } catch {
+        logger.warn({ url: requestUrl.pathname }, 'Provider callback body is not valid JSON');
+      }
+    } else if (rawBody) {
+      params = Object.fromEntries(new URLSearchParams(rawBody));
+    }
+
+    return {
+      url: `${env.APP_URL.replace(/\/$/, '')}${requestUrl.pathname}${requestUrl.search}`,
+      headers: c.req.header(),
+      query: c.req.query(),
+      rawBody,
+      params,
+    };
+  }
+}
+
+export default SMSWebhookHandler;
@@ -0,0 +1,24 @@
+import { Hono } from 'hono';
+import { SMSWebhookHandler } from '../handlers/sms-webhook.handler';
+
+// Inbound callbacks from third parties. No API key auth: every handler
+// verifies the caller itself (signature or callback token).
+const webhooksRouter = new Hono();
+
+// ============================================
+// SMS PROVIDER ROUTES
+// ============================================
+
+// Delivery receipts
+webhooksRouter.post(
+  '/sms/:provider/dlr',
+  SMSWebhookHandler.deliveryReceipt
+);
+
+// Inbound messages (two-way SMS)
+webhooksRouter.post(
+  '/sms/:provider/inbound',
+  SMSWebhookHandler.inboundMessage
+);
+
+export default webhooksRouter;
@@ -0,0 +1,91 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Signed webhooks older than this are rejected (replay protection)
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// HMAC-SHA256 of `<timestamp>.<body>` as hex
+export function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Signature header value: `t=<unix seconds>,v1=<hex hmac>`, with one `v1`
+// per secret so receivers on either side of a secret rotation can verify
+export function signPayload(
+  secrets: string | string[],
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): { header: string; timestamp: number; signatures: string[] } {
+  const signatures = [secrets].flat().map(secret => computeSignature(secret, timestamp, body));
+
+  return {
+    header: [`t=${timestamp}`, ...signatures.map(signature => `v1=${signature}`)].join(','),
+    timestamp,
+    signatures,
+  };
+}
+
+// Check a `t=...,v1=...` header against the raw body. Valid when any `v1`
+// matches any of the secrets.
+export function verifySignature(
+  secrets: string | string[],
+  body: string,
+  header: string | undefined | null,
+  toleranceSeconds: number = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  if (!header) return false;
+
+  let timestamp = NaN;
+  const received: Buffer[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, ...value] = part.trim().split('=');
+
+    if (key === 't') timestamp = Number(value.join('='));
+    if (key === 'v1') received.push(Buffer.from(value.join('='), 'hex'));
+  }
+
+  if (!Number.isFinite(timestamp) || received.length === 0) return false;
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  return [secrets].flat().some(secret => {
+    const expected = Buffer.from(computeSignature(secret, timestamp, body), 'hex');
+    return received.some(signature =>
+      signature.length === expected.length && timingSafeEqual(signature, expected)
+    );
+  });
+}
+
+// ============================================
+// PROVIDER CALLBACKS
+// ============================================
+
+// Constant-time string comparison
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Twilio: base64 HMAC-SHA1 of the full callback URL followed by every POST
+// parameter (sorted by name) as name + value, keyed with the auth token
+// @see https://www.twilio.com/docs/usage/webhooks/webhooks-security
+export function verifyTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, any>,
+  header: string | undefined | null
+): boolean {
+  if (!header) return false;
+
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + String(params[key] ?? ''), url);
+
+  const expected = createHmac('sha1', authToken).update(data).digest('base64');
+
+  return safeEqual(expected, header);
+}
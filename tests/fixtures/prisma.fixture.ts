@@ -0,0 +1,107 @@
+import { mock } from 'bun:test';
+
+// One call made through the fake client
+export interface PrismaCall {
+  key: string; // "message.updateMany", "$executeRaw", ...
+  args: any; // Query arguments, or { sql, values } for raw queries
+}
+
+type Handler = (args: any) => unknown;
+
+// Result of a call without a handler
+function defaultResult(action: string, args: any): unknown {
+  switch (action) {
+    case 'findUnique':
+    case 'findFirst':
+      return null;
+    case 'findMany':
+    case 'createManyAndReturn':
+    case '$queryRaw':
+      return [];
+    case 'count':
+    case '$executeRaw':
+      return 0;
+    case 'create':
+    case 'update':
+    case 'upsert':
+      return { id: `fake_${Math.random().toString(36).slice(2, 10)}`, ...(args?.data ?? args?.create) };
+    default:
+      return { count: 0 };
+  }
+}
+
+/**
+ * Fake Prisma client for unit tests. Every call is recorded in `calls` and
+ * answered by the handler registered for its key (`on`), or a neutral
+ * default. Interactive transactions run against the same handlers; their
+ * calls are only recorded if the callback resolves, so a test sees what a
+ * rolled-back transaction would not have written.
+ */
+export class FakePrisma {
+  calls: PrismaCall[] = [];
+  private handlers = new Map<string, Handler>();
+
+  readonly client: any = this.createClient(call => this.calls.push(call));
+
+  // Answer `key` ("account.findUnique", "$queryRaw") with `handler`
+  on(key: string, handler: Handler): this {
+    this.handlers.set(key, handler);
+    return this;
+  }
+
+  reset(): void {
+    this.calls = [];
+    this.handlers.clear();
+  }
+
+  // Calls made with `key`, in order
+  callsTo(key: string): any[] {
+    return this.calls.filter(call => call.key === key).map(call => call.args);
+  }
+
+  private async run(key: string, action: string, args: any, record: (call: PrismaCall) => void): Promise<unknown> {
+    record({ key, args });
+    const handler = this.handlers.get(key);
+    return handler ? handler(args) : defaultResult(action, args);
+  }
+
+  private createClient(record: (call: PrismaCall) => void): any {
+    const raw = (key: '$queryRaw' | '$executeRaw') =>
+      (strings: TemplateStringsArray, ...values: unknown[]) =>
+        this.run(key, key, { sql: strings.join('?'), values }, record);
+
+    const transaction = async (input: unknown, _options?: unknown) => {
+      if (Array.isArray(input)) return Promise.all(input);
+
+      const pending: PrismaCall[] = [];
+      const result = await (input as (tx: any) => Promise<unknown>)(this.createClient(call => pending.push(call)));
+      pending.forEach(record);
+      return result;
+    };
+
+    return new Proxy({}, {
+      get: (_target, model: string) => {
+        if (model === '$queryRaw' || model === '$executeRaw') return raw(model);
+        if (model === '$transaction') return transaction;
+        if (model === 'then') return undefined;
+
+        return new Proxy({}, {
+          get: (_delegate, action: string) =>
+            (args: any) => this.run(`${model}.${action}`, action, args, record),
+        });
+      },
+    });
+  }
+}
+
+export const fakePrisma = new FakePrisma();
+
+// Modules importing the Prisma client get the fake instead
+mock.module('../../src/core/database/prisma.client', () => ({
+  prisma: fakePrisma.client,
+  prismaGlobal: fakePrisma.client,
+  default: (_c: unknown, next: () => Promise<void>) => next(),
+  connectDatabase: async () => {},
+  disconnectDatabase: async () => {},
+  checkDatabaseHealth: async () => true,
+}));
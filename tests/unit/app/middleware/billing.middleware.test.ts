@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { Hono } from 'hono';
+import { deductBalance } from '../../../../src/app/middleware/billing.middleware';
+import { BillingService } from '../../../../src/modules/billing/services/billing.service';
+
+const account = { id: 'acc_1' } as any;
+
+// A route estimated at 0.5 whose handler runs `handle`
+function app(handle: (c: any) => void, status: 200 | 201 | 202 | 400 = 200) {
+  return new Hono()
+    .use('*', async (c, next) => {
+      c.set('account', account);
+      c.set('estimatedCost', 0.5);
+      await next();
+    })
+    .use('*', deductBalance)
+    .post('/', c => {
+      c.set('serviceType', 'sms');
+      handle(c);
+      return c.json({}, status);
+    });
+}
+
+let charge: ReturnType<typeof spyOn>;
+
+beforeEach(() => {
+  charge = spyOn(BillingService, 'deductBalance').mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  charge.mockRestore();
+});
+
+describe('deductBalance middleware', () => {
+  test('charges the actual cost the handler reports', async () => {
+    await app(c => c.set('actualCost', 0.2)).request('/', { method: 'POST' });
+
+    expect(charge).toHaveBeenCalledWith('acc_1', 0.2, 'sms');
+  });
+
+  test('falls back to the estimate without an actual cost', async () => {
+    await app(() => {}).request('/', { method: 'POST' });
+
+    expect(charge).toHaveBeenCalledWith('acc_1', 0.5, 'sms');
+  });
+
+  test('leaves deferred charges to the handler', async () => {
+    await app(c => c.set('deferredCharge', true), 201).request('/', { method: 'POST' });
+
+    expect(charge).not.toHaveBeenCalled();
+  });
+
+  test('does not charge failed requests', async () => {
+    await app(c => c.set('actualCost', 0.2), 400).request('/', { method: 'POST' });
+
+    expect(charge).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { LocalMNPProvider, MNPLookupService, MNPProviderFactory } from '../../../../src/core/providers/mnp';
+import { SMSRouterService } from '../../../../src/modules/sms/services/sms-router.service';
+
+let provider: LocalMNPProvider;
+
+beforeEach(() => {
+  fakePrisma.reset();
+
+  provider = new LocalMNPProvider({ name: 'Local', credentials: {}, supportedCountries: ['GH'] });
+  MNPProviderFactory.setProvider(provider);
+});
+
+afterEach(() => {
+  MNPProviderFactory.setProvider(null);
+});
+
+// A cached NumberLookup row
+const cachedRow = (phone: string, network: string) => ({
+  id: 'lkp_1',
+  phone,
+  found: true,
+  country: 'GH',
+  network,
+  operator: network,
+  originalNetwork: 'mtn',
+  ported: true,
+  mcc: null,
+  mnc: null,
+  lineType: 'mobile',
+  reachable: null,
+  provider: 'local',
+  lookedUpAt: new Date(),
+  expiresAt: new Date(Date.now() + 3600_000),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('MNPLookupService', () => {
+  test('reports a ported number on its current network and caches it', async () => {
+    provider.port('+233244123456', 'telecel');
+
+    const result = await MNPLookupService.lookup('233 24 412 3456');
+
+    expect(result).toMatchObject({
+      phone: '+233244123456',
+      found: true,
+      network: 'telecel',
+      originalNetwork: 'mtn',
+      ported: true,
+      cached: false,
+    });
+
+    const [upsert] = fakePrisma.callsTo('numberLookup.upsert');
+    expect(upsert.where).toEqual({ phone: '+233244123456' });
+    expect(upsert.create).toMatchObject({ network: 'telecel', ported: true });
+  });
+
+  test('answers from the cache without calling the provider', async () => {
+    fakePrisma.on('numberLookup.findMany', () => [cachedRow('+233244123456', 'airteltigo')]);
+    const lookup = spyOn(provider, 'lookupMany');
+
+    const result = await MNPLookupService.lookup('+233244123456');
+
+    expect(result).toMatchObject({ network: 'airteltigo', cached: true });
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  test('does not cache a failed lookup', async () => {
+    spyOn(provider, 'lookupMany').mockRejectedValue(new Error('HLR timeout'));
+
+    const [result] = await MNPLookupService.lookupMany(['+233244123456']);
+
+    expect(result).toMatchObject({ found: false, network: null, error: 'HLR timeout' });
+    expect(fakePrisma.callsTo('numberLookup.upsert')).toHaveLength(0);
+  });
+});
+
+describe('SMSRouterService.resolveNetwork', () => {
+  test('routes a ported number to the network the lookup found', async () => {
+    fakePrisma.on('numberLookup.findMany', () => [cachedRow('+233244123456', 'telecel')]);
+
+    expect(await SMSRouterService.resolveNetwork('+233244123456')).toMatchObject({ network: 'telecel', ported: true });
+  });
+
+  test('falls back to the number prefix without a lookup', async () => {
+    expect(await SMSRouterService.resolveNetwork('+233201234567')).toEqual({
+      network: 'telecel',
+      operator: 'Telecel Ghana',
+    });
+    expect(await SMSRouterService.resolveNetwork('+14155550100')).toBeNull();
+  });
+});
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { JobProcessor } from '../../../../src/core/services/queue/job.processor';
+import {
+  MemoryQueueDriver,
+  QueueManager,
+  type Job,
+} from '../../../../src/core/services/queue/queue.manager';
+
+// Poll until `check` holds or the timeout runs out
+async function waitFor(check: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await Bun.sleep(5);
+  }
+}
+
+let driver: MemoryQueueDriver;
+let queueId = 0;
+
+// The processor keeps its handlers for the process, so every test gets its own queue
+const nextQueue = () => `test-queue-${++queueId}`;
+
+beforeEach(() => {
+  driver = new MemoryQueueDriver();
+  QueueManager.useDriver(driver);
+});
+
+afterEach(async () => {
+  await JobProcessor.stop();
+});
+
+describe('JobProcessor', () => {
+  test('completes a job whose handler succeeds', async () => {
+    const queue = nextQueue();
+    const seen: Job[] = [];
+
+    JobProcessor.register<{ to: string }>(queue, async job => {
+      seen.push(job);
+    });
+
+    await QueueManager.add(queue, { to: '+233244123456' });
+    JobProcessor.start(5);
+
+    await waitFor(() => seen.length === 1);
+    await waitFor(async () => (await driver.stats(queue)).active === 0);
+
+    expect(seen[0].data).toEqual({ to: '+233244123456' });
+    expect(seen[0].attempts).toBe(1);
+    expect(await driver.stats(queue)).toMatchObject({ waiting: 0, delayed: 0, active: 0, dead: 0 });
+  });
+
+  test('retries a failing job until it succeeds', async () => {
+    const queue = nextQueue();
+    const attempts: number[] = [];
+
+    JobProcessor.register(queue, async job => {
+      attempts.push(job.attempts);
+      if (job.attempts < 3) throw new Error('Provider unavailable');
+    }, { backoffMs: 1, maxBackoffMs: 1 });
+
+    await QueueManager.add(queue, {}, { maxAttempts: 5 });
+    JobProcessor.start(5);
+
+    await waitFor(() => attempts.length === 3);
+    await waitFor(async () => (await driver.stats(queue)).active === 0);
+
+    expect(attempts).toEqual([1, 2, 3]);
+    expect((await driver.listDead(queue, 0, 10)).total).toBe(0);
+  });
+
+  test('moves a job to the dead-letter queue after maxAttempts', async () => {
+    const queue = nextQueue();
+    let calls = 0;
+    const dead: Array<{ job: Job; error: Error }> = [];
+
+    JobProcessor.register(queue, async () => {
+      calls++;
+      throw new Error(`Failure ${calls}`);
+    }, {
+      backoffMs: 1,
+      maxBackoffMs: 1,
+      onDead: async (job, error) => {
+        dead.push({ job, error });
+      },
+    });
+
+    const job = await QueueManager.add(queue, { id: 'msg_1' }, { maxAttempts: 3 });
+    JobProcessor.start(5);
+
+    await waitFor(() => dead.length === 1);
+
+    expect(calls).toBe(3);
+    expect(dead[0].error.message).toBe('Failure 3');
+
+    const { jobs, total } = await QueueManager.listDead(queue, 0, 10);
+    expect(total).toBe(1);
+    expect(jobs[0]).toMatchObject({ id: job!.id, attempts: 3, lastError: 'Failure 3' });
+    expect(jobs[0].failedAt).toBeNumber();
+    expect(await driver.stats(queue)).toMatchObject({ waiting: 0, delayed: 0, active: 0, dead: 1 });
+  });
+
+  test('replays a dead job with a fresh attempt budget', async () => {
+    const queue = nextQueue();
+    const replayed: Job[] = [];
+    let fail = true;
+    let completed = 0;
+
+    JobProcessor.register(queue, async () => {
+      if (fail) throw new Error('Broken');
+      completed++;
+    }, {
+      backoffMs: 1,
+      maxBackoffMs: 1,
+      onReplay: async job => {
+        replayed.push(job);
+      },
+    });
+
+    const job = await QueueManager.add(queue, {}, { maxAttempts: 1 });
+    JobProcessor.start(5);
+
+    await waitFor(async () => (await driver.stats(queue)).dead === 1);
+
+    fail = false;
+    const again = await QueueManager.replayDead(queue, job!.id);
+
+    expect(again).toMatchObject({ id: job!.id, attempts: 0, failedAt: undefined });
+    expect(replayed.map(item => item.id)).toEqual([job!.id]);
+
+    await waitFor(() => completed === 1);
+    expect((await driver.stats(queue)).dead).toBe(0);
+  });
+
+  test('does not retry a job whose handler succeeded when completing it fails', async () => {
+    const queue = nextQueue();
+    let calls = 0;
+
+    JobProcessor.register(queue, async () => {
+      calls++;
+    }, { backoffMs: 1, maxBackoffMs: 1 });
+
+    const complete = spyOn(driver, 'complete').mockRejectedValueOnce(new Error('Redis unavailable'));
+    const retry = spyOn(driver, 'retry');
+
+    await QueueManager.add(queue, {});
+    JobProcessor.start(5);
+
+    await waitFor(() => complete.mock.calls.length === 1);
+    await Bun.sleep(20);
+
+    expect(calls).toBe(1);
+    expect(retry).not.toHaveBeenCalled();
+    expect((await driver.stats(queue)).dead).toBe(0);
+  });
+
+  test('returns null when replaying an unknown dead job', async () => {
+    expect(await QueueManager.replayDead(nextQueue(), 'missing')).toBeNull();
+  });
+});
+
+describe('JobProcessor.backoff', () => {
+  test('doubles per attempt within 20% jitter and stops at the maximum', () => {
+    for (let i = 0; i < 20; i++) {
+      const third = JobProcessor.backoff(3, 1000, 60000);
+      expect(third).toBeGreaterThanOrEqual(3200);
+      expect(third).toBeLessThanOrEqual(4800);
+
+      const capped = JobProcessor.backoff(20, 1000, 60000);
+      expect(capped).toBeGreaterThanOrEqual(48000);
+      expect(capped).toBeLessThanOrEqual(72000);
+    }
+  });
+});
+
+describe('MemoryQueueDriver', () => {
+  test('hands an expired claim to the next claimer', async () => {
+    const job = await QueueManager.add('claims', {});
+
+    expect(await driver.claim('claims', 10, 20)).toHaveLength(1);
+    expect(await driver.claim('claims', 10, 20)).toHaveLength(0);
+
+    await Bun.sleep(30);
+    expect((await driver.claim('claims', 10, 20)).map(claimed => claimed.id)).toEqual([job!.id]);
+  });
+
+  test('keeps an extended claim from being reclaimed', async () => {
+    const job = await QueueManager.add('claims', {});
+    await driver.claim('claims', 10, 20);
+
+    await Bun.sleep(10);
+    expect(await driver.extend(job!, 100)).toBe(true);
+
+    await Bun.sleep(20);
+    expect(await driver.claim('claims', 10, 20)).toHaveLength(0);
+  });
+
+  test('does not extend a job that is no longer claimed', async () => {
+    const job = await QueueManager.add('claims', {});
+    const [claimed] = await driver.claim('claims', 10, 20);
+    await driver.complete(claimed);
+
+    expect(await driver.extend(job!, 100)).toBe(false);
+  });
+
+  test('only queues a job id once', async () => {
+    expect(await QueueManager.add('claims', {}, { jobId: 'once' })).not.toBeNull();
+    expect(await QueueManager.add('claims', {}, { jobId: 'once' })).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { BillingService } from '../../../../src/modules/billing/services/billing.service';
+import { WebhookDispatcher } from '../../../../src/modules/webhooks/services/webhook-dispatcher.service';
+import { TransactionType } from '../../../../generated/prisma/client';
+
+// Balance the account row lock returns
+let balance: { walletBalance: number; creditBalance: number };
+let emit: ReturnType<typeof spyOn>;
+
+beforeEach(() => {
+  fakePrisma.reset();
+  balance = { walletBalance: 50, creditBalance: 5 };
+
+  fakePrisma.on('$queryRaw', ({ sql }) => (sql.includes('FOR UPDATE') ? [{ ...balance, currency: 'GHS' }] : []));
+
+  emit = spyOn(WebhookDispatcher, 'emit').mockResolvedValue(0);
+});
+
+afterEach(() => {
+  emit.mockRestore();
+});
+
+describe('BillingService.deductBalance', () => {
+  test('spends credits before the wallet', async () => {
+    await BillingService.deductBalance('acc_1', 8, 'sms');
+
+    const [update] = fakePrisma.callsTo('account.update');
+    expect(update.data).toMatchObject({
+      walletBalance: { decrement: 3 },
+      creditBalance: { decrement: 5 },
+      lifetimeSpent: { increment: 8 },
+    });
+
+    const [transaction] = fakePrisma.callsTo('transaction.create');
+    expect(transaction.data).toMatchObject({
+      type: TransactionType.DEBIT,
+      amount: -8,
+      walletBefore: 50,
+      walletAfter: 47,
+      creditBefore: 5,
+      creditAfter: 0,
+      description: 'sms service charge',
+    });
+  });
+
+  test('refuses a charge the balance cannot cover when funds are required', async () => {
+    await expect(
+      BillingService.deductBalance('acc_1', 60, 'sms', undefined, { requireFunds: true })
+    ).rejects.toThrow('Insufficient balance');
+
+    expect(fakePrisma.callsTo('account.update')).toHaveLength(0);
+    expect(fakePrisma.callsTo('transaction.create')).toHaveLength(0);
+  });
+
+  test('records each service with a transaction type the schema knows', async () => {
+    for (const serviceType of ['sms', 'email', 'voice', 'whatsapp', 'push', 'lookup', 'chat']) {
+      await BillingService.deductBalance('acc_1', 1, serviceType);
+    }
+
+    const types = fakePrisma.callsTo('transaction.create').map(args => args.data.type);
+    expect(types).toEqual([
+      TransactionType.DEBIT,
+      TransactionType.EMAIL_DEBIT,
+      TransactionType.DEBIT,
+      TransactionType.DEBIT,
+      TransactionType.DEBIT,
+      TransactionType.DEBIT,
+      TransactionType.DEBIT,
+    ]);
+  });
+
+  test('notifies once when the balance drops below the low threshold', async () => {
+    await BillingService.deductBalance('acc_1', 50, 'sms');
+
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit.mock.calls[0][1]).toBe('BALANCE_LOW');
+
+    balance = { walletBalance: 5, creditBalance: 0 };
+    await BillingService.deductBalance('acc_1', 1, 'sms');
+
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+
+  test('notifies when the balance is used up', async () => {
+    balance = { walletBalance: 2, creditBalance: 0 };
+
+    await BillingService.deductBalance('acc_1', 2, 'sms');
+
+    expect(emit.mock.calls[0][1]).toBe('BALANCE_DEPLETED');
+  });
+});
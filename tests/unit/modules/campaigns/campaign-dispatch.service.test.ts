@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { CampaignDispatchService } from '../../../../src/modules/campaigns/services/campaign-dispatch.service';
+import { SMSQueueService } from '../../../../src/modules/sms/services/sms-queue.service';
+import { SendWindowService } from '../../../../src/modules/send-windows/services/send-window.service';
+import { SuppressionService } from '../../../../src/modules/suppressions/services/suppression.service';
+import { WebhookDispatcher } from '../../../../src/modules/webhooks/services/webhook-dispatcher.service';
+import { QueueManager } from '../../../../src/core/services/queue/queue.manager';
+import { CampaignStatus, MessageStatus, SuppressionReason } from '../../../../generated/prisma/client';
+
+const campaign = {
+  id: 'cmp_1',
+  accountId: 'acc_1',
+  name: 'Spring sale',
+  status: CampaignStatus.PROCESSING,
+  dispatchRun: 1,
+  sendSpeed: null,
+  testSamplePercent: null,
+  winnerVariantId: null,
+  totalRecipients: 3,
+  variants: [],
+};
+
+const job = {
+  id: 'cmp_1:1:send:0',
+  queue: 'campaigns.dispatch',
+  data: { campaignId: 'cmp_1', run: 1, step: 'send' as const, slice: 0 },
+  attempts: 1,
+  maxAttempts: 3,
+  createdAt: Date.now(),
+  runAt: Date.now(),
+};
+
+const claimed = [
+  { id: 'msg_1', provider: 'mtn-gh', totalCost: 0.05, recipient: '+233244123456', recipientCountry: 'GH', variantId: null },
+  { id: 'msg_2', provider: 'mtn-gh', totalCost: 0.05, recipient: '+233244654321', recipientCountry: 'GH', variantId: null },
+  { id: 'msg_3', provider: 'mtn-gh', totalCost: 0.05, recipient: '+233201234567', recipientCountry: 'GH', variantId: null },
+];
+
+const sendSlice = () => (CampaignDispatchService as any).sendSlice(job) as Promise<void>;
+
+// Balance the account row lock returns
+let balance: { walletBalance: number; creditBalance: number };
+let enqueued: Array<{ id: string }>;
+const spies: Array<{ mockRestore: () => void }> = [];
+
+beforeEach(() => {
+  fakePrisma.reset();
+  balance = { walletBalance: 10, creditBalance: 0 };
+  enqueued = [];
+
+  fakePrisma
+    .on('campaign.findUnique', () => ({ ...campaign }))
+    .on('message.aggregate', () => ({ _min: { scheduledFor: null }, _count: 0 }))
+    .on('$queryRaw', ({ sql }) => {
+      if (sql.includes('FROM accounts')) return [{ ...balance, currency: 'GHS' }];
+      if (sql.includes('UPDATE messages')) return claimed.map(message => ({ ...message }));
+      return [];
+    });
+
+  spies.push(
+    spyOn(SuppressionService, 'check').mockResolvedValue(new Map()),
+    spyOn(SendWindowService, 'deferrals').mockImplementation(async (_accountId, _type, recipients) => recipients.map(() => null)),
+    spyOn(SMSQueueService, 'enqueue').mockImplementation(async messages => {
+      enqueued.push(...messages);
+    }),
+    spyOn(QueueManager, 'add').mockResolvedValue({} as any),
+    spyOn(WebhookDispatcher, 'emit').mockResolvedValue(0)
+  );
+});
+
+afterEach(() => {
+  spies.splice(0).forEach(spy => spy.mockRestore());
+});
+
+describe('CampaignDispatchService slices', () => {
+  test('claims and charges a slice in one transaction, then queues it', async () => {
+    await sendSlice();
+
+    const [charge] = fakePrisma.callsTo('transaction.create');
+    expect(charge.data).toMatchObject({ accountId: 'acc_1', serviceType: 'sms' });
+    expect(charge.data.amount).toBeCloseTo(-0.15);
+    expect(fakePrisma.callsTo('campaign.update')[0].data.actualCost.increment).toBeCloseTo(0.15);
+
+    // The claim is committed with the charge, and comes first
+    const writes = fakePrisma.calls
+      .map(call => call.key)
+      .filter(key => ['$queryRaw', 'transaction.create', 'campaign.update'].includes(key));
+    expect(writes).toEqual(['$queryRaw', '$queryRaw', 'transaction.create', 'campaign.update']);
+
+    expect(enqueued.map(message => message.id)).toEqual(['msg_1', 'msg_2', 'msg_3']);
+  });
+
+  test('leaves a slice the balance cannot cover unclaimed and pauses the campaign', async () => {
+    balance = { walletBalance: 0.1, creditBalance: 0 };
+
+    await sendSlice();
+
+    // Rolled back: the slice is still PENDING and nothing was charged
+    expect(fakePrisma.callsTo('$queryRaw')).toHaveLength(0);
+    expect(fakePrisma.callsTo('transaction.create')).toHaveLength(0);
+    expect(enqueued).toHaveLength(0);
+
+    const [pause] = fakePrisma.callsTo('campaign.updateMany');
+    expect(pause.data).toEqual({ status: CampaignStatus.PAUSED, pausedReason: 'Insufficient balance' });
+  });
+
+  test('fails suppressed messages and holds those outside their window without charging them', async () => {
+    const opening = new Date(Date.now() + 3600_000);
+
+    spyOn(SuppressionService, 'check').mockResolvedValue(new Map([['+233244123456', SuppressionReason.OPT_OUT]]));
+    spyOn(SendWindowService, 'deferrals').mockImplementation(async (_accountId, _type, recipients) =>
+      recipients.map(recipient => (recipient.phone === '+233201234567' ? opening : null))
+    );
+
+    await sendSlice();
+
+    const updates = fakePrisma.callsTo('message.updateMany');
+    expect(updates[0]).toMatchObject({ where: { id: 'msg_1' }, data: { status: MessageStatus.FAILED } });
+    expect(updates[1]).toMatchObject({
+      where: { id: { in: ['msg_3'] } },
+      data: { status: MessageStatus.PENDING, scheduledFor: opening },
+    });
+
+    expect(fakePrisma.callsTo('transaction.create')[0].data.amount).toBeCloseTo(-0.05);
+    expect(enqueued.map(message => message.id)).toEqual(['msg_2']);
+  });
+
+  test('re-queues stale messages of an earlier slice that never reached a provider', async () => {
+    fakePrisma.on('message.findMany', () => [
+      { id: 'msg_0', provider: 'mtn-gh', queuedAt: new Date(0) },
+      { id: 'msg_9', provider: 'mtn-gh', queuedAt: new Date() },
+    ]);
+
+    await sendSlice();
+
+    // Only the stale one; the fresh one may still be waiting in the queue
+    expect(enqueued.map(message => message.id)).toEqual(['msg_0', 'msg_1', 'msg_2', 'msg_3']);
+
+    // Not completed while they are on their way
+    expect(fakePrisma.callsTo('campaign.updateMany')).toHaveLength(0);
+    expect(QueueManager.add).toHaveBeenCalled();
+  });
+
+  test('completes the campaign once nothing is left to send', async () => {
+    await sendSlice();
+
+    const [complete] = fakePrisma.callsTo('campaign.updateMany');
+    expect(complete.data.status).toBe(CampaignStatus.COMPLETED);
+  });
+});
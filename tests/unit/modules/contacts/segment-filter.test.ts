@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { SegmentFilterService } from '../../../../src/modules/contacts/services/segment-filter.service';
+import { ContactFieldService } from '../../../../src/modules/contacts/services/contact-field.service';
+import { ContactGroupService } from '../../../../src/modules/contacts/services/contact-group.service';
+import { Prisma, type ContactField } from '../../../../generated/prisma/client';
+import type { SegmentNode } from '../../../../src/modules/contacts/types/contact.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const field = (key: string, type: ContactField['type'], options: string[] = []): ContactField => ({
+  id: `field_${key}`,
+  accountId: 'acc_1',
+  key,
+  label: key,
+  type,
+  options,
+  required: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const FIELDS = [
+  field('plan', 'SELECT', ['Gold', 'Silver']),
+  field('spend', 'NUMBER'),
+  field('vip', 'BOOLEAN'),
+  field('note', 'TEXT'),
+];
+
+// The filter's compiled condition, without the account scope around it
+const compile = async (filter: SegmentNode) => {
+  const where = await SegmentFilterService.buildWhere('acc_1', filter);
+  expect(where.accountId).toBe('acc_1');
+  return (where.AND as unknown[])[0] as any;
+};
+
+const spies: Array<{ mockRestore: () => void }> = [];
+let assertedGroups: string[][];
+
+beforeEach(() => {
+  fakePrisma.reset();
+  fakePrisma.on('$queryRaw', () => [{ id: 'con_1' }]);
+  assertedGroups = [];
+
+  spies.push(
+    spyOn(ContactFieldService, 'loadFields').mockResolvedValue(FIELDS),
+    spyOn(ContactGroupService, 'assertGroups').mockImplementation(async (_accountId, groupIds) => {
+      assertedGroups.push(groupIds);
+      if (groupIds.includes('grp_missing')) throw new Error('Contact group not found');
+    })
+  );
+});
+
+afterEach(() => {
+  spies.splice(0).forEach(spy => spy.mockRestore());
+});
+
+describe('SegmentFilterService.buildWhere', () => {
+  test('compiles text conditions case-insensitively', async () => {
+    expect(await compile({ field: 'city', op: 'eq', value: 'Accra' }))
+      .toEqual({ city: { equals: 'Accra', mode: 'insensitive' } });
+
+    expect(await compile({ field: 'country', op: 'neq', value: 'GH' })).toEqual({
+      OR: [{ country: null }, { NOT: { country: { equals: 'GH', mode: 'insensitive' } } }],
+    });
+
+    expect(await compile({ field: 'network', op: 'in', value: ['MTN', 'Telecel'] }))
+      .toEqual({ network: { in: ['MTN', 'Telecel'] } });
+
+    expect(await compile({ field: 'email', op: 'isSet' })).toEqual({ NOT: { email: null } });
+  });
+
+  test('compiles nested all / any / not groups', async () => {
+    const where = await compile({
+      all: [
+        { field: 'isSubscribed', op: 'eq', value: true },
+        {
+          any: [
+            { field: 'tags', op: 'has', value: 'vip' },
+            { not: { field: 'country', op: 'eq', value: 'NG' } },
+          ],
+        },
+      ],
+    });
+
+    expect(where).toEqual({
+      AND: [
+        { isSubscribed: true },
+        {
+          OR: [
+            { tags: { has: 'vip' } },
+            { NOT: { country: { equals: 'NG', mode: 'insensitive' } } },
+          ],
+        },
+      ],
+    });
+  });
+
+  test('compiles tag and date conditions', async () => {
+    expect(await compile({ field: 'tags', op: 'hasAll', value: ['a', 'b'] })).toEqual({ tags: { hasEvery: ['a', 'b'] } });
+    expect(await compile({ field: 'tags', op: 'notSet' })).toEqual({ tags: { isEmpty: true } });
+    expect(await compile({ field: 'createdAt', op: 'before', value: '2026-01-01T00:00:00Z' }))
+      .toEqual({ createdAt: { lt: new Date('2026-01-01T00:00:00Z') } });
+
+    const before = Date.now();
+    const within = await compile({ field: 'optedOutAt', op: 'withinDays', value: 7 });
+    const since = within.optedOutAt.gte as Date;
+
+    expect(since.getTime()).toBeGreaterThanOrEqual(before - 7 * DAY_MS);
+    expect(since.getTime()).toBeLessThanOrEqual(Date.now() - 7 * DAY_MS);
+  });
+
+  test('checks groups belong to the account', async () => {
+    expect(await compile({ field: 'group', op: 'notIn', value: ['grp_1', 'grp_2'] }))
+      .toEqual({ groupMemberships: { none: { groupId: { in: ['grp_1', 'grp_2'] } } } });
+    expect(assertedGroups).toEqual([['grp_1', 'grp_2']]);
+
+    await expect(compile({ field: 'group', op: 'in', value: ['grp_missing'] }))
+      .rejects.toThrow('Contact group not found');
+  });
+
+  test('coerces custom field values to the field type', async () => {
+    expect(await compile({ field: 'customFields.plan', op: 'eq', value: 'gold' }))
+      .toEqual({ customFields: { path: ['plan'], equals: 'Gold' } });
+
+    expect(await compile({ field: 'customFields.spend', op: 'gte', value: '1,500' }))
+      .toEqual({ customFields: { path: ['spend'], gte: 1500 } });
+
+    expect(await compile({ field: 'customFields.vip', op: 'notSet' }))
+      .toEqual({ customFields: { path: ['vip'], equals: Prisma.AnyNull } });
+  });
+
+  test('rejects custom field operators that do not fit the field type', async () => {
+    await expect(compile({ field: 'customFields.spend', op: 'contains', value: '1' }))
+      .rejects.toThrow('"contains" needs a TEXT or SELECT field');
+    await expect(compile({ field: 'customFields.note', op: 'gt', value: 'a' }))
+      .rejects.toThrow('"gt" needs a NUMBER or DATE field');
+    await expect(compile({ field: 'customFields.unknown', op: 'eq', value: 'a' }))
+      .rejects.toThrow('Unknown custom field "unknown"');
+  });
+
+  test('resolves engagement conditions with an EXISTS subquery on the message logs', async () => {
+    expect(await compile({ field: 'sms.delivered', op: 'withinDays', value: 30 }))
+      .toEqual({ id: { in: ['con_1'] } });
+
+    const [delivered] = fakePrisma.callsTo('$queryRaw');
+    const [accountId, negation, subquery] = delivered.values;
+    expect(accountId).toBe('acc_1');
+    expect(negation.sql).toBe('');
+    expect(subquery.sql).toContain('FROM messages m');
+    expect(subquery.sql).toContain('m."deliveredAt" >= ?');
+    expect(subquery.values[0]).toBeInstanceOf(Date);
+  });
+
+  test('matches contacts without the event, or without an email, for "never"', async () => {
+    await compile({ field: 'email.opened', op: 'never' });
+
+    const [opened] = fakePrisma.callsTo('$queryRaw');
+    const [, negation, subquery] = opened.values;
+    expect(negation.sql).toBe('NOT');
+    expect(subquery.sql).toContain('e."to" = c.email');
+    expect(subquery.sql).toContain('e."openedAt" IS NOT NULL');
+    expect(subquery.values).toEqual([]);
+  });
+
+  test('rejects invalid filters', async () => {
+    await expect(compile({ field: 'favouriteColour', op: 'eq', value: 'red' }))
+      .rejects.toThrow('unknown field "favouriteColour"');
+    await expect(compile({ field: 'isActive', op: 'neq', value: true }))
+      .rejects.toThrow('"neq" cannot be used with "isActive"');
+    await expect(compile({ field: 'isActive', op: 'eq', value: 'yes' }))
+      .rejects.toThrow('"isActive" needs true or false');
+    await expect(compile({ field: 'network', op: 'in', value: [] }))
+      .rejects.toThrow('"network" needs a list of values');
+    await expect(compile({ field: 'sms.sent', op: 'withinDays', value: 731 }))
+      .rejects.toThrow('needs a number of days from 1 to 730');
+    await expect(compile({}))
+      .rejects.toThrow('a group needs "all", "any" or "not"');
+  });
+
+  test('limits nesting depth and condition count', async () => {
+    let deep: SegmentNode = { field: 'city', op: 'eq', value: 'Accra' };
+    for (let i = 0; i < 5; i++) deep = { not: deep };
+
+    await expect(compile(deep)).rejects.toThrow('nested at most 5 deep');
+
+    const many = Array.from({ length: 51 }, () => ({ field: 'city', op: 'eq' as const, value: 'Accra' }));
+    await expect(compile({ any: many })).rejects.toThrow('at most 50 conditions');
+  });
+});
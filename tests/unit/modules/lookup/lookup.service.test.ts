@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { LookupService } from '../../../../src/modules/lookup/services/lookup.service';
+import { LocalMNPProvider, MNPLookupService, MNPProviderFactory } from '../../../../src/core/providers/mnp';
+
+const RATE = 0.03;
+
+let provider: LocalMNPProvider;
+
+beforeEach(() => {
+  fakePrisma.reset();
+
+  provider = new LocalMNPProvider({ name: 'Local', credentials: {}, supportedCountries: ['GH'] });
+  MNPProviderFactory.setProvider(null);
+});
+
+afterEach(() => {
+  MNPProviderFactory.setProvider(null);
+});
+
+describe('LookupService.estimateCost', () => {
+  test('only bills valid numbers', () => {
+    expect(LookupService.estimateCost(['+233244123456', '+233201234567', 'not-a-number']))
+      .toEqual({ estimatedCost: 2 * RATE, currency: 'GHS' });
+  });
+});
+
+describe('LookupService.lookupNumbers', () => {
+  test('reports the prefix network without an MNP provider', async () => {
+    const response = await LookupService.lookupNumbers('acc_1', ['+233201234567', 'not-a-number']);
+    const [valid, invalid] = response.results;
+
+    expect(valid).toMatchObject({
+      valid: true,
+      format: { e164: '+233201234567', national: '0201234567', dialCode: '+233' },
+      country: 'GH',
+      network: { current: 'telecel', original: 'telecel', ported: null },
+      source: 'prefix',
+      cost: RATE,
+    });
+    expect(invalid).toMatchObject({ valid: false, source: null, cost: 0 });
+
+    expect(response.summary).toEqual({ total: 2, valid: 1, invalid: 1, ported: 0 });
+    expect(response.totalCost).toBe(RATE);
+  });
+
+  test('reports the current network of a ported number from MNP', async () => {
+    MNPProviderFactory.setProvider(provider);
+    provider.port('+233244123456', 'telecel');
+
+    const response = await LookupService.lookupNumbers('acc_1', ['+233244123456']);
+
+    expect(response.results[0]).toMatchObject({
+      source: 'mnp',
+      network: { current: 'telecel', original: 'mtn', ported: true },
+      lineType: 'mobile',
+    });
+    expect(response.summary.ported).toBe(1);
+  });
+
+  test('falls back to the prefix network when MNP fails', async () => {
+    MNPProviderFactory.setProvider(provider);
+    const lookupMany = spyOn(MNPLookupService, 'lookupMany').mockRejectedValue(new Error('HLR down'));
+
+    const response = await LookupService.lookupNumbers('acc_1', ['+233244123456']);
+    lookupMany.mockRestore();
+
+    expect(response.results[0]).toMatchObject({ source: 'prefix', network: { current: 'mtn' } });
+    expect(response.totalCost).toBe(RATE);
+  });
+
+  test('counts billed lookups in the daily stats', async () => {
+    await LookupService.lookupNumbers('acc_1', ['+233244123456', '+233201234567', 'nope']);
+    await Bun.sleep(0);
+
+    const [stats] = fakePrisma.callsTo('dailyStats.upsert');
+    expect(stats.update).toEqual({ lookups: { increment: 2 }, lookupCost: { increment: 2 * RATE } });
+  });
+});
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { SendWindowService } from '../../../../src/modules/send-windows/services/send-window.service';
+
+const input = { country: null, startTime: '08:00', endTime: '20:00', isActive: true };
+
+beforeEach(() => {
+  fakePrisma.reset();
+  fakePrisma.on('sendWindow.create', ({ data }) => ({
+    id: 'win_1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...data,
+  }));
+});
+
+describe('SendWindowService.create', () => {
+  test('checks for a platform catch-all under a lock before adding one', async () => {
+    const window = await SendWindowService.create(null, input);
+
+    expect(window).toMatchObject({ country: null, startTime: '08:00', endTime: '20:00' });
+
+    const keys = fakePrisma.calls.map(call => call.key);
+    expect(keys).toEqual(['$executeRaw', 'sendWindow.findFirst', 'sendWindow.create']);
+
+    const [lock] = fakePrisma.callsTo('$executeRaw');
+    expect(lock.sql).toContain('pg_advisory_xact_lock');
+    expect(lock.values).toEqual(['send_windows:platform']);
+    expect(fakePrisma.callsTo('sendWindow.findFirst')[0].where).toEqual({ accountId: null, country: null });
+  });
+
+  test('refuses a second catch-all in the same scope', async () => {
+    fakePrisma.on('sendWindow.findFirst', () => ({ id: 'win_0' }));
+
+    await expect(SendWindowService.create('acc_1', input))
+      .rejects.toThrow('A send window for all countries already exists');
+    expect(fakePrisma.callsTo('sendWindow.create')).toHaveLength(0);
+  });
+
+  test('refuses a second window for a country', async () => {
+    fakePrisma
+      .on('country.findUnique', () => ({ code: 'GH' }))
+      .on('sendWindow.findFirst', () => ({ id: 'win_0' }));
+
+    await expect(SendWindowService.create('acc_1', { ...input, country: 'GH' }))
+      .rejects.toThrow('A send window for GH already exists');
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { BulkSMSService } from '../../../../src/modules/sms/services/bulk-sms.service';
+import { SMSQueueService } from '../../../../src/modules/sms/services/sms-queue.service';
+import { SMSRouterService } from '../../../../src/modules/sms/services/sms-router.service';
+import { MNPLookupService } from '../../../../src/core/providers/mnp';
+import { SendWindowService } from '../../../../src/modules/send-windows/services/send-window.service';
+import { WebhookDispatcher } from '../../../../src/modules/webhooks/services/webhook-dispatcher.service';
+import { BatchStatus, MessageStatus } from '../../../../generated/prisma/client';
+
+const RATE = 0.05;
+
+const batch = {
+  id: 'batch_1',
+  accountId: 'acc_1',
+  status: BatchStatus.PROCESSING,
+  message: 'Hello from ACME',
+  templateId: null,
+  senderId: 'sid_1',
+  senderName: 'ACME',
+  processedChunks: [] as number[],
+  failedChunks: [] as number[],
+  totalChunks: 2,
+  scheduledFor: null,
+  metadata: null,
+  tags: [],
+};
+
+const job = {
+  id: 'batch_1:0',
+  queue: 'sms.bulk',
+  data: {
+    batchId: 'batch_1',
+    chunk: 0,
+    recipients: [{ to: '+233244123456' }, { to: '+233201234567' }, { to: 'not-a-number' }],
+  },
+  attempts: 1,
+  maxAttempts: 3,
+  createdAt: Date.now(),
+  runAt: Date.now(),
+};
+
+const processChunk = () => (BulkSMSService as any).processChunk(job) as Promise<void>;
+
+// Balance the account row lock returns
+let balance: { walletBalance: number; creditBalance: number };
+let enqueued: Array<{ id: string }>;
+const spies: Array<{ mockRestore: () => void }> = [];
+
+beforeEach(() => {
+  fakePrisma.reset();
+  balance = { walletBalance: 10, creditBalance: 0 };
+  enqueued = [];
+
+  fakePrisma
+    .on('messageBatch.findUnique', () => ({ ...batch }))
+    .on('$queryRaw', ({ sql }) => (sql.includes('FOR UPDATE') ? [{ ...balance, currency: 'GHS' }] : []))
+    .on('$executeRaw', ({ sql }) => (sql.includes('array_append("processedChunks"') ? 1 : 0))
+    .on('message.createManyAndReturn', ({ data }) =>
+      data.map((row: any, index: number) => ({ id: `msg_${index}`, provider: row.provider, status: row.status }))
+    );
+
+  spies.push(
+    spyOn(MNPLookupService, 'getCached').mockResolvedValue(new Map()),
+    spyOn(SendWindowService, 'deferrals').mockImplementation(async (_accountId, _type, recipients) => recipients.map(() => null)),
+    spyOn(SMSRouterService, 'selectProvider').mockResolvedValue({ id: 'mtn-gh' } as any),
+    spyOn(SMSRouterService, 'getPricing').mockResolvedValue({ ratePerUnit: RATE, totalCost: RATE, currency: 'GHS' } as any),
+    spyOn(SMSQueueService, 'enqueue').mockImplementation(async messages => {
+      enqueued.push(...messages);
+    }),
+    spyOn(WebhookDispatcher, 'emit').mockResolvedValue(0)
+  );
+});
+
+afterEach(() => {
+  spies.splice(0).forEach(spy => spy.mockRestore());
+});
+
+// The chunk claim on message_batches; values are
+// [chunk, accepted, rejected, totalCost, MAX_STORED_REJECTIONS, rejections, ...]
+const claimOf = () => fakePrisma.callsTo('$executeRaw').find(args => args.sql.includes('array_append("processedChunks"'));
+
+describe('BulkSMSService chunk processing', () => {
+  test('charges the chunk and inserts its messages in one transaction, then queues them', async () => {
+    await processChunk();
+
+    const [charge] = fakePrisma.callsTo('transaction.create');
+    expect(charge.data).toMatchObject({ accountId: 'acc_1', amount: -2 * RATE, serviceType: 'sms' });
+    expect(fakePrisma.callsTo('account.update')[0].data.walletBalance).toEqual({ decrement: 2 * RATE });
+
+    const [insert] = fakePrisma.callsTo('message.createManyAndReturn');
+    expect(insert.data).toHaveLength(2);
+    expect(insert.data.every((row: any) => row.status === MessageStatus.QUEUED)).toBe(true);
+
+    // Claim, charge and insert are committed together, in that order
+    const writes = fakePrisma.calls
+      .map(call => call.key)
+      .filter(key => ['$executeRaw', 'transaction.create', 'message.createManyAndReturn'].includes(key));
+    expect(writes.slice(0, 3)).toEqual(['$executeRaw', 'transaction.create', 'message.createManyAndReturn']);
+
+    expect(claimOf().values.slice(1, 3)).toEqual([2, 1]);
+    expect(enqueued.map(message => message.id)).toEqual(['msg_0', 'msg_1']);
+  });
+
+  test('rejects every recipient of a chunk the balance cannot cover', async () => {
+    balance = { walletBalance: 0.05, creditBalance: 0 };
+
+    await processChunk();
+
+    expect(fakePrisma.callsTo('account.update')).toHaveLength(0);
+    expect(fakePrisma.callsTo('transaction.create')).toHaveLength(0);
+    expect(fakePrisma.callsTo('message.createManyAndReturn')).toHaveLength(0);
+    expect(enqueued).toHaveLength(0);
+
+    // Recorded once, as processed with nothing accepted and nothing charged
+    const claims = fakePrisma.callsTo('$executeRaw').filter(args => args.sql.includes('array_append("processedChunks"'));
+    expect(claims).toHaveLength(1);
+
+    const [, accepted, rejected, totalCost, , rejections] = claims[0].values;
+    expect([accepted, rejected, totalCost]).toEqual([0, 3, 0]);
+    expect(JSON.parse(rejections).filter((item: any) => item.error === 'Insufficient balance')).toHaveLength(2);
+  });
+
+  test('leaves the chunk unprocessed and uncharged when inserting fails', async () => {
+    fakePrisma.on('message.createManyAndReturn', () => {
+      throw new Error('connection reset');
+    });
+
+    await expect(processChunk()).rejects.toThrow('connection reset');
+
+    // The transaction rolled back, so the retried job processes the chunk again
+    expect(claimOf()).toBeUndefined();
+    expect(fakePrisma.callsTo('transaction.create')).toHaveLength(0);
+    expect(enqueued).toHaveLength(0);
+  });
+
+  test('does nothing for a chunk another worker already processed', async () => {
+    fakePrisma.on('$executeRaw', () => 0);
+
+    await processChunk();
+
+    expect(fakePrisma.callsTo('transaction.create')).toHaveLength(0);
+    expect(fakePrisma.callsTo('message.createManyAndReturn')).toHaveLength(0);
+    expect(enqueued).toHaveLength(0);
+  });
+
+  test('skips a chunk recorded before the job ran', async () => {
+    fakePrisma.on('messageBatch.findUnique', () => ({ ...batch, processedChunks: [0] }));
+
+    await processChunk();
+
+    expect(fakePrisma.callsTo('$executeRaw')).toHaveLength(0);
+    expect(enqueued).toHaveLength(0);
+  });
+});
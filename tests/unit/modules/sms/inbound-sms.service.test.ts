@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { InboundSMSService } from '../../../../src/modules/sms/services/inbound-sms.service';
+import { KeywordResponderService } from '../../../../src/modules/sms/services/keyword-responder.service';
+import { ConversationService } from '../../../../src/modules/conversations/services/conversation.service';
+import { WebhookDispatcher } from '../../../../src/modules/webhooks/services/webhook-dispatcher.service';
+
+const inbound = { externalId: 'ext_1', from: '+233244123456', to: '1234', content: 'JOIN promo' };
+
+// An inbound message as stored
+const storedMessage = (overrides: Record<string, unknown> = {}) => ({
+  id: 'inb_1',
+  accountId: 'acc_1',
+  from: '+233244123456',
+  to: '1234',
+  content: 'JOIN promo',
+  keyword: 'JOIN',
+  network: 'mtn',
+  country: 'GH',
+  conversationId: null,
+  processed: false,
+  processedAt: null,
+  response: null,
+  receivedAt: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+let handle: ReturnType<typeof spyOn>;
+let recordInbound: ReturnType<typeof spyOn>;
+let emit: ReturnType<typeof spyOn>;
+
+beforeEach(() => {
+  fakePrisma.reset();
+  fakePrisma
+    .on('inboundRoute.findMany', () => [{ id: 'rt_1', accountId: 'acc_1', number: '1234', keyword: 'JOIN' }])
+    .on('inboundMessage.create', ({ data }) => storedMessage({ ...data }));
+
+  handle = spyOn(KeywordResponderService, 'handle').mockResolvedValue(null);
+  recordInbound = spyOn(ConversationService, 'recordInbound').mockResolvedValue('conv_1');
+  emit = spyOn(WebhookDispatcher, 'emit').mockResolvedValue(1);
+});
+
+afterEach(() => {
+  [handle, recordInbound, emit].forEach(spy => spy.mockRestore());
+});
+
+const processedUpdates = () =>
+  fakePrisma.callsTo('inboundMessage.update').filter(args => args.data.processed === true);
+
+describe('InboundSMSService.receive', () => {
+  test('marks a routed message processed once it is handled', async () => {
+    const result = await InboundSMSService.receive('africastalking', [inbound]);
+
+    expect(result).toEqual({ stored: 1, duplicates: 0, unrouted: 0 });
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith('acc_1', 'MESSAGE_RECEIVED', expect.objectContaining({ conversationId: 'conv_1' }));
+    expect(processedUpdates()).toHaveLength(1);
+  });
+
+  test('leaves the message unprocessed when handling fails', async () => {
+    handle.mockRejectedValue(new Error('Opt-out failed'));
+
+    await expect(InboundSMSService.receive('africastalking', [inbound])).rejects.toThrow('Opt-out failed');
+
+    expect(emit).not.toHaveBeenCalled();
+    expect(processedUpdates()).toHaveLength(0);
+  });
+
+  test('finishes an unprocessed message when the provider retries', async () => {
+    fakePrisma.on('inboundMessage.findUnique', () => storedMessage({ conversationId: 'conv_1' }));
+
+    const result = await InboundSMSService.receive('africastalking', [inbound]);
+
+    expect(result).toEqual({ stored: 0, duplicates: 1, unrouted: 0 });
+    expect(fakePrisma.callsTo('inboundMessage.create')).toHaveLength(0);
+
+    // Already on its conversation; the keyword and webhook run again
+    expect(recordInbound).not.toHaveBeenCalled();
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(processedUpdates()).toHaveLength(1);
+  });
+
+  test('does not send a recorded keyword reply again', async () => {
+    fakePrisma.on('inboundMessage.findUnique', () => storedMessage({ conversationId: 'conv_1', response: 'You are in!' }));
+
+    await InboundSMSService.receive('africastalking', [inbound]);
+
+    expect(handle).not.toHaveBeenCalled();
+    expect(processedUpdates()).toHaveLength(1);
+  });
+
+  test('drops a repeated callback for a processed message', async () => {
+    fakePrisma.on('inboundMessage.findUnique', () => storedMessage({ processed: true }));
+
+    const result = await InboundSMSService.receive('africastalking', [inbound]);
+
+    expect(result).toEqual({ stored: 0, duplicates: 1, unrouted: 0 });
+    expect(handle).not.toHaveBeenCalled();
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  test('stores a message without a route for support', async () => {
+    fakePrisma.on('inboundRoute.findMany', () => []);
+
+    const result = await InboundSMSService.receive('africastalking', [{ ...inbound, content: 'hello' }]);
+
+    expect(result).toEqual({ stored: 1, duplicates: 0, unrouted: 1 });
+    expect(handle).not.toHaveBeenCalled();
+  });
+});
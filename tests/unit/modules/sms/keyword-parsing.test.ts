@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { InboundSMSService } from '../../../../src/modules/sms/services/inbound-sms.service';
+import { KeywordResponderService } from '../../../../src/modules/sms/services/keyword-responder.service';
+
+// Keyword of an inbound message as the responder sees it
+const parse = (content: string) => KeywordResponderService.builtInKeyword(InboundSMSService.keywordOf(content));
+
+describe('InboundSMSService.keywordOf', () => {
+  test('takes the first word, upper-case', () => {
+    expect(InboundSMSService.keywordOf('stop')).toBe('STOP');
+    expect(InboundSMSService.keywordOf('  Stop please\n')).toBe('STOP');
+    expect(InboundSMSService.keywordOf('PROMO\tJUNE')).toBe('PROMO');
+  });
+
+  test('is null for an empty message', () => {
+    expect(InboundSMSService.keywordOf('')).toBeNull();
+    expect(InboundSMSService.keywordOf(' \n ')).toBeNull();
+  });
+});
+
+describe('KeywordResponderService.builtInKeyword', () => {
+  test('recognises opt-out words in any case', () => {
+    for (const content of ['STOP', 'stop', 'Stop sending me these', 'unsubscribe', 'STOPALL', 'quit']) {
+      expect(parse(content)).toEqual({ type: 'opt_out', language: 'en' });
+    }
+  });
+
+  test('recognises opt-in words', () => {
+    for (const content of ['START', 'start again', 'UNSTOP', 'subscribe']) {
+      expect(parse(content)).toEqual({ type: 'opt_in', language: 'en' });
+    }
+  });
+
+  test('recognises help words', () => {
+    expect(parse('help')).toEqual({ type: 'help', language: 'en' });
+    expect(parse('INFO')).toEqual({ type: 'help', language: 'en' });
+    expect(parse('aide')).toEqual({ type: 'help', language: 'fr' });
+  });
+
+  test('matches words in other languages with or without accents', () => {
+    expect(parse('ARRÊT')).toEqual({ type: 'opt_out', language: 'fr' });
+    expect(parse('arret')).toEqual({ type: 'opt_out', language: 'fr' });
+    expect(parse('Désabonner')).toEqual({ type: 'opt_out', language: 'fr' });
+    expect(parse('parar')).toEqual({ type: 'opt_out', language: 'pt' });
+    expect(parse('Sitisha')).toEqual({ type: 'opt_out', language: 'sw' });
+    expect(parse('gyae')).toEqual({ type: 'opt_out', language: 'tw' });
+  });
+
+  test('only looks at the first word', () => {
+    expect(parse('Please stop')).toBeNull();
+    expect(parse('STOPPING')).toBeNull();
+  });
+
+  test('is null without a keyword', () => {
+    expect(KeywordResponderService.builtInKeyword(null)).toBeNull();
+    expect(parse('')).toBeNull();
+    expect(parse('PROMO')).toBeNull();
+  });
+});
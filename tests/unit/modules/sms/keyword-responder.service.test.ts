@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { KeywordResponderService } from '../../../../src/modules/sms/services/keyword-responder.service';
+import { SuppressionService } from '../../../../src/modules/suppressions/services/suppression.service';
+import { SuppressionReason } from '../../../../generated/prisma/client';
+
+const inbound = {
+  id: 'in_1',
+  accountId: 'acc_1',
+  from: '+233244123456',
+  to: 'ACME',
+  content: 'STOP',
+  keyword: null,
+  response: null,
+} as any;
+
+let sendReply: ReturnType<typeof spyOn>;
+const spies: Array<{ mockRestore: () => void }> = [];
+
+beforeEach(() => {
+  fakePrisma.reset();
+  fakePrisma.on('account.findUnique', () => ({ name: 'Acme', businessName: 'ACME', contactPhone: null, contactEmail: null }));
+
+  sendReply = spyOn(KeywordResponderService as any, 'sendReply').mockResolvedValue('msg_1');
+  spies.push(sendReply);
+});
+
+afterEach(() => {
+  spies.splice(0).forEach(spy => spy.mockRestore());
+});
+
+describe('KeywordResponderService.handle', () => {
+  test('confirms an opt-out, then suppresses the number', async () => {
+    const result = await KeywordResponderService.handle(inbound, 'STOP', null);
+
+    expect(result).toMatchObject({ type: 'opt_out', keyword: 'STOP', replyMessageId: 'msg_1' });
+    expect(fakePrisma.callsTo('contact.upsert')[0].update.isSubscribed).toBe(false);
+
+    const [suppression] = fakePrisma.callsTo('suppression.upsert');
+    expect(suppression.create).toMatchObject({ accountId: 'acc_1', phone: '+233244123456', reason: SuppressionReason.OPT_OUT });
+
+    const keys = fakePrisma.calls.map(call => call.key);
+    expect(keys.indexOf('suppression.upsert')).toBeLessThan(keys.indexOf('inboundMessage.update'));
+  });
+
+  test('throws when the opt-out cannot be applied, so the provider retries', async () => {
+    spies.push(spyOn(SuppressionService, 'setOptOut').mockRejectedValue(new Error('connection reset')));
+
+    await expect(KeywordResponderService.handle(inbound, 'STOP', null)).rejects.toThrow('connection reset');
+    expect(fakePrisma.callsTo('inboundMessage.update')).toHaveLength(0);
+  });
+
+  test('still suppresses the number when the confirmation cannot be sent', async () => {
+    sendReply.mockRejectedValue(new Error('no route'));
+
+    const result = await KeywordResponderService.handle(inbound, 'STOP', null);
+
+    expect(result?.replyMessageId).toBeUndefined();
+    expect(fakePrisma.callsTo('suppression.upsert')).toHaveLength(1);
+  });
+
+  test('logs and skips other failures', async () => {
+    fakePrisma.on('keywordResponder.findFirst', () => {
+      throw new Error('connection reset');
+    });
+
+    const result = await KeywordResponderService.handle({ ...inbound, content: 'PROMO' }, 'PROMO', null);
+
+    expect(result).toBeNull();
+    expect(fakePrisma.callsTo('inboundMessage.update')).toHaveLength(0);
+  });
+});
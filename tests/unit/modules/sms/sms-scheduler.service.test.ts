@@ -0,0 +1,59 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { SMSQueueService } from '../../../../src/modules/sms/services/sms-queue.service';
+
+// Recurring email schedules pull in the SMTP stack, which is not needed here
+mock.module('../../../../src/modules/email/services/email.service', () => ({ emailService: {} }));
+
+// Loaded once the mock is in place
+let SMSSchedulerService: any;
+
+const recoverStaleClaims = () => SMSSchedulerService.recoverStaleClaims() as Promise<number>;
+const claimDueMessages = () => SMSSchedulerService.claimDueMessages(100) as Promise<unknown[]>;
+
+let enqueued: Array<{ id: string }>;
+const spies: Array<{ mockRestore: () => void }> = [];
+
+beforeAll(async () => {
+  ({ SMSSchedulerService } = await import('../../../../src/modules/sms/services/sms-scheduler.service'));
+});
+
+beforeEach(() => {
+  fakePrisma.reset();
+  enqueued = [];
+
+  spies.push(
+    spyOn(SMSQueueService, 'enqueue').mockImplementation(async messages => {
+      enqueued.push(...messages);
+    })
+  );
+});
+
+afterEach(() => {
+  spies.splice(0).forEach(spy => spy.mockRestore());
+});
+
+describe('SMSSchedulerService claims', () => {
+  test('leaves campaign messages to the campaign dispatcher', async () => {
+    await claimDueMessages();
+    await recoverStaleClaims();
+
+    const [claim, recovery] = fakePrisma.callsTo('$queryRaw');
+    expect(claim.sql).toContain('"campaignId" IS NULL');
+    expect(recovery.sql).toContain('"campaignId" IS NULL');
+  });
+
+  test('only recovers messages charged before they were queued', async () => {
+    await recoverStaleClaims();
+
+    const [recovery] = fakePrisma.callsTo('$queryRaw');
+    expect(recovery.sql).toContain('"scheduledFor" IS NOT NULL OR "batchId" IS NOT NULL');
+  });
+
+  test('re-queues the stale claims it recovers', async () => {
+    fakePrisma.on('$queryRaw', () => [{ id: 'msg_1', provider: 'mtn-gh' }]);
+
+    expect(await recoverStaleClaims()).toBe(1);
+    expect(enqueued.map(message => message.id)).toEqual(['msg_1']);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { SMSService } from '../../../../src/modules/sms/services/sms.service';
+import { SMSQueueService } from '../../../../src/modules/sms/services/sms-queue.service';
+import { SMSRouterService } from '../../../../src/modules/sms/services/sms-router.service';
+import { SMSAnalyticsService } from '../../../../src/modules/sms/services/sms-analytics.service';
+import { TemplateService } from '../../../../src/modules/sms/services/template.service';
+import { SenderIdService } from '../../../../src/modules/sender-ids/services/sender-id.service';
+import { ConversationService } from '../../../../src/modules/conversations/services/conversation.service';
+import { SuppressionService } from '../../../../src/modules/suppressions/services/suppression.service';
+import { MessageStatus } from '../../../../generated/prisma/client';
+
+const request = { to: '+233244123456', message: 'Your order has shipped', senderId: 'ACME' };
+
+let enqueue: ReturnType<typeof spyOn>;
+const spies: Array<{ mockRestore: () => void }> = [];
+
+beforeEach(() => {
+  fakePrisma.reset();
+  fakePrisma.on('message.create', ({ data }) => ({ id: 'msg_1', createdAt: new Date(), ...data }));
+
+  enqueue = spyOn(SMSQueueService, 'enqueue').mockResolvedValue(undefined);
+
+  spies.push(
+    enqueue,
+    spyOn(SuppressionService, 'assertSendable').mockResolvedValue(undefined),
+    spyOn(SMSService, 'resolveSenderId').mockResolvedValue({ id: 'sid_1', name: 'ACME' }),
+    spyOn(SMSRouterService, 'routeMessage').mockResolvedValue({
+      provider: { id: 'mtn-gh', name: 'MTN Ghana' },
+      country: 'GH',
+      network: 'mtn',
+    } as any),
+    spyOn(SMSRouterService, 'getPricing').mockResolvedValue({ ratePerUnit: 0.05, totalCost: 0.05, currency: 'GHS' } as any),
+    spyOn(TemplateService, 'assertRegistered').mockResolvedValue(undefined),
+    spyOn(SenderIdService, 'assertRegistered').mockResolvedValue(undefined),
+    spyOn(ConversationService, 'findThreadId').mockResolvedValue(null),
+    spyOn(SMSAnalyticsService, 'updateDailyStats').mockResolvedValue(undefined)
+  );
+});
+
+afterEach(() => {
+  spies.splice(0).forEach(spy => spy.mockRestore());
+});
+
+describe('SMSService.sendSMS', () => {
+  test('marks a message QUEUED only once its delivery job is queued', async () => {
+    const result = await SMSService.sendSMS('acc_1', request);
+
+    expect(fakePrisma.callsTo('message.create')[0].data.status).toBe(MessageStatus.PENDING);
+
+    const keys = fakePrisma.calls.map(call => call.key);
+    expect(keys).toEqual(['message.create', 'message.update']);
+    expect(enqueue).toHaveBeenCalledTimes(1);
+
+    const [queued] = fakePrisma.callsTo('message.update');
+    expect(queued).toMatchObject({ where: { id: 'msg_1' }, data: { status: MessageStatus.QUEUED } });
+    expect(result.status).toBe(MessageStatus.QUEUED);
+  });
+
+  test('fails the message and throws when it cannot be queued', async () => {
+    enqueue.mockRejectedValue(new Error('Redis unavailable'));
+
+    await expect(SMSService.sendSMS('acc_1', request)).rejects.toThrow('Redis unavailable');
+
+    const [failed] = fakePrisma.callsTo('message.update');
+    expect(failed.data.status).toBe(MessageStatus.FAILED);
+    expect(failed.data.errorMessage).toContain('Redis unavailable');
+  });
+
+  test('leaves a scheduled message PENDING for the scheduler', async () => {
+    const scheduledFor = new Date(Date.now() + 3600_000).toISOString();
+
+    const result = await SMSService.sendSMS('acc_1', { ...request, scheduledFor });
+
+    expect(enqueue).not.toHaveBeenCalled();
+    expect(fakePrisma.callsTo('message.update')).toHaveLength(0);
+    expect(result.status).toBe(MessageStatus.PENDING);
+  });
+});
+
+describe('SMSQueueService delivery', () => {
+  const deliver = (messageId: string) =>
+    (SMSQueueService as any).deliver({ id: messageId, data: { messageId }, attempts: 1 }) as Promise<void>;
+
+  test('retries a job that ran before its message was marked QUEUED', async () => {
+    fakePrisma.on('message.findUnique', () => ({
+      id: 'msg_1',
+      status: MessageStatus.PENDING,
+      scheduledFor: null,
+      campaignId: null,
+    }));
+
+    await expect(deliver('msg_1')).rejects.toThrow('Message is not queued yet');
+  });
+
+  test('skips a scheduled message that is not due', async () => {
+    fakePrisma.on('message.findUnique', () => ({
+      id: 'msg_1',
+      status: MessageStatus.PENDING,
+      scheduledFor: new Date(Date.now() + 3600_000),
+      campaignId: null,
+    }));
+
+    await deliver('msg_1');
+
+    expect(fakePrisma.callsTo('message.update')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { fakePrisma } from '../../../fixtures/prisma.fixture';
+import { SuppressionService } from '../../../../src/modules/suppressions/services/suppression.service';
+import { MessageType, SuppressionReason } from '../../../../generated/prisma/client';
+
+beforeEach(() => {
+  fakePrisma.reset();
+});
+
+describe('SuppressionService.check', () => {
+  test('prefers platform entries over the account list', async () => {
+    fakePrisma.on('suppression.findMany', () => [
+      { phone: '+233244123456', reason: SuppressionReason.DND_REGISTRY, accountId: null },
+      { phone: '+233244123456', reason: SuppressionReason.MANUAL, accountId: 'acc_1' },
+    ]);
+
+    const suppressed = await SuppressionService.check('acc_1', ['+233244123456']);
+
+    expect(suppressed.get('+233244123456')).toBe(SuppressionReason.DND_REGISTRY);
+  });
+
+  test('counts unsubscribed contacts as opted out', async () => {
+    fakePrisma.on('contact.findMany', () => [{ phone: '+233201234567' }]);
+
+    const suppressed = await SuppressionService.check('acc_1', ['+233201234567', '+233244123456']);
+
+    expect([...suppressed]).toEqual([['+233201234567', SuppressionReason.OPT_OUT]]);
+  });
+});
+
+describe('SuppressionService.assertSendable', () => {
+  test('refuses a suppressed number and lets OTPs through', async () => {
+    fakePrisma.on('suppression.findMany', () => [
+      { phone: '+233244123456', reason: SuppressionReason.COMPLAINT, accountId: 'acc_1' },
+    ]);
+
+    await expect(
+      SuppressionService.assertSendable('acc_1', '+233244123456', MessageType.SMS)
+    ).rejects.toThrow('Recipient is suppressed: recipient complained');
+
+    await SuppressionService.assertSendable('acc_1', '+233244123456', MessageType.OTP);
+  });
+});
+
+describe('SuppressionService.add', () => {
+  test('adds only new numbers to the platform list, under a lock', async () => {
+    fakePrisma
+      .on('suppression.findMany', () => [{ phone: '+233244123456' }])
+      .on('suppression.createMany', ({ data }) => ({ count: data.length }));
+
+    const result = await SuppressionService.add(
+      null,
+      ['233244123456', '+233201234567', '+233201234567', 'not-a-number'],
+      { reason: SuppressionReason.DND_REGISTRY, source: 'NCA' }
+    );
+
+    expect(result).toMatchObject({ added: 1, existing: 2, invalid: 1 });
+
+    const [lock] = fakePrisma.callsTo('$executeRaw');
+    expect(lock.sql).toContain('pg_advisory_xact_lock');
+    expect(lock.values).toEqual(['suppressions:platform']);
+
+    const [insert] = fakePrisma.callsTo('suppression.createMany');
+    expect(insert.data).toEqual([
+      { accountId: null, phone: '+233201234567', reason: SuppressionReason.DND_REGISTRY, source: 'NCA', note: undefined },
+    ]);
+
+    // The lock is taken before the existing numbers are read
+    const keys = fakePrisma.calls.map(call => call.key);
+    expect(keys).toEqual(['$executeRaw', 'suppression.findMany', 'suppression.createMany']);
+  });
+});
+
+describe('SuppressionService.remove', () => {
+  test('keeps an account opt-out until the recipient opts back in', async () => {
+    fakePrisma.on('suppression.findFirst', () => ({ id: 'sup_1', accountId: 'acc_1', reason: SuppressionReason.OPT_OUT }));
+
+    await expect(SuppressionService.remove('acc_1', 'sup_1')).rejects.toThrow('the recipient must text START');
+    expect(fakePrisma.callsTo('suppression.delete')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, test } from 'bun:test';
+import { detectNetwork } from '../../../src/core/utils/phone';
+
+describe('detectNetwork', () => {
+  test('detects Ghana networks from the number prefix', () => {
+    expect(detectNetwork('+233201234567')).toEqual({ country: 'GH', network: 'telecel', operator: 'Telecel Ghana' });
+    expect(detectNetwork('+233244123456')).toEqual({ country: 'GH', network: 'mtn', operator: 'MTN Ghana' });
+    expect(detectNetwork('+233271234567')).toEqual({ country: 'GH', network: 'airteltigo', operator: 'AirtelTigo' });
+  });
+
+  test('ignores formatting', () => {
+    expect(detectNetwork('233 (24) 412-3456').network).toBe('mtn');
+  });
+
+  test('detects networks in other countries', () => {
+    expect(detectNetwork('+2348031234567')).toMatchObject({ country: 'NG', network: 'mtn' });
+    expect(detectNetwork('+254712345678')).toMatchObject({ country: 'KE', network: 'airtel' });
+  });
+
+  test('returns nulls for an unknown prefix', () => {
+    expect(detectNetwork('+14155550100')).toEqual({ country: null, network: null, operator: null });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  countOccurrences,
+  firstOccurrence,
+  hasExplicitOffset,
+  nextOccurrence,
+  resolveInstant,
+  type RecurrenceRule,
+} from '@utils/recurrence';
+
+// Every occurrence of a rule from its start, up to `limit`
+function occurrences(start: Date, timezone: string, rule: RecurrenceRule, limit = 10): Date[] {
+  const dates: Date[] = [];
+  let next = firstOccurrence({ start, timezone, rule });
+
+  while (next && dates.length < limit) {
+    dates.push(next);
+    next = nextOccurrence({ start, timezone, rule, after: next, occurrences: dates.length });
+  }
+
+  return dates;
+}
+
+describe('resolveInstant', () => {
+  test('reads strings without an offset as wall-clock time in the timezone', () => {
+    expect(resolveInstant('2025-01-15T09:00:00', 'Africa/Nairobi').toISOString()).toBe('2025-01-15T06:00:00.000Z');
+  });
+
+  test('keeps strings with an offset as they are', () => {
+    expect(hasExplicitOffset('2025-01-15T09:00:00+02:00')).toBe(true);
+    expect(resolveInstant('2025-01-15T09:00:00Z', 'Africa/Nairobi').toISOString()).toBe('2025-01-15T09:00:00.000Z');
+  });
+});
+
+describe('nextOccurrence', () => {
+  test('keeps the local send time across a DST change', () => {
+    // New York moves to EDT on 2025-03-09
+    const start = resolveInstant('2025-03-08T09:00:00', 'America/New_York');
+    const dates = occurrences(start, 'America/New_York', { frequency: 'daily', count: 3 });
+
+    expect(dates.map(date => date.toISOString())).toEqual([
+      '2025-03-08T14:00:00.000Z',
+      '2025-03-09T13:00:00.000Z',
+      '2025-03-10T13:00:00.000Z',
+    ]);
+  });
+
+  test('follows the timezone back to standard time', () => {
+    // London leaves BST on 2025-10-26
+    const start = resolveInstant('2025-10-18T09:00:00', 'Europe/London');
+    const dates = occurrences(start, 'Europe/London', { frequency: 'weekly', count: 3 });
+
+    expect(dates.map(date => date.toISOString())).toEqual([
+      '2025-10-18T08:00:00.000Z',
+      '2025-10-25T08:00:00.000Z',
+      '2025-11-01T09:00:00.000Z',
+    ]);
+  });
+
+  test('stops after `count` occurrences', () => {
+    const start = new Date('2025-01-01T09:00:00Z');
+    const rule: RecurrenceRule = { frequency: 'daily', count: 2 };
+
+    expect(occurrences(start, 'UTC', rule)).toHaveLength(2);
+    expect(nextOccurrence({ start, timezone: 'UTC', rule, after: start, occurrences: 2 })).toBeNull();
+  });
+
+  test('stops after `until`', () => {
+    const start = new Date('2025-01-01T09:00:00Z');
+    const dates = occurrences(start, 'UTC', { frequency: 'daily', until: '2025-01-03T12:00:00Z' });
+
+    expect(dates.map(date => date.toISOString())).toEqual([
+      '2025-01-01T09:00:00.000Z',
+      '2025-01-02T09:00:00.000Z',
+      '2025-01-03T09:00:00.000Z',
+    ]);
+  });
+
+  test('runs on the listed weekdays every `interval` weeks', () => {
+    // 2025-01-06 is a Monday
+    const start = new Date('2025-01-06T08:00:00Z');
+    const dates = occurrences(start, 'UTC', { frequency: 'weekly', interval: 2, byWeekday: ['MO', 'TH'] }, 4);
+
+    expect(dates.map(date => date.toISOString().slice(0, 10))).toEqual([
+      '2025-01-06',
+      '2025-01-09',
+      '2025-01-20',
+      '2025-01-23',
+    ]);
+  });
+
+  test('counts negative month days from the end of the month', () => {
+    const start = new Date('2025-01-31T10:00:00Z');
+    const dates = occurrences(start, 'UTC', { frequency: 'monthly', byMonthDay: -1 }, 3);
+
+    expect(dates.map(date => date.toISOString().slice(0, 10))).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-31',
+    ]);
+  });
+
+  test('skips months without the requested day', () => {
+    const start = new Date('2025-01-31T10:00:00Z');
+    const dates = occurrences(start, 'UTC', { frequency: 'monthly' }, 3);
+
+    expect(dates.map(date => date.toISOString().slice(0, 10))).toEqual([
+      '2025-01-31',
+      '2025-03-31',
+      '2025-05-31',
+    ]);
+  });
+});
+
+describe('countOccurrences', () => {
+  const start = new Date('2025-01-01T09:00:00Z');
+
+  test('counts occurrences up to and including `through`', () => {
+    const rule: RecurrenceRule = { frequency: 'daily' };
+
+    expect(countOccurrences({ start, timezone: 'UTC', rule, through: new Date('2024-12-31T00:00:00Z') })).toBe(0);
+    expect(countOccurrences({ start, timezone: 'UTC', rule, through: start })).toBe(1);
+    expect(countOccurrences({ start, timezone: 'UTC', rule, through: new Date('2025-01-03T10:00:00Z') })).toBe(3);
+  });
+
+  test('never counts past the rule count', () => {
+    const rule: RecurrenceRule = { frequency: 'daily', count: 5 };
+
+    expect(countOccurrences({ start, timezone: 'UTC', rule, through: new Date('2026-01-01T00:00:00Z') })).toBe(5);
+  });
+
+  test('skipped occurrences use up the count', () => {
+    const rule: RecurrenceRule = { frequency: 'daily', count: 5 };
+    const now = new Date('2025-01-03T10:00:00Z');
+    const elapsed = countOccurrences({ start, timezone: 'UTC', rule, through: now });
+
+    const next = nextOccurrence({ start, timezone: 'UTC', rule, after: now, occurrences: elapsed });
+    expect(next?.toISOString()).toBe('2025-01-04T09:00:00.000Z');
+
+    const last = nextOccurrence({ start, timezone: 'UTC', rule, after: new Date('2025-01-05T10:00:00Z'), occurrences: 5 });
+    expect(last).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  SIGNATURE_TOLERANCE_SECONDS,
+  computeSignature,
+  signPayload,
+  verifySignature,
+  verifyTwilioSignature,
+} from '../../../src/webhooks/utils/signature';
+import { createHmac } from 'crypto';
+
+const body = JSON.stringify({ event: 'MESSAGE_DELIVERED', data: { id: 'msg_1' } });
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('signPayload', () => {
+  test('signs `<timestamp>.<body>` with HMAC-SHA256', () => {
+    const { header, signatures } = signPayload('whsec_one', body, 1700000000);
+
+    expect(signatures).toEqual([computeSignature('whsec_one', 1700000000, body)]);
+    expect(header).toBe(`t=1700000000,v1=${signatures[0]}`);
+    expect(signatures[0]).toBe(
+      createHmac('sha256', 'whsec_one').update(`1700000000.${body}`).digest('hex')
+    );
+  });
+
+  test('adds one `v1` per secret while a secret is being rotated', () => {
+    const { header } = signPayload(['whsec_new', 'whsec_old'], body, 1700000000);
+
+    expect(header.split(',').filter(part => part.startsWith('v1='))).toHaveLength(2);
+  });
+});
+
+describe('verifySignature', () => {
+  test('accepts a fresh signature', () => {
+    const { header } = signPayload('whsec_one', body);
+
+    expect(verifySignature('whsec_one', body, header)).toBe(true);
+  });
+
+  test('rejects a changed body or the wrong secret', () => {
+    const { header } = signPayload('whsec_one', body);
+
+    expect(verifySignature('whsec_one', `${body} `, header)).toBe(false);
+    expect(verifySignature('whsec_two', body, header)).toBe(false);
+  });
+
+  test('rejects missing or malformed headers', () => {
+    expect(verifySignature('whsec_one', body, undefined)).toBe(false);
+    expect(verifySignature('whsec_one', body, '')).toBe(false);
+    expect(verifySignature('whsec_one', body, `v1=${computeSignature('whsec_one', now(), body)}`)).toBe(false);
+    expect(verifySignature('whsec_one', body, `t=${now()}`)).toBe(false);
+  });
+
+  test('rejects timestamps outside the tolerance', () => {
+    const stale = now() - SIGNATURE_TOLERANCE_SECONDS - 1;
+    const future = now() + SIGNATURE_TOLERANCE_SECONDS + 1;
+
+    expect(verifySignature('whsec_one', body, signPayload('whsec_one', body, stale).header)).toBe(false);
+    expect(verifySignature('whsec_one', body, signPayload('whsec_one', body, future).header)).toBe(false);
+  });
+
+  test('accepts timestamps inside a custom tolerance', () => {
+    const old = now() - 600;
+    const { header } = signPayload('whsec_one', body, old);
+
+    expect(verifySignature('whsec_one', body, header)).toBe(false);
+    expect(verifySignature('whsec_one', body, header, 900)).toBe(true);
+  });
+
+  test('receivers on either secret verify during a rotation', () => {
+    const { header } = signPayload(['whsec_new', 'whsec_old'], body);
+
+    expect(verifySignature('whsec_new', body, header)).toBe(true);
+    expect(verifySignature('whsec_old', body, header)).toBe(true);
+    expect(verifySignature(['whsec_other', 'whsec_old'], body, header)).toBe(true);
+    expect(verifySignature('whsec_other', body, header)).toBe(false);
+  });
+
+  test('ignores `v1` values of the wrong length', () => {
+    const timestamp = now();
+    const valid = computeSignature('whsec_one', timestamp, body);
+
+    expect(verifySignature('whsec_one', body, `t=${timestamp},v1=abcd,v1=${valid}`)).toBe(true);
+    expect(verifySignature('whsec_one', body, `t=${timestamp},v1=abcd`)).toBe(false);
+  });
+});
+
+describe('verifyTwilioSignature', () => {
+  const url = 'https://api.example.com/webhooks/sms/twilio/status';
+  const params = { MessageStatus: 'delivered', MessageSid: 'SM123', To: '+233244123456' };
+
+  const sign = (token: string) => createHmac('sha1', token)
+    .update(`${url}MessageSid${params.MessageSid}MessageStatus${params.MessageStatus}To${params.To}`)
+    .digest('base64');
+
+  test('accepts the signature of the URL and sorted parameters', () => {
+    expect(verifyTwilioSignature('auth_token', url, params, sign('auth_token'))).toBe(true);
+  });
+
+  test('rejects another token, changed parameters or no header', () => {
+    expect(verifyTwilioSignature('auth_token', url, params, sign('other_token'))).toBe(false);
+    expect(verifyTwilioSignature('auth_token', url, { ...params, MessageStatus: 'failed' }, sign('auth_token'))).toBe(false);
+    expect(verifyTwilioSignature('auth_token', url, params, null)).toBe(false);
+  });
+});